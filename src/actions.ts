@@ -2,8 +2,8 @@
 // Ported from OpenClaw pw-tools-core.interactions.ts (MIT License)
 
 import type { Page } from "playwright-core";
-import { getPage, getStoredRefs, refLocator, takeSnapshot } from "./browser.js";
-import { requireRef, normalizeTimeoutMs, toAIFriendlyError, jsonOutput, validateNavigationUrl, validateScreenshotPath } from "./shared.js";
+import { getPage, getStoredRefs, locateRef, takeSnapshot } from "./browser.js";
+import { requireRef, normalizeTimeoutMs, toAIFriendlyError, jsonOutput, validateNavigationUrl, validateScreenshotPath, waitInSlices, untilAborted } from "./shared.js";
 import type { ActionResult } from "./types.js";
 
 // --- Click ---
@@ -19,7 +19,7 @@ export async function click(opts: {
   const ref = requireRef(opts.ref);
   const page = await getPage(opts.targetId);
   const state = getStoredRefs(opts.targetId ?? "default");
-  const locator = refLocator(page, ref, state);
+  const { locator, via, release } = await locateRef(page, ref, state);
   const timeout = normalizeTimeoutMs(opts.timeoutMs, 5000);
 
   try {
@@ -41,9 +41,11 @@ export async function click(opts: {
     } else {
       await locator.click(clickOpts);
     }
-    return { ok: true, message: `Clicked ${ref}` };
+    return { ok: true, message: `Clicked ${ref}`, resolved_via: via };
   } catch (error) {
     throw toAIFriendlyError(error, ref);
+  } finally {
+    await release();
   }
 }
 
@@ -60,7 +62,7 @@ export async function type(opts: {
   const ref = requireRef(opts.ref);
   const page = await getPage(opts.targetId);
   const state = getStoredRefs(opts.targetId ?? "default");
-  const locator = refLocator(page, ref, state);
+  const { locator, via, release } = await locateRef(page, ref, state);
   const timeout = normalizeTimeoutMs(opts.timeoutMs, 5000);
 
   try {
@@ -71,9 +73,11 @@ export async function type(opts: {
     if (opts.pressEnter) {
       await locator.press("Enter", { timeout });
     }
-    return { ok: true, message: `Typed into ${ref}` };
+    return { ok: true, message: `Typed into ${ref}`, resolved_via: via };
   } catch (error) {
     throw toAIFriendlyError(error, ref);
+  } finally {
+    await release();
   }
 }
 
@@ -86,14 +90,16 @@ export async function fill(opts: {
   const ref = requireRef(opts.ref);
   const page = await getPage(opts.targetId);
   const state = getStoredRefs(opts.targetId ?? "default");
-  const locator = refLocator(page, ref, state);
+  const { locator, via, release } = await locateRef(page, ref, state);
   const timeout = normalizeTimeoutMs(opts.timeoutMs, 5000);
 
   try {
     await locator.fill(opts.value, { timeout });
-    return { ok: true, message: `Filled ${ref}` };
+    return { ok: true, message: `Filled ${ref}`, resolved_via: via };
   } catch (error) {
     throw toAIFriendlyError(error, ref);
+  } finally {
+    await release();
   }
 }
 
@@ -108,14 +114,16 @@ export async function selectOption(opts: {
   const ref = requireRef(opts.ref);
   const page = await getPage(opts.targetId);
   const state = getStoredRefs(opts.targetId ?? "default");
-  const locator = refLocator(page, ref, state);
+  const { locator, via, release } = await locateRef(page, ref, state);
   const timeout = normalizeTimeoutMs(opts.timeoutMs, 5000);
 
   try {
     const selected = await locator.selectOption(opts.values, { timeout });
-    return { ok: true, message: `Selected ${selected.length} option(s) on ${ref}`, data: selected };
+    return { ok: true, message: `Selected ${selected.length} option(s) on ${ref}`, data: selected, resolved_via: via };
   } catch (error) {
     throw toAIFriendlyError(error, ref);
+  } finally {
+    await release();
   }
 }
 
@@ -130,14 +138,16 @@ export async function setChecked(opts: {
   const ref = requireRef(opts.ref);
   const page = await getPage(opts.targetId);
   const state = getStoredRefs(opts.targetId ?? "default");
-  const locator = refLocator(page, ref, state);
+  const { locator, via, release } = await locateRef(page, ref, state);
   const timeout = normalizeTimeoutMs(opts.timeoutMs, 5000);
 
   try {
     await locator.setChecked(opts.checked, { timeout });
-    return { ok: true, message: `Set ${ref} checked=${opts.checked}` };
+    return { ok: true, message: `Set ${ref} checked=${opts.checked}`, resolved_via: via };
   } catch (error) {
     throw toAIFriendlyError(error, ref);
+  } finally {
+    await release();
   }
 }
 
@@ -151,14 +161,16 @@ export async function hover(opts: {
   const ref = requireRef(opts.ref);
   const page = await getPage(opts.targetId);
   const state = getStoredRefs(opts.targetId ?? "default");
-  const locator = refLocator(page, ref, state);
+  const { locator, via, release } = await locateRef(page, ref, state);
   const timeout = normalizeTimeoutMs(opts.timeoutMs, 5000);
 
   try {
     await locator.hover({ timeout });
-    return { ok: true, message: `Hovered ${ref}` };
+    return { ok: true, message: `Hovered ${ref}`, resolved_via: via };
   } catch (error) {
     throw toAIFriendlyError(error, ref);
+  } finally {
+    await release();
   }
 }
 
@@ -174,15 +186,19 @@ export async function drag(opts: {
   const tgtRef = requireRef(opts.targetRef);
   const page = await getPage(opts.targetId);
   const state = getStoredRefs(opts.targetId ?? "default");
-  const srcLocator = refLocator(page, srcRef, state);
-  const tgtLocator = refLocator(page, tgtRef, state);
+  const { locator: srcLocator, via, release } = await locateRef(page, srcRef, state);
+  const { locator: tgtLocator, via: targetVia, release: releaseTarget } = await locateRef(page, tgtRef, state)
+    .catch(async (err: unknown) => { await release(); throw err; });
   const timeout = normalizeTimeoutMs(opts.timeoutMs, 10000);
 
   try {
     await srcLocator.dragTo(tgtLocator, { timeout });
-    return { ok: true, message: `Dragged ${srcRef} → ${tgtRef}` };
+    return { ok: true, message: `Dragged ${srcRef} → ${tgtRef}`, resolved_via: via, target_resolved_via: targetVia };
   } catch (error) {
     throw toAIFriendlyError(error, `${srcRef} → ${tgtRef}`);
+  } finally {
+    await release();
+    await releaseTarget();
   }
 }
 
@@ -203,11 +219,15 @@ export async function scroll(opts: {
   try {
     if (opts.ref) {
       const state = getStoredRefs(opts.targetId ?? "default");
-      const locator = refLocator(page, requireRef(opts.ref), state);
-      await locator.scrollIntoViewIfNeeded({ timeout: 5000 });
-    } else {
-      await page.mouse.wheel(deltaX, deltaY);
+      const { locator, via, release } = await locateRef(page, requireRef(opts.ref), state);
+      try {
+        await locator.scrollIntoViewIfNeeded({ timeout: 5000 });
+        return { ok: true, message: `Scrolled ${opts.direction} ${pixels}px`, resolved_via: via };
+      } finally {
+        await release();
+      }
     }
+    await page.mouse.wheel(deltaX, deltaY);
     return { ok: true, message: `Scrolled ${opts.direction} ${pixels}px` };
   } catch (error) {
     throw toAIFriendlyError(error, opts.ref ?? "page");
@@ -220,36 +240,57 @@ export async function navigate(opts: {
   targetId?: string;
   url: string;
   timeoutMs?: number;
+  /** Stops the page load when the request is cancelled or its deadline passes */
+  signal?: AbortSignal;
 }): Promise<ActionResult> {
   validateNavigationUrl(opts.url);
   const page = await getPage(opts.targetId);
   const timeout = normalizeTimeoutMs(opts.timeoutMs, 30000);
 
   try {
-    const response = await page.goto(opts.url, { timeout, waitUntil: "domcontentloaded" });
+    const response = await untilAborted(
+      page.goto(opts.url, { timeout, waitUntil: "domcontentloaded" }),
+      opts.signal,
+      () => { stopLoading(page).catch(() => {}); },
+    );
     return {
       ok: true,
       message: `Navigated to ${opts.url}`,
       data: { status: response?.status(), url: page.url() },
     };
   } catch (error) {
+    if (opts.signal?.aborted) throw opts.signal.reason;
     throw new Error(`Navigation to "${opts.url}" failed: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
+/** Stop the tab's in-flight navigation (the browser's stop button). */
+async function stopLoading(page: Page): Promise<void> {
+  const session = await page.context().newCDPSession(page);
+  try {
+    await session.send("Page.stopLoading");
+  } finally {
+    await session.detach().catch(() => {});
+  }
+}
+
 // --- Wait ---
+// Waits take the request's signal: waitInSlices stops them within a slice of a
+// cancel or deadline, and the abort reason is rethrown as-is.
 
 export async function waitForNavigation(opts: {
   targetId?: string;
   timeoutMs?: number;
+  signal?: AbortSignal;
 }): Promise<ActionResult> {
   const page = await getPage(opts.targetId);
   const timeout = normalizeTimeoutMs(opts.timeoutMs, 30000);
 
   try {
-    await page.waitForLoadState("domcontentloaded", { timeout });
+    await waitInSlices((slice) => page.waitForLoadState("domcontentloaded", { timeout: slice }), timeout, opts.signal);
     return { ok: true, message: `Page loaded: ${page.url()}`, data: { url: page.url() } };
   } catch (error) {
+    if (opts.signal?.aborted) throw opts.signal.reason;
     throw new Error(`Wait timed out: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
@@ -259,23 +300,34 @@ export async function waitForSelector(opts: {
   ref: string;
   state?: "visible" | "hidden" | "attached" | "detached";
   timeoutMs?: number;
+  signal?: AbortSignal;
 }): Promise<ActionResult> {
   const ref = requireRef(opts.ref);
   const page = await getPage(opts.targetId);
   const state = getStoredRefs(opts.targetId ?? "default");
-  const locator = refLocator(page, ref, state);
+  const { locator, via, release } = await locateRef(page, ref, state);
   const timeout = normalizeTimeoutMs(opts.timeoutMs, 10000);
 
   try {
-    await locator.waitFor({ state: opts.state ?? "visible", timeout });
-    return { ok: true, message: `Element ${ref} is ${opts.state ?? "visible"}` };
+    await waitInSlices((slice) => locator.waitFor({ state: opts.state ?? "visible", timeout: slice }), timeout, opts.signal);
+    return { ok: true, message: `Element ${ref} is ${opts.state ?? "visible"}`, resolved_via: via };
   } catch (error) {
+    if (opts.signal?.aborted) throw opts.signal.reason;
     throw toAIFriendlyError(error, ref);
+  } finally {
+    await release();
   }
 }
 
 // --- Screenshot ---
 
+// Default directory for screenshots taken without --path (screenshot-dir config key)
+let screenshotDir = "/tmp";
+
+export function setScreenshotDir(dir: string): void {
+  screenshotDir = dir.replace(/\/+$/, "") || "/";
+}
+
 export async function screenshot(opts: {
   targetId?: string;
   ref?: string;
@@ -283,16 +335,20 @@ export async function screenshot(opts: {
   fullPage?: boolean;
 }): Promise<ActionResult> {
   const page = await getPage(opts.targetId);
-  const outputPath = validateScreenshotPath(opts.path ?? `/tmp/jarvis-screenshot-${Date.now()}.png`);
+  const outputPath = validateScreenshotPath(opts.path ?? `${screenshotDir}/jarvis-screenshot-${Date.now()}.png`);
 
   try {
     if (opts.ref) {
       const state = getStoredRefs(opts.targetId ?? "default");
-      const locator = refLocator(page, requireRef(opts.ref), state);
-      await locator.screenshot({ path: outputPath });
-    } else {
-      await page.screenshot({ path: outputPath, fullPage: opts.fullPage ?? false });
+      const { locator, via, release } = await locateRef(page, requireRef(opts.ref), state);
+      try {
+        await locator.screenshot({ path: outputPath });
+        return { ok: true, message: `Screenshot saved to ${outputPath}`, data: { path: outputPath }, resolved_via: via };
+      } finally {
+        await release();
+      }
     }
+    await page.screenshot({ path: outputPath, fullPage: opts.fullPage ?? false });
     return { ok: true, message: `Screenshot saved to ${outputPath}`, data: { path: outputPath } };
   } catch (error) {
     throw new Error(`Screenshot failed: ${error instanceof Error ? error.message : String(error)}`);
@@ -329,11 +385,15 @@ export async function pressKey(opts: {
   try {
     if (opts.ref) {
       const state = getStoredRefs(opts.targetId ?? "default");
-      const locator = refLocator(page, requireRef(opts.ref), state);
-      await locator.press(opts.key, { timeout });
-    } else {
-      await page.keyboard.press(opts.key);
+      const { locator, via, release } = await locateRef(page, requireRef(opts.ref), state);
+      try {
+        await locator.press(opts.key, { timeout });
+        return { ok: true, message: `Pressed ${opts.key}`, resolved_via: via };
+      } finally {
+        await release();
+      }
     }
+    await page.keyboard.press(opts.key);
     return { ok: true, message: `Pressed ${opts.key}` };
   } catch (error) {
     throw toAIFriendlyError(error, opts.ref ?? "page");
@@ -375,9 +435,13 @@ export async function getText(opts: {
     if (opts.ref) {
       const ref = requireRef(opts.ref);
       const state = getStoredRefs(opts.targetId ?? "default");
-      const locator = refLocator(page, ref, state);
-      const text = await locator.textContent({ timeout });
-      return { ok: true, message: `Text of ${ref}`, data: text?.trim() ?? "" };
+      const { locator, via, release } = await locateRef(page, ref, state);
+      try {
+        const text = await locator.textContent({ timeout });
+        return { ok: true, message: `Text of ${ref}`, data: text?.trim() ?? "", resolved_via: via };
+      } finally {
+        await release();
+      }
     }
     // No ref: get full page body text
     const text = await page.locator("body").innerText({ timeout });
@@ -396,14 +460,16 @@ export async function getAttribute(opts: {
   const ref = requireRef(opts.ref);
   const page = await getPage(opts.targetId);
   const state = getStoredRefs(opts.targetId ?? "default");
-  const locator = refLocator(page, ref, state);
+  const { locator, via, release } = await locateRef(page, ref, state);
   const timeout = normalizeTimeoutMs(opts.timeoutMs, 5000);
 
   try {
     const value = await locator.getAttribute(opts.name, { timeout });
-    return { ok: true, message: `${opts.name} of ${ref}`, data: value };
+    return { ok: true, message: `${opts.name} of ${ref}`, data: value, resolved_via: via };
   } catch (error) {
     throw toAIFriendlyError(error, ref);
+  } finally {
+    await release();
   }
 }
 
@@ -413,13 +479,15 @@ export async function waitForText(opts: {
   targetId?: string;
   text: string;
   timeoutMs?: number;
+  signal?: AbortSignal;
 }): Promise<ActionResult> {
   const page = await getPage(opts.targetId);
   const timeout = normalizeTimeoutMs(opts.timeoutMs, 10000);
   try {
-    await page.getByText(opts.text).first().waitFor({ state: "visible", timeout });
+    await waitInSlices((slice) => page.getByText(opts.text).first().waitFor({ state: "visible", timeout: slice }), timeout, opts.signal);
     return { ok: true, message: `Text "${opts.text}" is visible` };
   } catch (error) {
+    if (opts.signal?.aborted) throw opts.signal.reason;
     throw new Error(`waitForText timed out: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
@@ -428,13 +496,15 @@ export async function waitForUrl(opts: {
   targetId?: string;
   url: string;
   timeoutMs?: number;
+  signal?: AbortSignal;
 }): Promise<ActionResult> {
   const page = await getPage(opts.targetId);
   const timeout = normalizeTimeoutMs(opts.timeoutMs, 30000);
   try {
-    await page.waitForURL(opts.url, { timeout });
+    await waitInSlices((slice) => page.waitForURL(opts.url, { timeout: slice }), timeout, opts.signal);
     return { ok: true, message: `URL matches "${opts.url}"`, data: { url: page.url() } };
   } catch (error) {
+    if (opts.signal?.aborted) throw opts.signal.reason;
     throw new Error(`waitForUrl timed out: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
@@ -443,14 +513,16 @@ export async function waitForJS(opts: {
   targetId?: string;
   expression: string;
   timeoutMs?: number;
+  signal?: AbortSignal;
 }): Promise<ActionResult> {
   const page = await getPage(opts.targetId);
   const timeout = normalizeTimeoutMs(opts.timeoutMs, 10000);
   try {
     // Pass null as arg (no arg needed) and options as third param
-    await page.waitForFunction(opts.expression, null, { timeout });
+    await waitInSlices((slice) => page.waitForFunction(opts.expression, null, { timeout: slice }), timeout, opts.signal);
     return { ok: true, message: "JS expression is truthy" };
   } catch (error) {
+    if (opts.signal?.aborted) throw opts.signal.reason;
     throw new Error(`waitForJS timed out: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
@@ -458,13 +530,15 @@ export async function waitForJS(opts: {
 export async function waitForNetworkIdle(opts: {
   targetId?: string;
   timeoutMs?: number;
+  signal?: AbortSignal;
 }): Promise<ActionResult> {
   const page = await getPage(opts.targetId);
   const timeout = normalizeTimeoutMs(opts.timeoutMs, 30000);
   try {
-    await page.waitForLoadState("networkidle", { timeout });
+    await waitInSlices((slice) => page.waitForLoadState("networkidle", { timeout: slice }), timeout, opts.signal);
     return { ok: true, message: "Network is idle" };
   } catch (error) {
+    if (opts.signal?.aborted) throw opts.signal.reason;
     throw new Error(`waitForNetworkIdle timed out: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
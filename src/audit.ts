@@ -0,0 +1,202 @@
+// audit.ts — Append-only JSONL audit log of every RPC the daemon handles
+// One line per request: who (worker), what (method + redacted params), outcome
+// (status, error code) and how long it took. Files rotate by size:
+// audit.jsonl → audit.jsonl.1 → … → audit.jsonl.<maxFiles-1>, oldest dropped.
+
+import { appendFile, readFile, rename, stat, unlink } from "node:fs/promises";
+import { SECRET_KEYS, type ConfigKey } from "./config.js";
+
+// --- Types ---
+
+export interface AuditEntry {
+  ts: string;            // ISO 8601
+  worker: string;        // "" when the caller sent no workerId
+  method: string;
+  params: Record<string, unknown>;
+  status: "ok" | "error";
+  duration_ms: number;
+  error_code?: number;
+  error?: string;
+}
+
+export interface AuditOptions {
+  path: string;
+  /** Rotate once the active file would exceed this size (bytes) */
+  maxBytes: number;
+  /** Files kept including the active one (>= 1) */
+  maxFiles: number;
+  /** Also redact session names (session.* `name`) */
+  redactSessionNames: boolean;
+}
+
+export interface AuditQuery {
+  /** Only entries at or after this Unix ms */
+  since?: number;
+  worker?: string;
+  /** Exact method name, or a prefix ending in "*" (e.g. "storage.*") */
+  method?: string;
+  /** Keep only the newest N matches */
+  last?: number;
+}
+
+export const REDACTED = "[REDACTED]";
+
+export function getAuditLogPath(): string {
+  const workerId = process.env.JARVIS_WORKER_ID;
+  return workerId
+    ? `/tmp/jarvis-browser-audit-${workerId}.jsonl`
+    : "/tmp/jarvis-browser-audit.jsonl";
+}
+
+// --- Redaction ---
+
+// Params whose values are user secrets (typed text, cookies, storage values, tokens,
+// extra HTTP headers such as Authorization)
+const SECRET_PARAMS: Record<string, readonly string[]> = {
+  fill: ["value"],
+  type: ["text"],
+  "set-cookie": ["cookieJson"],
+  "storage.set": ["value"],
+  "set.headers": ["headersJson"],
+  auth: ["token"],
+};
+
+const SESSION_NAME_METHODS = new Set([
+  "session.save", "session.load", "session.delete", "session.export", "session.import",
+]);
+
+/** Copy of params with sensitive values replaced by "[REDACTED]". Never mutates the input. */
+export function redactParams(
+  method: string,
+  params: Record<string, unknown>,
+  opts: { redactSessionNames?: boolean } = {},
+): Record<string, unknown> {
+  const out: Record<string, unknown> = { ...params };
+  const mask = (key: string) => {
+    if (out[key] !== undefined && out[key] !== null) out[key] = REDACTED;
+  };
+
+  for (const key of SECRET_PARAMS[method] ?? []) mask(key);
+
+  // find.* with a fill/type action carries the text in actionArg
+  if (method.startsWith("find.") && (out.action === "fill" || out.action === "type")) mask("actionArg");
+
+  // config.set of a secret key (daemon-auth-token)
+  if (method === "config.set" && SECRET_KEYS.has(String(out.key) as ConfigKey)) mask("value");
+
+  if (opts.redactSessionNames && SESSION_NAME_METHODS.has(method)) mask("name");
+
+  // Legacy batch steps: { cmd: "type", text }
+  if (method === "batch" && Array.isArray(out.commands)) {
+    out.commands = out.commands.map((step: unknown) => {
+      const s = step as Record<string, unknown> | null;
+      return s && typeof s === "object" && s.cmd === "type" && s.text !== undefined
+        ? { ...s, text: REDACTED }
+        : step;
+    });
+  }
+
+  return out;
+}
+
+// --- Writer ---
+
+export class AuditLog {
+  // Appends are chained so lines never interleave and rotation never races a write
+  private queue: Promise<void> = Promise.resolve();
+  private size: number | null = null;
+
+  constructor(private readonly opts: AuditOptions) {}
+
+  get path(): string {
+    return this.opts.path;
+  }
+
+  /** Queue one entry. Write failures are reported on stderr, never to the RPC caller. */
+  record(entry: AuditEntry): void {
+    const line = JSON.stringify(entry) + "\n";
+    this.queue = this.queue
+      .then(() => this.append(line))
+      .catch((err: unknown) => {
+        process.stderr.write(`[jarvis-daemon] Audit log write failed: ${err instanceof Error ? err.message : String(err)}\n`);
+      });
+  }
+
+  /** Resolves once every queued entry is on disk. */
+  flush(): Promise<void> {
+    return this.queue;
+  }
+
+  private async append(line: string): Promise<void> {
+    if (this.size === null) {
+      this.size = await stat(this.opts.path).then((s) => s.size, () => 0);
+    }
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.opts.maxBytes) {
+      await this.rotate();
+    }
+    await appendFile(this.opts.path, line, { encoding: "utf-8", mode: 0o600 });
+    this.size += bytes;
+  }
+
+  private async rotate(): Promise<void> {
+    const { path, maxFiles } = this.opts;
+    if (maxFiles <= 1) {
+      await unlink(path).catch(() => {});
+    } else {
+      await unlink(`${path}.${maxFiles - 1}`).catch(() => {});
+      for (let i = maxFiles - 2; i >= 1; i--) {
+        await rename(`${path}.${i}`, `${path}.${i + 1}`).catch(() => {});
+      }
+      await rename(path, `${path}.1`).catch(() => {});
+    }
+    this.size = 0;
+  }
+}
+
+// --- Query ---
+
+/** Parse --since: ISO timestamp, Unix ms, or a relative age like "30s", "15m", "2h", "7d". */
+export function parseSince(raw: string, now = Date.now()): number {
+  const rel = /^(\d+)\s*([smhd])$/.exec(raw.trim());
+  if (rel) {
+    const unit = { s: 1_000, m: 60_000, h: 3_600_000, d: 86_400_000 }[rel[2] as "s" | "m" | "h" | "d"];
+    return now - Number(rel[1]) * unit;
+  }
+  if (/^\d+$/.test(raw.trim())) return Number(raw);
+  const t = Date.parse(raw);
+  if (Number.isNaN(t)) {
+    throw new Error(`Invalid --since "${raw}". Use an ISO date, Unix ms, or an age like 15m, 2h, 7d`);
+  }
+  return t;
+}
+
+function methodMatches(filter: string, method: string): boolean {
+  return filter.endsWith("*") ? method.startsWith(filter.slice(0, -1)) : method === filter;
+}
+
+/** Read the active log and its rotations (oldest first) and return matching entries. */
+export async function queryAuditLog(path: string, query: AuditQuery = {}, maxFiles = 10): Promise<AuditEntry[]> {
+  const files = [
+    ...Array.from({ length: maxFiles - 1 }, (_, i) => `${path}.${maxFiles - 1 - i}`),
+    path,
+  ];
+  const entries: AuditEntry[] = [];
+  for (const file of files) {
+    const raw = await readFile(file, "utf-8").catch(() => "");
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line) as AuditEntry;
+      } catch {
+        continue; // torn line from a crash mid-write
+      }
+      if (query.since !== undefined && Date.parse(entry.ts) < query.since) continue;
+      if (query.worker !== undefined && entry.worker !== query.worker) continue;
+      if (query.method !== undefined && !methodMatches(query.method, entry.method)) continue;
+      entries.push(entry);
+    }
+  }
+  return query.last !== undefined ? entries.slice(-query.last) : entries;
+}
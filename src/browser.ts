@@ -1,17 +1,23 @@
 // Browser connection + session management
 // Manages Chrome launch, CDP connection, page state, and ref cache.
 
-import { chromium, type Browser, type Page, type Dialog } from "playwright-core";
+import { chromium, type Browser, type BrowserContext, type CDPSession, type Locator, type Page, type Dialog } from "playwright-core";
 import { spawn, type ChildProcess } from "node:child_process";
 import { existsSync } from "node:fs";
-import type { RoleRefMap } from "./types.js";
+import type { AxNodeIdentity, RefResolution, RoleRefMap } from "./types.js";
 import {
   buildRoleSnapshotFromAriaSnapshot,
   buildRoleSnapshotFromAiSnapshot,
   getRoleSnapshotStats,
+  matchRefsToNodes,
+  parseRef,
+  stabilizeRefs,
 } from "./snapshot.js";
 import type { RoleSnapshotOptions } from "./types.js";
 import { validateNavigationUrl, validateNavigationUrlPermissive } from "./shared.js";
+import { globalContexts, DEFAULT_CONTEXT_ID, type ContextInfo } from "./contexts.js";
+import { globalOpenedTabs } from "./popups.js";
+import { PageIndex, type PageResolutionStats } from "./page-index.js";
 
 // --- v0.7.0: Dialog ring buffer ---
 
@@ -106,6 +112,7 @@ function buildDialogHandler(page: Page): void {
 const DEFAULT_PORT = 9222;
 const MAX_REF_CACHE = 50;
 const MAX_DISK_CACHE = 50;
+const REF_HISTORY_GENERATIONS = 2;
 const CHROME_LAUNCH_TIMEOUT_MS = 15_000;
 const CHROME_LAUNCH_POLL_INITIAL_MS = 100;
 const CHROME_LAUNCH_POLL_MAX_MS = 2_000;
@@ -136,19 +143,33 @@ type PageRoleState = {
   refs: RoleRefMap;
   mode: "role" | "aria";
   frameSelector?: string;
+  /** Per-tab snapshot counter; a ref written e5@g3 must match it (absent in pre-generation caches) */
+  generation?: number;
+  /** Tab the refs were taken from (the "default" alias follows whichever tab was snapped last) */
+  tab?: string;
+  /** Earlier generations of the same tab, newest first, so the retry chain can remap their refs */
+  history?: Array<{ generation: number; refs: RoleRefMap; nodes?: Record<string, number> }>;
+  /** ref → DOM backendNodeId, for role snapshots whose refs are kept stable across generations */
+  nodes?: Record<string, number>;
+  /** Highest ref number handed out on the tab; new elements are numbered after it */
+  lastRef?: number;
+  /** "e5@g3" → ref in this generation, filled in by the retry chain */
+  remapped?: Record<string, string>;
 };
 
 let browser: Browser | null = null;
 let chromeProcess: ChildProcess | null = null;
 const roleRefsByTarget = new Map<string, PageRoleState>();
 
-// Track pages that already have dialog handlers registered (to avoid duplicates)
-const dialogHandledPages = new WeakSet<Page>();
+// Track pages that already have dialog and crash handlers registered (to avoid duplicates)
+const handledPages = new WeakSet<Page>();
 
-function ensureDialogHandler(page: Page): void {
-  if (!dialogHandledPages.has(page)) {
-    dialogHandledPages.add(page);
+function ensurePageHandlers(page: Page): void {
+  if (!handledPages.has(page)) {
+    handledPages.add(page);
     buildDialogHandler(page);
+    // Playwright's crash event is Inspector.targetCrashed on the page's own session
+    page.on("crash", () => { crashedPages.add(page); });
   }
 }
 
@@ -158,15 +179,93 @@ function getCdpUrl(port: number): string {
   return `http://127.0.0.1:${port}`;
 }
 
-export async function launchChrome(opts?: {
+export interface ChromeLaunchOptions {
   port?: number;
   headless?: boolean;
   noSandbox?: boolean;
   executablePath?: string;
   userDataDir?: string;
+  /** Named profile userDataDir belongs to (reported by status) */
+  profile?: string;
   proxy?: string;
   proxyBypass?: string;
-}): Promise<{ cdpUrl: string; pid: number }> {
+  /** Appended after the built-in switches, so they can override them */
+  extraArgs?: string[];
+  /** Unpacked extension directories */
+  extensions?: string[];
+  windowSize?: { width: number; height: number };
+  windowPosition?: { x: number; y: number };
+  /** UI and Accept-Language locale, e.g. de-DE */
+  lang?: string;
+  /** IANA time zone for the Chrome process (TZ), e.g. Europe/Berlin */
+  timezone?: string;
+  ignoreCertErrors?: boolean;
+  /** Written to the profile's download.default_directory preference */
+  downloadDir?: string;
+}
+
+/** How the Chrome on a port was launched, as shown by status. */
+export interface LaunchInfo {
+  pid: number;
+  port: number;
+  launched_at: string;
+  profile: string | null;
+  user_data_dir: string;
+  args: string[];
+  timezone: string | null;
+  download_dir: string | null;
+}
+
+// Kept beside the profile so status works from any process (direct mode, daemon, CLI)
+function launchInfoPath(port: number): string {
+  return join(tmpdir(), `jarvis-browser-launch-${port}.json`);
+}
+
+/** Launch record for the Chrome on this port; null when it wasn't launched by jarvis-browser or has exited. */
+export function readLaunchInfo(port: number = DEFAULT_PORT): LaunchInfo | null {
+  try {
+    const info = JSON.parse(readFileSync(launchInfoPath(port), "utf-8")) as LaunchInfo;
+    process.kill(info.pid, 0);
+    return info;
+  } catch {
+    return null;
+  }
+}
+
+/** "1280x800" or "1280,800" */
+export function parseWindowSize(value: string): { width: number; height: number } {
+  const m = /^(\d+)[x,](\d+)$/.exec(value.trim());
+  if (!m) throw new Error(`Invalid window size "${value}" (expected WIDTHxHEIGHT, e.g. 1280x800)`);
+  return { width: Number(m[1]), height: Number(m[2]) };
+}
+
+/** "0,0" or "-1920,0" */
+export function parseWindowPosition(value: string): { x: number; y: number } {
+  const m = /^(-?\d+),(-?\d+)$/.exec(value.trim());
+  if (!m) throw new Error(`Invalid window position "${value}" (expected X,Y, e.g. 0,0)`);
+  return { x: Number(m[1]), y: Number(m[2]) };
+}
+
+/** Merge download preferences into the profile so Chrome saves there without asking. */
+async function setDownloadDirPreference(userDataDir: string, downloadDir: string): Promise<void> {
+  const prefsPath = join(userDataDir, "Default", "Preferences");
+  let prefs: Record<string, unknown> = {};
+  try {
+    prefs = JSON.parse(await readFile(prefsPath, "utf-8")) as Record<string, unknown>;
+  } catch {
+    // New profile: Chrome fills in the rest on first start
+  }
+  prefs.download = {
+    ...(prefs.download as Record<string, unknown> | undefined),
+    default_directory: downloadDir,
+    prompt_for_download: false,
+  };
+  await mkdir(dirname(prefsPath), { recursive: true });
+  await mkdir(downloadDir, { recursive: true });
+  await writeFile(prefsPath, JSON.stringify(prefs), "utf-8");
+}
+
+export async function launchChrome(opts?: ChromeLaunchOptions): Promise<{ cdpUrl: string; pid: number }> {
   const port = opts?.port ?? DEFAULT_PORT;
   const exe = opts?.executablePath ?? process.env.CHROME_PATH ?? findChrome();
   const userDataDir = opts?.userDataDir ?? `/tmp/jarvis-browser-profile-${port}`;
@@ -198,15 +297,43 @@ export async function launchChrome(opts?: {
   if (opts?.proxyBypass) {
     args.push(`--proxy-bypass-list=${opts.proxyBypass}`);
   }
+  if (opts?.extensions?.length) {
+    const dirs = opts.extensions.map((dir) => resolvePath(dir));
+    const missing = dirs.find((dir) => !existsSync(join(dir, "manifest.json")));
+    if (missing) throw new Error(`Extension directory "${missing}" has no manifest.json`);
+    args.push(`--load-extension=${dirs.join(",")}`, `--disable-extensions-except=${dirs.join(",")}`);
+  }
+  if (opts?.windowSize) {
+    args.push(`--window-size=${opts.windowSize.width},${opts.windowSize.height}`);
+  }
+  if (opts?.windowPosition) {
+    args.push(`--window-position=${opts.windowPosition.x},${opts.windowPosition.y}`);
+  }
+  if (opts?.lang) {
+    args.push(`--lang=${opts.lang}`, `--accept-lang=${opts.lang}`);
+  }
+  if (opts?.ignoreCertErrors) {
+    args.push("--ignore-certificate-errors");
+  }
+  if (opts?.extraArgs?.length) {
+    args.push(...opts.extraArgs);
+  }
+  const downloadDir = opts?.downloadDir ? resolvePath(opts.downloadDir) : null;
+  if (downloadDir) await setDownloadDirPreference(userDataDir, downloadDir);
 
   args.push("about:blank");
 
   const child = spawn(exe, args, {
     detached: true,
     stdio: "ignore",
+    env: opts?.timezone ? { ...process.env, TZ: opts.timezone } : process.env,
   });
   child.unref();
   chromeProcess = child;
+  child.once("exit", (code, signal) => {
+    const current = launched;
+    if (current && current.pid === child.pid) current.exit = { code, signal };
+  });
 
   // Capture spawn errors for immediate feedback
   const spawnState = { error: null as Error | null };
@@ -222,7 +349,21 @@ export async function launchChrome(opts?: {
     }
     try {
       const resp = await fetch(`${cdpUrl}/json/version`);
-      if (resp.ok) return { cdpUrl, pid: child.pid! };
+      if (resp.ok) {
+        const info: LaunchInfo = {
+          pid: child.pid!,
+          port,
+          launched_at: new Date().toISOString(),
+          profile: opts?.profile ?? null,
+          user_data_dir: userDataDir,
+          args: args.slice(0, -1),
+          timezone: opts?.timezone ?? null,
+          download_dir: downloadDir,
+        };
+        await writeFile(launchInfoPath(port), JSON.stringify(info, null, 2), "utf-8").catch(() => {});
+        launched = { options: { ...opts, port }, pid: child.pid!, exit: null };
+        return { cdpUrl, pid: child.pid! };
+      }
     } catch {
       // not ready yet
     }
@@ -256,9 +397,21 @@ export async function connect(cdpUrl?: string, port?: number): Promise<Browser>
   for (let attempt = 0; attempt < CDP_CONNECT_ATTEMPTS; attempt++) {
     try {
       const timeout = CDP_CONNECT_BASE_TIMEOUT_MS + attempt * 2000;
-      browser = await chromium.connectOverCDP(endpoint, { timeout });
-      browser.on("disconnected", () => { browser = null; });
-      return browser;
+      const b = await chromium.connectOverCDP(endpoint, { timeout });
+      browser = b;
+      b.on("disconnected", () => {
+        rememberLostTabs(b);
+        browser = null;
+        globalContexts.clear();
+        globalOpenedTabs.clear();
+        pageIndex.clear();
+        crashedTargets.clear();
+      });
+      for (const context of b.contexts()) watchContext(context);
+      await watchTargetCreation(b).catch(() => {});
+      // Indexed tabs are the ones reopened if Chrome has to be relaunched
+      indexOpenPages(b).catch(() => {});
+      return b;
     } catch {
       await new Promise((r) => setTimeout(r, 250 + attempt * 250));
     }
@@ -270,6 +423,47 @@ export function getConnectedBrowser(): Browser | null {
   return browser?.isConnected() ? browser : null;
 }
 
+// --- Chrome process metrics ---
+
+const PROC_PAGE_SIZE = 4096;
+
+/** Open pages across all contexts (0 when disconnected). */
+export function getOpenPageCount(): number {
+  const b = getConnectedBrowser();
+  return b ? b.contexts().reduce((sum, c) => sum + c.pages().length, 0) : 0;
+}
+
+/**
+ * Resident memory of every Chrome process (browser, renderers, GPU, utilities).
+ * Process ids come from CDP SystemInfo; RSS is read from /proc, so rss_mb is
+ * null on non-Linux hosts or when Chrome runs on another machine.
+ */
+export async function getChromeMemory(): Promise<{ processes: number; rss_mb: number | null } | null> {
+  const b = getConnectedBrowser();
+  if (!b) return null;
+  const session = await b.newBrowserCDPSession();
+  try {
+    const info = (await session.send("SystemInfo.getProcessInfo")) as {
+      processInfo?: Array<{ id: number; type: string }>;
+    };
+    const pids = (info.processInfo ?? []).map((p) => p.id);
+    let rssBytes = 0;
+    let readable = 0;
+    for (const pid of pids) {
+      try {
+        const statm = readFileSync(`/proc/${pid}/statm`, "utf-8").split(" ");
+        rssBytes += Number(statm[1]) * PROC_PAGE_SIZE;
+        readable++;
+      } catch {
+        // Not on this host, or already exited
+      }
+    }
+    return { processes: pids.length, rss_mb: readable > 0 ? Math.round(rssBytes / 1024 / 1024) : null };
+  } finally {
+    await session.detach().catch(() => {});
+  }
+}
+
 // --- Page management ---
 
 async function getAllPages(): Promise<Page[]> {
@@ -277,19 +471,129 @@ async function getAllPages(): Promise<Page[]> {
   return browser.contexts().flatMap((c) => c.pages());
 }
 
-async function getTargetId(page: Page): Promise<string | null> {
+async function getTargetInfo(page: Page): Promise<{ targetId: string; openerId: string | null } | null> {
   const session = await page.context().newCDPSession(page);
   try {
     const info = (await session.send("Target.getTargetInfo")) as {
-      targetInfo?: { targetId?: string };
+      targetInfo?: { targetId?: string; openerId?: string };
     };
-    return String(info?.targetInfo?.targetId ?? "").trim() || null;
+    const targetId = String(info?.targetInfo?.targetId ?? "").trim();
+    return targetId ? { targetId, openerId: info?.targetInfo?.openerId ?? null } : null;
   } finally {
     await session.detach().catch(() => {});
   }
 }
 
-export async function getPage(targetId?: string): Promise<Page> {
+// targetId ↔ Page, so resolving a tab doesn't cost a CDP round trip per open page
+const pageIndex = new PageIndex<Page>();
+
+function indexPage(page: Page, targetId: string): void {
+  if (pageIndex.targetIdOf(page) === targetId) return;
+  pageIndex.set(targetId, page);
+  rememberTab(page, targetId);
+  page.once("close", () => {
+    pageIndex.delete(page);
+    forgetTab(page, targetId);
+  });
+}
+
+async function indexOpenPages(b: Browser): Promise<void> {
+  for (const page of b.contexts().flatMap((c) => c.pages())) {
+    await getTargetId(page).catch(() => null);
+  }
+}
+
+async function getTargetId(page: Page): Promise<string | null> {
+  const indexed = pageIndex.targetIdOf(page);
+  if (indexed) return indexed;
+  const info = await getTargetInfo(page);
+  if (info) indexPage(page, info.targetId);
+  return info?.targetId ?? null;
+}
+
+/** How getPage resolved targetIds: index hits vs CDP fallbacks, with timing. */
+export function getPageResolutionStats(): PageResolutionStats {
+  return pageIndex.stats();
+}
+
+// --- New tabs (popups, target=_blank) ---
+
+export interface NewTab {
+  page: Page;
+  targetId: string;
+  /** The page that opened it; null for tabs opened over CDP */
+  openerId: string | null;
+}
+
+const newTabListeners = new Set<(tab: NewTab) => void>();
+const watchedContexts = new WeakSet<BrowserContext>();
+
+/** Subscribe to tabs that appear after connect, however they were opened. Returns an unsubscribe function. */
+export function onNewTab(listener: (tab: NewTab) => void): () => void {
+  newTabListeners.add(listener);
+  return () => { newTabListeners.delete(listener); };
+}
+
+function watchContext(context: BrowserContext): void {
+  if (watchedContexts.has(context)) return;
+  watchedContexts.add(context);
+  context.on("page", (page) => {
+    // Before anything else, so a popup's first alert() is handled too
+    ensurePageHandlers(page);
+    announceNewTab(page).catch(() => {});
+  });
+}
+
+async function announceNewTab(page: Page): Promise<void> {
+  const info = await getTargetInfo(page);
+  if (!info) return;
+  indexPage(page, info.targetId);
+  globalOpenedTabs.record(info.targetId, info.openerId);
+  const tab: NewTab = { page, targetId: info.targetId, openerId: globalOpenedTabs.openerOf(info.targetId) };
+  for (const listener of newTabListeners) {
+    try {
+      listener(tab);
+    } catch {
+      // A failing listener must not keep the tab from the others
+    }
+  }
+}
+
+/**
+ * Record new page targets as soon as Chrome creates them. Playwright's page event
+ * can arrive after the click that opened the tab has returned; this one doesn't.
+ */
+async function watchTargetCreation(b: Browser): Promise<void> {
+  const session = await b.newBrowserCDPSession();
+  let discovering = false;
+  session.on("Target.targetCreated", ({ targetInfo }) => {
+    // setDiscoverTargets replays the existing targets before it returns
+    if (discovering && targetInfo.type === "page") {
+      globalOpenedTabs.record(targetInfo.targetId, targetInfo.openerId ?? null);
+    }
+  });
+  // Also covers pages that never went through getPage (no crash listener of their own)
+  session.on("Target.targetCrashed", ({ targetId }) => {
+    crashedTargets.add(targetId);
+    const page = pageIndex.get(targetId);
+    if (page) crashedPages.add(page);
+  });
+  session.on("Target.targetDestroyed", ({ targetId }) => { crashedTargets.delete(targetId); });
+  await session.send("Target.setDiscoverTargets", { discover: true });
+  discovering = true;
+}
+
+/** targetId of the tab that calls without a targetId act on (getPage's default). Null when there is none. */
+export async function getActiveTargetId(): Promise<string | null> {
+  const pages = await getAllPages().catch((): Page[] => []);
+  return pages[0] ? getTargetId(pages[0]).catch(() => null) : null;
+}
+
+export async function getPage(
+  targetId?: string,
+  opts: { allowCrashed?: boolean } = {},
+): Promise<Page> {
+  if (targetId) targetId = resolveTargetAlias(targetId);
   const pages = await getAllPages();
   if (!pages.length) throw new Error("No pages available");
 
@@ -297,21 +601,33 @@ export async function getPage(targetId?: string): Promise<Page> {
   if (!targetId) {
     found = pages[0];
   } else {
-    for (const page of pages) {
-      const tid = await getTargetId(page).catch(() => null);
-      if (tid === targetId) { found = page; break; }
+    const started = performance.now();
+    const indexed = pageIndex.get(targetId);
+    const hit = indexed !== undefined && !indexed.isClosed();
+    if (hit) {
+      found = indexed;
+    } else {
+      // Only unindexed pages can be the one we're looking for
+      for (const page of pages) {
+        if (pageIndex.targetIdOf(page)) continue;
+        const tid = await getTargetId(page).catch(() => null);
+        if (tid === targetId) { found = page; break; }
+      }
     }
+    pageIndex.recordLookup(performance.now() - started, hit);
     if (!found && pages.length === 1) found = pages[0];
   }
 
   if (!found) throw new Error(`Tab "${targetId}" not found`);
-  ensureDialogHandler(found);
+  ensurePageHandlers(found);
+  // Fail fast: anything sent to a crashed page hangs until it times out
+  if (!opts.allowCrashed && isPageCrashed(found)) throw pageCrashedError(targetId);
   return found;
 }
 
-export async function listTabs(): Promise<Array<{ targetId: string; title: string; url: string }>> {
+export async function listTabs(): Promise<Array<{ targetId: string; title: string; url: string; contextId: string }>> {
   const pages = await getAllPages();
-  const results: Array<{ targetId: string; title: string; url: string }> = [];
+  const results: Array<{ targetId: string; title: string; url: string; contextId: string }> = [];
   for (const page of pages) {
     const tid = await getTargetId(page).catch(() => null);
     if (tid) {
@@ -319,17 +635,22 @@ export async function listTabs(): Promise<Array<{ targetId: string; title: strin
         targetId: tid,
         title: await page.title().catch(() => ""),
         url: page.url(),
+        contextId: globalContexts.idOf(page.context()),
       });
     }
   }
   return results;
 }
 
-export async function openTab(url: string): Promise<{ targetId: string; title: string; url: string }> {
+/** Open a tab in a context (default: Chrome's shared context). */
+export async function openTab(
+  url: string,
+  contextId?: string,
+): Promise<{ targetId: string; title: string; url: string; contextId: string }> {
   if (!browser?.isConnected()) throw new Error("Not connected");
-  const context = browser.contexts()[0] ?? (await browser.newContext());
+  const context = await globalContexts.resolve(browser, contextId);
   const page = await context.newPage();
-  ensureDialogHandler(page);
+  ensurePageHandlers(page);
   if (url && url !== "about:blank") {
     validateNavigationUrl(url);
     await page.goto(url, { timeout: NAVIGATION_TIMEOUT_MS, waitUntil: "domcontentloaded" }).catch((err) => {
@@ -342,6 +663,7 @@ export async function openTab(url: string): Promise<{ targetId: string; title: s
     targetId: tid,
     title: await page.title().catch(() => ""),
     url: page.url(),
+    contextId: globalContexts.idOf(context),
   };
 }
 
@@ -355,11 +677,347 @@ export async function focusTab(targetId: string): Promise<void> {
   await page.bringToFront();
 }
 
+// --- Crashed tabs ---
+
+// A crashed tab is first reloaded in place (Chrome gives the same target a new
+// renderer). Where Playwright has marked the page's session dead for good, it is
+// recovered by reopening its URL in a new tab of the same context instead; the old
+// targetId then resolves to the new one.
+const crashedPages = new WeakSet<Page>();
+// Reported by Chrome (Target.targetCrashed) for pages that may not be indexed yet
+const crashedTargets = new Set<string>();
+const targetAliases = new Map<string, string>();
+const MAX_TARGET_ALIASES = 200;
+
+export interface ReplacedTab {
+  /** The tab that was lost */
+  from: string;
+  /** The tab that replaced it; equal to from when it was reloaded in place */
+  to: string;
+  page: Page;
+  /** Recovered as the active tab (no targetId given), so state keyed "default" applies too */
+  activeTab: boolean;
+  /** The tab crashed, or Chrome died and was relaunched */
+  reason: "crash" | "relaunch";
+}
+
+const replacedTabListeners = new Set<(tab: ReplacedTab) => Promise<void>>();
+
+/** Subscribe to tab replacements, to move per-tab state onto the new tab. Awaited before recovery returns. */
+export function onTabReplaced(listener: (tab: ReplacedTab) => Promise<void>): () => void {
+  replacedTabListeners.add(listener);
+  return () => { replacedTabListeners.delete(listener); };
+}
+
+/** The tab a targetId refers to now: a crashed tab's id resolves to the tab that replaced it. */
+export function resolveTargetAlias(targetId: string): string {
+  let current = targetId;
+  for (let hops = 0; hops < MAX_TARGET_ALIASES; hops++) {
+    const next = targetAliases.get(current);
+    if (next === undefined) break;
+    current = next;
+  }
+  return current;
+}
+
+function aliasTarget(from: string, to: string): void {
+  targetAliases.set(from, to);
+  while (targetAliases.size > MAX_TARGET_ALIASES) {
+    const oldest = targetAliases.keys().next();
+    if (oldest.done) break;
+    targetAliases.delete(oldest.value);
+  }
+}
+
+export function isPageCrashed(page: Page): boolean {
+  if (crashedPages.has(page)) return true;
+  const targetId = pageIndex.targetIdOf(page);
+  return targetId !== undefined && crashedTargets.has(targetId);
+}
+
+function pageCrashedError(targetId: string | undefined): Error {
+  const flag = targetId ? ` --target ${targetId}` : "";
+  return Object.assign(new Error(`${targetId ? `Tab "${targetId}"` : "The active tab"} crashed (renderer process gone)`), {
+    rpcData: {
+      error_class: "page_crashed",
+      suggestion: `Run "reload${flag}" to reopen it at the same URL, or enable auto-retry to recover automatically.`,
+    },
+  });
+}
+
+function crashRecoveryError(message: string): Error {
+  return Object.assign(new Error(message), { rpcData: { error_class: "page_crashed" } });
+}
+
+// How long a page reloaded in place gets to answer before it counts as dead
+const RELOAD_PROBE_MS = 2_000;
+
+/** Reload a crashed page through CDP; true when the Playwright page answers again afterwards. */
+async function reloadInPlace(page: Page): Promise<boolean> {
+  try {
+    const session = await page.context().newCDPSession(page);
+    try {
+      await session.send("Page.reload", {});
+    } finally {
+      await session.detach().catch(() => {});
+    }
+    await page.waitForLoadState("domcontentloaded", { timeout: NAVIGATION_TIMEOUT_MS });
+    // A dead page object never answers, so the probe gets its own deadline
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      page.evaluate("1"),
+      new Promise((_, reject) => { timer = setTimeout(() => reject(new Error("no answer")), RELOAD_PROBE_MS); }),
+    ]).finally(() => clearTimeout(timer));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Bring a crashed tab back at the same URL: reloaded in place when its page object
+ * survives (same targetId), otherwise replaced by a new tab and the crashed one closed.
+ * Returns null when the tab hadn't crashed.
+ */
+export async function recoverCrashedTab(targetId?: string): Promise<ReplacedTab | null> {
+  const page = await getPage(targetId, { allowCrashed: true });
+  if (!isPageCrashed(page)) return null;
+  const from = pageIndex.targetIdOf(page) ?? resolveTargetAlias(targetId ?? "");
+  if (!from) throw crashRecoveryError("Could not identify the crashed tab");
+  const url = page.url();
+
+  if (await reloadInPlace(page)) {
+    crashedPages.delete(page);
+    crashedTargets.delete(from);
+    roleRefsByTarget.delete(from);
+    // Nothing moved, so there is no replacement to announce
+    return { from, to: from, page, activeTab: targetId === undefined, reason: "crash" };
+  }
+
+  const replacement = await page.context().newPage();
+  ensurePageHandlers(replacement);
+  if (url && url !== "about:blank") {
+    await replacement.goto(url, { timeout: NAVIGATION_TIMEOUT_MS, waitUntil: "domcontentloaded" }).catch(async (err) => {
+      await replacement.close().catch(() => {});
+      throw crashRecoveryError(`Could not reopen crashed tab "${from}" at ${url}: ${err instanceof Error ? err.message : String(err)}`);
+    });
+  }
+  const to = await getTargetId(replacement);
+  if (!to) throw crashRecoveryError(`Could not reopen crashed tab "${from}": no targetId for the new tab`);
+
+  aliasTarget(from, to);
+  crashedTargets.delete(from);
+  roleRefsByTarget.delete(from);
+  rememberedTabs.delete(from);
+  // Close first, so the new tab is the active one when it is the only tab
+  await page.close().catch(() => {});
+  const tab: ReplacedTab = { from, to, page: replacement, activeTab: targetId === undefined, reason: "crash" };
+  await announceReplacedTab(tab);
+  return tab;
+}
+
+async function announceReplacedTab(tab: ReplacedTab): Promise<void> {
+  for (const listener of replacedTabListeners) {
+    await listener(tab).catch((err: unknown) => {
+      process.stderr.write(`[jarvis-browser] Moving tab state ${tab.from} → ${tab.to} failed: ${err instanceof Error ? err.message : String(err)}\n`);
+    });
+  }
+}
+
+// --- Chrome supervision ---
+
+// Pages close before the browser reports the disconnect, so a tab that closed
+// this recently is taken to have died with Chrome
+const TAB_CLOSE_GRACE_MS = 2_000;
+
+interface LaunchedChrome {
+  options: ChromeLaunchOptions;
+  pid: number;
+  exit: { code: number | null; signal: NodeJS.Signals | null } | null;
+}
+
+interface RememberedTab {
+  page: Page;
+  contextId: string;
+  closedAt: number | null;
+}
+
+/** A tab open when Chrome went away, to be reopened after a relaunch. */
+interface LostTab {
+  targetId: string;
+  url: string;
+  /** null = Chrome's default context */
+  context: { owner: string | null; workerDefault: boolean; contextId: string } | null;
+}
+
+// Chrome launched by this process; cleared by stopChrome so a deliberate stop is not undone
+let launched: LaunchedChrome | null = null;
+const rememberedTabs = new Map<string, RememberedTab>();
+let lostTabs: LostTab[] = [];
+
+export interface ExitedChrome {
+  pid: number;
+  /** "code 0", "signal SIGKILL" */
+  exit: string;
+  /** Exited on its own terms (code 0): closed by the user, not to be relaunched */
+  clean: boolean;
+}
+
+export interface RelaunchResult {
+  cdpUrl: string;
+  pid: number;
+  /** old targetId → new targetId */
+  remapped: Record<string, string>;
+  failed_tabs: string[];
+}
+
+function rememberTab(page: Page, targetId: string): void {
+  rememberedTabs.set(targetId, { page, contextId: globalContexts.idOf(page.context()), closedAt: null });
+  const cutoff = Date.now() - TAB_CLOSE_GRACE_MS;
+  for (const [tid, tab] of rememberedTabs) {
+    if (tab.closedAt !== null && tab.closedAt < cutoff) rememberedTabs.delete(tid);
+  }
+}
+
+function forgetTab(page: Page, targetId: string): void {
+  const tab = rememberedTabs.get(targetId);
+  if (tab?.page === page) tab.closedAt = Date.now();
+}
+
+function rememberLostTabs(b: Browser): void {
+  const contexts = new Map(globalContexts.list(b).map((c) => [c.contextId, c]));
+  const cutoff = Date.now() - TAB_CLOSE_GRACE_MS;
+  lostTabs = [];
+  for (const [targetId, tab] of rememberedTabs) {
+    if (tab.closedAt !== null && tab.closedAt < cutoff) continue;
+    const info = contexts.get(tab.contextId);
+    lostTabs.push({
+      targetId,
+      url: tab.page.url(),
+      context: info && tab.contextId !== DEFAULT_CONTEXT_ID
+        ? { contextId: tab.contextId, owner: info.owner, workerDefault: info.worker_default }
+        : null,
+    });
+  }
+  rememberedTabs.clear();
+}
+
+/** The Chrome this process launched, once it has exited; null if it is running, was stopped, or was never launched here. */
+export function getExitedChrome(): ExitedChrome | null {
+  if (!launched?.exit) return null;
+  const { code, signal } = launched.exit;
+  return {
+    pid: launched.pid,
+    exit: signal ? `signal ${signal}` : `code ${code}`,
+    clean: signal === null && code === 0,
+  };
+}
+
+/**
+ * Launch Chrome again with the options it was last launched with, reopen the tabs
+ * it had (isolated contexts are recreated empty, with the same owner) and alias
+ * their old targetIds to the new ones. Tab-replaced listeners move per-tab state.
+ */
+export async function relaunchChrome(): Promise<RelaunchResult> {
+  if (!launched?.exit) throw new Error("No exited Chrome to relaunch");
+  const { cdpUrl, pid } = await launchChrome(launched.options);
+  const b = await connect(cdpUrl);
+  // Kept until here, so a failed attempt leaves them for the next one
+  const tabs = lostTabs;
+  lostTabs = [];
+  const startupPages = b.contexts().flatMap((c) => c.pages());
+
+  const contextIds = new Map<string, string>();
+  const replaced: ReplacedTab[] = [];
+  const failed: string[] = [];
+  for (const tab of tabs) {
+    try {
+      let contextId: string | undefined;
+      if (tab.context) {
+        contextId = contextIds.get(tab.context.contextId);
+        if (!contextId) {
+          contextId = await globalContexts.create(b, tab.context.owner, tab.context.workerDefault);
+          watchContext(await globalContexts.resolve(b, contextId));
+          contextIds.set(tab.context.contextId, contextId);
+        }
+      }
+      const page = await (await globalContexts.resolve(b, contextId)).newPage();
+      ensurePageHandlers(page);
+      if (tab.url && tab.url !== "about:blank") {
+        // A page that fails to load still keeps its tab (and targetId)
+        await page.goto(tab.url, { timeout: NAVIGATION_TIMEOUT_MS, waitUntil: "domcontentloaded" }).catch(() => {});
+      }
+      const to = await getTargetId(page);
+      if (!to) throw new Error("no targetId for the new tab");
+      aliasTarget(tab.targetId, to);
+      roleRefsByTarget.delete(tab.targetId);
+      replaced.push({ from: tab.targetId, to, page, activeTab: false, reason: "relaunch" });
+    } catch {
+      failed.push(tab.targetId);
+    }
+  }
+  if (replaced.length > 0) {
+    for (const page of startupPages) await page.close().catch(() => {});
+  }
+
+  // State set without a targetId follows the new active tab (the first page of the default context)
+  const active = (await getAllPages())[0];
+  for (const tab of replaced) {
+    tab.activeTab = tab.page === active;
+    await announceReplacedTab(tab);
+  }
+  return { cdpUrl, pid, remapped: Object.fromEntries(replaced.map((t) => [t.from, t.to])), failed_tabs: failed };
+}
+
+// --- Browser contexts ---
+
+function requireBrowser(): Browser {
+  if (!browser?.isConnected()) throw new Error("Not connected");
+  return browser;
+}
+
+/** Create an isolated (incognito) context owned by a worker. */
+export async function newContext(owner: string | null): Promise<string> {
+  const b = requireBrowser();
+  const contextId = await globalContexts.create(b, owner);
+  watchContext(await globalContexts.resolve(b, contextId));
+  return contextId;
+}
+
+/** The worker's own context for tabs it opens without --context (created on first use). */
+export async function ensureWorkerContext(workerId: string): Promise<string> {
+  const b = requireBrowser();
+  const contextId = await globalContexts.forWorker(b, workerId);
+  watchContext(await globalContexts.resolve(b, contextId));
+  return contextId;
+}
+
+export function listContexts(): ContextInfo[] {
+  return globalContexts.list(requireBrowser());
+}
+
+/** Owning worker: null when shared, undefined when no such context exists. */
+export function getContextOwner(contextId: string): string | null | undefined {
+  return globalContexts.owner(contextId);
+}
+
+/** Close a context and its tabs. Returns the targetIds that were closed. */
+export async function closeContext(contextId: string): Promise<string[]> {
+  const context = await globalContexts.resolve(requireBrowser(), contextId);
+  const targetIds: string[] = [];
+  for (const page of context.pages()) {
+    const tid = await getTargetId(page).catch(() => null);
+    if (tid) targetIds.push(tid);
+  }
+  await globalContexts.close(contextId);
+  return targetIds;
+}
+
 // --- Ref storage (in-memory + file-based persistence) ---
 
 import { writeFile, readFile, mkdir, readdir, stat, unlink } from "node:fs/promises";
 import { readFileSync, mkdirSync, writeFileSync } from "node:fs";
-import { join } from "node:path";
+import { join, dirname, resolve as resolvePath } from "node:path";
 import { tmpdir } from "node:os";
 
 function getRefCacheDir(): string {
@@ -416,8 +1074,38 @@ function loadPersistedRefs(targetId: string): PageRoleState | undefined {
   }
 }
 
-export function storeRefs(targetId: string, refs: RoleRefMap, mode: "role" | "aria", frameSelector?: string): void {
-  const state: PageRoleState = { refs, mode, frameSelector };
+/** Snapshot generation the next snapshot of this tab gets. */
+export function nextRefGeneration(targetId: string): number {
+  return (getStoredRefs(targetId)?.generation ?? 0) + 1;
+}
+
+/**
+ * Store a snapshot's refs as the tab's current generation. `source` is the tab and
+ * generation the refs came from (defaults to the next generation of targetId);
+ * `identity` is the refs' DOM nodes when they were numbered by stabilizeRefs.
+ * Returns the generation stored.
+ */
+export function storeRefs(
+  targetId: string,
+  refs: RoleRefMap,
+  mode: "role" | "aria",
+  frameSelector?: string,
+  source: { tab: string; generation: number } = { tab: targetId, generation: nextRefGeneration(targetId) },
+  identity?: { nodes: Record<string, number>; lastRef: number },
+): number {
+  const previous = getStoredRefs(targetId);
+  const history = previous?.generation !== undefined && (previous.tab ?? targetId) === source.tab
+    ? [
+        { generation: previous.generation, refs: previous.refs, ...(previous.nodes ? { nodes: previous.nodes } : {}) },
+        ...(previous.history ?? []),
+      ].slice(0, REF_HISTORY_GENERATIONS)
+    : [];
+  const state: PageRoleState = { refs, mode, frameSelector, generation: source.generation, tab: source.tab, history, ...identity };
+  saveRefState(targetId, state);
+  return source.generation;
+}
+
+function saveRefState(targetId: string, state: PageRoleState): void {
   roleRefsByTarget.set(targetId, state);
   persistRefs(targetId, state);
   while (roleRefsByTarget.size > MAX_REF_CACHE) {
@@ -427,18 +1115,80 @@ export function storeRefs(targetId: string, refs: RoleRefMap, mode: "role" | "ar
   }
 }
 
+/** Point a tab's refs at a frame (undefined = main frame) without starting a new generation. */
+export function setRefFrame(targetId: string, frameSelector: string | undefined): void {
+  const current = getStoredRefs(targetId);
+  if (current) saveRefState(targetId, { ...current, frameSelector });
+  else if (frameSelector) storeRefs(targetId, {}, "role", frameSelector);
+}
+
+/** Resolve a ref from an earlier generation ("e5@g3") to this one's from now on. */
+export function remapRef(targetId: string, staleRef: string, ref: string): void {
+  const current = getStoredRefs(targetId);
+  if (!current) return;
+  saveRefState(targetId, { ...current, remapped: { ...current.remapped, [staleRef]: ref } });
+}
+
 export function getStoredRefs(targetId: string): PageRoleState | undefined {
   return roleRefsByTarget.get(targetId) ?? loadPersistedRefs(targetId);
 }
 
+/** targetIds with refs in the in-memory cache (journaled across daemon restarts). */
+export function getRefTargets(): string[] {
+  return Array.from(roleRefsByTarget.keys());
+}
+
+/** Load a tab's persisted refs back into the in-memory cache. Returns false when none were on disk. */
+export function restoreRefs(targetId: string): boolean {
+  if (roleRefsByTarget.has(targetId)) return true;
+  const state = loadPersistedRefs(targetId);
+  if (!state) return false;
+  roleRefsByTarget.set(targetId, state);
+  return true;
+}
+
+/** In-memory ref cache size (for health reporting). */
+export function getRefCacheStats(): { cached_targets: number; total_refs: number } {
+  let total = 0;
+  for (const state of roleRefsByTarget.values()) total += Object.keys(state.refs).length;
+  return { cached_targets: roleRefsByTarget.size, total_refs: total };
+}
+
 // --- refLocator: ref → Playwright locator ---
 
+function staleRefError(ref: string, generation: number, current: number | undefined): Error {
+  const latest = current === undefined ? "has no snapshot" : `is at generation ${current}`;
+  return Object.assign(
+    new Error(`Ref "${ref}@g${generation}" is from snapshot generation ${generation}, but the tab ${latest}. Run a new snapshot and use a ref from that snapshot.`),
+    {
+      rpcData: {
+        error_class: "stale_ref",
+        suggestion: "The tab was snapshotted again (or its refs were dropped) since this ref was taken. Use a ref from the latest snapshot, or enable auto-retry to remap it by role and name.",
+      },
+    },
+  );
+}
+
+/** The ref in the tab's current generation that `ref` (possibly "e5@g3") stands for. */
+function currentRef(ref: string, state?: PageRoleState): string {
+  const parsed = parseRef(ref);
+  // A ref from another generation may name a different element now: never guess.
+  // It still resolves when stable numbering kept it on the same DOM node.
+  if (parsed.generation !== undefined && parsed.generation !== state?.generation) {
+    const remapped = state?.remapped?.[`${parsed.ref}@g${parsed.generation}`];
+    if (remapped) return remapped;
+    const past = state?.history?.find((h) => h.generation === parsed.generation);
+    const node = past?.nodes?.[parsed.ref];
+    if (node === undefined || state?.nodes?.[parsed.ref] !== node) {
+      throw staleRefError(parsed.ref, parsed.generation, state?.generation);
+    }
+  }
+  return parsed.ref;
+}
+
+/** Ref → locator by role query (role mode) or aria-ref (aria mode); see locateRef for node handles. */
 export function refLocator(page: Page, ref: string, state?: PageRoleState) {
-  const normalized = ref.startsWith("@")
-    ? ref.slice(1)
-    : ref.startsWith("ref=")
-      ? ref.slice(4)
-      : ref;
+  const normalized = currentRef(ref, state);
 
   if (/^e\d+$/.test(normalized)) {
     if (state?.mode === "aria") {
@@ -467,8 +1217,166 @@ export function refLocator(page: Page, ref: string, state?: PageRoleState) {
   return page.locator(`aria-ref=${normalized}`);
 }
 
+// Each lookup tags the node with its own attribute, so concurrent lookups of one
+// node never remove each other's tag
+const NODE_ATTRIBUTE_PREFIX = "data-jarvis-node-";
+let nodeTagSeq = 0;
+// One CDP session per page for node lookups, instead of one per action
+const nodeSessions = new WeakMap<Page, Promise<CDPSession>>();
+
+export interface LocatedRef {
+  locator: Locator;
+  via: RefResolution;
+  /** Undo what locating changed on the page (the node tag). Call once the locator is no longer used. */
+  release: () => Promise<void>;
+}
+
+const NOTHING_TO_RELEASE = async (): Promise<void> => {};
+
+/**
+ * Ref → locator through the DOM node recorded at snapshot time, so renamed or
+ * duplicated elements and selector-scoped snapshots resolve to the element that was
+ * snapped. The node is tagged with an attribute the locator selects on until
+ * release(); when it is gone (or has no recorded node) the ref falls back to refLocator.
+ */
+export async function locateRef(
+  page: Page,
+  ref: string,
+  state?: PageRoleState,
+): Promise<LocatedRef> {
+  const normalized = currentRef(ref, state);
+  const node = state?.mode === "role" && !state.frameSelector ? state.nodes?.[normalized] : undefined;
+  const tag = node !== undefined ? await tagNode(page, node) : null;
+  if (tag) return { locator: page.locator(`[${tag.attribute}]`), via: "node", release: tag.release };
+  const locator: Locator = refLocator(page, ref, state);
+  return {
+    locator,
+    via: state?.mode === "aria" || !/^e\d+$/.test(normalized) ? "aria" : "role",
+    release: NOTHING_TO_RELEASE,
+  };
+}
+
+function nodeSession(page: Page): Promise<CDPSession> {
+  let session = nodeSessions.get(page);
+  if (!session) {
+    session = page.context().newCDPSession(page);
+    nodeSessions.set(page, session);
+    session.catch(() => { nodeSessions.delete(page); });
+  }
+  return session;
+}
+
+/** Mark a still-attached DOM node (by backendNodeId) for locateRef. Null when it is gone. */
+async function tagNode(
+  page: Page,
+  backendNodeId: number,
+): Promise<{ attribute: string; release: () => Promise<void> } | null> {
+  let session: CDPSession;
+  try {
+    session = await nodeSession(page);
+  } catch {
+    return null;
+  }
+  const attribute = `${NODE_ATTRIBUTE_PREFIX}${++nodeTagSeq}`;
+  let objectId: string | undefined;
+  try {
+    ({ object: { objectId } } = (await session.send("DOM.resolveNode", { backendNodeId })) as { object: { objectId?: string } });
+    if (!objectId) return null;
+    const res = (await session.send("Runtime.callFunctionOn", {
+      objectId,
+      functionDeclaration: `function(name) {
+        if (!this.isConnected || this.nodeType !== 1) return false;
+        this.setAttribute(name, "");
+        return true;
+      }`,
+      arguments: [{ value: attribute }],
+      returnByValue: true,
+    })) as { result?: { value?: unknown } };
+    if (res.result?.value !== true) throw new Error("not an attached element");
+  } catch (err) {
+    if (objectId) await session.send("Runtime.releaseObject", { objectId }).catch(() => {});
+    // A closed session is dropped so the next lookup opens a fresh one
+    if (err instanceof Error && /closed|detached/i.test(err.message)) nodeSessions.delete(page);
+    return null;
+  }
+  const tagged = objectId;
+  return {
+    attribute,
+    release: async () => {
+      await session.send("Runtime.callFunctionOn", {
+        objectId: tagged,
+        // Clones made while the node was tagged carry the attribute too
+        functionDeclaration: `function(name) {
+          for (const el of this.ownerDocument.querySelectorAll("[" + name + "]")) el.removeAttribute(name);
+        }`,
+        arguments: [{ value: attribute }],
+      }).catch(() => {});
+      await session.send("Runtime.releaseObject", { objectId: tagged }).catch(() => {});
+    },
+  };
+}
+
 // --- Snapshot functions ---
 
+type AxNode = {
+  nodeId: string;
+  ignored?: boolean;
+  role?: { value?: string };
+  name?: { value?: string };
+  backendDOMNodeId?: number;
+  childIds?: string[];
+};
+
+/**
+ * Unignored accessibility nodes with their DOM nodes, in document order. With a
+ * CSS selector, only the subtree of its first match (what a scoped ariaSnapshot
+ * covers). Null when CDP can't provide them or the selector isn't plain CSS.
+ */
+async function readAxIdentities(page: Page, selector?: string): Promise<AxNodeIdentity[] | null> {
+  let session: CDPSession;
+  try {
+    session = await page.context().newCDPSession(page);
+  } catch {
+    return null;
+  }
+  try {
+    await session.send("Accessibility.enable").catch(() => {});
+    const res = (await session.send("Accessibility.getFullAXTree")) as { nodes?: AxNode[] };
+    let nodes = res?.nodes ?? [];
+
+    if (selector) {
+      const { root } = (await session.send("DOM.getDocument", { depth: 0 })) as { root: { nodeId: number } };
+      const { nodeId } = (await session.send("DOM.querySelector", { nodeId: root.nodeId, selector })) as { nodeId: number };
+      if (!nodeId) return null;
+      const { node } = (await session.send("DOM.describeNode", { nodeId })) as { node: { backendNodeId: number } };
+      const start = nodes.find((n) => n.backendDOMNodeId === node.backendNodeId);
+      if (!start) return null;
+      const byId = new Map(nodes.map((n) => [n.nodeId, n]));
+      const subtree: AxNode[] = [];
+      const walk = (n: AxNode) => {
+        subtree.push(n);
+        for (const id of n.childIds ?? []) {
+          const child = byId.get(id);
+          if (child) walk(child);
+        }
+      };
+      walk(start);
+      nodes = subtree;
+    }
+
+    const out: AxNodeIdentity[] = [];
+    for (const n of nodes) {
+      if (n.ignored || n.backendDOMNodeId === undefined) continue;
+      out.push({ role: String(n.role?.value ?? ""), name: String(n.name?.value ?? ""), backendNodeId: n.backendDOMNodeId });
+    }
+    return out;
+  } catch {
+    return null;
+  } finally {
+    await session.detach().catch(() => {});
+  }
+}
+
 type SnapshotForAI = {
   _snapshotForAI?: (opts?: { timeout?: number; track?: string }) => Promise<{ full: string }>;
 };
@@ -486,12 +1394,19 @@ export async function takeSnapshot(opts: {
   const page = await getPage(opts.targetId);
   const resolvedId = opts.targetId ?? (await getTargetId(page)) ?? "default";
   const mode = opts.mode ?? "role";
+  const generation = nextRefGeneration(resolvedId);
 
   // Store under both resolved ID and "default" alias for cross-process CLI usage
-  const storeRefsWithAlias = (refs: RoleRefMap, refMode: "role" | "aria", frame?: string) => {
-    storeRefs(resolvedId, refs, refMode, frame);
+  const storeRefsWithAlias = (
+    refs: RoleRefMap,
+    refMode: "role" | "aria",
+    frame?: string,
+    identity?: { nodes: Record<string, number>; lastRef: number },
+  ) => {
+    const source = { tab: resolvedId, generation };
+    storeRefs(resolvedId, refs, refMode, frame, source, identity);
     if (resolvedId !== "default") {
-      storeRefs("default", refs, refMode, frame);
+      storeRefs("default", refs, refMode, frame, source, identity);
     }
   };
 
@@ -513,6 +1428,7 @@ export async function takeSnapshot(opts: {
       snapshot: built.snapshot,
       refs: built.refs,
       stats: getRoleSnapshotStats(built.snapshot, built.refs),
+      generation,
       truncated,
     };
   }
@@ -537,6 +1453,7 @@ export async function takeSnapshot(opts: {
         snapshot: built.snapshot,
         refs: built.refs,
         stats: getRoleSnapshotStats(built.snapshot, built.refs),
+        generation,
       };
     } finally {
       await session.detach().catch(() => {});
@@ -571,12 +1488,31 @@ export async function takeSnapshot(opts: {
     }
   }
 
-  const built = buildRoleSnapshotFromAriaSnapshot(snapshotText, opts.options);
-  storeRefsWithAlias(built.refs, "role");
+  let built = buildRoleSnapshotFromAriaSnapshot(snapshotText, opts.options);
+  // Refs are tied to their DOM nodes: elements already in the tab's last snapshot keep
+  // their refs, new ones are numbered after the highest ref handed out so far, and
+  // actions resolve refs through the nodes (locateRef). A scoped snapshot is matched
+  // against its own subtree, where its nth counts were taken.
+  const axNodes = await readAxIdentities(page, opts.selector);
+  if (axNodes) {
+    const previous = getStoredRefs(resolvedId);
+    const stable = stabilizeRefs(
+      built,
+      matchRefsToNodes(built.refs, axNodes),
+      previous?.nodes && previous.mode === "role" && (previous.tab ?? resolvedId) === resolvedId
+        ? { refs: previous.refs, nodes: previous.nodes, lastRef: previous.lastRef }
+        : undefined,
+    );
+    built = { snapshot: stable.snapshot, refs: stable.refs };
+    storeRefsWithAlias(built.refs, "role", undefined, { nodes: stable.nodes, lastRef: stable.lastRef });
+  } else {
+    storeRefsWithAlias(built.refs, "role");
+  }
   return {
     snapshot: built.snapshot,
     refs: built.refs,
     stats: getRoleSnapshotStats(built.snapshot, built.refs),
+    generation,
     ...(opts.selector ? { scopedTo: opts.selector } : {}),
   };
 }
@@ -584,6 +1520,7 @@ export async function takeSnapshot(opts: {
 // --- Cleanup ---
 
 export async function stopChrome(): Promise<void> {
+  launched = null;
   if (browser?.isConnected()) {
     await browser.close().catch(() => {});
     browser = null;
@@ -609,8 +1546,16 @@ export async function checkStatus(port?: number): Promise<{ connected: boolean;
 
 // --- Navigation: reload, back, forward ---
 
-export async function reloadPage(targetId?: string): Promise<{ url: string }> {
-  const page = await getPage(targetId);
+/**
+ * Reload a tab; a crashed tab is recovered, and when that took a new tab
+ * recovered_tab is its targetId.
+ */
+export async function reloadPage(targetId?: string): Promise<{ url: string; recovered_tab?: string }> {
+  const page = await getPage(targetId, { allowCrashed: true });
+  if (isPageCrashed(page)) {
+    const tab = await recoverCrashedTab(targetId);
+    if (tab) return { url: tab.page.url(), ...(tab.to !== tab.from ? { recovered_tab: tab.to } : {}) };
+  }
   await page.reload({ timeout: NAVIGATION_TIMEOUT_MS, waitUntil: "domcontentloaded" });
   return { url: page.url() };
 }
@@ -687,9 +1632,14 @@ export async function ensureConnected(port?: number): Promise<void> {
 
 // --- Cookie management ---
 
-export async function getCookies(targetId?: string, urls?: string[]): Promise<unknown[]> {
-  const page = await getPage(targetId);
-  const context = page.context();
+/** The tab's context when targetId is given, else contextId, else the active tab's. */
+async function cookieContext(targetId?: string, contextId?: string): Promise<BrowserContext> {
+  if (!targetId && contextId) return globalContexts.resolve(requireBrowser(), contextId);
+  return (await getPage(targetId)).context();
+}
+
+export async function getCookies(targetId?: string, urls?: string[], contextId?: string): Promise<unknown[]> {
+  const context = await cookieContext(targetId, contextId);
   const cookies = await context.cookies(urls);
   return cookies;
 }
@@ -704,14 +1654,15 @@ export async function setCookies(cookies: Array<{
   httpOnly?: boolean;
   secure?: boolean;
   sameSite?: "Strict" | "Lax" | "None";
-}>): Promise<void> {
-  if (!browser?.isConnected()) throw new Error("Not connected");
-  const context = browser.contexts()[0];
-  if (!context) throw new Error("No browser context");
+}>, target: { targetId?: string; contextId?: string } = {}): Promise<void> {
+  const b = requireBrowser();
+  const context = target.targetId
+    ? (await getPage(target.targetId)).context()
+    : await globalContexts.resolve(b, target.contextId);
   await context.addCookies(cookies);
 }
 
-export async function clearCookies(targetId?: string): Promise<void> {
-  const page = await getPage(targetId);
-  await page.context().clearCookies();
+export async function clearCookies(targetId?: string, contextId?: string): Promise<void> {
+  const context = await cookieContext(targetId, contextId);
+  await context.clearCookies();
 }
@@ -4,15 +4,28 @@
 
 import { jsonOutput, textOutput, fileOutput, formatOutput } from "./shared.js";
 import type { ActionResult } from "./types.js";
-import { tryConnect, sendRequest, getSocketPath } from "./client.js";
+import {
+  tryConnect,
+  connectToSocket,
+  sendRequest,
+  getSocketPath,
+  followEvents,
+  isRemoteDaemon,
+} from "./client.js";
 import {
   startDaemon,
   stopDaemon,
+  restartDaemon,
+  ensureCompatibleDaemon,
   getDaemonStatusViaRpc,
   getDaemonHealthViaRpc,
+  getDaemonMetricsViaRpc,
   isDaemonRunning,
 } from "./daemon.js";
 import { ensureConnected } from "./browser.js";
+import { readConfig } from "./config.js";
+import { getAuditLogPath, parseSince, queryAuditLog } from "./audit.js";
+import { runMcpServer } from "./mcp.js";
 import * as connCmd from "./commands/connection.js";
 import * as tabsCmd from "./commands/tabs.js";
 import * as navCmd from "./commands/navigation.js";
@@ -32,6 +45,8 @@ const VALUE_FLAGS = new Set([
   "--type", "--body", "--status", "--name", "--rule-id", "--content-type",
   // v0.6.0 config + retry
   "--key", "--max-retries",
+  // snapshot generation for refs
+  "--gen",
   // v0.7.0 new commands
   "--selector", "--save-to", "--attr",
   // v0.8.0 new flags
@@ -40,6 +55,17 @@ const VALUE_FLAGS = new Set([
   "--color", "--duration", "--export", "--format",
   // v1.0.0 new flags
   "--fps", "--quality", "--max-frames",
+  // tab leases
+  "--ttl",
+  // audit log
+  "--since", "--worker",
+  // browser contexts
+  "--context",
+  // profiles
+  "--profile", "--proxy", "--device",
+  // chrome launch options
+  "--chrome-arg", "--extension", "--window-size", "--window-position", "--lang", "--timezone",
+  "--download-dir",
 ]);
 
 function getPositionals(args: string[]): string[] {
@@ -60,6 +86,19 @@ function extractOption(args: string[], flag: string): string | undefined {
   return idx >= 0 ? args[idx + 1] : undefined;
 }
 
+/** --gen <n>: write the refs in args (e5, @e5, --ref e5) as e5@g<n>, so a newer snapshot makes them fail fast. */
+function applyRefGeneration(args: string[]): string[] {
+  const gen = extractOption(args, "--gen");
+  if (gen === undefined) return args;
+  if (!/^\d+$/.test(gen)) throw new Error(`--gen must be a snapshot generation number, got "${gen}"`);
+  return args.map((arg, i) => {
+    const prev = args[i - 1];
+    const isValue = prev !== undefined && VALUE_FLAGS.has(prev);
+    const isRef = /^@?e\d+$/.test(arg) && (!isValue || prev === "--ref");
+    return isRef ? `${arg}@g${gen}` : arg;
+  });
+}
+
 function getAllFlagValues(args: string[], flag: string): string[] {
   const values: string[] = [];
   args.forEach((arg, i) => {
@@ -71,6 +110,27 @@ function getAllFlagValues(args: string[], flag: string): string[] {
   return values;
 }
 
+/** launch / profile launch overrides for the chrome-* config keys */
+function launchFlagParams(args: string[]): connCmd.LaunchFlags {
+  const chromeArgs = getAllFlagValues(args, "--chrome-arg");
+  const extensions = getAllFlagValues(args, "--extension");
+  const windowSize = extractOption(args, "--window-size");
+  const windowPosition = extractOption(args, "--window-position");
+  const lang = extractOption(args, "--lang");
+  const timezone = extractOption(args, "--timezone");
+  const downloadDir = extractOption(args, "--download-dir");
+  return {
+    ...(chromeArgs.length ? { args: chromeArgs } : {}),
+    ...(extensions.length ? { extensions } : {}),
+    ...(windowSize ? { windowSize } : {}),
+    ...(windowPosition ? { windowPosition } : {}),
+    ...(lang ? { lang } : {}),
+    ...(timezone ? { timezone } : {}),
+    ...(args.includes("--ignore-cert-errors") ? { ignoreCertErrors: true } : {}),
+    ...(downloadDir ? { downloadDir } : {}),
+  };
+}
+
 function parseIntOption(args: string[], flag: string): number | undefined {
   const idx = args.indexOf(flag);
   if (idx < 0) return undefined;
@@ -87,21 +147,39 @@ function usage(): never {
 DAEMON:
   daemon start [--port]      Start persistent daemon process
   daemon stop                Stop daemon
+  daemon restart [--port]    Restart, carrying routes, leases, emulation and observers over
   daemon status              Show daemon status
   daemon health              Show detailed health info
+  daemon metrics [--format prometheus]  Request counts, errors and latency histograms
+  daemon audit [--since <15m|2h|ISO>] [--worker <id>] [--method <name|prefix*>] [--last <n>]
+                             Query the RPC audit log (config set audit-log true)
 
 COMMANDS:
   status                     Check Chrome CDP connection
-  launch [--port] [--headless]  Launch Chrome with CDP
+  launch [--port] [--headless] [--profile <name>]  Launch Chrome with CDP
+         [--chrome-arg <switch>]... [--extension <dir>]... [--window-size <WxH>]
+         [--window-position <x,y>] [--lang <locale>] [--timezone <IANA>]
+         [--ignore-cert-errors] [--download-dir <dir>]  (override the chrome-* config keys)
   connect [--port] [--cdp-url]  Connect to running Chrome
   stop                       Stop Chrome and disconnect
 
   tabs                       List open tabs
-  open <url>                 Open new tab
+  open <url> [--context <id>]  Open new tab (default context: the worker's own)
   close <targetId>           Close tab
   focus <targetId>           Bring tab to front
   cleanup [--keep <url>...]  Close stale tabs
 
+  tab claim <targetId> [--ttl <ms>]            Lease a tab to this worker (JARVIS_WORKER_ID)
+  tab renew <targetId> [--ttl <ms>]            Extend the lease (heartbeat)
+  tab release <targetId>                       Give the tab up
+  tab transfer <targetId> <workerId> [--ttl <ms>]  Hand the tab to another worker
+
+  context new                                  Create an isolated (incognito) context for this worker
+  context list                                 List contexts with owner and tab count
+  context close <contextId>                    Close a context and all of its tabs
+
+  policy show [--worker <id>]                  Loaded policy and the rules for this (or another) worker
+
   reload [--target]          Reload current page
   back [--target]            Navigate back
   forward [--target]         Navigate forward
@@ -127,6 +205,9 @@ COMMANDS:
   clear-cookies [--target]
   batch --file <json> [--output]
 
+  Popups:      a tab opened by an action (window.open, target=_blank) is reported as
+               "opened_tab" in its result (daemon only) and inherits the opener's owner and routes
+
 OBSERVER (v0.4.0 — daemon only):
   console [--target] [--level <log|warn|error>] [--last <n>]
   errors [--target] [--last <n>]
@@ -134,6 +215,13 @@ OBSERVER (v0.4.0 — daemon only):
   observe [--target] [--include <console|errors|requests>...] [--last <n>] [--export <path>] [--format har|json]
   page-info [--target]
 
+MCP:
+  mcp                        Model Context Protocol server on stdio (daemon methods as tools)
+
+EVENTS (daemon only):
+  events --follow [--include console,errors,network,dialog,download,navigation] [--target]
+                             Stream events as NDJSON (one JSON object per line)
+
 CONTROLLER (v0.5.0 — daemon only):
   storage get <key> [--type local|session] [--target]
   storage set <key> <value> [--type local|session] [--target]
@@ -149,6 +237,12 @@ CONTROLLER (v0.5.0 — daemon only):
   session export <name> [--output <file>] [--include-secrets]
   session import <path> [--name <name>]
 
+  profile create <name> [--proxy <url>] [--device <name>]  Named Chrome profile under profile-root
+  profile list
+  profile clone <name> <newName>
+  profile delete <name>
+  profile launch <name> [--port] [--headless] [launch flags]  Same as launch --profile <name>
+
   route block <pattern> [--target]
   route mock <pattern> [--status <n>] [--body <text>] [--content-type <mime>] [--target]
   route capture <pattern> [--target]
@@ -170,6 +264,8 @@ CONFIG (v0.6.0 — daemon only):
   Keys: auto-retry, retry-count, retry-delay-ms, default-timeout-ms,
         screenshot-dir, console-buffer-size, network-buffer-size, daemon-idle-timeout-m,
         dialog-mode (accept|dismiss|queue)
+  The daemon applies changes immediately, including edits made directly to
+  /tmp/jarvis-browser-config.json (buffers are resized in place, newest entries kept).
 
 GET (v0.7.0):
   get text <ref>           Get element text content
@@ -230,6 +326,60 @@ PLATFORM (v1.0.0 — device/proxy/recording):
 
   Config key: network-body-max-kb (0 = disabled, captures response bodies)
 
+  Profiles:    profile-root (default /tmp/jarvis-browser-profiles) — one user-data-dir per profile;
+               a profile's proxy overrides the proxy key, its device is applied to the first tab
+
+  Chrome launch (applied by launch, shown under "launch" in status):
+               chrome-args (space-separated switches), chrome-extensions (comma-separated dirs)
+               chrome-window-size (e.g. 1280x800), chrome-window-position (e.g. 0,0)
+               chrome-lang (e.g. de-DE), chrome-timezone (e.g. Europe/Berlin)
+               chrome-ignore-cert-errors (default false), chrome-download-dir
+               chrome-restart-max (default 3, 0 = off) per chrome-restart-window-s (default 600) —
+               a Chrome the daemon launched is relaunched if it dies; its tabs reopen under new
+               targetIds and the old ones keep working (see daemon health)
+
+  Tab leases:  tab-lease-ttl-s (default 300, 0 = never expires) — using a tab renews its lease
+               tab-lease-close-orphans (default false) — close tabs whose lease lapses
+
+  Remote transport (daemon restart required):
+               daemon-tcp-port / daemon-ws-port (0 = off), daemon-bind-host (default 127.0.0.1)
+               daemon-auth-token (or JARVIS_DAEMON_TOKEN) — required to enable either listener
+               daemon-tls-cert / daemon-tls-key — PEM paths; switches to tls:// and wss://
+               daemon-metrics-port (0 = off) — Prometheus GET /metrics on daemon-bind-host
+
+  Audit log:
+               audit-log (default false) — JSONL at /tmp/jarvis-browser-audit[-<worker>].jsonl
+               audit-log-max-mb (default 10), audit-log-files (default 5) — size-based rotation
+               audit-redact-session-names (default false) — fill/type text, cookies, storage values
+               and tokens are always redacted
+
+  State journal:
+               state-journal (default false) — persist route rules, tab leases, emulation,
+               observed tabs and dialog mode to /tmp/jarvis-browser-state[-<worker>].json and
+               restore them when the daemon starts (tabs that no longer exist are skipped)
+
+  Worker policies:
+               policy-file — JSON mapping workerIds to allowed/denied methods and URLs;
+               violations fail with SECURITY_VIOLATION, and the file is re-read when it changes:
+               {"workers": {"experimental-*": {"deny_methods": ["evaluate", "set-cookie",
+                 "session.export", "route.mock", "config.*"], "allow_urls": ["*.example.com"]}},
+                "default": {}}
+               keys: allow_methods / deny_methods (name or "prefix*"), allow_urls / deny_urls
+               ("*.example.com" host match, or a full-URL glob); "default" covers everyone else.
+               URL rules check only the URL navigate/open (and batch navigate) ask for: redirects
+               and navigations the page starts (links, forms, scripts, popups) are not checked.
+               workerId is self-declared: policies separate cooperating agents, not attackers
+
+  Browser contexts:
+               worker-contexts (default isolated) — with JARVIS_WORKER_ID set, open, cookies,
+               set-cookie and clear-cookies use the worker's own incognito context, so cookies,
+               storage, geolocation and headers stay per worker; shared = Chrome's profile.
+               Isolated contexts end with the daemon's Chrome connection
+
+  Version check: every daemon command first runs daemon.hello; a daemon on another
+               version, protocol or build (e.g. after npm run build) is handled per
+               daemon-version-mismatch: restart (default, state carried over) | error
+
 OPTIONS:
   --direct                   Bypass daemon, connect to Chrome directly (v0.2.0 mode)
   --json                     Output full {ok,data,error} envelope (v0.7.0)
@@ -238,13 +388,17 @@ OPTIONS:
   --port <n>                 Chrome CDP port (default: 9222)
   --auto-retry               Auto-retry interactions on stale/blocked elements (v0.6.0)
   --max-retries <n>          Max retry attempts per interaction (default: 2)
+  --gen <n>                  Refs are from snapshot generation n (same as writing e5@g<n>): fail with
+                             stale_ref instead of acting if the tab was snapshotted since; auto-retry remaps them
   wait --visible/--hidden/--enabled/--checked  State wait flags (v0.7.0)
   wait --download [--save-to <dir>]            Download wait (v0.7.0)
 
 ENV:
   JARVIS_BROWSER_DIRECT=1             Force direct mode
   JARVIS_WORKER_ID=<id>               Worker isolation (socket + PID file per worker)
-  JARVIS_BROWSER_ENCRYPTION_KEY=<k>   AES-256-GCM encrypt session files at rest (v0.9.0)`);
+  JARVIS_BROWSER_ENCRYPTION_KEY=<k>   AES-256-GCM encrypt session files at rest (v0.9.0)
+  JARVIS_DAEMON_URL=<url>             Remote daemon: tcp://host:port or tls://host:port (unix:///path also accepted)
+  JARVIS_DAEMON_TOKEN=<token>         Bearer token for the remote daemon (and for the daemon's listeners)`);
   process.exit(0);
 }
 
@@ -275,13 +429,17 @@ function buildParams(command: string, args: string[]): Params {
     case "status":
       return { ...base, ...(port !== undefined ? { port } : {}) };
 
-    case "launch":
+    case "launch": {
+      const profile = extractOption(args, "--profile");
       return {
         ...base,
         ...(port !== undefined ? { port } : {}),
         headless: args.includes("--headless"),
         noSandbox: args.includes("--no-sandbox"),
+        ...(profile ? { profile } : {}),
+        ...launchFlagParams(args),
       };
+    }
 
     case "connect": {
       const cdpUrl = extractOption(args, "--cdp-url");
@@ -308,8 +466,10 @@ function buildParams(command: string, args: string[]): Params {
       };
     }
 
-    case "open":
-      return { ...base, url: pos[0] ?? "about:blank" };
+    case "open": {
+      const contextId = extractOption(args, "--context");
+      return { ...base, url: pos[0] ?? "about:blank", ...(contextId ? { contextId } : {}) };
+    }
 
     case "close":
     case "focus":
@@ -610,6 +770,34 @@ function buildCompoundParams(command: string, sub: string, args: string[]): Para
       return { ...base, path: pos[0] ?? "", ...(nameVal ? { name: nameVal } : {}) };
     }
 
+    // profile.*
+    case "profile.create": {
+      const proxy = extractOption(args, "--proxy");
+      const device = extractOption(args, "--device");
+      return { ...base, name: pos[0] ?? "", ...(proxy ? { proxy } : {}), ...(device ? { device } : {}) };
+    }
+
+    case "profile.list":
+      return base;
+
+    case "profile.clone":
+      return { ...base, name: pos[0] ?? "", to: pos[1] ?? "" };
+
+    case "profile.delete":
+      return { ...base, name: pos[0] ?? "" };
+
+    case "profile.launch": {
+      const port = parseIntOption(args, "--port");
+      return {
+        ...base,
+        name: pos[0] ?? "",
+        ...(port !== undefined ? { port } : {}),
+        headless: args.includes("--headless"),
+        noSandbox: args.includes("--no-sandbox"),
+        ...launchFlagParams(args),
+      };
+    }
+
     // route.*
     case "route.block":
     case "route.capture":
@@ -778,6 +966,40 @@ function buildCompoundParams(command: string, sub: string, args: string[]): Para
     case "record.status":
       return base;
 
+    // context.*
+    case "context.new":
+    case "context.list":
+      return base;
+
+    case "context.close":
+      return { ...base, contextId: pos[0] ?? "" };
+
+    // tab.* leases
+    case "tab.claim":
+    case "tab.renew": {
+      const ttlMs = parseIntOption(args, "--ttl");
+      return { ...base, targetId: pos[0] ?? targetId ?? "", ...(ttlMs !== undefined ? { ttlMs } : {}) };
+    }
+
+    case "tab.release":
+      return { ...base, targetId: pos[0] ?? targetId ?? "" };
+
+    case "tab.transfer": {
+      const ttlMs = parseIntOption(args, "--ttl");
+      return {
+        ...base,
+        targetId: pos[0] ?? targetId ?? "",
+        to: pos[1] ?? "",
+        ...(ttlMs !== undefined ? { ttlMs } : {}),
+      };
+    }
+
+    // policy.*
+    case "policy.show": {
+      const worker = extractOption(args, "--worker");
+      return { ...base, ...(worker ? { worker } : {}) };
+    }
+
     default:
       return base;
   }
@@ -810,6 +1032,8 @@ async function runDirect(command: string, args: string[]): Promise<void> {
         port,
         headless: args.includes("--headless"),
         noSandbox: args.includes("--no-sandbox"),
+        profile: extractOption(args, "--profile"),
+        ...launchFlagParams(args),
       });
       jsonOutput(result);
       break;
@@ -885,11 +1109,11 @@ async function runDirect(command: string, args: string[]): Promise<void> {
       });
       if (!outputFile) {
         // Print snapshot text + stats (same as v0.2.0)
-        const r = result as { snapshot?: string; stats?: unknown };
+        const r = result as { snapshot?: string; stats?: object; generation?: number };
         if (r.snapshot) {
           textOutput(r.snapshot);
           textOutput("\n---");
-          jsonOutput(r.stats);
+          jsonOutput({ ...r.stats, generation: r.generation });
         } else {
           jsonOutput(result);
         }
@@ -1107,6 +1331,19 @@ async function runDaemonSubcommand(subcommand: string, args: string[]): Promise<
       jsonOutput({ ok: true, message: "Daemon stopped" });
       break;
     }
+    case "restart": {
+      process.stderr.write("[jarvis-browser] Restarting daemon...\n");
+      const { state_saved } = await restartDaemon({ port });
+      const status = await getDaemonStatusViaRpc() as { restored?: unknown };
+      jsonOutput({
+        ok: true,
+        message: "Daemon restarted",
+        socket: getSocketPath(),
+        state_saved,
+        restored: status.restored ?? null,
+      });
+      break;
+    }
     case "status": {
       if (!isDaemonRunning()) {
         jsonOutput({ ok: false, running: false });
@@ -1119,14 +1356,59 @@ async function runDaemonSubcommand(subcommand: string, args: string[]): Promise<
       jsonOutput(await getDaemonHealthViaRpc());
       break;
     }
+    case "metrics": {
+      if (extractOption(args, "--format") === "prometheus") {
+        const result = await getDaemonMetricsViaRpc("prometheus") as { text: string };
+        process.stdout.write(result.text);
+      } else {
+        jsonOutput(await getDaemonMetricsViaRpc());
+      }
+      break;
+    }
+    case "audit": {
+      // Reads the log files directly, so it works while the daemon is down
+      const since = extractOption(args, "--since");
+      const worker = extractOption(args, "--worker");
+      const method = extractOption(args, "--method");
+      const last = parseIntOption(args, "--last");
+      const config = await readConfig();
+      const path = getAuditLogPath();
+      const entries = await queryAuditLog(path, {
+        ...(since ? { since: parseSince(since) } : {}),
+        ...(worker !== undefined ? { worker } : {}),
+        ...(method ? { method } : {}),
+        ...(last !== undefined ? { last } : {}),
+      }, Math.max(1, config["audit-log-files"]));
+      jsonOutput({ ok: true, path, enabled: config["audit-log"], count: entries.length, entries });
+      break;
+    }
     default:
-      textOutput(`Unknown daemon subcommand: ${subcommand}. Use: start|stop|status|health`);
+      textOutput(`Unknown daemon subcommand: ${subcommand}. Use: start|stop|restart|status|health|metrics|audit`);
       process.exit(1);
   }
 }
 
 // --- Daemon mode: send command via socket ---
 
+// Connect to the daemon socket, auto-starting the daemon when it is not running.
+// A remote daemon (JARVIS_DAEMON_URL=tcp://...) is never auto-started; its connect error is surfaced.
+// An already-running daemon is handshaken first (daemon.hello) so stale code is caught
+// before `method` fails with "Unknown method".
+async function connectOrStartDaemon(args: string[], method?: string): Promise<NonNullable<Awaited<ReturnType<typeof tryConnect>>>> {
+  const port = parseIntOption(args, "--port");
+  const mode = (await readConfig())["daemon-version-mismatch"];
+  if (isRemoteDaemon()) {
+    return ensureCompatibleDaemon(await connectToSocket(), { method, remote: true, mode });
+  }
+  const s = await tryConnect();
+  if (s) return ensureCompatibleDaemon(s, { method, mode, port });
+  process.stderr.write("[jarvis-browser] Daemon not running, starting...\n");
+  await startDaemon({ port });
+  const s2 = await tryConnect(5000);
+  if (!s2) throw new Error("Failed to connect to daemon after auto-start");
+  return s2;
+}
+
 async function buildFinalParams(command: string, args: string[]): Promise<Params> {
   const base = buildParams(command, args);
   if (command !== "evaluate" && command !== "eval") return base;
@@ -1159,28 +1441,18 @@ async function runViaDaemon(command: string, args: string[]): Promise<void> {
   // Normalize command alias
   const method = command === "goto" ? "navigate" : command === "eval" ? "evaluate" : command === "attr" ? "attribute" : command;
 
-  const socket = await (async () => {
-    const s = await tryConnect();
-    if (s) return s;
-    // Auto-start daemon
-    const port = parseIntOption(args, "--port");
-    process.stderr.write("[jarvis-browser] Daemon not running, starting...\n");
-    await startDaemon({ port });
-    const s2 = await tryConnect(5000);
-    if (!s2) throw new Error("Failed to connect to daemon after auto-start");
-    return s2;
-  })();
+  const socket = await connectOrStartDaemon(args, method);
 
   try {
     const result = await sendRequest(socket, method, params);
 
     // Special output for snapshot (print text + stats)
     if (command === "snapshot" && !params.outputFile) {
-      const r = result as { snapshot?: string; stats?: unknown };
+      const r = result as { snapshot?: string; stats?: object; generation?: number };
       if (r.snapshot) {
         textOutput(r.snapshot);
         textOutput("\n---");
-        jsonOutput(r.stats);
+        jsonOutput({ ...r.stats, generation: r.generation });
         return;
       }
     }
@@ -1200,16 +1472,7 @@ async function runCompoundViaDaemon(command: string, sub: string, args: string[]
   const isV07Cmd = command === "get" || command === "is" || command === "dialog" || command === "find";
   const jsonMode = args.includes("--json");
 
-  const socket = await (async () => {
-    const s = await tryConnect();
-    if (s) return s;
-    const port = parseIntOption(args, "--port");
-    process.stderr.write("[jarvis-browser] Daemon not running, starting...\n");
-    await startDaemon({ port });
-    const s2 = await tryConnect(5000);
-    if (!s2) throw new Error("Failed to connect to daemon after auto-start");
-    return s2;
-  })();
+  const socket = await connectOrStartDaemon(args, method);
 
   try {
     const result = await sendRequest(socket, method, params);
@@ -1223,6 +1486,29 @@ async function runCompoundViaDaemon(command: string, sub: string, args: string[]
   }
 }
 
+// --- Event stream (server-push subscriptions) ---
+
+async function runEvents(args: string[]): Promise<void> {
+  if (!args.includes("--follow")) {
+    throw new Error("events requires --follow (streams NDJSON until interrupted)");
+  }
+  const includeVals = getAllFlagValues(args, "--include");
+  const targetId = extractOption(args, "--target");
+  const params: Params = {
+    ...(includeVals.length > 0 ? { include: includeVals.join(",") } : {}),
+    ...(targetId ? { targetId } : {}),
+  };
+
+  const socket = await connectOrStartDaemon(args, "subscribe");
+  const closed = new Promise<void>((resolve) => socket.once("close", () => resolve()));
+  process.once("SIGINT", () => socket.end());
+
+  await followEvents(socket, params, (event) => {
+    process.stdout.write(JSON.stringify(event) + "\n");
+  });
+  await closed;
+}
+
 // --- Main ---
 
 async function main(): Promise<void> {
@@ -1230,9 +1516,10 @@ async function main(): Promise<void> {
   if (!args.length || args[0] === "--help" || args[0] === "-h") usage();
 
   const command = args[0] ?? "";
-  const rest = args.slice(1);
 
   try {
+    const rest = applyRefGeneration(args.slice(1));
+
     // daemon subcommands always run locally (never via socket)
     if (command === "daemon") {
       const sub = rest[0] ?? "status";
@@ -1240,8 +1527,20 @@ async function main(): Promise<void> {
       process.exit(0);
     }
 
-    // Compound commands (v0.5.0+): storage | session | route | frame | config | get | is | dialog | find | set | record
-    const COMPOUND_COMMANDS = new Set(["storage", "session", "route", "frame", "config", "get", "is", "dialog", "find", "set", "record"]);
+    // MCP server over stdio: runs until stdin closes
+    if (command === "mcp") {
+      await runMcpServer();
+      process.exit(0);
+    }
+
+    // Event stream: runs until the daemon closes the socket or Ctrl-C
+    if (command === "events") {
+      await runEvents(rest);
+      process.exit(0);
+    }
+
+    // Compound commands (v0.5.0+): storage | session | route | frame | config | get | is | dialog | find | set | record | tab | policy | context | profile
+    const COMPOUND_COMMANDS = new Set(["storage", "session", "route", "frame", "config", "get", "is", "dialog", "find", "set", "record", "tab", "policy", "context", "profile"]);
     if (COMPOUND_COMMANDS.has(command)) {
       const sub = rest[0];
       if (!sub || sub.startsWith("--")) {
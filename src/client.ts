@@ -1,8 +1,10 @@
-// JSON-RPC client over Unix Domain Socket
+// JSON-RPC client over Unix Domain Socket (or TCP/TLS via JARVIS_DAEMON_URL)
 // Used by cli.ts to communicate with the daemon process
 
 import net from "node:net";
-import { makeRequest, isRpcError, type RpcResponse } from "./protocol.js";
+import tls from "node:tls";
+import { makeRequest, makeNotification, isRpcError, type RpcResponse } from "./protocol.js";
+import { DAEMON_TOKEN_ENV } from "./transport.js";
 
 let _requestId = 0;
 function nextId(): number {
@@ -16,16 +18,79 @@ export function getSocketPath(): string {
     : "/tmp/jarvis-browser.sock";
 }
 
-// Connect to daemon socket. Returns socket or throws.
-export function connectToSocket(socketPath?: string): Promise<net.Socket> {
-  const path = socketPath ?? getSocketPath();
+// --- Daemon endpoint (JARVIS_DAEMON_URL) ---
+
+export const DAEMON_URL_ENV = "JARVIS_DAEMON_URL";
+
+export type DaemonEndpoint =
+  | { kind: "unix"; path: string }
+  | { kind: "tcp" | "tls"; host: string; port: number };
+
+// Accepts unix:///path, tcp://host:port and tls://host:port
+export function parseDaemonUrl(raw: string): DaemonEndpoint {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new Error(`Invalid ${DAEMON_URL_ENV} "${raw}". Use unix:///path, tcp://host:port or tls://host:port`);
+  }
+  const kind = url.protocol.replace(/:$/, "");
+  if (kind === "unix") return { kind, path: decodeURIComponent(url.pathname) };
+  if ((kind === "tcp" || kind === "tls") && url.hostname && url.port) {
+    return { kind, host: url.hostname.replace(/^\[|\]$/g, ""), port: Number(url.port) };
+  }
+  throw new Error(`Unsupported ${DAEMON_URL_ENV} "${raw}". Use unix:///path, tcp://host:port or tls://host:port`);
+}
+
+function getDaemonEndpoint(): DaemonEndpoint {
+  const raw = process.env[DAEMON_URL_ENV];
+  return raw ? parseDaemonUrl(raw) : { kind: "unix", path: getSocketPath() };
+}
+
+// True when the CLI talks to a daemon it cannot start itself (TCP/TLS).
+export function isRemoteDaemon(): boolean {
+  return getDaemonEndpoint().kind !== "unix";
+}
+
+function openEndpoint(endpoint: DaemonEndpoint): Promise<net.Socket> {
   return new Promise((resolve, reject) => {
-    const socket = net.createConnection(path);
+    if (endpoint.kind === "tls") {
+      // Self-signed daemon certs: trust them via NODE_EXTRA_CA_CERTS
+      const socket = tls.connect({ host: endpoint.host, port: endpoint.port, servername: endpoint.host });
+      socket.once("secureConnect", () => resolve(socket));
+      socket.once("error", reject);
+      return;
+    }
+    const socket = endpoint.kind === "unix"
+      ? net.createConnection(endpoint.path)
+      : net.createConnection(endpoint.port, endpoint.host);
     socket.once("connect", () => resolve(socket));
     socket.once("error", reject);
   });
 }
 
+// Connect to daemon socket. Returns socket or throws.
+// Without an explicit path, JARVIS_DAEMON_URL is honored; TCP/TLS connections
+// authenticate with JARVIS_DAEMON_TOKEN before the socket is returned.
+export async function connectToSocket(socketPath?: string): Promise<net.Socket> {
+  const endpoint: DaemonEndpoint = socketPath ? { kind: "unix", path: socketPath } : getDaemonEndpoint();
+  const socket = await openEndpoint(endpoint);
+  if (endpoint.kind === "unix") return socket;
+
+  const token = process.env[DAEMON_TOKEN_ENV];
+  if (!token) {
+    socket.destroy();
+    throw new Error(`${DAEMON_TOKEN_ENV} is required to connect to ${process.env[DAEMON_URL_ENV]}`);
+  }
+  try {
+    await sendRequest(socket, "auth", { token });
+  } catch (err) {
+    socket.destroy();
+    throw err;
+  }
+  return socket;
+}
+
 // Try to connect with timeout. Returns null if daemon is not running.
 export async function tryConnect(timeoutMs = 1500): Promise<net.Socket | null> {
   try {
@@ -41,6 +106,7 @@ export async function tryConnect(timeoutMs = 1500): Promise<net.Socket | null> {
 }
 
 // Send one JSON-RPC request and receive one response (newline-delimited).
+// Notification frames (server-push events) arriving on the same socket are skipped.
 export function sendRequest(
   socket: net.Socket,
   method: string,
@@ -54,15 +120,24 @@ export function sendRequest(
 
     function onData(chunk: Buffer) {
       buffer += chunk.toString("utf-8");
-      const newlineIdx = buffer.indexOf("\n");
-      if (newlineIdx === -1) return;
+      for (;;) {
+        const newlineIdx = buffer.indexOf("\n");
+        if (newlineIdx === -1) return;
 
-      const line = buffer.slice(0, newlineIdx);
-      socket.removeListener("data", onData);
-      socket.removeListener("error", onError);
+        const line = buffer.slice(0, newlineIdx);
+        buffer = buffer.slice(newlineIdx + 1);
 
-      try {
-        const resp = JSON.parse(line) as RpcResponse;
+        let resp: RpcResponse;
+        try {
+          resp = JSON.parse(line) as RpcResponse;
+        } catch {
+          finish();
+          reject(new Error(`Daemon returned invalid JSON: ${line.slice(0, 200)}`));
+          return;
+        }
+        if (!("id" in resp)) continue; // notification — not our reply
+
+        finish();
         if (isRpcError(resp)) {
           const err = new Error(resp.error.message);
           (err as NodeJS.ErrnoException).code = String(resp.error.code);
@@ -70,22 +145,133 @@ export function sendRequest(
         } else {
           resolve(resp.result);
         }
-      } catch {
-        reject(new Error(`Daemon returned invalid JSON: ${line.slice(0, 200)}`));
+        return;
       }
     }
 
     function onError(err: Error) {
-      socket.removeListener("data", onData);
+      finish();
       reject(err);
     }
 
+    // The daemon stopped or restarted mid-call: no reply (and maybe no error) is coming
+    function onClose() {
+      finish();
+      reject(new Error("Daemon closed the connection before replying"));
+    }
+
+    function finish() {
+      socket.removeListener("data", onData);
+      socket.removeListener("error", onError);
+      socket.removeListener("close", onClose);
+    }
+
     socket.on("data", onData);
     socket.once("error", onError);
+    socket.once("close", onClose);
     socket.write(JSON.stringify(req) + "\n");
   });
 }
 
+// Send a JSON-RPC batch array and receive the response array (in request order).
+// parallel: true lets the daemon run calls on different tabs concurrently.
+export function sendBatch(
+  socket: net.Socket,
+  calls: Array<{ method: string; params?: Record<string, unknown> }>,
+  opts: { parallel?: boolean } = {},
+): Promise<RpcResponse[]> {
+  return new Promise((resolve, reject) => {
+    const batch: unknown[] = calls.map((c) => makeRequest(nextId(), c.method, c.params));
+    if (opts.parallel) batch.unshift(makeNotification("$/batch", { parallel: true }));
+
+    let buffer = "";
+
+    function onData(chunk: Buffer) {
+      buffer += chunk.toString("utf-8");
+      for (;;) {
+        const newlineIdx = buffer.indexOf("\n");
+        if (newlineIdx === -1) return;
+
+        const line = buffer.slice(0, newlineIdx);
+        buffer = buffer.slice(newlineIdx + 1);
+
+        let msg: unknown;
+        try {
+          msg = JSON.parse(line);
+        } catch {
+          finish();
+          reject(new Error(`Daemon returned invalid JSON: ${line.slice(0, 200)}`));
+          return;
+        }
+        if (!Array.isArray(msg)) {
+          // Notification, or a whole-batch error (e.g. empty batch)
+          const resp = msg as RpcResponse;
+          if (resp && typeof resp === "object" && "id" in resp && isRpcError(resp)) {
+            finish();
+            reject(new Error(resp.error.message));
+            return;
+          }
+          continue;
+        }
+
+        finish();
+        resolve(msg as RpcResponse[]);
+        return;
+      }
+    }
+
+    function onError(err: Error) {
+      finish();
+      reject(err);
+    }
+
+    // The daemon stopped or restarted mid-call: no reply (and maybe no error) is coming
+    function onClose() {
+      finish();
+      reject(new Error("Daemon closed the connection before replying"));
+    }
+
+    function finish() {
+      socket.removeListener("data", onData);
+      socket.removeListener("error", onError);
+      socket.removeListener("close", onClose);
+    }
+
+    socket.on("data", onData);
+    socket.once("error", onError);
+    socket.once("close", onClose);
+    socket.write(JSON.stringify(batch) + "\n");
+  });
+}
+
+// Subscribe to server-push events on an open socket.
+// Resolves with the subscribe result; onEvent keeps firing until the socket closes.
+export function followEvents(
+  socket: net.Socket,
+  params: Record<string, unknown>,
+  onEvent: (event: Record<string, unknown>) => void,
+): Promise<unknown> {
+  let buffer = "";
+  socket.on("data", (chunk: Buffer) => {
+    buffer += chunk.toString("utf-8");
+    for (;;) {
+      const newlineIdx = buffer.indexOf("\n");
+      if (newlineIdx === -1) return;
+      const line = buffer.slice(0, newlineIdx);
+      buffer = buffer.slice(newlineIdx + 1);
+      try {
+        const msg = JSON.parse(line) as Record<string, unknown>;
+        if (msg.method === "event" && !("id" in msg)) {
+          onEvent((msg.params ?? {}) as Record<string, unknown>);
+        }
+      } catch {
+        // Malformed frame — sendRequest reports it for replies; events are best-effort
+      }
+    }
+  });
+  return sendRequest(socket, "subscribe", params);
+}
+
 // Send request and automatically close socket when done.
 export async function call(
   method: string,
@@ -4,8 +4,8 @@ import { navigate, click, type as typeAction, screenshot, waitForSelector, waitF
 import { takeSnapshot } from "../browser.js";
 import { fileOutput } from "../shared.js";
 
-type BatchEntry = Record<string, unknown>;
-type BatchResult = {
+export type BatchEntry = Record<string, unknown>;
+export type BatchResult = {
   step: number;
   cmd: string;
   ok: boolean;
@@ -17,6 +17,8 @@ type BatchResult = {
 export async function handleBatch(params: {
   commands: BatchEntry[];
   outputFile?: string;
+  /** A cancelled batch stops its running step and runs no further ones */
+  signal?: AbortSignal;
 }): Promise<object> {
   const commands = params.commands;
   if (!Array.isArray(commands)) {
@@ -26,6 +28,7 @@ export async function handleBatch(params: {
   const results: BatchResult[] = [];
 
   for (let i = 0; i < commands.length; i++) {
+    params.signal?.throwIfAborted();
     const entry = commands[i]!;
     const cmd = String(entry.cmd ?? "");
     try {
@@ -35,6 +38,7 @@ export async function handleBatch(params: {
             targetId: entry.target as string | undefined,
             url: String(entry.url),
             timeoutMs: entry.timeout as number | undefined,
+            signal: params.signal,
           });
           results.push({ step: i, cmd, ok: true, message: r.message, data: r.data });
           break;
@@ -101,9 +105,11 @@ export async function handleBatch(params: {
                 targetId: entry.target as string | undefined,
                 ref: String(entry.ref),
                 state: entry.state as "visible" | "hidden" | undefined,
+                signal: params.signal,
               })
             : await waitForNavigation({
                 targetId: entry.target as string | undefined,
+                signal: params.signal,
               });
           results.push({ step: i, cmd, ok: true, message: r.message });
           break;
@@ -112,6 +118,7 @@ export async function handleBatch(params: {
           results.push({ step: i, cmd, ok: false, error: `Unknown batch command: ${cmd}` });
       }
     } catch (error) {
+      if (params.signal?.aborted) throw params.signal.reason;
       const msg = error instanceof Error ? error.message : String(error);
       results.push({ step: i, cmd, ok: false, error: msg });
       if (entry.failFast) break;
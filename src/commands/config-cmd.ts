@@ -7,6 +7,7 @@ import {
   getDefaults,
   setConfigValue,
   getConfigValue,
+  maskSecret,
   type ConfigKey,
 } from "../config.js";
 
@@ -16,7 +17,7 @@ export async function handleConfigGet(params: { key: string }): Promise<object>
     throw new Error(`Unknown config key: "${params.key}". Use config.list to see valid keys.`);
   }
   const value = await getConfigValue(params.key as ConfigKey);
-  return { ok: true, key: params.key, value };
+  return { ok: true, key: params.key, value: maskSecret(params.key, value) };
 }
 
 export async function handleConfigSet(params: { key: string; value: string }): Promise<object> {
@@ -29,15 +30,18 @@ export async function handleConfigSet(params: { key: string; value: string }): P
   }
   await setConfigValue(params.key as ConfigKey, String(params.value));
   const updated = await getConfigValue(params.key as ConfigKey);
-  return { ok: true, key: params.key, value: updated };
+  return { ok: true, key: params.key, value: maskSecret(params.key, updated) };
 }
 
 export async function handleConfigList(): Promise<object> {
-  const config = await readConfig();
+  const raw = await readConfig();
   const defaults = getDefaults();
-  const entries = Object.entries(config).map(([key, value]) => ({
+  const config = Object.fromEntries(
+    Object.entries(raw).map(([key, value]) => [key, maskSecret(key, value)]),
+  );
+  const entries = Object.entries(raw).map(([key, value]) => ({
     key,
-    value,
+    value: maskSecret(key, value),
     default: defaults[key as ConfigKey],
     modified: value !== defaults[key as ConfigKey],
   }));
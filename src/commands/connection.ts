@@ -6,32 +6,100 @@ import {
   connect,
   stopChrome,
   getConnectedBrowser,
+  readLaunchInfo,
+  parseWindowSize,
+  parseWindowPosition,
+  type ChromeLaunchOptions,
 } from "../browser.js";
-import { readConfig } from "../config.js";
+import { readConfig, type RuntimeConfig } from "../config.js";
+import { ERROR_CODES } from "../protocol.js";
+import { useProfile } from "../profiles.js";
+import { handleSetDevice } from "./emulation.js";
 
 export async function handleStatus(params: {
   port?: number;
 }): Promise<object> {
   const result = await checkStatus(params.port);
   const workerId = process.env.JARVIS_WORKER_ID ?? null;
-  return { ...result, workerId };
+  // How Chrome was started (null when it wasn't launched by jarvis-browser)
+  const launch = result.connected ? readLaunchInfo(params.port) : null;
+  return { ...result, workerId, launch };
 }
 
-export async function handleLaunch(params: {
+/** Per-launch overrides; args and extensions are added to the configured ones. */
+export interface LaunchFlags {
+  args?: string[];
+  extensions?: string[];
+  windowSize?: string;
+  windowPosition?: string;
+  lang?: string;
+  timezone?: string;
+  ignoreCertErrors?: boolean;
+  downloadDir?: string;
+}
+
+function splitList(value: string, separator: RegExp): string[] {
+  return value.split(separator).map((v) => v.trim()).filter(Boolean);
+}
+
+/** Chrome launch options from the chrome-* config keys and the launch flags. */
+export function buildLaunchOptions(config: RuntimeConfig, flags: LaunchFlags): ChromeLaunchOptions {
+  const windowSize = flags.windowSize ?? config["chrome-window-size"];
+  const windowPosition = flags.windowPosition ?? config["chrome-window-position"];
+  const lang = flags.lang ?? config["chrome-lang"];
+  const timezone = flags.timezone ?? config["chrome-timezone"];
+  const downloadDir = flags.downloadDir ?? config["chrome-download-dir"];
+  const extraArgs = [...splitList(config["chrome-args"], /\s+/), ...(flags.args ?? [])];
+  const extensions = [...splitList(config["chrome-extensions"], /,/), ...(flags.extensions ?? [])];
+  try {
+    return {
+      ...(extraArgs.length ? { extraArgs } : {}),
+      ...(extensions.length ? { extensions } : {}),
+      ...(windowSize ? { windowSize: parseWindowSize(windowSize) } : {}),
+      ...(windowPosition ? { windowPosition: parseWindowPosition(windowPosition) } : {}),
+      ...(lang ? { lang } : {}),
+      ...(timezone ? { timezone } : {}),
+      ...((flags.ignoreCertErrors ?? config["chrome-ignore-cert-errors"]) ? { ignoreCertErrors: true } : {}),
+      ...(downloadDir ? { downloadDir } : {}),
+    };
+  } catch (err) {
+    throw Object.assign(err as Error, { rpcCode: ERROR_CODES.INVALID_PARAMS });
+  }
+}
+
+export async function handleLaunch(params: LaunchFlags & {
   port?: number;
   headless?: boolean;
   noSandbox?: boolean;
+  /** Named profile (profile create) to launch with instead of the per-port one */
+  profile?: string;
 }): Promise<object> {
   const config = await readConfig();
-  const proxy = config["proxy"] || undefined;
+  const options = buildLaunchOptions(config, params);
+  const profile = params.profile ? await useProfile(config["profile-root"], params.profile) : null;
+  const proxy = profile?.proxy || config["proxy"] || undefined;
   const proxyBypass = config["proxy-bypass"] || undefined;
-  return launchChrome({
+  const wasConnected = getConnectedBrowser() !== null;
+  const result = await launchChrome({
+    ...options,
     port: params.port,
     headless: params.headless,
     noSandbox: params.noSandbox,
+    ...(profile ? { userDataDir: profile.user_data_dir, profile: profile.name } : {}),
     ...(proxy ? { proxy } : {}),
     ...(proxyBypass ? { proxyBypass } : {}),
   });
+  if (!profile) return result;
+
+  // The profile's device goes on the first tab; skipped when already attached to
+  // another Chrome, whose active tab is not the one just launched
+  let device: object | undefined;
+  if (profile.device && !wasConnected) {
+    device = await connect(result.cdpUrl)
+      .then(() => handleSetDevice({ device: profile.device! }))
+      .catch((err: unknown) => ({ ok: false, device: profile.device, error: err instanceof Error ? err.message : String(err) }));
+  }
+  return { ...result, profile: profile.name, ...(device ? { device } : {}) };
 }
 
 export async function handleConnect(params: {
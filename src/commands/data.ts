@@ -29,8 +29,9 @@ export async function handleSnapshot(params: {
     fileOutput(params.outputFile, result.snapshot, {
       refs: result.stats.refs,
       lines: result.snapshot.split("\n").length,
+      generation: result.generation,
     });
-    return result.stats;
+    return { ...result.stats, generation: result.generation };
   }
 
   return result;
@@ -105,8 +106,10 @@ export async function handleCookies(params: {
   domain?: string;
   /** Exact filter on cookie name */
   name?: string;
+  /** Context to read when no targetId is given (default: the active tab's) */
+  contextId?: string;
 }): Promise<unknown> {
-  const raw = await getCookies(params.targetId, params.url ? [params.url] : undefined);
+  const raw = await getCookies(params.targetId, params.url ? [params.url] : undefined, params.contextId);
   const cookies = Array.isArray(raw) ? raw as Array<Record<string, unknown>> : [];
 
   const domainFilter = params.domain ? params.domain.toLowerCase() : null;
@@ -117,6 +120,9 @@ export async function handleCookies(params: {
 
 export async function handleSetCookie(params: {
   cookieJson: string;
+  targetId?: string;
+  /** Context to write when no targetId is given (default: the shared context) */
+  contextId?: string;
 }): Promise<object> {
   const cookie = JSON.parse(params.cookieJson) as
     | Record<string, unknown>
@@ -124,13 +130,15 @@ export async function handleSetCookie(params: {
   const cookies = Array.isArray(cookie) ? cookie : [cookie];
   await setCookies(
     cookies as Parameters<typeof setCookies>[0],
+    { targetId: params.targetId, contextId: params.contextId },
   );
   return { ok: true, message: "Cookie(s) set" };
 }
 
 export async function handleClearCookies(params: {
   targetId?: string;
+  contextId?: string;
 }): Promise<object> {
-  await clearCookies(params.targetId);
+  await clearCookies(params.targetId, params.contextId);
   return { ok: true, message: "Cookies cleared" };
 }
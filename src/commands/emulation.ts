@@ -52,6 +52,43 @@ export function getDeviceList(): string[] {
   return Object.keys(DEVICE_PRESETS);
 }
 
+// --- Applied emulation (journaled so a restarted daemon can re-apply it) ---
+
+export interface EmulationState {
+  device?: string;
+  viewport?: { width: number; height: number };
+  geolocation?: { latitude: number; longitude: number; accuracy: number };
+  headers?: Record<string, string>;
+}
+
+// Keyed like route rules: targetId, or "default" for the active tab
+const appliedEmulation = new Map<string, EmulationState>();
+
+function recordEmulation(targetId: string | undefined, change: Partial<EmulationState>, clear: (keyof EmulationState)[] = []): void {
+  const key = targetId ?? "default";
+  const next: EmulationState = { ...appliedEmulation.get(key), ...change };
+  for (const field of clear) delete next[field];
+  if (Object.keys(next).length === 0) appliedEmulation.delete(key);
+  else appliedEmulation.set(key, next);
+}
+
+export function getAppliedEmulation(): Record<string, EmulationState> {
+  return Object.fromEntries(appliedEmulation);
+}
+
+export function forgetEmulation(targetId: string): void {
+  appliedEmulation.delete(targetId);
+}
+
+/** Re-apply a journaled emulation state to a tab (device first, so an explicit viewport wins). */
+export async function restoreEmulation(targetId: string, state: EmulationState): Promise<void> {
+  const tid = targetId === "default" ? undefined : targetId;
+  if (state.device) await handleSetDevice({ device: state.device, targetId: tid });
+  if (state.viewport) await handleSetViewport({ ...state.viewport, targetId: tid });
+  if (state.geolocation) await handleSetGeo({ ...state.geolocation, targetId: tid });
+  if (state.headers) await handleSetHeaders({ headersJson: JSON.stringify(state.headers), targetId: tid });
+}
+
 // --- Handlers ---
 
 export async function handleSetDevice(params: {
@@ -80,6 +117,7 @@ export async function handleSetDevice(params: {
     await session.detach().catch(() => {});
   }
 
+  recordEmulation(params.targetId, { device: params.device }, ["viewport"]);
   return {
     ok: true,
     device: params.device,
@@ -98,6 +136,12 @@ export async function handleSetViewport(params: {
 
   if (params.reset) {
     await page.setViewportSize({ width: 1280, height: 800 });
+    // The device's user agent stays in effect, so keep it and pin the default size after it
+    if (appliedEmulation.get(params.targetId ?? "default")?.device) {
+      recordEmulation(params.targetId, { viewport: { width: 1280, height: 800 } });
+    } else {
+      recordEmulation(params.targetId, {}, ["viewport"]);
+    }
     return { ok: true, reset: true, viewport: { width: 1280, height: 800 } };
   }
 
@@ -109,6 +153,7 @@ export async function handleSetViewport(params: {
   }
 
   await page.setViewportSize({ width: params.width, height: params.height });
+  recordEmulation(params.targetId, { viewport: { width: params.width, height: params.height } });
   return { ok: true, viewport: { width: params.width, height: params.height } };
 }
 
@@ -124,6 +169,7 @@ export async function handleSetGeo(params: {
 
   if (params.reset) {
     await context.setGeolocation(null);
+    recordEmulation(params.targetId, {}, ["geolocation"]);
     return { ok: true, reset: true };
   }
 
@@ -141,6 +187,7 @@ export async function handleSetGeo(params: {
   };
   await context.grantPermissions(["geolocation"]);
   await context.setGeolocation(geo);
+  recordEmulation(params.targetId, { geolocation: geo });
 
   return { ok: true, geolocation: geo };
 }
@@ -155,6 +202,7 @@ export async function handleSetHeaders(params: {
 
   if (params.reset) {
     await context.setExtraHTTPHeaders({});
+    recordEmulation(params.targetId, {}, ["headers"]);
     return { ok: true, reset: true };
   }
 
@@ -176,5 +224,6 @@ export async function handleSetHeaders(params: {
   }
 
   await context.setExtraHTTPHeaders(headers);
+  recordEmulation(params.targetId, { headers });
   return { ok: true, headers };
 }
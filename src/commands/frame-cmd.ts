@@ -2,7 +2,7 @@
 // Frame switching works by storing a frameSelector in the ref cache.
 // Subsequent snapshot/click/type commands use that selector to scope to the frame.
 
-import { getPage, storeRefs, getStoredRefs } from "../browser.js";
+import { getPage, getStoredRefs, setRefFrame } from "../browser.js";
 import { ERROR_CODES } from "../protocol.js";
 
 export async function handleFrameList(params: { targetId?: string }): Promise<object> {
@@ -59,22 +59,12 @@ export async function handleFrameSwitch(params: {
   }
 
   const frameSelector = `iframe[name="${target.name()}"]`;
-  const tid = params.targetId ?? "default";
-  const currentState = getStoredRefs(tid);
-  if (currentState) {
-    storeRefs(tid, currentState.refs, currentState.mode, frameSelector);
-  } else {
-    storeRefs(tid, {}, "role", frameSelector);
-  }
+  setRefFrame(params.targetId ?? "default", frameSelector);
 
   return { ok: true, switched_to: params.name, selector: frameSelector };
 }
 
 export async function handleFrameMain(params: { targetId?: string }): Promise<object> {
-  const tid = params.targetId ?? "default";
-  const currentState = getStoredRefs(tid);
-  if (currentState) {
-    storeRefs(tid, currentState.refs, currentState.mode, undefined);
-  }
+  setRefFrame(params.targetId ?? "default", undefined);
   return { ok: true, switched_to: "main" };
 }
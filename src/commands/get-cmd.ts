@@ -2,15 +2,22 @@
 // get text/html/value/attr/title/url/count/box
 // Wraps Playwright locator methods behind the ref system.
 
-import { getPage, refLocator, getStoredRefs } from "../browser.js";
+import type { Locator } from "playwright-core";
+import { getPage, locateRef, getStoredRefs } from "../browser.js";
 import type { ActionResult } from "../types.js";
 
 // --- Helpers ---
 
-async function getLocator(ref: string, targetId?: string) {
+/** Run fn on the ref's locator, then release what locating it changed on the page. */
+async function withLocator<T>(ref: string, targetId: string | undefined, fn: (locator: Locator) => Promise<T>): Promise<T> {
   const page = await getPage(targetId);
   const state = getStoredRefs(targetId ?? "default");
-  return { page, locator: refLocator(page, ref, state) };
+  const { locator, release } = await locateRef(page, ref, state);
+  try {
+    return await fn(locator);
+  } finally {
+    await release();
+  }
 }
 
 // --- get text ---
@@ -20,8 +27,7 @@ export async function handleGetText(params: {
   targetId?: string;
   timeoutMs?: number;
 }): Promise<ActionResult> {
-  const { locator } = await getLocator(params.ref, params.targetId);
-  const text = await locator.textContent({ timeout: params.timeoutMs ?? 5000 });
+  const text = await withLocator(params.ref, params.targetId, (locator) => locator.textContent({ timeout: params.timeoutMs ?? 5000 }));
   return { ok: true, data: text ?? "" };
 }
 
@@ -32,8 +38,7 @@ export async function handleGetHtml(params: {
   targetId?: string;
   timeoutMs?: number;
 }): Promise<ActionResult> {
-  const { locator } = await getLocator(params.ref, params.targetId);
-  const html = await locator.innerHTML({ timeout: params.timeoutMs ?? 5000 });
+  const html = await withLocator(params.ref, params.targetId, (locator) => locator.innerHTML({ timeout: params.timeoutMs ?? 5000 }));
   return { ok: true, data: html };
 }
 
@@ -44,8 +49,7 @@ export async function handleGetValue(params: {
   targetId?: string;
   timeoutMs?: number;
 }): Promise<ActionResult> {
-  const { locator } = await getLocator(params.ref, params.targetId);
-  const value = await locator.inputValue({ timeout: params.timeoutMs ?? 5000 });
+  const value = await withLocator(params.ref, params.targetId, (locator) => locator.inputValue({ timeout: params.timeoutMs ?? 5000 }));
   return { ok: true, data: value };
 }
 
@@ -57,8 +61,11 @@ export async function handleGetAttr(params: {
   targetId?: string;
   timeoutMs?: number;
 }): Promise<ActionResult> {
-  const { locator } = await getLocator(params.ref, params.targetId);
-  const value = await locator.getAttribute(params.attrName, { timeout: params.timeoutMs ?? 5000 });
+  const value = await withLocator(
+    params.ref,
+    params.targetId,
+    (locator) => locator.getAttribute(params.attrName, { timeout: params.timeoutMs ?? 5000 }),
+  );
   return { ok: true, data: value };
 }
 
@@ -99,8 +106,7 @@ export async function handleGetBox(params: {
   targetId?: string;
   timeoutMs?: number;
 }): Promise<ActionResult> {
-  const { locator } = await getLocator(params.ref, params.targetId);
-  const box = await locator.boundingBox({ timeout: params.timeoutMs ?? 5000 });
+  const box = await withLocator(params.ref, params.targetId, (locator) => locator.boundingBox({ timeout: params.timeoutMs ?? 5000 }));
   if (!box) return { ok: false, error: `No bounding box for ref "${params.ref}"`, suggestion: "Element may not be visible" };
   return {
     ok: true,
@@ -1,7 +1,7 @@
 // highlight-cmd.ts — CSS highlight ring injection for visual debugging
 // v0.9.0 FM-4: highlight <ref> [--color red] [--duration 2]
 
-import { getPage, refLocator, getStoredRefs } from "../browser.js";
+import { getPage, locateRef, getStoredRefs } from "../browser.js";
 import { ERROR_CODES } from "../protocol.js";
 
 const VALID_COLORS = new Set(["red", "blue", "green", "orange", "yellow", "purple", "pink"]);
@@ -36,7 +36,7 @@ export async function handleHighlight(params: {
   }
 
   const state = getStoredRefs(params.targetId ?? "default");
-  const locator = refLocator(page, params.ref, state);
+  const { locator, via, release } = await locateRef(page, params.ref, state);
 
   await locator.evaluate(
     (el: HTMLElement, args: { color: string; durationMs: number }) => {
@@ -50,12 +50,13 @@ export async function handleHighlight(params: {
       }, args.durationMs);
     },
     { color, durationMs },
-  );
+  ).finally(release);
 
   return {
     ok: true,
     ref: params.ref,
     color,
     duration_ms: durationMs,
+    resolved_via: via,
   };
 }
@@ -29,6 +29,7 @@ import {
 import { handleUpload } from "../upload.js";
 import { resolve, join } from "node:path";
 import { mkdirSync } from "node:fs";
+import type { Page, Download } from "playwright-core";
 
 // --- Auto-retry helper (v0.6.0) ---
 // Wraps an action with the retry/recovery chain when autoRetry is enabled.
@@ -50,8 +51,9 @@ async function applyRetry<T>(
   const maxRetries = opts.maxRetries ?? config["retry-count"];
   const delayMs = config["retry-delay-ms"];
 
-  // Attempt to get the page for recovery; no-page → fail-fast on first error
-  const page = await getPage(opts.targetId).catch(() => undefined);
+  // Attempt to get the page for recovery; no-page → fail-fast on first error.
+  // A crashed page is fine: reopening it is the recovery.
+  const page = await getPage(opts.targetId, { allowCrashed: true }).catch(() => undefined);
 
   const { result } = await withRetry(action, {
     page,
@@ -266,15 +268,20 @@ export async function handleWait(params: {
   // v0.7.0 download
   download?: boolean;
   saveTo?: string;
+  /** Aborts the wait when the request is cancelled or its deadline passes */
+  signal?: AbortSignal;
 }): Promise<object> {
   // v0.7.0: download wait
   if (params.download) {
     const page = await getPage(params.targetId);
     const timeout = params.timeoutMs ?? 30000;
-    const dl = await page.waitForEvent("download", { timeout });
+    const dl = await waitForDownload(page, timeout, params.signal);
     let savedPath: string | undefined;
-    if (params.saveTo) {
-      const dir = resolve(params.saveTo);
+    // Playwright takes over Chrome's download handling once attached, so the
+    // launch download dir only applies here, as the default --save-to
+    const saveTo = params.saveTo || (await readConfig())["chrome-download-dir"];
+    if (saveTo) {
+      const dir = resolve(saveTo);
       mkdirSync(dir, { recursive: true });
       const filename = dl.suggestedFilename();
       savedPath = join(dir, filename);
@@ -292,30 +299,30 @@ export async function handleWait(params: {
 
   // v0.7.0: state wait flags (require ref)
   if (params.ref && params.visible) {
-    return handleWaitVisible({ ref: params.ref, targetId: params.targetId, timeoutMs: params.timeoutMs });
+    return handleWaitVisible({ ref: params.ref, targetId: params.targetId, timeoutMs: params.timeoutMs, signal: params.signal });
   }
   if (params.ref && params.hidden) {
-    return handleWaitHidden({ ref: params.ref, targetId: params.targetId, timeoutMs: params.timeoutMs });
+    return handleWaitHidden({ ref: params.ref, targetId: params.targetId, timeoutMs: params.timeoutMs, signal: params.signal });
   }
   if (params.ref && params.enabled) {
-    return handleWaitEnabled({ ref: params.ref, targetId: params.targetId, timeoutMs: params.timeoutMs });
+    return handleWaitEnabled({ ref: params.ref, targetId: params.targetId, timeoutMs: params.timeoutMs, signal: params.signal });
   }
   if (params.ref && params.checked) {
-    return handleWaitChecked({ ref: params.ref, targetId: params.targetId, timeoutMs: params.timeoutMs });
+    return handleWaitChecked({ ref: params.ref, targetId: params.targetId, timeoutMs: params.timeoutMs, signal: params.signal });
   }
 
   // Original wait strategies
   if (params.text) {
-    return waitForText({ targetId: params.targetId, text: params.text, timeoutMs: params.timeoutMs });
+    return waitForText({ targetId: params.targetId, text: params.text, timeoutMs: params.timeoutMs, signal: params.signal });
   }
   if (params.url) {
-    return waitForUrl({ targetId: params.targetId, url: params.url, timeoutMs: params.timeoutMs });
+    return waitForUrl({ targetId: params.targetId, url: params.url, timeoutMs: params.timeoutMs, signal: params.signal });
   }
   if (params.js) {
-    return waitForJS({ targetId: params.targetId, expression: params.js, timeoutMs: params.timeoutMs });
+    return waitForJS({ targetId: params.targetId, expression: params.js, timeoutMs: params.timeoutMs, signal: params.signal });
   }
   if (params.networkIdle) {
-    return waitForNetworkIdle({ targetId: params.targetId, timeoutMs: params.timeoutMs });
+    return waitForNetworkIdle({ targetId: params.targetId, timeoutMs: params.timeoutMs, signal: params.signal });
   }
   if (params.ref) {
     return waitForSelector({
@@ -323,11 +330,37 @@ export async function handleWait(params: {
       state: params.state,
       targetId: params.targetId,
       timeoutMs: params.timeoutMs,
+      signal: params.signal,
     });
   }
   return waitForNavigation({
     targetId: params.targetId,
     timeoutMs: params.timeoutMs,
+    signal: params.signal,
+  });
+}
+
+// Like page.waitForEvent("download") but detaches its listener as soon as the signal aborts,
+// so a cancelled request does not keep waiting in the daemon.
+function waitForDownload(page: Page, timeoutMs: number, signal?: AbortSignal): Promise<Download> {
+  return new Promise<Download>((resolvePromise, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const cleanup = () => {
+      clearTimeout(timer);
+      page.off("download", onDownload);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onDownload = (dl: Download) => { cleanup(); resolvePromise(dl); };
+    const onAbort = () => { cleanup(); reject(signal?.reason); };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Timeout ${timeoutMs}ms exceeded while waiting for event "download"`));
+    }, timeoutMs);
+    page.on("download", onDownload);
+    signal?.addEventListener("abort", onAbort, { once: true });
   });
 }
 
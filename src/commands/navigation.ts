@@ -7,14 +7,18 @@ export async function handleNavigate(params: {
   url: string;
   targetId?: string;
   timeoutMs?: number;
+  signal?: AbortSignal;
 }): Promise<object> {
-  return navigate({ url: params.url, targetId: params.targetId, timeoutMs: params.timeoutMs });
+  return navigate({ url: params.url, targetId: params.targetId, timeoutMs: params.timeoutMs, signal: params.signal });
 }
 
 export async function handleReload(params: {
   targetId?: string;
 }): Promise<object> {
   const result = await reloadPage(params.targetId);
+  if (result.recovered_tab) {
+    return { ok: true, message: `Reopened crashed tab as ${result.recovered_tab}`, data: result };
+  }
   return { ok: true, message: "Reloaded", data: result };
 }
 
@@ -2,7 +2,7 @@
 // These commands require the daemon (observer buffers are populated per-tab).
 // v0.9.0 FM-10: observe --export <path> [--format har|json]
 
-import { getPage, getPendingDialogs } from "../browser.js";
+import { getPage, getPendingDialogs, isPageCrashed } from "../browser.js";
 import { globalObserver } from "../observer.js";
 import { ERROR_CODES } from "../protocol.js";
 import { exportToHar, exportToJson } from "../har-export.js";
@@ -92,46 +92,52 @@ export async function handleObserve(params: {
   format?: string;
 }): Promise<object> {
   const tid = params.targetId;
-  const page = await getPage(tid);
+  // A crashed tab is still observable: its crash entries are the point
+  const page = await getPage(tid, { allowCrashed: true });
   if (!page) {
     throw Object.assign(new Error("No active page — Chrome not connected"), {
       rpcCode: ERROR_CODES.BROWSER_NOT_CONNECTED,
     });
   }
+  const crashed = isPageCrashed(page);
 
-  const title = await page.title();
+  const title = crashed ? "" : await page.title();
   const url = page.url();
   const viewport = page.viewportSize() ?? { width: 1280, height: 720 };
 
   const health = globalObserver.getObservation(tid ?? "");
+  const crashes = globalObserver.getCrashes(tid ?? "");
 
   // Performance via Navigation Timing API
   let performance: Record<string, number> = {};
-  try {
-    performance = await page.evaluate(() => {
-      const entries = window.performance.getEntriesByType(
-        "navigation",
-      ) as PerformanceNavigationTiming[];
-      const nav = entries[0];
-      if (!nav) return {} as Record<string, number>;
-      return {
-        dom_content_loaded_ms: Math.round(
-          nav.domContentLoadedEventEnd - nav.startTime,
-        ),
-        load_ms: Math.round(nav.loadEventEnd - nav.startTime),
-        dom_nodes: document.querySelectorAll("*").length,
-      };
-    });
-  } catch {
-    // Page may not have navigation timing (e.g., about:blank)
+  if (!crashed) {
+    try {
+      performance = await page.evaluate(() => {
+        const entries = window.performance.getEntriesByType(
+          "navigation",
+        ) as PerformanceNavigationTiming[];
+        const nav = entries[0];
+        if (!nav) return {} as Record<string, number>;
+        return {
+          dom_content_loaded_ms: Math.round(
+            nav.domContentLoadedEventEnd - nav.startTime,
+          ),
+          load_ms: Math.round(nav.loadEventEnd - nav.startTime),
+          dom_nodes: document.querySelectorAll("*").length,
+        };
+      });
+    } catch {
+      // Page may not have navigation timing (e.g., about:blank)
+    }
   }
 
   const snapshotAge = globalObserver.getSnapshotAge(tid ?? "");
 
   const response = {
     ok: true,
-    page: { title, url, viewport },
+    page: { title, url, viewport, ...(crashed ? { crashed } : {}) },
     health,
+    ...(crashes.length ? { crashes } : {}),
     performance,
     snapshot_stale: snapshotAge?.stale ?? null,
     last_snapshot_age_s: snapshotAge?.age_s ?? null,
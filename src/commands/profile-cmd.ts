@@ -0,0 +1,66 @@
+// profile-cmd.ts — RPC handlers for profile.* commands
+
+import { ERROR_CODES } from "../protocol.js";
+import { readConfig } from "../config.js";
+import { getDeviceList } from "./emulation.js";
+import { handleLaunch, type LaunchFlags } from "./connection.js";
+import {
+  createProfile,
+  listProfiles,
+  cloneProfile,
+  deleteProfile,
+} from "../profiles.js";
+
+async function profileRoot(): Promise<string> {
+  return (await readConfig())["profile-root"];
+}
+
+function requireName(name: string | undefined, what = "name"): string {
+  if (!name) {
+    throw Object.assign(new Error(`${what} required`), { rpcCode: ERROR_CODES.INVALID_PARAMS });
+  }
+  return name;
+}
+
+export async function handleProfileCreate(params: {
+  name: string;
+  proxy?: string;
+  device?: string;
+}): Promise<object> {
+  if (params.device && !getDeviceList().includes(params.device)) {
+    throw Object.assign(
+      new Error(`Unknown device "${params.device}". Available: ${getDeviceList().join(", ")}`),
+      { rpcCode: ERROR_CODES.INVALID_PARAMS },
+    );
+  }
+  const profile = await createProfile(await profileRoot(), requireName(params.name), {
+    proxy: params.proxy,
+    device: params.device,
+  });
+  return { ok: true, profile };
+}
+
+export async function handleProfileList(_params: Record<string, unknown>): Promise<object> {
+  const root = await profileRoot();
+  const profiles = await listProfiles(root);
+  return { ok: true, root, profiles, count: profiles.length };
+}
+
+export async function handleProfileClone(params: { name: string; to: string }): Promise<object> {
+  const profile = await cloneProfile(await profileRoot(), requireName(params.name), requireName(params.to, "to"));
+  return { ok: true, cloned: params.name, profile };
+}
+
+export async function handleProfileDelete(params: { name: string }): Promise<object> {
+  await deleteProfile(await profileRoot(), requireName(params.name));
+  return { ok: true, deleted: params.name };
+}
+
+export async function handleProfileLaunch(params: LaunchFlags & {
+  name: string;
+  port?: number;
+  headless?: boolean;
+  noSandbox?: boolean;
+}): Promise<object> {
+  return handleLaunch({ ...params, profile: requireName(params.name) });
+}
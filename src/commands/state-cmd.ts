@@ -2,46 +2,49 @@
 // is visible/enabled/checked/editable/hidden
 // wait --visible/--enabled/--hidden/--checked
 
-import { getPage, refLocator, getStoredRefs } from "../browser.js";
+import type { Locator } from "playwright-core";
+import { getPage, locateRef, getStoredRefs } from "../browser.js";
+import { waitInSlices } from "../shared.js";
 import type { ActionResult } from "../types.js";
 
 // --- Helper: ref → locator ---
 
-async function getLocator(ref: string, targetId?: string) {
+/** Run fn on the ref's locator, then release what locating it changed on the page. */
+async function withLocator<T>(ref: string, targetId: string | undefined, fn: (locator: Locator) => Promise<T>): Promise<T> {
   const page = await getPage(targetId);
   const state = getStoredRefs(targetId ?? "default");
-  return { page, locator: refLocator(page, ref, state) };
+  const { locator, release } = await locateRef(page, ref, state);
+  try {
+    return await fn(locator);
+  } finally {
+    await release();
+  }
 }
 
 // --- Point-in-time state checks ---
 
 export async function handleIsVisible(params: { ref: string; targetId?: string }): Promise<ActionResult> {
-  const { locator } = await getLocator(params.ref, params.targetId);
-  const visible = await locator.isVisible();
+  const visible = await withLocator(params.ref, params.targetId, (locator) => locator.isVisible());
   return { ok: true, data: visible };
 }
 
 export async function handleIsHidden(params: { ref: string; targetId?: string }): Promise<ActionResult> {
-  const { locator } = await getLocator(params.ref, params.targetId);
-  const hidden = await locator.isHidden();
+  const hidden = await withLocator(params.ref, params.targetId, (locator) => locator.isHidden());
   return { ok: true, data: hidden };
 }
 
 export async function handleIsEnabled(params: { ref: string; targetId?: string }): Promise<ActionResult> {
-  const { locator } = await getLocator(params.ref, params.targetId);
-  const enabled = await locator.isEnabled();
+  const enabled = await withLocator(params.ref, params.targetId, (locator) => locator.isEnabled());
   return { ok: true, data: enabled };
 }
 
 export async function handleIsChecked(params: { ref: string; targetId?: string }): Promise<ActionResult> {
-  const { locator } = await getLocator(params.ref, params.targetId);
-  const checked = await locator.isChecked();
+  const checked = await withLocator(params.ref, params.targetId, (locator) => locator.isChecked());
   return { ok: true, data: checked };
 }
 
 export async function handleIsEditable(params: { ref: string; targetId?: string }): Promise<ActionResult> {
-  const { locator } = await getLocator(params.ref, params.targetId);
-  const editable = await locator.isEditable();
+  const editable = await withLocator(params.ref, params.targetId, (locator) => locator.isEditable());
   return { ok: true, data: editable };
 }
 
@@ -53,22 +56,25 @@ export async function handleWaitVisible(params: {
   ref: string;
   targetId?: string;
   timeoutMs?: number;
+  signal?: AbortSignal;
 }): Promise<ActionResult> {
-  return waitForState(params.ref, "visible", params.targetId, params.timeoutMs);
+  return waitForState(params.ref, "visible", params.targetId, params.timeoutMs, params.signal);
 }
 
 export async function handleWaitHidden(params: {
   ref: string;
   targetId?: string;
   timeoutMs?: number;
+  signal?: AbortSignal;
 }): Promise<ActionResult> {
-  return waitForState(params.ref, "hidden", params.targetId, params.timeoutMs);
+  return waitForState(params.ref, "hidden", params.targetId, params.timeoutMs, params.signal);
 }
 
 export async function handleWaitEnabled(params: {
   ref: string;
   targetId?: string;
   timeoutMs?: number;
+  signal?: AbortSignal;
 }): Promise<ActionResult> {
   return waitForPoll(
     params.ref,
@@ -76,6 +82,7 @@ export async function handleWaitEnabled(params: {
     async (loc) => loc.isEnabled(),
     params.targetId,
     params.timeoutMs,
+    params.signal,
   );
 }
 
@@ -83,6 +90,7 @@ export async function handleWaitChecked(params: {
   ref: string;
   targetId?: string;
   timeoutMs?: number;
+  signal?: AbortSignal;
 }): Promise<ActionResult> {
   return waitForPoll(
     params.ref,
@@ -90,6 +98,7 @@ export async function handleWaitChecked(params: {
     async (loc) => loc.isChecked(),
     params.targetId,
     params.timeoutMs,
+    params.signal,
   );
 }
 
@@ -100,48 +109,54 @@ async function waitForState(
   state: WaitState,
   targetId?: string,
   timeoutMs?: number,
+  signal?: AbortSignal,
 ): Promise<ActionResult> {
-  const { locator } = await getLocator(ref, targetId);
   const timeout = timeoutMs ?? 10000;
-  try {
-    await locator.waitFor({ state, timeout });
-    return { ok: true, data: true, message: `Element "${ref}" is ${state}` };
-  } catch {
-    return {
-      ok: false,
-      error: `Timed out waiting for element "${ref}" to be ${state} (${timeout}ms)`,
-      suggestion: `Run snapshot to check if element "${ref}" exists`,
-    };
-  }
+  return withLocator(ref, targetId, async (locator) => {
+    try {
+      await waitInSlices((slice) => locator.waitFor({ state, timeout: slice }), timeout, signal);
+      return { ok: true, data: true, message: `Element "${ref}" is ${state}` };
+    } catch {
+      if (signal?.aborted) throw signal.reason;
+      return {
+        ok: false,
+        error: `Timed out waiting for element "${ref}" to be ${state} (${timeout}ms)`,
+        suggestion: `Run snapshot to check if element "${ref}" exists`,
+      };
+    }
+  });
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 async function waitForPoll(
   ref: string,
   condition: string,
-  check: (loc: ReturnType<typeof refLocator>) => Promise<boolean>,
+  check: (loc: Locator) => Promise<boolean>,
   targetId?: string,
   timeoutMs?: number,
+  signal?: AbortSignal,
 ): Promise<ActionResult> {
-  const { locator } = await getLocator(ref, targetId);
   const timeout = timeoutMs ?? 10000;
   const interval = 200;
-  const deadline = Date.now() + timeout;
 
-  while (Date.now() < deadline) {
-    try {
-      if (await check(locator)) {
-        return { ok: true, data: true, message: `Element "${ref}" is ${condition}` };
+  return withLocator(ref, targetId, async (locator) => {
+    const deadline = Date.now() + timeout;
+    while (Date.now() < deadline) {
+      signal?.throwIfAborted();
+      try {
+        if (await check(locator)) {
+          return { ok: true, data: true, message: `Element "${ref}" is ${condition}` };
+        }
+      } catch {
+        // element may be detached - keep trying
       }
-    } catch {
-      // element may be detached - keep trying
+      await new Promise<void>((resolve) => setTimeout(resolve, interval));
     }
-    await new Promise<void>((resolve) => setTimeout(resolve, interval));
-  }
 
-  return {
-    ok: false,
-    error: `Timed out waiting for element "${ref}" to be ${condition} (${timeout}ms)`,
-    suggestion: `Run snapshot to check if element "${ref}" exists`,
-  };
+    return {
+      ok: false,
+      error: `Timed out waiting for element "${ref}" to be ${condition} (${timeout}ms)`,
+      suggestion: `Run snapshot to check if element "${ref}" exists`,
+    };
+  });
 }
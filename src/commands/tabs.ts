@@ -20,8 +20,9 @@ export async function handleTabs(params: {
 export async function handleOpen(params: {
   url: string;
   workerId?: string;
+  contextId?: string;
 }): Promise<object> {
-  return openTab(params.url);
+  return openTab(params.url, params.contextId);
 }
 
 export async function handleClose(params: {
@@ -0,0 +1,96 @@
+// config-apply.ts — Applies runtime config to live daemon state
+// Handlers are registered per key group; apply() runs every handler on the first
+// call and afterwards only those whose keys changed. watch() polls CONFIG_PATH so
+// edits made outside the daemon (editor, another CLI) take effect without a restart.
+
+import { watchFile, unwatchFile } from "node:fs";
+import { CONFIG_PATH, readConfig, type ConfigKey, type RuntimeConfig } from "./config.js";
+
+export type ConfigHandler = (config: RuntimeConfig) => void | Promise<void>;
+
+/**
+ * Keys that are read fresh on every use (retry settings, lease TTL, proxy at
+ * launch) need no handler. Keys bound to listeners opened at startup only take
+ * effect after a daemon restart.
+ */
+export const RESTART_REQUIRED_KEYS: ReadonlySet<ConfigKey> = new Set<ConfigKey>([
+  "daemon-tcp-port",
+  "daemon-ws-port",
+  "daemon-bind-host",
+  "daemon-auth-token",
+  "daemon-tls-cert",
+  "daemon-tls-key",
+  "daemon-metrics-port",
+]);
+
+const WATCH_INTERVAL_MS = 1_000;
+
+export class ConfigApplier {
+  private handlers: Array<{ keys: readonly ConfigKey[]; fn: ConfigHandler }> = [];
+  private applied: RuntimeConfig | null = null;
+  private queue: Promise<ConfigKey[]> = Promise.resolve([]);
+  private watching: string | null = null;
+
+  constructor(private readonly read: () => Promise<RuntimeConfig> = readConfig) {}
+
+  on(keys: readonly ConfigKey[], fn: ConfigHandler): void {
+    this.handlers.push({ keys, fn });
+  }
+
+  /** Apply a config; returns the keys that changed. Calls are serialized. */
+  apply(config: RuntimeConfig): Promise<ConfigKey[]> {
+    const run = this.queue.then(() => this.applyNow(config));
+    this.queue = run.catch(() => []);
+    return run;
+  }
+
+  /** Re-read the config file and apply it. */
+  async reload(): Promise<ConfigKey[]> {
+    return this.apply(await this.read());
+  }
+
+  /** Poll the config file (stat-based, so editor rename-on-save is caught too). */
+  watch(path = CONFIG_PATH): void {
+    if (this.watching) return;
+    this.watching = path;
+    const watcher = watchFile(path, { interval: WATCH_INTERVAL_MS, persistent: false }, (curr, prev) => {
+      if (curr.mtimeMs === prev.mtimeMs && curr.size === prev.size) return;
+      this.reload().catch((err: unknown) => {
+        process.stderr.write(`[jarvis-daemon] Config reload failed: ${err instanceof Error ? err.message : String(err)}\n`);
+      });
+    });
+    watcher.unref();
+  }
+
+  unwatch(): void {
+    if (!this.watching) return;
+    unwatchFile(this.watching);
+    this.watching = null;
+  }
+
+  /** Forget what was applied so the next apply() runs every handler (tests, daemon restart). */
+  reset(): void {
+    this.applied = null;
+  }
+
+  private async applyNow(config: RuntimeConfig): Promise<ConfigKey[]> {
+    const prev = this.applied;
+    const changed = (Object.keys(config) as ConfigKey[]).filter(
+      (key) => prev === null || prev[key] !== config[key],
+    );
+    this.applied = { ...config };
+    if (changed.length === 0) return changed;
+
+    const changedSet = new Set(changed);
+    for (const { keys, fn } of this.handlers) {
+      if (!keys.some((k) => changedSet.has(k))) continue;
+      try {
+        await fn(config);
+      } catch (err) {
+        // One bad value must not stop the remaining keys from applying
+        process.stderr.write(`[jarvis-daemon] Applying ${keys.join(", ")} failed: ${err instanceof Error ? err.message : String(err)}\n`);
+      }
+    }
+    return changed;
+  }
+}
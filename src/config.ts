@@ -23,6 +23,48 @@ export interface RuntimeConfig {
   // v1.0.0: proxy support (empty = disabled)
   "proxy": string;
   "proxy-bypass": string;
+  // Remote transport (0 = listener disabled; a token is required to enable either)
+  "daemon-tcp-port": number;
+  "daemon-ws-port": number;
+  "daemon-bind-host": string;
+  "daemon-auth-token": string;
+  "daemon-tls-cert": string;
+  "daemon-tls-key": string;
+  // Prometheus /metrics over HTTP on daemon-bind-host (0 = disabled)
+  "daemon-metrics-port": number;
+  // Audit log: JSONL record of every RPC, rotated by size
+  "audit-log": boolean;
+  "audit-log-max-mb": number;
+  "audit-log-files": number;
+  "audit-redact-session-names": boolean;
+  // Tab leases: TTL for worker ownership (0 = never expires); close tabs whose lease lapses
+  "tab-lease-ttl-s": number;
+  "tab-lease-close-orphans": boolean;
+  // State journal: persist routes, leases, emulation and observed tabs; restore on daemon start
+  "state-journal": boolean;
+  // CLI finds a daemon running other code: restart it (carrying state over) or fail with both versions
+  "daemon-version-mismatch": "restart" | "error";
+  // Per-worker method/URL policy file (empty = no policy)
+  "policy-file": string;
+  // Tabs a worker opens without --context: its own incognito context, or Chrome's shared one
+  "worker-contexts": "isolated" | "shared";
+  // Directory holding named Chrome profiles (profile create / launch --profile)
+  "profile-root": string;
+  // Chrome launch options (empty = Chrome's default; launch flags override them per launch):
+  // extra switches space-separated, unpacked extension dirs comma-separated, window size
+  // WIDTHxHEIGHT, window position X,Y, timezone an IANA zone passed to Chrome as TZ
+  "chrome-args": string;
+  "chrome-extensions": string;
+  "chrome-window-size": string;
+  "chrome-window-position": string;
+  "chrome-lang": string;
+  "chrome-timezone": string;
+  "chrome-ignore-cert-errors": boolean;
+  "chrome-download-dir": string;
+  // Chrome the daemon launched is relaunched (tabs reopened) when it dies, at most
+  // chrome-restart-max times per chrome-restart-window-s (0 = never relaunch)
+  "chrome-restart-max": number;
+  "chrome-restart-window-s": number;
 }
 
 export type ConfigKey = keyof RuntimeConfig;
@@ -41,8 +83,43 @@ const DEFAULTS: RuntimeConfig = {
   "network-body-max-kb": 0,
   "proxy": "",
   "proxy-bypass": "",
+  "daemon-tcp-port": 0,
+  "daemon-ws-port": 0,
+  "daemon-bind-host": "127.0.0.1",
+  "daemon-auth-token": "",
+  "daemon-tls-cert": "",
+  "daemon-tls-key": "",
+  "daemon-metrics-port": 0,
+  "audit-log": false,
+  "audit-log-max-mb": 10,
+  "audit-log-files": 5,
+  "audit-redact-session-names": false,
+  "tab-lease-ttl-s": 300,
+  "tab-lease-close-orphans": false,
+  "state-journal": false,
+  "daemon-version-mismatch": "restart",
+  "policy-file": "",
+  "worker-contexts": "isolated",
+  "profile-root": "/tmp/jarvis-browser-profiles",
+  "chrome-args": "",
+  "chrome-extensions": "",
+  "chrome-window-size": "",
+  "chrome-window-position": "",
+  "chrome-lang": "",
+  "chrome-timezone": "",
+  "chrome-ignore-cert-errors": false,
+  "chrome-download-dir": "",
+  "chrome-restart-max": 3,
+  "chrome-restart-window-s": 600,
 };
 
+/** Keys whose values are masked in config.get / config.list output. */
+export const SECRET_KEYS: ReadonlySet<ConfigKey> = new Set<ConfigKey>(["daemon-auth-token"]);
+
+export function maskSecret(key: string, value: ConfigValue): ConfigValue {
+  return SECRET_KEYS.has(key as ConfigKey) && value !== "" ? "********" : value;
+}
+
 const VALID_KEYS = new Set<string>(Object.keys(DEFAULTS));
 
 export function isValidConfigKey(key: string): key is ConfigKey {
@@ -91,6 +168,24 @@ function coerceValue(key: ConfigKey, raw: string): ConfigValue {
     }
     return raw as "accept" | "dismiss" | "queue";
   }
+  if (key === "daemon-version-mismatch") {
+    if (raw !== "restart" && raw !== "error") {
+      throw new Error(`Value for "daemon-version-mismatch" must be restart|error, got "${raw}"`);
+    }
+    return raw;
+  }
+  if (key === "worker-contexts") {
+    if (raw !== "isolated" && raw !== "shared") {
+      throw new Error(`Value for "worker-contexts" must be isolated|shared, got "${raw}"`);
+    }
+    return raw;
+  }
+  if (key === "chrome-window-size" && raw !== "" && !/^\d+[x,]\d+$/.test(raw)) {
+    throw new Error(`Value for "chrome-window-size" must be WIDTHxHEIGHT (e.g. 1280x800), got "${raw}"`);
+  }
+  if (key === "chrome-window-position" && raw !== "" && !/^-?\d+,-?\d+$/.test(raw)) {
+    throw new Error(`Value for "chrome-window-position" must be X,Y (e.g. 0,0), got "${raw}"`);
+  }
   const defaultVal = DEFAULTS[key];
   if (typeof defaultVal === "boolean") {
     if (raw === "true" || raw === "1") return true;
@@ -0,0 +1,140 @@
+// contexts.ts — Browser contexts: Chrome's shared default plus isolated (incognito) ones
+// Each context has its own cookies, storage, permissions and extra headers, so a
+// worker that opens its tabs in its own context can log in or out without touching
+// anyone else. ContextRegistry is exported for unit testing; globalContexts is the
+// daemon-wide singleton.
+
+import type { Browser, BrowserContext } from "playwright-core";
+import { ERROR_CODES } from "./protocol.js";
+
+// --- Types ---
+
+/** Chrome's own context (the profile the daemon connected to) */
+export const DEFAULT_CONTEXT_ID = "default";
+
+export interface ContextInfo {
+  contextId: string;
+  /** Worker that created it; null for the shared default context or one created without a workerId */
+  owner: string | null;
+  /** Created implicitly as the worker's context for open (worker-contexts isolated) */
+  worker_default: boolean;
+  pages: number;
+  created_at: string | null;
+}
+
+interface ManagedContext {
+  context: BrowserContext;
+  owner: string | null;
+  workerDefault: boolean;
+  createdAt: string;
+}
+
+function contextNotFound(contextId: string): Error {
+  return Object.assign(new Error(`Context "${contextId}" not found (see context list)`), {
+    rpcCode: ERROR_CODES.INVALID_PARAMS,
+  });
+}
+
+// --- Registry ---
+
+export class ContextRegistry {
+  private readonly managed = new Map<string, ManagedContext>();
+  // workerId → context being created, so concurrent opens share one context
+  private readonly creating = new Map<string, Promise<string>>();
+  private counter = 0;
+
+  /** Create an isolated context. Returns its contextId. */
+  async create(browser: Browser, owner: string | null, workerDefault = false): Promise<string> {
+    const context = await browser.newContext();
+    this.counter += 1;
+    const contextId = `ctx-${this.counter}`;
+    this.managed.set(contextId, { context, owner, workerDefault, createdAt: new Date().toISOString() });
+    context.on("close", () => { this.managed.delete(contextId); });
+    return contextId;
+  }
+
+  /** The worker's own context, created on first use. */
+  async forWorker(browser: Browser, workerId: string): Promise<string> {
+    for (const [contextId, entry] of this.managed) {
+      if (entry.workerDefault && entry.owner === workerId) return contextId;
+    }
+    const pending = this.creating.get(workerId);
+    if (pending) return pending;
+    const created = this.create(browser, workerId, true).finally(() => this.creating.delete(workerId));
+    this.creating.set(workerId, created);
+    return created;
+  }
+
+  /** Resolve a contextId; the default context is created if Chrome has none. Throws INVALID_PARAMS when unknown. */
+  async resolve(browser: Browser, contextId: string = DEFAULT_CONTEXT_ID): Promise<BrowserContext> {
+    if (contextId === DEFAULT_CONTEXT_ID) return this.defaultContext(browser) ?? browser.newContext();
+    const entry = this.managed.get(contextId);
+    if (!entry) throw contextNotFound(contextId);
+    return entry.context;
+  }
+
+  /** Owning worker: null when shared or unowned, undefined when the context does not exist. */
+  owner(contextId: string): string | null | undefined {
+    if (contextId === DEFAULT_CONTEXT_ID) return null;
+    const entry = this.managed.get(contextId);
+    return entry ? entry.owner : undefined;
+  }
+
+  /** contextId of a page's context ("default" for anything the daemon did not create). */
+  idOf(context: BrowserContext): string {
+    for (const [contextId, entry] of this.managed) {
+      if (entry.context === context) return contextId;
+    }
+    return DEFAULT_CONTEXT_ID;
+  }
+
+  list(browser: Browser): ContextInfo[] {
+    const shared = this.defaultContext(browser);
+    const contexts: ContextInfo[] = [{
+      contextId: DEFAULT_CONTEXT_ID,
+      owner: null,
+      worker_default: false,
+      pages: shared?.pages().length ?? 0,
+      created_at: null,
+    }];
+    for (const [contextId, entry] of this.managed) {
+      contexts.push({
+        contextId,
+        owner: entry.owner,
+        worker_default: entry.workerDefault,
+        pages: entry.context.pages().length,
+        created_at: entry.createdAt,
+      });
+    }
+    return contexts;
+  }
+
+  /** Close an isolated context and every tab in it. The default context can't be closed. */
+  async close(contextId: string): Promise<void> {
+    if (contextId === DEFAULT_CONTEXT_ID) {
+      throw Object.assign(new Error("The default context can't be closed"), { rpcCode: ERROR_CODES.INVALID_PARAMS });
+    }
+    const entry = this.managed.get(contextId);
+    if (!entry) throw contextNotFound(contextId);
+    this.managed.delete(contextId);
+    await entry.context.close();
+  }
+
+  /** Forget every context (the browser disconnected and took them with it). */
+  clear(): void {
+    this.managed.clear();
+    this.creating.clear();
+  }
+
+  get size(): number {
+    return this.managed.size;
+  }
+
+  private defaultContext(browser: Browser): BrowserContext | undefined {
+    const managed = new Set(Array.from(this.managed.values(), (e) => e.context));
+    return browser.contexts().find((c) => !managed.has(c));
+  }
+}
+
+/** Daemon-wide singleton; browser.ts resolves contexts through it. */
+export const globalContexts = new ContextRegistry();
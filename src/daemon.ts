@@ -2,13 +2,30 @@
 // Dual-purpose: (1) imported by cli.ts for start/stop/status, (2) runs as daemon process
 
 import { spawn } from "node:child_process";
+import type net from "node:net";
 import { existsSync, readFileSync, writeFileSync, openSync } from "node:fs";
 import { unlink } from "node:fs/promises";
 import { fileURLToPath } from "node:url";
 import { dirname, join } from "node:path";
 import { getSocketPath, tryConnect } from "./client.js";
-import { startServer, stopServer, setShutdownCallback, setChromeStatus } from "./server.js";
-import { connect, launchChrome, getConnectedBrowser } from "./browser.js";
+import {
+  startServer,
+  stopServer,
+  setShutdownCallback,
+  setChromeStatus,
+  restoreDaemonState,
+  resumePendingRestore,
+} from "./server.js";
+import { RPC_METHOD_NAMES } from "./sdk.js";
+import { connect, launchChrome, getConnectedBrowser, getExitedChrome, relaunchChrome } from "./browser.js";
+import { globalSupervisor, type SupervisionEvent } from "./supervisor.js";
+import {
+  ERROR_CODES,
+  PACKAGE_VERSION,
+  PROTOCOL_VERSION,
+  describeVersionMismatch,
+  type DaemonHello,
+} from "./protocol.js";
 
 // --- PID / log file paths ---
 
@@ -57,7 +74,7 @@ export function getDaemonPid(): number | null {
 const DAEMON_START_TIMEOUT_MS = 12_000;
 const DAEMON_SOCKET_POLL_MS = 150;
 
-export async function startDaemon(opts?: { port?: number }): Promise<void> {
+export async function startDaemon(opts?: { port?: number; restore?: boolean }): Promise<void> {
   if (isDaemonRunning()) {
     process.stderr.write("[jarvis-browser] Daemon already running.\n");
     return;
@@ -80,6 +97,9 @@ export async function startDaemon(opts?: { port?: number }): Promise<void> {
   const env: Record<string, string> = { ...process.env as Record<string, string> };
   env.JARVIS_DAEMON_MODE = "1";
   if (opts?.port) env.JARVIS_CDP_PORT = String(opts.port);
+  // Restore the journal written by restartDaemon() even if state-journal is off
+  if (opts?.restore) env.JARVIS_DAEMON_RESTORE = "1";
+  else delete env.JARVIS_DAEMON_RESTORE;
 
   const child = spawn(process.execPath, [daemonEntry], {
     detached: true,
@@ -143,6 +163,87 @@ export async function stopDaemon(): Promise<void> {
   await unlink(getSocketPath()).catch(() => {});
 }
 
+// --- Restart daemon (invoked by CLI) ---
+
+/**
+ * Save the running daemon's state, stop it, and start a new one that restores
+ * that state. Returns whether state was carried over.
+ */
+export async function restartDaemon(opts?: { port?: number }): Promise<{ state_saved: boolean }> {
+  let saved = false;
+  if (isDaemonRunning()) {
+    const socket = await tryConnect();
+    if (socket) {
+      try {
+        const { sendRequest } = await import("./client.js");
+        await sendRequest(socket, "daemon.state", { save: true });
+        saved = true;
+      } catch (err) {
+        process.stderr.write(
+          `[jarvis-browser] Could not save daemon state (${err instanceof Error ? err.message : String(err)}) — restarting without it\n`,
+        );
+      } finally {
+        socket.end();
+      }
+    }
+    await stopDaemon();
+  }
+  await startDaemon({ port: opts?.port, restore: saved });
+  return { state_saved: saved };
+}
+
+// --- Version handshake ---
+
+/** Ask the daemon which code it runs. Null when it predates daemon.hello. */
+export async function daemonHello(socket: net.Socket): Promise<DaemonHello | null> {
+  const { sendRequest } = await import("./client.js");
+  try {
+    return await sendRequest(socket, "daemon.hello", {
+      clientVersion: PACKAGE_VERSION,
+      clientProtocol: PROTOCOL_VERSION,
+    }) as DaemonHello;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === String(ERROR_CODES.METHOD_NOT_FOUND)) return null;
+    throw err;
+  }
+}
+
+/**
+ * Handshake with a connected daemon before sending `method`. A compatible daemon
+ * returns the same socket. A stale local daemon is restarted (state carried over)
+ * when mode is "restart", and the new connection is returned; otherwise — or for
+ * a remote daemon, which can't be restarted from here — this throws an error
+ * naming both versions.
+ */
+export async function ensureCompatibleDaemon(
+  socket: net.Socket,
+  opts: { method?: string; remote?: boolean; mode: "restart" | "error"; port?: number },
+): Promise<net.Socket> {
+  const hello = await daemonHello(socket);
+  const reason = describeVersionMismatch(hello, {
+    method: opts.method,
+    knownMethods: RPC_METHOD_NAMES,
+    checkBuild: !opts.remote,
+  });
+  if (!reason) return socket;
+  socket.end();
+
+  const daemonDesc = hello ? `${hello.version} (protocol ${hello.protocol})` : "an older version (no daemon.hello)";
+  const clientDesc = `${PACKAGE_VERSION} (protocol ${PROTOCOL_VERSION})`;
+  if (opts.remote || opts.mode === "error") {
+    throw new Error(
+      `Daemon is running jarvis-browser ${daemonDesc}, this CLI is ${clientDesc}: ${reason}. ` +
+      (opts.remote ? "Upgrade the remote daemon." : "Run: jarvis-browser daemon restart"),
+    );
+  }
+
+  process.stderr.write(`[jarvis-browser] Stale daemon (${reason}) — restarting...\n`);
+  await restartDaemon({ port: opts.port });
+  const fresh = await tryConnect(5000);
+  if (!fresh) throw new Error("Failed to connect to daemon after restart");
+  return fresh;
+}
+
 // --- Daemon health / status (via RPC) ---
 
 export async function getDaemonStatusViaRpc(): Promise<unknown> {
@@ -168,6 +269,17 @@ export async function getDaemonHealthViaRpc(): Promise<unknown> {
   }
 }
 
+export async function getDaemonMetricsViaRpc(format: "json" | "prometheus" = "json"): Promise<unknown> {
+  const socket = await tryConnect();
+  if (!socket) throw new Error("Daemon is not running");
+  try {
+    const { sendRequest } = await import("./client.js");
+    return await sendRequest(socket, "daemon.metrics", { format });
+  } finally {
+    socket.end();
+  }
+}
+
 // --- Daemon main (runs when JARVIS_DAEMON_MODE=1) ---
 
 const CHROME_RECONNECT_INTERVAL_MS = 5_000;
@@ -203,6 +315,11 @@ async function runDaemonMain(): Promise<void> {
   // Connect to Chrome (non-fatal if not running — daemon still starts)
   await connectToChrome(port);
 
+  // Re-apply journaled state before serving requests (deferred if Chrome is down)
+  await restoreDaemonState({ force: process.env.JARVIS_DAEMON_RESTORE === "1" }).catch((err: unknown) => {
+    process.stderr.write(`[jarvis-daemon] State restore failed: ${err instanceof Error ? err.message : String(err)}\n`);
+  });
+
   // Start Chrome reconnect loop
   startChromeReconnectLoop(port);
 
@@ -228,14 +345,17 @@ async function connectToChrome(port: number): Promise<void> {
 
 function startChromeReconnectLoop(port: number): void {
   let disconnectTime: number | null = null;
+  const supervision = { relaunching: false, gaveUp: false };
 
   setInterval(() => {
     const connected = getConnectedBrowser() !== null;
 
     if (connected) {
       disconnectTime = null;
+      supervision.gaveUp = false;
       return;
     }
+    if (supervision.relaunching) return;
 
     // Chrome is disconnected
     if (disconnectTime === null) {
@@ -244,6 +364,23 @@ function startChromeReconnectLoop(port: number): void {
       process.stderr.write("[jarvis-daemon] Chrome disconnected, attempting reconnect...\n");
     }
 
+    // Chrome we launched died: relaunch it rather than wait for it to come back
+    const exited = getExitedChrome();
+    if (exited && !exited.clean && !supervision.gaveUp) {
+      if (globalSupervisor.tryRestart()) {
+        supervision.relaunching = true;
+        superviseChrome(exited.pid, exited.exit).finally(() => { supervision.relaunching = false; });
+        return;
+      }
+      supervision.gaveUp = true;
+      const { max_restarts, window_s } = globalSupervisor.stats();
+      logSupervision(globalSupervisor.record({
+        type: "gave_up",
+        pid: exited.pid,
+        detail: `${max_restarts} restart(s) within ${window_s}s used up`,
+      }));
+    }
+
     const elapsed = Date.now() - disconnectTime;
     if (elapsed > CHROME_DISCONNECT_GRACE_MS) {
       process.stderr.write(
@@ -256,10 +393,41 @@ function startChromeReconnectLoop(port: number): void {
     // Try to reconnect silently
     connect(undefined, port).then(() => {
       setChromeStatus(true, `http://127.0.0.1:${port}`);
+      return resumePendingRestore();
     }).catch(() => {});
   }, CHROME_RECONNECT_INTERVAL_MS).unref();
 }
 
+/** Relaunch the Chrome that exited, reopen its tabs and report the outcome. */
+async function superviseChrome(pid: number, exit: string): Promise<void> {
+  logSupervision(globalSupervisor.record({ type: "chrome_exited", pid, detail: exit }));
+  try {
+    const result = await relaunchChrome();
+    setChromeStatus(true, result.cdpUrl);
+    logSupervision(globalSupervisor.record({
+      type: "relaunched",
+      pid: result.pid,
+      remapped: result.remapped,
+      ...(result.failed_tabs.length ? { failed_tabs: result.failed_tabs } : {}),
+    }));
+    await resumePendingRestore();
+  } catch (err) {
+    logSupervision(globalSupervisor.record({
+      type: "relaunch_failed",
+      detail: err instanceof Error ? err.message : String(err),
+    }));
+  }
+}
+
+function logSupervision(event: SupervisionEvent): void {
+  const parts: string[] = [event.type];
+  if (event.pid !== undefined) parts.push(`pid=${event.pid}`);
+  if (event.detail) parts.push(event.detail);
+  if (event.remapped) parts.push(`${Object.keys(event.remapped).length} tab(s) reopened`);
+  if (event.failed_tabs) parts.push(`${event.failed_tabs.length} tab(s) lost`);
+  process.stderr.write(`[jarvis-daemon] Supervision: ${parts.join(" — ")}\n`);
+}
+
 // --- Entry point guard ---
 
 // Run as daemon when JARVIS_DAEMON_MODE is set (spawned by startDaemon())
@@ -0,0 +1,84 @@
+// events.ts — Daemon-wide event bus for server-push subscriptions
+// Producers (observer listeners) publish; server.ts fans events out to subscribed connections.
+
+// --- Types ---
+
+export type EventChannel =
+  | "console"
+  | "errors"
+  | "network"
+  | "dialog"
+  | "download"
+  | "navigation";
+
+export const EVENT_CHANNELS: readonly EventChannel[] = [
+  "console",
+  "errors",
+  "network",
+  "dialog",
+  "download",
+  "navigation",
+];
+
+export interface DaemonEvent {
+  channel: EventChannel;
+  targetId: string;
+  timestamp: number;   // Unix milliseconds
+  data: unknown;
+}
+
+export type EventListener = (event: DaemonEvent) => void;
+
+// --- Channel parsing ---
+
+/**
+ * Parse an include filter into channel names.
+ * Accepts "console,network", ["console", "network"], or undefined (= all channels).
+ */
+export function parseChannels(raw: unknown): EventChannel[] {
+  if (raw === undefined || raw === null || raw === "") return [...EVENT_CHANNELS];
+  const parts = (Array.isArray(raw) ? raw.map(String) : String(raw).split(","))
+    .flatMap((p) => p.split(","))
+    .map((p) => p.trim())
+    .filter(Boolean);
+  if (parts.length === 0) return [...EVENT_CHANNELS];
+  for (const p of parts) {
+    if (!EVENT_CHANNELS.includes(p as EventChannel)) {
+      throw new Error(
+        `Unknown event channel "${p}". Use: ${EVENT_CHANNELS.join(", ")}`,
+      );
+    }
+  }
+  return Array.from(new Set(parts)) as EventChannel[];
+}
+
+// --- EventBus ---
+
+export class EventBus {
+  private listeners = new Set<EventListener>();
+
+  /** Register a listener. Returns an unsubscribe function. */
+  subscribe(listener: EventListener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  publish(channel: EventChannel, targetId: string, data: unknown): void {
+    if (this.listeners.size === 0) return;
+    const event: DaemonEvent = { channel, targetId, timestamp: Date.now(), data };
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch {
+        // A broken subscriber must never break the producer (page event handlers)
+      }
+    }
+  }
+
+  get listenerCount(): number {
+    return this.listeners.size;
+  }
+}
+
+/** Daemon-wide singleton event bus. */
+export const globalEvents = new EventBus();
@@ -0,0 +1,43 @@
+// index.ts — Package entry point for programmatic use (import { JarvisClient } from "jarvis-browser")
+// The CLI lives in cli.ts; nothing here starts Chrome or a daemon.
+
+export {
+  JarvisClient,
+  RPC_METHOD_NAMES,
+  type JarvisClientOptions,
+  type JarvisClientEvents,
+  type JarvisApi,
+  type JarvisRpcError,
+  type CallOptions,
+} from "./sdk.js";
+export type * from "./rpc-types.js";
+export {
+  ERROR_CODES,
+  PACKAGE_VERSION,
+  PROTOCOL_VERSION,
+  type ErrorCode,
+  type DaemonHello,
+} from "./protocol.js";
+export { EVENT_CHANNELS, type EventChannel, type DaemonEvent } from "./events.js";
+export { getSocketPath, DAEMON_URL_ENV } from "./client.js";
+export type {
+  ActionResult,
+  SnapshotResult,
+  RoleSnapshotStats,
+  RoleRef,
+  RoleRefMap,
+  RefResolution,
+  TabInfo,
+} from "./types.js";
+export type { ConsoleEntry, ErrorEntry, NetworkEntry } from "./observer.js";
+export type { CapturedEntry, RuleSummary } from "./network.js";
+export type { SessionInfo } from "./session.js";
+export type { RuntimeConfig, ConfigKey, ConfigValue } from "./config.js";
+export type { MetricsSnapshot, MethodMetrics } from "./metrics.js";
+export type { DaemonState } from "./state-journal.js";
+export type { WorkerPolicy, PolicyFile, EffectivePolicy } from "./policy.js";
+export type { ContextInfo } from "./contexts.js";
+export type { PageResolutionStats } from "./page-index.js";
+export type { SupervisionEvent, SupervisionStats } from "./supervisor.js";
+export type { ProfileInfo, ProfileMeta } from "./profiles.js";
+export type { RestoreSummary } from "./server.js";
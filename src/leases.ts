@@ -0,0 +1,163 @@
+// leases.ts — Lease-based tab ownership for multi-worker daemons
+// A worker owns a tab for a TTL; it renews the lease (explicitly or by using the
+// tab) or loses it. Expired leases are dropped so a crashed worker can't hold
+// tabs forever.
+
+import { ERROR_CODES } from "./protocol.js";
+
+// --- Types ---
+
+export interface TabLease {
+  targetId: string;
+  owner: string;
+  /** Lease length in ms (0 = never expires) */
+  ttlMs: number;
+  /** Unix ms; null when the lease never expires */
+  expiresAt: number | null;
+}
+
+export interface LeaseView {
+  owner: string;
+  /** Seconds left (rounded up); null when the lease never expires */
+  lease_remaining_s: number | null;
+}
+
+function ownedByOther(targetId: string, owner: string): Error {
+  return Object.assign(new Error(`Tab "${targetId}" is owned by worker "${owner}"`), {
+    rpcCode: ERROR_CODES.TAB_OWNED_BY_OTHER,
+  });
+}
+
+// --- Lease table ---
+
+export class TabLeases {
+  private readonly leases = new Map<string, TabLease>();
+  /** targetId → calls still running on the tab; a lease doesn't expire under them */
+  private readonly inUse = new Map<string, number>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  /** Active lease for a tab. Expired leases stay in the table until sweep() reports them. */
+  get(targetId: string): TabLease | undefined {
+    const lease = this.leases.get(targetId);
+    return lease && !this.isExpired(lease) ? lease : undefined;
+  }
+
+  owner(targetId: string): string | undefined {
+    return this.get(targetId)?.owner;
+  }
+
+  /** Claim a free tab (or re-claim your own, which renews it). Throws TAB_OWNED_BY_OTHER otherwise. */
+  claim(targetId: string, workerId: string, ttlMs: number): TabLease {
+    const current = this.get(targetId);
+    if (current && current.owner !== workerId) throw ownedByOther(targetId, current.owner);
+    return this.set(targetId, workerId, ttlMs);
+  }
+
+  /** Extend the owner's lease. ttlMs defaults to the lease's original TTL. */
+  renew(targetId: string, workerId: string, ttlMs?: number): TabLease {
+    const current = this.requireOwned(targetId, workerId);
+    return this.set(targetId, workerId, ttlMs ?? current.ttlMs);
+  }
+
+  /** Hand an owned tab to another worker with a fresh lease. */
+  transfer(targetId: string, fromWorker: string, toWorker: string, ttlMs?: number): TabLease {
+    const current = this.requireOwned(targetId, fromWorker);
+    return this.set(targetId, toWorker, ttlMs ?? current.ttlMs);
+  }
+
+  /** Drop the lease. Only the owner may release; releasing a free tab is a no-op. */
+  release(targetId: string, workerId: string): boolean {
+    const current = this.get(targetId);
+    if (!current) return false;
+    if (current.owner !== workerId) throw ownedByOther(targetId, current.owner);
+    this.leases.delete(targetId);
+    return true;
+  }
+
+  /** Forget a tab regardless of owner (tab closed). */
+  drop(targetId: string): void {
+    this.leases.delete(targetId);
+  }
+
+  /** Heartbeat on use: renew the lease if workerId owns it. */
+  touch(targetId: string, workerId: string): void {
+    const current = this.get(targetId);
+    if (current && current.owner === workerId) this.set(targetId, workerId, current.ttlMs);
+  }
+
+  /**
+   * Mark a call on the tab as running: renews workerId's lease now, keeps it from
+   * expiring while the call runs, and renews it again when the returned function is called.
+   */
+  use(targetId: string, workerId: string): () => void {
+    this.touch(targetId, workerId);
+    this.inUse.set(targetId, (this.inUse.get(targetId) ?? 0) + 1);
+    let done = false;
+    return () => {
+      if (done) return;
+      done = true;
+      this.touch(targetId, workerId);
+      const remaining = (this.inUse.get(targetId) ?? 1) - 1;
+      if (remaining > 0) this.inUse.set(targetId, remaining);
+      else this.inUse.delete(targetId);
+    };
+  }
+
+  /** Remove and return every expired lease (the daemon sweeps periodically). */
+  sweep(): TabLease[] {
+    const expired: TabLease[] = [];
+    for (const lease of this.leases.values()) {
+      if (this.isExpired(lease)) expired.push(lease);
+    }
+    for (const lease of expired) this.leases.delete(lease.targetId);
+    return expired;
+  }
+
+  view(targetId: string): LeaseView | null {
+    const lease = this.get(targetId);
+    if (!lease) return null;
+    return {
+      owner: lease.owner,
+      lease_remaining_s: lease.expiresAt === null
+        ? null
+        : Math.max(0, Math.ceil((lease.expiresAt - this.now()) / 1000)),
+    };
+  }
+
+  /** All active leases. */
+  list(): TabLease[] {
+    return Array.from(this.leases.values()).filter((lease) => !this.isExpired(lease));
+  }
+
+  /** Number of active (unexpired) leases. */
+  get size(): number {
+    let active = 0;
+    for (const lease of this.leases.values()) {
+      if (!this.isExpired(lease)) active++;
+    }
+    return active;
+  }
+
+  private requireOwned(targetId: string, workerId: string): TabLease {
+    const current = this.get(targetId);
+    if (!current) throw new Error(`Tab "${targetId}" has no active lease — claim it first`);
+    if (current.owner !== workerId) throw ownedByOther(targetId, current.owner);
+    return current;
+  }
+
+  private set(targetId: string, owner: string, ttlMs: number): TabLease {
+    const lease: TabLease = {
+      targetId,
+      owner,
+      ttlMs,
+      expiresAt: ttlMs > 0 ? this.now() + ttlMs : null,
+    };
+    this.leases.set(targetId, lease);
+    return lease;
+  }
+
+  private isExpired(lease: TabLease): boolean {
+    return lease.expiresAt !== null && lease.expiresAt <= this.now() && !this.inUse.has(lease.targetId);
+  }
+}
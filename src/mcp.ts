@@ -0,0 +1,295 @@
+// mcp.ts — Model Context Protocol server over stdio (`jarvis-browser mcp`)
+// Exposes daemon RPC methods as MCP tools. Tool schemas come from the daemon's
+// rpc.discover document; calls share one JarvisClient connection, so a long
+// wait doesn't hold up other tools, and MCP cancellations reach the daemon.
+
+import { readFile } from "node:fs/promises";
+import { createInterface } from "node:readline";
+import { isRemoteDaemon, tryConnect } from "./client.js";
+import { startDaemon } from "./daemon.js";
+import { JarvisClient } from "./sdk.js";
+import { ERROR_CODES, PACKAGE_VERSION, makeErrorResponse, makeResponse } from "./protocol.js";
+import type { ActionResult } from "./types.js";
+import type { RpcMethod } from "./rpc-types.js";
+
+// --- Types ---
+
+export interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: "object";
+    properties: Record<string, Record<string, unknown>>;
+    required?: string[];
+  };
+}
+
+export type McpContent =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string };
+
+export interface McpToolResult {
+  content: McpContent[];
+  isError?: boolean;
+}
+
+/**
+ * Sends one daemon RPC call; injected so the protocol layer is testable without a daemon.
+ * The signal aborts when the MCP client cancels the request.
+ */
+export type DaemonCaller = (method: string, params: Record<string, unknown>, signal?: AbortSignal) => Promise<unknown>;
+
+interface OpenRpcDoc {
+  methods: Array<{
+    name: string;
+    summary?: string;
+    params: Array<{ name: string; required?: boolean; description?: string; schema: Record<string, unknown> }>;
+  }>;
+}
+
+const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+// Connection-level or streaming methods that make no sense as one-shot tools
+const EXCLUDED_METHODS = new Set(["subscribe", "unsubscribe", "auth", "rpc.discover", "daemon.stop"]);
+
+// Filled in by the MCP layer, never by the model
+const HIDDEN_PARAMS = new Set(["workerId"]);
+
+// --- Tool mapping ---
+
+/** MCP tool names are restricted to [A-Za-z0-9_-]: "find.role" → "find_role", "set-cookie" → "set_cookie". */
+export function toolName(method: string): string {
+  return method.replace(/[^A-Za-z0-9_]/g, "_");
+}
+
+export function toolsFromOpenRpc(doc: OpenRpcDoc): { tools: McpTool[]; methods: Map<string, string> } {
+  const tools: McpTool[] = [];
+  const methods = new Map<string, string>();
+  for (const m of doc.methods) {
+    if (EXCLUDED_METHODS.has(m.name)) continue;
+    const properties: McpTool["inputSchema"]["properties"] = {};
+    const required: string[] = [];
+    for (const p of m.params) {
+      if (HIDDEN_PARAMS.has(p.name)) continue;
+      properties[p.name] = { ...p.schema, ...(p.description ? { description: p.description } : {}) };
+      if (p.required) required.push(p.name);
+    }
+    const name = toolName(m.name);
+    methods.set(name, m.name);
+    tools.push({
+      name,
+      description: `${m.summary ?? m.name} (daemon method "${m.name}")`,
+      inputSchema: { type: "object", properties, ...(required.length > 0 ? { required } : {}) },
+    });
+  }
+  return { tools, methods };
+}
+
+// --- Results ---
+
+/** Daemon results that are not already ActionResult-shaped get wrapped as { ok: true, data }. */
+export function toEnvelope(result: unknown): ActionResult {
+  if (result && typeof result === "object" && typeof (result as ActionResult).ok === "boolean") {
+    return result as ActionResult;
+  }
+  return { ok: true, data: result };
+}
+
+function textContent(value: unknown): McpContent {
+  return { type: "text", text: typeof value === "string" ? value : JSON.stringify(value, null, 2) };
+}
+
+/**
+ * Build the tool result for a daemon reply.
+ * snapshot → snapshot text first; screenshot → PNG image content; everything else → JSON envelope.
+ */
+export async function toToolResult(method: string, result: unknown): Promise<McpToolResult> {
+  const envelope = toEnvelope(result);
+  const isError = envelope.ok === false ? { isError: true } : {};
+
+  // snapshot returns a bare SnapshotResult ({ snapshot, refs, stats })
+  const snap = result as { snapshot?: unknown } | null;
+  if (method === "snapshot" && typeof snap?.snapshot === "string") {
+    const { snapshot, ...rest } = snap;
+    return { content: [textContent(snapshot), textContent(rest)], ...isError };
+  }
+
+  if (method === "screenshot") {
+    const path = (envelope.data as { path?: string } | undefined)?.path;
+    if (path) {
+      try {
+        const png = await readFile(path);
+        return {
+          content: [{ type: "image", data: png.toString("base64"), mimeType: "image/png" }, textContent(envelope)],
+          ...isError,
+        };
+      } catch {
+        // Remote daemon: the file lives on the browser host — fall back to the envelope
+      }
+    }
+  }
+
+  return { content: [textContent(envelope)], ...isError };
+}
+
+export function errorToolResult(err: unknown): McpToolResult {
+  const error = err instanceof Error ? err.message : String(err);
+  const code = (err as NodeJS.ErrnoException | undefined)?.code;
+  const envelope: ActionResult = { ok: false, error, ...(code ? { code: Number(code) } : {}) };
+  return { content: [textContent(envelope)], isError: true };
+}
+
+// --- Protocol ---
+
+export class McpServer {
+  private toolCache: { tools: McpTool[]; methods: Map<string, string> } | null = null;
+  /** MCP request id → abort controller, for notifications/cancelled */
+  private readonly inflight = new Map<number | string, AbortController>();
+
+  constructor(private readonly callDaemon: DaemonCaller, private readonly workerId?: string) {}
+
+  /** Handle one incoming message. Returns the response, or null for notifications. */
+  async handleMessage(msg: unknown): Promise<object | null> {
+    const req = msg as { id?: number | string; method?: unknown; params?: Record<string, unknown> } | null;
+    if (!req || typeof req !== "object" || typeof req.method !== "string") {
+      return makeErrorResponse(req?.id ?? null, ERROR_CODES.INVALID_REQUEST, "Invalid Request");
+    }
+    if (req.id === undefined || req.id === null) {
+      if (req.method === "notifications/cancelled") this.cancel(req.params?.requestId);
+      return null; // notifications/initialized, ...
+    }
+
+    const ctrl = new AbortController();
+    this.inflight.set(req.id, ctrl);
+    try {
+      const result = await this.dispatch(req.method, req.params ?? {}, ctrl.signal);
+      // A cancelled request gets no response
+      return ctrl.signal.aborted ? null : makeResponse(req.id, result);
+    } catch (err) {
+      if (ctrl.signal.aborted) return null;
+      const code = (err as { rpcCode?: number }).rpcCode ?? ERROR_CODES.ACTION_FAILED;
+      return makeErrorResponse(req.id, code, err instanceof Error ? err.message : String(err));
+    } finally {
+      if (this.inflight.get(req.id) === ctrl) this.inflight.delete(req.id);
+    }
+  }
+
+  private cancel(requestId: unknown): void {
+    if (typeof requestId !== "number" && typeof requestId !== "string") return;
+    this.inflight.get(requestId)?.abort();
+  }
+
+  private async dispatch(method: string, params: Record<string, unknown>, signal: AbortSignal): Promise<unknown> {
+    switch (method) {
+      case "initialize": {
+        const requested = String(params.protocolVersion ?? "");
+        return {
+          protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+            ? requested
+            : SUPPORTED_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: { name: "jarvis-browser", version: PACKAGE_VERSION },
+        };
+      }
+      case "ping":
+        return {};
+      case "tools/list":
+        return { tools: (await this.loadTools()).tools };
+      case "tools/call":
+        return this.callTool(String(params.name ?? ""), (params.arguments ?? {}) as Record<string, unknown>, signal);
+      default:
+        throw Object.assign(new Error(`Method not found: ${method}`), { rpcCode: ERROR_CODES.METHOD_NOT_FOUND });
+    }
+  }
+
+  private async loadTools(): Promise<{ tools: McpTool[]; methods: Map<string, string> }> {
+    if (!this.toolCache) {
+      const doc = await this.callDaemon("rpc.discover", {}) as OpenRpcDoc;
+      this.toolCache = toolsFromOpenRpc(doc);
+    }
+    return this.toolCache;
+  }
+
+  private async callTool(name: string, args: Record<string, unknown>, signal: AbortSignal): Promise<McpToolResult> {
+    const method = (await this.loadTools()).methods.get(name);
+    if (!method) {
+      throw Object.assign(new Error(`Unknown tool: ${name}`), { rpcCode: ERROR_CODES.INVALID_PARAMS });
+    }
+    const params = this.workerId ? { ...args, workerId: this.workerId } : args;
+    try {
+      return await toToolResult(method, await this.callDaemon(method, params, signal));
+    } catch (err) {
+      return errorToolResult(err);
+    }
+  }
+}
+
+// --- Daemon connection ---
+
+/**
+ * One persistent daemon connection. Calls are multiplexed by id (JarvisClient), so they
+ * run side by side; aborting a call's signal sends $/cancel for it.
+ */
+class DaemonConnection {
+  // Reconnects go through connect() so a daemon that went away is started again
+  private readonly client = new JarvisClient({ reconnect: false });
+  private connecting: Promise<void> | null = null;
+
+  async call(method: string, params: Record<string, unknown>, signal?: AbortSignal): Promise<unknown> {
+    await this.connect();
+    return this.client.request(method as RpcMethod, params as never, { signal });
+  }
+
+  private connect(): Promise<void> {
+    if (this.client.connected) return Promise.resolve();
+    this.connecting ??= this.open().finally(() => { this.connecting = null; });
+    return this.connecting;
+  }
+
+  /** Start a local daemon that isn't running (startDaemon returns once it accepts connections), then connect. */
+  private async open(): Promise<void> {
+    if (!isRemoteDaemon()) {
+      const probe = await tryConnect();
+      if (probe) {
+        probe.end();
+      } else {
+        process.stderr.write("[jarvis-browser mcp] Daemon not running, starting...\n");
+        await startDaemon();
+      }
+    }
+    await this.client.ready();
+  }
+
+  close(): void {
+    void this.client.disconnect();
+  }
+}
+
+// --- stdio transport ---
+
+/** Run until stdin closes. stdout carries only newline-delimited JSON-RPC; logs go to stderr. */
+export async function runMcpServer(): Promise<void> {
+  const daemon = new DaemonConnection();
+  const server = new McpServer((method, params, signal) => daemon.call(method, params, signal), process.env.JARVIS_WORKER_ID);
+  const write = (msg: object) => process.stdout.write(JSON.stringify(msg) + "\n");
+  const pending = new Set<Promise<void>>();
+
+  const rl = createInterface({ input: process.stdin, crlfDelay: Infinity });
+  for await (const line of rl) {
+    if (!line.trim()) continue;
+    let msg: unknown;
+    try {
+      msg = JSON.parse(line);
+    } catch {
+      write(makeErrorResponse(null, ERROR_CODES.PARSE_ERROR, "Parse error: invalid JSON"));
+      continue;
+    }
+    // Don't block the read loop: ping and tools/list must answer while a long wait runs
+    const task = server.handleMessage(msg).then((resp) => { if (resp) write(resp); });
+    pending.add(task);
+    void task.finally(() => pending.delete(task));
+  }
+
+  await Promise.allSettled(pending);
+  daemon.close();
+}
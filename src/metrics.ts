@@ -0,0 +1,187 @@
+// metrics.ts — Per-method request metrics and Prometheus text export
+// server.ts records every request (count, latency, error code); daemon.health,
+// daemon.metrics and the optional HTTP /metrics endpoint read from here.
+
+import http from "node:http";
+import { ERROR_CODES } from "./protocol.js";
+
+// --- Types ---
+
+/** Histogram upper bounds in ms (Prometheus `le` labels); +Inf is implicit. */
+export const LATENCY_BUCKETS_MS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000] as const;
+
+export interface MethodMetrics {
+  count: number;
+  errors: number;
+  /** Cumulative counts per bucket, aligned with LATENCY_BUCKETS_MS plus a final +Inf entry */
+  buckets: number[];
+  sum_ms: number;
+  max_ms: number;
+}
+
+export interface MetricsSnapshot {
+  requests_total: number;
+  errors_total: number;
+  errors_by_code: Record<string, number>;
+  methods: Record<string, MethodMetrics & { avg_ms: number }>;
+}
+
+/** Point-in-time values supplied by the daemon when rendering (tabs, buffers, memory...). */
+export type Gauges = Record<string, number | null | undefined>;
+
+const CODE_NAMES = new Map<number, string>(
+  Object.entries(ERROR_CODES).map(([name, code]) => [code, name]),
+);
+
+/** "TAB_OWNED_BY_OTHER" for known codes, the number as a string otherwise. */
+export function errorCodeName(code: number): string {
+  return CODE_NAMES.get(code) ?? String(code);
+}
+
+// --- Registry ---
+
+export class MetricsRegistry {
+  private methods = new Map<string, MethodMetrics>();
+  private errorsByCode = new Map<string, number>();
+
+  /** Record one completed request. errorCode is the JSON-RPC error code, if it failed. */
+  record(method: string, durationMs: number, errorCode?: number): void {
+    let m = this.methods.get(method);
+    if (!m) {
+      m = { count: 0, errors: 0, buckets: new Array(LATENCY_BUCKETS_MS.length + 1).fill(0), sum_ms: 0, max_ms: 0 };
+      this.methods.set(method, m);
+    }
+    m.count++;
+    m.sum_ms += durationMs;
+    m.max_ms = Math.max(m.max_ms, durationMs);
+    LATENCY_BUCKETS_MS.forEach((le, i) => { if (durationMs <= le) m.buckets[i]++; });
+    m.buckets[LATENCY_BUCKETS_MS.length]++;
+
+    if (errorCode !== undefined) {
+      m.errors++;
+      const name = errorCodeName(errorCode);
+      this.errorsByCode.set(name, (this.errorsByCode.get(name) ?? 0) + 1);
+    }
+  }
+
+  snapshot(): MetricsSnapshot {
+    const methods: MetricsSnapshot["methods"] = {};
+    let requests = 0;
+    let errors = 0;
+    for (const [name, m] of [...this.methods].sort(([a], [b]) => a.localeCompare(b))) {
+      requests += m.count;
+      errors += m.errors;
+      methods[name] = {
+        ...m,
+        buckets: [...m.buckets],
+        sum_ms: Math.round(m.sum_ms),
+        max_ms: Math.round(m.max_ms),
+        avg_ms: m.count > 0 ? Math.round(m.sum_ms / m.count) : 0,
+      };
+    }
+    return {
+      requests_total: requests,
+      errors_total: errors,
+      errors_by_code: Object.fromEntries(this.errorsByCode),
+      methods,
+    };
+  }
+
+  /** Reset all counters — useful for tests. */
+  reset(): void {
+    this.methods.clear();
+    this.errorsByCode.clear();
+  }
+}
+
+export const globalMetrics = new MetricsRegistry();
+
+// --- Prometheus text format ---
+
+function label(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+/** Render metrics (and daemon gauges) in Prometheus text exposition format 0.0.4. */
+export function toPrometheus(snapshot: MetricsSnapshot, gauges: Gauges = {}): string {
+  const lines: string[] = [];
+
+  lines.push("# HELP jarvis_requests_total RPC requests handled, by method.");
+  lines.push("# TYPE jarvis_requests_total counter");
+  for (const [method, m] of Object.entries(snapshot.methods)) {
+    lines.push(`jarvis_requests_total{method="${label(method)}"} ${m.count}`);
+  }
+
+  lines.push("# HELP jarvis_request_errors_total Failed RPC requests, by method.");
+  lines.push("# TYPE jarvis_request_errors_total counter");
+  for (const [method, m] of Object.entries(snapshot.methods)) {
+    lines.push(`jarvis_request_errors_total{method="${label(method)}"} ${m.errors}`);
+  }
+
+  lines.push("# HELP jarvis_errors_by_code_total Failed RPC requests, by JSON-RPC error code.");
+  lines.push("# TYPE jarvis_errors_by_code_total counter");
+  for (const [code, count] of Object.entries(snapshot.errors_by_code)) {
+    lines.push(`jarvis_errors_by_code_total{code="${label(code)}"} ${count}`);
+  }
+
+  lines.push("# HELP jarvis_request_duration_seconds RPC request latency, by method.");
+  lines.push("# TYPE jarvis_request_duration_seconds histogram");
+  for (const [method, m] of Object.entries(snapshot.methods)) {
+    const l = `method="${label(method)}"`;
+    LATENCY_BUCKETS_MS.forEach((le, i) => {
+      lines.push(`jarvis_request_duration_seconds_bucket{${l},le="${le / 1000}"} ${m.buckets[i]}`);
+    });
+    lines.push(`jarvis_request_duration_seconds_bucket{${l},le="+Inf"} ${m.count}`);
+    lines.push(`jarvis_request_duration_seconds_sum{${l}} ${m.sum_ms / 1000}`);
+    lines.push(`jarvis_request_duration_seconds_count{${l}} ${m.count}`);
+  }
+
+  for (const [name, value] of Object.entries(gauges)) {
+    if (value === null || value === undefined) continue;
+    lines.push(`# TYPE jarvis_${name} gauge`);
+    lines.push(`jarvis_${name} ${value}`);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+// --- HTTP /metrics endpoint ---
+
+export interface MetricsServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+/** Serve GET /metrics on host:port. render() is called per scrape. */
+export async function startMetricsServer(
+  host: string,
+  port: number,
+  render: () => Promise<string>,
+): Promise<MetricsServer> {
+  const server = http.createServer((req, res) => {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+    if (req.method !== "GET" || path !== "/metrics") {
+      res.writeHead(404, { "Content-Type": "text/plain" }).end("Not found\n");
+      return;
+    }
+    render().then(
+      (body) => res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" }).end(body),
+      (err: unknown) => res.writeHead(500, { "Content-Type": "text/plain" }).end(`${err instanceof Error ? err.message : String(err)}\n`),
+    );
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  const bound = (server.address() as { port: number }).port;
+  return {
+    url: `http://${host}:${bound}/metrics`,
+    close: () => new Promise((resolve) => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
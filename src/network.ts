@@ -14,13 +14,13 @@ export interface CapturedEntry {
   timestamp: number;  // Unix seconds
 }
 
-interface MockOptions {
+export interface MockOptions {
   body?: string;
   status?: number;
   contentType?: string;
 }
 
-type RuleType = "block" | "mock" | "capture";
+export type RuleType = "block" | "mock" | "capture";
 
 interface RouteRule {
   id: string;
@@ -39,6 +39,13 @@ export interface RuleSummary {
   mock_status?: number;
 }
 
+/** What is needed to re-create a rule (captured entries are not kept). */
+export interface RuleSpec {
+  type: RuleType;
+  pattern: string;
+  mockOptions?: MockOptions;
+}
+
 // Per-tab rule storage: targetId → ruleId → rule
 type TabRules = Map<string, RouteRule>;
 
@@ -166,6 +173,29 @@ export class NetworkController {
     return entries.sort((a, b) => a.timestamp - b.timestamp);
   }
 
+  /** Rule specs per tab, in creation order (for the daemon state journal). */
+  exportRules(): Record<string, RuleSpec[]> {
+    const out: Record<string, RuleSpec[]> = {};
+    for (const [targetId, rules] of this.tabRules) {
+      if (rules.size === 0) continue;
+      out[targetId] = Array.from(rules.values()).map((r) => ({
+        type: r.type,
+        pattern: r.pattern,
+        ...(r.mockOptions ? { mockOptions: r.mockOptions } : {}),
+      }));
+    }
+    return out;
+  }
+
+  /** Re-create a rule from its spec on a page. Returns the new rule id. */
+  restoreRule(spec: RuleSpec, page: Page, targetId: string): Promise<string> {
+    switch (spec.type) {
+      case "block": return this.addBlock(spec.pattern, page, targetId);
+      case "mock": return this.addMock(spec.pattern, spec.mockOptions ?? {}, page, targetId);
+      case "capture": return this.addCapture(spec.pattern, page, targetId);
+    }
+  }
+
   /** Remove all rules for a tab on close — does NOT call page.unroute (page is closing). */
   destroyTab(targetId: string): void {
     this.tabRules.delete(targetId);
@@ -1,7 +1,8 @@
 // Page observer: ring-buffered console, error, and network event capture
 // Attached per-page by the daemon when a tab is opened.
 
-import type { Page, ConsoleMessage, Request, Response } from "playwright-core";
+import type { Page, ConsoleMessage, Request, Response, Dialog, Download, Frame } from "playwright-core";
+import { globalEvents } from "./events.js";
 
 // --- Types ---
 
@@ -31,12 +32,20 @@ export interface NetworkEntry {
   body?: string;
 }
 
+export interface CrashEntry {
+  url: string;
+  timestamp: number;       // Unix seconds
+  /** targetId of the tab that replaced the crashed one; null until recovered */
+  recovered_as: string | null;
+}
+
 export interface Observation {
   console_errors: number;
   console_warnings: number;
   js_exceptions: number;
   failed_requests: number;
   pending_requests: number;
+  crashes: number;
 }
 
 // --- RingBuffer ---
@@ -46,8 +55,12 @@ export class RingBuffer<T> {
   private head = 0;
   private count = 0;
 
-  constructor(readonly capacity: number) {
-    this.buf = new Array<T | undefined>(capacity);
+  constructor(private _capacity: number) {
+    this.buf = new Array<T | undefined>(_capacity);
+  }
+
+  get capacity(): number {
+    return this._capacity;
   }
 
   push(item: T): void {
@@ -82,6 +95,18 @@ export class RingBuffer<T> {
     this.count = 0;
   }
 
+  /** Change capacity in place. Growing keeps every entry; shrinking keeps the newest. */
+  resize(capacity: number): void {
+    if (capacity < 1) throw new Error(`RingBuffer capacity must be >= 1, got ${capacity}`);
+    if (capacity === this._capacity) return;
+    const kept = this.getLast(capacity);
+    this._capacity = capacity;
+    this.buf = new Array<T | undefined>(capacity);
+    kept.forEach((item, i) => { this.buf[i] = item; });
+    this.count = kept.length;
+    this.head = kept.length % capacity;
+  }
+
   get size(): number {
     return this.count;
   }
@@ -132,6 +157,7 @@ interface PageData {
   consoleBuf: RingBuffer<ConsoleEntry>;
   errorBuf: RingBuffer<ErrorEntry>;
   networkBuf: RingBuffer<NetworkEntry>;
+  crashBuf: RingBuffer<CrashEntry>;
   pendingRequests: Map<object, number>;   // request object → startTime (ms)
 }
 
@@ -142,8 +168,19 @@ export interface SnapshotAge {
 
 // --- PageObserver ---
 
+/** Per-tab ring buffer capacities (console/network follow the *-buffer-size config keys). */
+export interface BufferSizes {
+  console: number;
+  errors: number;
+  network: number;
+}
+
+const DEFAULT_BUFFER_SIZES: BufferSizes = { console: 500, errors: 100, network: 200 };
+const CRASH_BUFFER_SIZE = 20;
+
 class PageObserver {
   private pages = new Map<string, PageData>();
+  private bufferSizes: BufferSizes = { ...DEFAULT_BUFFER_SIZES };
   private cleanups = new Map<string, ListenerOff[]>();
   private attached = new Set<string>();
   private snapshotTimes = new Map<string, number>();
@@ -157,33 +194,61 @@ class PageObserver {
     this.attached.add(targetId);
 
     const data: PageData = {
-      consoleBuf: new RingBuffer<ConsoleEntry>(500),
-      errorBuf: new RingBuffer<ErrorEntry>(100),
-      networkBuf: new RingBuffer<NetworkEntry>(200),
+      consoleBuf: new RingBuffer<ConsoleEntry>(this.bufferSizes.console),
+      errorBuf: new RingBuffer<ErrorEntry>(this.bufferSizes.errors),
+      networkBuf: new RingBuffer<NetworkEntry>(this.bufferSizes.network),
+      crashBuf: new RingBuffer<CrashEntry>(CRASH_BUFFER_SIZE),
       pendingRequests: new Map<object, number>(),
     };
     this.pages.set(targetId, data);
+    this.listen(page, targetId, data);
+  }
+
+  /**
+   * Keep a crashed (or relaunched) tab's buffers under the targetId of the tab that
+   * replaced it, and listen on the new page from now on.
+   */
+  move(from: string, to: string, page: Page): void {
+    const data = this.pages.get(from);
+    this.destroy(to);
+    this.destroy(from);
+    if (!data) {
+      this.attach(page, to);
+      return;
+    }
+    const crash = data.crashBuf.getLast(1)[0];
+    if (crash && crash.recovered_as === null) crash.recovered_as = to;
+    data.pendingRequests.clear();
+    this.attached.add(to);
+    this.pages.set(to, data);
+    this.listen(page, to, data);
+  }
 
+  private listen(page: Page, targetId: string, data: PageData): void {
     // Console messages
     const consoleHandler = (msg: ConsoleMessage) => {
       const loc = msg.location();
-      data.consoleBuf.push({
+      const entry: ConsoleEntry = {
         level: msg.type(),           // Playwright uses 'warning', not 'warn'
         text: msg.text(),
         url: loc.url,
         line: loc.lineNumber,
         timestamp: Math.floor(Date.now() / 1000),
-      });
+      };
+      data.consoleBuf.push(entry);
+      globalEvents.publish("console", targetId, entry);
     };
     page.on("console", consoleHandler);
 
     // Uncaught JS exceptions
     const errorHandler = (err: Error) => {
-      data.errorBuf.push({
+      const entry: ErrorEntry = {
         message: err.message,
         stack: err.stack ?? "",
         timestamp: Math.floor(Date.now() / 1000),
-      });
+      };
+      data.errorBuf.push(entry);
+      globalEvents.publish("errors", targetId, entry);
     };
     page.on("pageerror", errorHandler);
 
@@ -212,6 +277,7 @@ class PageObserver {
       // Async body capture — fire-and-forget, push entry first then update body
       if (networkBodyMaxKb > 0) {
         data.networkBuf.push(entry);
+        globalEvents.publish("network", targetId, entry);
         resp.body().then((buf) => {
           const maxBytes = networkBodyMaxKb * 1024;
           if (buf.length <= maxBytes) {
@@ -224,6 +290,7 @@ class PageObserver {
       }
 
       data.networkBuf.push(entry);
+      globalEvents.publish("network", targetId, entry);
     };
     page.on("response", responseHandler);
 
@@ -231,7 +298,7 @@ class PageObserver {
     const requestFailedHandler = (req: Request) => {
       const startMs = data.pendingRequests.get(req) ?? Date.now();
       data.pendingRequests.delete(req);
-      data.networkBuf.push({
+      const entry: NetworkEntry = {
         url: req.url(),
         method: req.method(),
         status: null,
@@ -239,16 +306,58 @@ class PageObserver {
         resource_type: req.resourceType(),
         timestamp: Math.floor(Date.now() / 1000),
         failed: true,
-      });
+      };
+      data.networkBuf.push(entry);
+      globalEvents.publish("network", targetId, entry);
     };
     page.on("requestfailed", requestFailedHandler);
 
+    // Event-only channels (not buffered): dialogs, downloads, main-frame navigations.
+    // The dialog listener only reports — browser.ts owns accept/dismiss.
+    const dialogHandler = (dialog: Dialog) => {
+      globalEvents.publish("dialog", targetId, {
+        type: dialog.type(),
+        message: dialog.message(),
+      });
+    };
+    page.on("dialog", dialogHandler);
+
+    const downloadHandler = (dl: Download) => {
+      globalEvents.publish("download", targetId, {
+        url: dl.url(),
+        filename: dl.suggestedFilename(),
+      });
+    };
+    page.on("download", downloadHandler);
+
+    const navigationHandler = (frame: Frame) => {
+      if (frame !== page.mainFrame()) return;
+      globalEvents.publish("navigation", targetId, { url: frame.url() });
+    };
+    page.on("framenavigated", navigationHandler);
+
+    // Renderer crash (Inspector.targetCrashed): the page is unusable until it is replaced
+    const crashHandler = () => {
+      const entry: CrashEntry = {
+        url: page.url(),
+        timestamp: Math.floor(Date.now() / 1000),
+        recovered_as: null,
+      };
+      data.crashBuf.push(entry);
+      globalEvents.publish("errors", targetId, { message: "Page crashed", stack: "", timestamp: entry.timestamp, crashed: true });
+    };
+    page.on("crash", crashHandler);
+
     this.cleanups.set(targetId, [
       () => page.off("console", consoleHandler),
       () => page.off("pageerror", errorHandler),
       () => page.off("request", requestHandler),
       () => page.off("response", responseHandler),
       () => page.off("requestfailed", requestFailedHandler),
+      () => page.off("dialog", dialogHandler),
+      () => page.off("download", downloadHandler),
+      () => page.off("framenavigated", navigationHandler),
+      () => page.off("crash", crashHandler),
     ]);
   }
 
@@ -267,6 +376,31 @@ class PageObserver {
     this.snapshotTimes.delete(targetId);
   }
 
+  /** Set capacities for new tabs and resize existing buffers (shrinking keeps the newest entries). */
+  setBufferSizes(sizes: Partial<BufferSizes>): void {
+    this.bufferSizes = { ...this.bufferSizes, ...sizes };
+    for (const data of this.pages.values()) {
+      data.consoleBuf.resize(this.bufferSizes.console);
+      data.errorBuf.resize(this.bufferSizes.errors);
+      data.networkBuf.resize(this.bufferSizes.network);
+    }
+  }
+
+  getBufferSizes(): BufferSizes {
+    return { ...this.bufferSizes };
+  }
+
+  /** Buffered entry counts across all tabs (for health reporting). */
+  getBufferStats(): { tabs: number; console: number; errors: number; network: number } {
+    const stats = { tabs: this.pages.size, console: 0, errors: 0, network: 0 };
+    for (const data of this.pages.values()) {
+      stats.console += data.consoleBuf.size;
+      stats.errors += data.errorBuf.size;
+      stats.network += data.networkBuf.size;
+    }
+    return stats;
+  }
+
   /** Record that a snapshot was taken for this tab (called by server after snapshot command). */
   recordSnapshot(targetId: string): void {
     this.snapshotTimes.set(targetId, Date.now());
@@ -379,6 +513,10 @@ class PageObserver {
     return { requests: entries, pending: data.pendingRequests.size };
   }
 
+  getCrashes(targetId: string): CrashEntry[] {
+    return this.pages.get(targetId)?.crashBuf.getAll() ?? [];
+  }
+
   getObservation(targetId: string): Observation {
     const data = this.pages.get(targetId);
     if (!data) {
@@ -388,6 +526,7 @@ class PageObserver {
         js_exceptions: 0,
         failed_requests: 0,
         pending_requests: 0,
+        crashes: 0,
       };
     }
     const consoleMsgs = data.consoleBuf.getAll();
@@ -398,6 +537,7 @@ class PageObserver {
       js_exceptions: data.errorBuf.size,
       failed_requests: networkEntries.filter((e) => e.failed === true).length,
       pending_requests: data.pendingRequests.size,
+      crashes: data.crashBuf.size,
     };
   }
 
@@ -406,6 +546,11 @@ class PageObserver {
     return this.attached.has(targetId);
   }
 
+  /** targetIds with listeners attached (journaled so a restarted daemon can re-attach). */
+  attachedTargets(): string[] {
+    return Array.from(this.attached);
+  }
+
   clearBuffers(targetId: string, channel?: string): void {
     const data = this.pages.get(targetId);
     if (!data) return;
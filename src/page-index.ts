@@ -0,0 +1,88 @@
+// page-index.ts — targetId ↔ Page index
+// Resolving a targetId used to mean a CDP round trip (Target.getTargetInfo) per
+// open page on every command. The index is filled from context page events and
+// from those round trips, emptied on page close, and keeps resolution timing for
+// daemon.health. PageIndex is exported for unit testing; browser.ts owns the
+// daemon-wide instance.
+
+// --- Types ---
+
+export interface PageResolutionStats {
+  indexed_pages: number;
+  lookups: number;
+  /** Resolved from the index */
+  cache_hits: number;
+  /** Resolved by asking Chrome (Target.getTargetInfo) for unindexed pages */
+  cdp_fallbacks: number;
+  avg_ms: number;
+  max_ms: number;
+  /** Average of the lookups that needed CDP */
+  avg_fallback_ms: number;
+}
+
+// --- Index ---
+
+export class PageIndex<P extends object> {
+  private readonly pages = new Map<string, P>();
+  private readonly targets = new WeakMap<P, string>();
+  private lookups = 0;
+  private hits = 0;
+  private totalMs = 0;
+  private maxMs = 0;
+  private fallbackMs = 0;
+
+  set(targetId: string, page: P): void {
+    const previous = this.pages.get(targetId);
+    if (previous && previous !== page) this.targets.delete(previous);
+    this.pages.set(targetId, page);
+    this.targets.set(page, targetId);
+  }
+
+  get(targetId: string): P | undefined {
+    return this.pages.get(targetId);
+  }
+
+  targetIdOf(page: P): string | undefined {
+    return this.targets.get(page);
+  }
+
+  /** Forget a page (closed). */
+  delete(page: P): void {
+    const targetId = this.targets.get(page);
+    if (targetId === undefined) return;
+    this.targets.delete(page);
+    if (this.pages.get(targetId) === page) this.pages.delete(targetId);
+  }
+
+  clear(): void {
+    for (const page of this.pages.values()) this.targets.delete(page);
+    this.pages.clear();
+  }
+
+  get size(): number {
+    return this.pages.size;
+  }
+
+  /** Record one getPage resolution; hit = no CDP call was needed. */
+  recordLookup(durationMs: number, hit: boolean): void {
+    this.lookups++;
+    this.totalMs += durationMs;
+    this.maxMs = Math.max(this.maxMs, durationMs);
+    if (hit) this.hits++;
+    else this.fallbackMs += durationMs;
+  }
+
+  stats(): PageResolutionStats {
+    const fallbacks = this.lookups - this.hits;
+    const round = (ms: number) => Math.round(ms * 1000) / 1000;
+    return {
+      indexed_pages: this.pages.size,
+      lookups: this.lookups,
+      cache_hits: this.hits,
+      cdp_fallbacks: fallbacks,
+      avg_ms: this.lookups ? round(this.totalMs / this.lookups) : 0,
+      max_ms: round(this.maxMs),
+      avg_fallback_ms: fallbacks ? round(this.fallbackMs / fallbacks) : 0,
+    };
+  }
+}
@@ -0,0 +1,232 @@
+// policy.ts — Per-worker method and URL policies
+// A JSON policy file (config key policy-file) maps workerIds to allowed and denied
+// RPC methods and navigation URLs; routeRequest rejects anything outside the
+// caller's policy with SECURITY_VIOLATION. workerId is declared by the caller, so
+// policies keep cooperating agents apart — they are not authentication. URL rules
+// check the URL a call asks for, not where the page ends up (see URL_RULES_SCOPE).
+
+import { readFile } from "node:fs/promises";
+import { watchFile, unwatchFile } from "node:fs";
+import { ERROR_CODES } from "./protocol.js";
+
+// --- Types ---
+
+export interface WorkerPolicy {
+  /** When set, only these methods: exact names or a prefix ending in "*" (e.g. "get.*") */
+  allow_methods?: string[];
+  /** Always wins over allow_methods */
+  deny_methods?: string[];
+  /**
+   * When set, navigate/open only to matching URLs: "*.example.com" (host and subdomains) or a full-URL glob.
+   * Checked against the requested URL only (URL_RULES_SCOPE).
+   */
+  allow_urls?: string[];
+  deny_urls?: string[];
+}
+
+export interface PolicyFile {
+  /** workerId → policy; "*" in a key matches any run of characters. Exact keys win, then the first pattern. */
+  workers?: Record<string, WorkerPolicy>;
+  /** For workers no entry matches, including calls without a workerId */
+  default?: WorkerPolicy;
+}
+
+export interface EffectivePolicy extends WorkerPolicy {
+  worker: string;
+  /** The workers key that matched, "default", or null when the worker is unrestricted */
+  matched: string | null;
+}
+
+/** Always allowed, so a restricted CLI can still handshake and inspect its own policy. */
+export const POLICY_EXEMPT_METHODS: ReadonlySet<string> = new Set(["daemon.hello", "auth", "policy.show"]);
+
+/** What allow_urls/deny_urls cover; policy.show repeats it wherever URL rules apply. */
+export const URL_RULES_SCOPE =
+  "URL rules check the url param of navigate, open and batch navigate steps only. Redirects and navigations " +
+  "the page starts itself (links, forms, scripts, popups, including ones triggered by click) are not checked.";
+
+/** Params that carry a navigation target, per method */
+const URL_PARAMS: Readonly<Record<string, string>> = { navigate: "url", open: "url" };
+
+const RULE_KEYS = ["allow_methods", "deny_methods", "allow_urls", "deny_urls"] as const;
+
+// --- Parsing ---
+
+/** Validate a parsed policy document; throws with the offending path on a bad shape. */
+export function parsePolicy(raw: unknown): PolicyFile {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new Error("policy must be a JSON object");
+  const doc = raw as Record<string, unknown>;
+  for (const key of Object.keys(doc)) {
+    if (key !== "workers" && key !== "default") throw new Error(`unknown top-level key "${key}" (use workers, default)`);
+  }
+  const workers = doc.workers ?? {};
+  if (typeof workers !== "object" || Array.isArray(workers)) throw new Error("workers must be an object");
+  const policy: PolicyFile = { workers: {} };
+  for (const [worker, rules] of Object.entries(workers as Record<string, unknown>)) {
+    policy.workers![worker] = parseRules(rules, `workers["${worker}"]`);
+  }
+  if (doc.default !== undefined) policy.default = parseRules(doc.default, "default");
+  return policy;
+}
+
+function parseRules(raw: unknown, where: string): WorkerPolicy {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new Error(`${where} must be an object`);
+  const rules: WorkerPolicy = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!(RULE_KEYS as readonly string[]).includes(key)) {
+      throw new Error(`${where}: unknown key "${key}" (use ${RULE_KEYS.join(", ")})`);
+    }
+    if (!Array.isArray(value) || !value.every((v) => typeof v === "string")) {
+      throw new Error(`${where}.${key} must be an array of strings`);
+    }
+    rules[key as (typeof RULE_KEYS)[number]] = value as string[];
+  }
+  return rules;
+}
+
+// --- Matching ---
+
+function wildcardToRegex(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`);
+}
+
+export function methodMatches(pattern: string, method: string): boolean {
+  return pattern.endsWith("*") ? method.startsWith(pattern.slice(0, -1)) : method === pattern;
+}
+
+export function urlMatches(pattern: string, url: string): boolean {
+  if (pattern.includes("://")) return wildcardToRegex(pattern).test(url);
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  const p = pattern.toLowerCase();
+  if (p.startsWith("*.")) return host === p.slice(2) || host.endsWith(p.slice(1));
+  return wildcardToRegex(p).test(host);
+}
+
+function violation(message: string): Error {
+  return Object.assign(new Error(message), { rpcCode: ERROR_CODES.SECURITY_VIOLATION });
+}
+
+// --- Store ---
+
+const WATCH_INTERVAL_MS = 1_000;
+
+export class PolicyStore {
+  private path = "";
+  private policy: PolicyFile | null = null;
+  private loadError: string | null = null;
+  private watching: string | null = null;
+
+  /** Load (and watch) a policy file; "" removes the policy. A file that fails to load denies everything. */
+  async load(path: string): Promise<void> {
+    this.unwatch();
+    this.path = path;
+    this.policy = null;
+    this.loadError = null;
+    if (!path) return;
+    await this.read();
+    this.watching = path;
+    const watcher = watchFile(path, { interval: WATCH_INTERVAL_MS, persistent: false }, (curr, prev) => {
+      if (curr.mtimeMs === prev.mtimeMs && curr.size === prev.size) return;
+      void this.read();
+    });
+    watcher.unref();
+  }
+
+  /** Use an in-memory policy (tests). */
+  set(policy: PolicyFile | null): void {
+    this.unwatch();
+    this.path = "";
+    this.policy = policy;
+    this.loadError = null;
+  }
+
+  unwatch(): void {
+    if (!this.watching) return;
+    unwatchFile(this.watching);
+    this.watching = null;
+  }
+
+  /** The rules that apply to a worker (matched: null = unrestricted). */
+  effective(workerId: string): EffectivePolicy {
+    const workers = this.policy?.workers ?? {};
+    if (workerId && workers[workerId]) return { worker: workerId, matched: workerId, ...workers[workerId] };
+    if (workerId) {
+      for (const [key, rules] of Object.entries(workers)) {
+        if (key.includes("*") && wildcardToRegex(key).test(workerId)) return { worker: workerId, matched: key, ...rules };
+      }
+    }
+    if (this.policy?.default) return { worker: workerId, matched: "default", ...this.policy.default };
+    return { worker: workerId, matched: null };
+  }
+
+  /** Throw SECURITY_VIOLATION when the worker's policy does not allow this call. */
+  check(workerId: string, method: string, params: Record<string, unknown>): void {
+    if (POLICY_EXEMPT_METHODS.has(method)) return;
+    if (this.loadError) {
+      throw violation(`Policy file ${this.path} could not be loaded (${this.loadError}); all requests are denied until it is fixed`);
+    }
+    if (!this.policy) return;
+    const rules = this.effective(workerId);
+    if (rules.matched === null) return;
+    const who = workerId ? `worker "${workerId}"` : "callers without a workerId";
+
+    this.checkMethod(rules, method, who);
+    const urlParam = URL_PARAMS[method];
+    if (urlParam && typeof params[urlParam] === "string") this.checkUrl(rules, params[urlParam] as string, who);
+
+    // Batch steps run actions in-process, so each one is checked as its own method
+    if (method === "batch" && Array.isArray(params.commands)) {
+      for (const entry of params.commands as Array<Record<string, unknown>>) {
+        const cmd = String(entry?.cmd ?? "");
+        this.checkMethod(rules, cmd, who);
+        if (cmd === "navigate" && typeof entry.url === "string") this.checkUrl(rules, entry.url, who);
+      }
+    }
+
+    // A restricted worker must not be able to lift its own restrictions
+    const touchesPolicy = method === "config.reset" || (method === "config.set" && params.key === "policy-file");
+    if (touchesPolicy) throw violation(`Policy for ${who} does not allow changing policy-file`);
+  }
+
+  /** Loaded policy for policy.show */
+  describe(): { path: string; policy: PolicyFile | null; error?: string } {
+    return { path: this.path, policy: this.policy, ...(this.loadError ? { error: this.loadError } : {}) };
+  }
+
+  private checkMethod(rules: EffectivePolicy, method: string, who: string): void {
+    if (rules.deny_methods?.some((p) => methodMatches(p, method))) {
+      throw violation(`Policy denies "${method}" for ${who}`);
+    }
+    if (rules.allow_methods && !rules.allow_methods.some((p) => methodMatches(p, method))) {
+      throw violation(`Policy does not allow "${method}" for ${who}`);
+    }
+  }
+
+  private checkUrl(rules: EffectivePolicy, url: string, who: string): void {
+    if (rules.deny_urls?.some((p) => urlMatches(p, url))) {
+      throw violation(`Policy denies navigation to ${url} for ${who}`);
+    }
+    // about:blank carries nothing to leak, and is what open uses without a URL
+    if (rules.allow_urls && url !== "about:blank" && !rules.allow_urls.some((p) => urlMatches(p, url))) {
+      throw violation(`Policy does not allow navigation to ${url} for ${who} (allowed: ${rules.allow_urls.join(", ")})`);
+    }
+  }
+
+  private async read(): Promise<void> {
+    try {
+      this.policy = parsePolicy(JSON.parse(await readFile(this.path, "utf-8")));
+      this.loadError = null;
+    } catch (err) {
+      // Fail closed: a broken policy must not silently become "no policy"
+      this.policy = null;
+      this.loadError = err instanceof Error ? err.message : String(err);
+      process.stderr.write(`[jarvis-daemon] Policy file ${this.path}: ${this.loadError}\n`);
+    }
+  }
+}
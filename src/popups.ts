@@ -0,0 +1,59 @@
+// popups.ts — Tabs opened by a page (window.open, target=_blank)
+// Chrome reports every new page target with the targetId of the page that opened
+// it (noopener included). OpenedTabLog keeps the recent ones so an action can
+// report the tab it opened; it is exported for unit testing, globalOpenedTabs is
+// the daemon-wide singleton.
+
+// --- Constants ---
+
+const OPENED_TAB_LOG_CAPACITY = 100;
+
+// --- Types ---
+
+export interface OpenedTab {
+  targetId: string;
+  /** The page that opened it; null for tabs opened over CDP (open, context new) */
+  openerId: string | null;
+  at: number;
+}
+
+// --- Log ---
+
+export class OpenedTabLog {
+  private readonly entries: OpenedTab[] = [];
+
+  constructor(private readonly capacity = OPENED_TAB_LOG_CAPACITY) {}
+
+  /** Record a new tab. Returns false when it was already recorded. */
+  record(targetId: string, openerId: string | null, at = Date.now()): boolean {
+    const existing = this.entries.find((e) => e.targetId === targetId);
+    if (existing) {
+      existing.openerId ??= openerId;
+      return false;
+    }
+    this.entries.push({ targetId, openerId, at });
+    while (this.entries.length > this.capacity) this.entries.shift();
+    return true;
+  }
+
+  /** The tab's opener, if it was opened by a page. */
+  openerOf(targetId: string): string | null {
+    return this.entries.find((e) => e.targetId === targetId)?.openerId ?? null;
+  }
+
+  /**
+   * Tabs opened by a page at or after `since`, oldest first. With an openerId only
+   * that page's; without one (an action on the active tab) any page's.
+   */
+  openedSince(since: number, openerId?: string): string[] {
+    return this.entries
+      .filter((e) => e.at >= since && e.openerId !== null && (openerId === undefined || e.openerId === openerId))
+      .map((e) => e.targetId);
+  }
+
+  clear(): void {
+    this.entries.length = 0;
+  }
+}
+
+export const globalOpenedTabs = new OpenedTabLog();
@@ -0,0 +1,171 @@
+// profiles.ts — Named, persistent Chrome profiles
+// Layout: <profile-root>/<name>/profile.json (metadata) + <profile-root>/<name>/user-data/
+// (Chrome's --user-data-dir). A profile keeps its logins, cookies and storage across
+// launches regardless of the CDP port it is launched on.
+
+import { mkdir, readFile, writeFile, readdir, rm, cp, lstat, readlink } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { hostname } from "node:os";
+import { basename, join } from "node:path";
+
+// --- Constants ---
+
+const META_FILE = "profile.json";
+const USER_DATA_DIR = "user-data";
+const NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+// Chrome's per-profile lock files: never copied, and SingletonLock tells us the profile is open
+const CHROME_SINGLETON_FILES = new Set(["SingletonLock", "SingletonSocket", "SingletonCookie"]);
+
+// --- Types ---
+
+export interface ProfileMeta {
+  version: 1;
+  name: string;
+  created_at: string;
+  /** Last launch; null until the profile is first launched */
+  last_used: string | null;
+  /** Proxy server used when launching with this profile (overrides the proxy config key) */
+  proxy?: string;
+  /** Device preset applied to the first tab when launching with this profile */
+  device?: string;
+}
+
+export interface ProfileInfo extends ProfileMeta {
+  /** The user-data-dir Chrome is launched with */
+  user_data_dir: string;
+  /** A live Chrome holds the profile lock */
+  in_use: boolean;
+}
+
+// --- Helpers ---
+
+export function validateProfileName(name: string): void {
+  if (!NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid profile name "${name}" (letters, digits, ".", "_" and "-"; up to 64 characters)`);
+  }
+}
+
+function profileDir(root: string, name: string): string {
+  validateProfileName(name);
+  return join(root, name);
+}
+
+async function readMeta(root: string, name: string): Promise<ProfileMeta> {
+  const path = join(profileDir(root, name), META_FILE);
+  if (!existsSync(path)) throw new Error(`Profile "${name}" not found`);
+  return JSON.parse(await readFile(path, "utf-8")) as ProfileMeta;
+}
+
+async function writeMeta(root: string, meta: ProfileMeta): Promise<void> {
+  await writeFile(join(profileDir(root, meta.name), META_FILE), JSON.stringify(meta, null, 2), "utf-8");
+}
+
+/** True when SingletonLock points at a live process on this host (Chrome leaves it behind on a crash). */
+async function isLocked(userDataDir: string): Promise<boolean> {
+  const lock = join(userDataDir, "SingletonLock");
+  try {
+    await lstat(lock);
+  } catch {
+    return false;
+  }
+  const target = await readlink(lock).catch(() => "");
+  const dash = target.lastIndexOf("-");
+  const host = target.slice(0, dash);
+  const pid = Number(target.slice(dash + 1));
+  if (dash === -1 || !Number.isInteger(pid)) return true;
+  if (host !== hostname()) return true; // profile on shared storage, opened elsewhere
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+async function toInfo(root: string, meta: ProfileMeta): Promise<ProfileInfo> {
+  const userDataDir = join(profileDir(root, meta.name), USER_DATA_DIR);
+  return { ...meta, user_data_dir: userDataDir, in_use: await isLocked(userDataDir) };
+}
+
+function requireNotInUse(info: ProfileInfo, action: string): void {
+  if (info.in_use) {
+    throw new Error(`Profile "${info.name}" is in use by a running Chrome — stop it before you ${action} it`);
+  }
+}
+
+// --- Public API ---
+
+export async function createProfile(
+  root: string,
+  name: string,
+  defaults: { proxy?: string; device?: string } = {},
+): Promise<ProfileInfo> {
+  const dir = profileDir(root, name);
+  if (existsSync(dir)) throw new Error(`Profile "${name}" already exists`);
+  await mkdir(join(dir, USER_DATA_DIR), { recursive: true, mode: 0o700 });
+  const meta: ProfileMeta = {
+    version: 1,
+    name,
+    created_at: new Date().toISOString(),
+    last_used: null,
+    ...(defaults.proxy ? { proxy: defaults.proxy } : {}),
+    ...(defaults.device ? { device: defaults.device } : {}),
+  };
+  await writeMeta(root, meta);
+  return toInfo(root, meta);
+}
+
+export async function getProfile(root: string, name: string): Promise<ProfileInfo> {
+  return toInfo(root, await readMeta(root, name));
+}
+
+export async function listProfiles(root: string): Promise<ProfileInfo[]> {
+  if (!existsSync(root)) return [];
+  const results: ProfileInfo[] = [];
+  for (const entry of await readdir(root, { withFileTypes: true })) {
+    if (!entry.isDirectory() || !NAME_PATTERN.test(entry.name)) continue;
+    try {
+      results.push(await getProfile(root, entry.name));
+    } catch {
+      // Not a profile (no or malformed profile.json)
+    }
+  }
+  return results.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Copy a profile (logins included) under a new name. The copy starts unused. */
+export async function cloneProfile(root: string, source: string, target: string): Promise<ProfileInfo> {
+  const from = await getProfile(root, source);
+  requireNotInUse(from, "clone");
+  const dir = profileDir(root, target);
+  if (existsSync(dir)) throw new Error(`Profile "${target}" already exists`);
+  await cp(profileDir(root, source), dir, {
+    recursive: true,
+    filter: (src) => !CHROME_SINGLETON_FILES.has(basename(src)),
+  });
+  const meta: ProfileMeta = {
+    version: 1,
+    name: target,
+    created_at: new Date().toISOString(),
+    last_used: null,
+    ...(from.proxy ? { proxy: from.proxy } : {}),
+    ...(from.device ? { device: from.device } : {}),
+  };
+  await writeMeta(root, meta);
+  return toInfo(root, meta);
+}
+
+export async function deleteProfile(root: string, name: string): Promise<void> {
+  requireNotInUse(await getProfile(root, name), "delete");
+  await rm(profileDir(root, name), { recursive: true, force: true });
+}
+
+/** Record a launch and return the profile to launch with. */
+export async function useProfile(root: string, name: string): Promise<ProfileInfo> {
+  const meta = await readMeta(root, name);
+  const info = await toInfo(root, meta);
+  requireNotInUse(info, "launch");
+  const used: ProfileMeta = { ...meta, last_used: new Date().toISOString() };
+  await writeMeta(root, used);
+  return { ...info, last_used: used.last_used };
+}
@@ -1,5 +1,27 @@
 // JSON-RPC 2.0 protocol definitions for jarvis-browser daemon
-// Transport: Unix Domain Socket, newline-delimited frames
+// Transport: Unix Domain Socket (optionally TCP/WebSocket), newline-delimited frames
+
+import { statSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+
+// Package version reported by daemon discovery and the MCP server
+export const PACKAGE_VERSION = "1.0.0";
+
+// Wire protocol revision — bump when framing, the handshake or error semantics change incompatibly
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * Identifies the build on disk: mtime of this compiled module when the process
+ * loaded it. A daemon started before the last `npm run build` reports an older
+ * value than a freshly started CLI, even when PACKAGE_VERSION is unchanged.
+ */
+export const BUILD_ID: string = (() => {
+  try {
+    return String(Math.round(statSync(fileURLToPath(import.meta.url)).mtimeMs));
+  } catch {
+    return "";
+  }
+})();
 
 export const ERROR_CODES = {
   PARSE_ERROR: -32700,         // Invalid JSON received
@@ -14,6 +36,8 @@ export const ERROR_CODES = {
   TIMEOUT: -32006,             // Operation timed out
   SECURITY_VIOLATION: -32007,  // Blocked URL or path
   TAB_OWNED_BY_OTHER: -32008,  // Tab claimed by another worker
+  UNAUTHORIZED: -32009,        // Missing or invalid bearer token (remote transports)
+  REQUEST_CANCELLED: -32800,   // Cancelled via $/cancel or client disconnect
 } as const;
 
 export type ErrorCode = (typeof ERROR_CODES)[keyof typeof ERROR_CODES];
@@ -65,6 +89,7 @@ export const METHODS = {
   DAEMON_STATUS: "daemon.status",
   DAEMON_HEALTH: "daemon.health",
   DAEMON_STOP: "daemon.stop",
+  DAEMON_HELLO: "daemon.hello",
   // Observer (v0.4.0)
   CONSOLE: "console",
   ERRORS: "errors",
@@ -87,6 +112,16 @@ export const METHODS = {
   RECORD_START: "record.start",
   RECORD_STOP: "record.stop",
   RECORD_STATUS: "record.status",
+  // Server-push events
+  SUBSCRIBE: "subscribe",
+  UNSUBSCRIBE: "unsubscribe",
+  // Remote transport authentication
+  AUTH: "auth",
+  // Discovery (OpenRPC)
+  RPC_DISCOVER: "rpc.discover",
+  // Protocol notifications (no response)
+  CANCEL: "$/cancel",
+  BATCH_MODE: "$/batch",   // { parallel: true } inside a batch array
 } as const;
 
 export type Method = (typeof METHODS)[keyof typeof METHODS];
@@ -115,6 +150,13 @@ export interface RpcErrorResponse {
 
 export type RpcResponse = RpcSuccessResponse | RpcErrorResponse;
 
+// JSON-RPC 2.0 notification (no id, no response expected)
+export interface RpcNotification {
+  jsonrpc: "2.0";
+  method: string;
+  params?: Record<string, unknown>;
+}
+
 export interface RpcError {
   code: number;
   message: string;
@@ -148,17 +190,76 @@ export function makeErrorResponse(
   return { jsonrpc: "2.0", id, error: err };
 }
 
+export function makeNotification(
+  method: string,
+  params?: Record<string, unknown>,
+): RpcNotification {
+  const n: RpcNotification = { jsonrpc: "2.0", method };
+  if (params !== undefined) n.params = params;
+  return n;
+}
+
 // Type guard
 export function isRpcError(resp: RpcResponse): resp is RpcErrorResponse {
   return "error" in resp;
 }
 
-// Validate incoming request shape (basic)
+// --- Version handshake (daemon.hello) ---
+
+export interface DaemonHello {
+  name: string;
+  version: string;
+  protocol: number;
+  build_id: string;
+  pid: number;
+  /** Every method the daemon's registry serves */
+  methods: string[];
+}
+
+/**
+ * Why a daemon can't serve this client, or null when it can. `daemon` is null
+ * for a daemon that predates the handshake. checkBuild compares BUILD_ID, which
+ * only means something when both sides run from the same install (local daemon).
+ * A `method` the daemon lacks only makes it stale when the client knows that
+ * method (knownMethods); anything else is a typo the daemon should reject itself.
+ */
+export function describeVersionMismatch(
+  daemon: DaemonHello | null,
+  opts: { method?: string; knownMethods?: readonly string[]; checkBuild?: boolean } = {},
+): string | null {
+  if (!daemon) return "daemon predates the version handshake";
+  if (daemon.protocol !== PROTOCOL_VERSION) {
+    return `protocol ${daemon.protocol} differs from client protocol ${PROTOCOL_VERSION}`;
+  }
+  if (daemon.version !== PACKAGE_VERSION) {
+    return `daemon version ${daemon.version} differs from client version ${PACKAGE_VERSION}`;
+  }
+  if (opts.method && !daemon.methods.includes(opts.method) && opts.knownMethods?.includes(opts.method)) {
+    return `daemon does not support "${opts.method}"`;
+  }
+  if (opts.checkBuild && BUILD_ID && daemon.build_id && daemon.build_id !== BUILD_ID) {
+    return "daemon is running a different build (rebuilt since it started)";
+  }
+  return null;
+}
+
+// Validate incoming request shape (basic). Batch arrays are split by the server first.
 export function validateRequest(obj: unknown): RpcRequest | null {
-  if (!obj || typeof obj !== "object") return null;
+  if (!obj || typeof obj !== "object" || Array.isArray(obj)) return null;
   const r = obj as Record<string, unknown>;
   if (r.jsonrpc !== "2.0") return null;
   if (typeof r.method !== "string") return null;
   if (r.id === undefined || r.id === null) return null;
   return obj as RpcRequest;
 }
+
+// Validate incoming notification shape (no id; a response must not be sent)
+export function validateNotification(obj: unknown): RpcNotification | null {
+  if (!obj || typeof obj !== "object" || Array.isArray(obj)) return null;
+  const r = obj as Record<string, unknown>;
+  if (r.jsonrpc !== "2.0") return null;
+  if (typeof r.method !== "string") return null;
+  if ("id" in r) return null;
+  if (r.params !== undefined && (typeof r.params !== "object" || r.params === null)) return null;
+  return obj as RpcNotification;
+}
@@ -0,0 +1,181 @@
+// registry.ts — Schema-driven RPC method registry
+// Each method declares its params once; the registry validates incoming params,
+// derives which methods are tab operations, and renders the OpenRPC document.
+
+import { ERROR_CODES } from "./protocol.js";
+
+// --- Types ---
+
+export type ParamType = "string" | "number" | "integer" | "boolean" | "array" | "object";
+
+export interface ParamSchema {
+  type: ParamType | readonly ParamType[];
+  description?: string;
+  /** Must be present; for strings, must also be non-empty */
+  required?: boolean;
+  enum?: readonly (string | number)[];
+  /** Element schema for array params */
+  items?: { type: ParamType };
+  minimum?: number;
+}
+
+export type Params = Record<string, unknown>;
+
+export interface MethodSpec<Ctx> {
+  name: string;
+  summary: string;
+  params?: Record<string, ParamSchema>;
+  /** Operates on a tab — subject to tab ownership checks when targetId is given */
+  tab?: boolean;
+  /** Tab operation that changes neither page state nor refs — skips the per-tab queue */
+  readOnly?: boolean;
+  handler: (params: Params, ctx: Ctx) => unknown | Promise<unknown>;
+}
+
+export interface ParamIssue {
+  field: string;
+  message: string;
+}
+
+/** Params every method accepts (consumed by the server, not the handler). */
+export const COMMON_PARAMS: Record<string, ParamSchema> = {
+  workerId: { type: "string", description: "Calling worker id (tab ownership)" },
+  deadlineMs: { type: "number", minimum: 0, description: "Fail with TIMEOUT after this many ms" },
+};
+
+// --- Validation ---
+
+function typeOf(value: unknown): ParamType[] {
+  if (Array.isArray(value)) return ["array"];
+  switch (typeof value) {
+    case "string": return ["string"];
+    case "boolean": return ["boolean"];
+    case "number":
+      if (!Number.isFinite(value)) return [];
+      return Number.isInteger(value) ? ["number", "integer"] : ["number"];
+    case "object": return value === null ? [] : ["object"];
+    default: return [];
+  }
+}
+
+function checkValue(field: string, value: unknown, schema: ParamSchema): string | null {
+  const allowed = (typeof schema.type === "string" ? [schema.type] : schema.type) as ParamType[];
+  const actual = typeOf(value);
+  if (!allowed.some((t) => actual.includes(t))) {
+    return `must be ${allowed.join(" or ")}`;
+  }
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return `must be one of: ${schema.enum.join(", ")}`;
+  }
+  if (schema.minimum !== undefined && typeof value === "number" && value < schema.minimum) {
+    return `must be >= ${schema.minimum}`;
+  }
+  if (schema.items && Array.isArray(value)) {
+    const bad = value.findIndex((v) => !typeOf(v).includes(schema.items!.type));
+    if (bad !== -1) return `[${bad}] must be ${schema.items.type}`;
+  }
+  return null;
+}
+
+/**
+ * Check params against a method's declared schema.
+ * Unknown keys are allowed (clients may send extras); declared keys are type-checked.
+ */
+export function validateParams(
+  schema: Record<string, ParamSchema> | undefined,
+  params: Params,
+): ParamIssue[] {
+  const issues: ParamIssue[] = [];
+  const all = { ...COMMON_PARAMS, ...schema };
+  for (const [field, def] of Object.entries(all)) {
+    const value = params[field];
+    if (value === undefined || value === null) {
+      if (def.required) issues.push({ field, message: "is required" });
+      continue;
+    }
+    if (def.required && value === "") {
+      issues.push({ field, message: "is required" });
+      continue;
+    }
+    const problem = checkValue(field, value, def);
+    if (problem) issues.push({ field, message: problem });
+  }
+  return issues;
+}
+
+export function invalidParamsError(method: string, issues: ParamIssue[]): Error {
+  const detail = issues.map((i) => `${i.field} ${i.message}`).join("; ");
+  return Object.assign(new Error(`Invalid params for "${method}": ${detail}`), {
+    rpcCode: ERROR_CODES.INVALID_PARAMS,
+    rpcData: { errors: issues },
+  });
+}
+
+// --- Registry ---
+
+export class MethodRegistry<Ctx> {
+  private methods = new Map<string, MethodSpec<Ctx>>();
+
+  constructor(specs: MethodSpec<Ctx>[] = []) {
+    for (const spec of specs) this.register(spec);
+  }
+
+  register(spec: MethodSpec<Ctx>): void {
+    if (this.methods.has(spec.name)) {
+      throw new Error(`Method "${spec.name}" is already registered`);
+    }
+    this.methods.set(spec.name, spec);
+  }
+
+  get(name: string): MethodSpec<Ctx> | undefined {
+    return this.methods.get(name);
+  }
+
+  list(): MethodSpec<Ctx>[] {
+    return Array.from(this.methods.values());
+  }
+
+  /** Names of methods subject to tab ownership checks. */
+  tabMethods(): Set<string> {
+    return new Set(this.list().filter((m) => m.tab).map((m) => m.name));
+  }
+
+  /** Names of tab methods that run under the per-tab queue (tab operations minus readOnly). */
+  serializedMethods(): Set<string> {
+    return new Set(this.list().filter((m) => m.tab && !m.readOnly).map((m) => m.name));
+  }
+}
+
+// --- OpenRPC ---
+
+function toJsonSchema(def: ParamSchema): Record<string, unknown> {
+  const schema: Record<string, unknown> = {
+    type: typeof def.type === "string" ? def.type : [...def.type],
+  };
+  if (def.enum) schema.enum = [...def.enum];
+  if (def.items) schema.items = { ...def.items };
+  if (def.minimum !== undefined) schema.minimum = def.minimum;
+  return schema;
+}
+
+/** Render the registry as an OpenRPC 1.2 document (served by rpc.discover). */
+export function toOpenRpc<Ctx>(
+  registry: MethodRegistry<Ctx>,
+  info: { title: string; version: string },
+): object {
+  const methods = registry.list().map((m) => ({
+    name: m.name,
+    summary: m.summary,
+    paramStructure: "by-name",
+    params: Object.entries({ ...m.params, ...COMMON_PARAMS }).map(([name, def]) => ({
+      name,
+      required: def.required === true,
+      ...(def.description ? { description: def.description } : {}),
+      schema: toJsonSchema(def),
+    })),
+    result: { name: "result", schema: { type: "object" } },
+    ...(m.tab ? { "x-tab-operation": true } : {}),
+    ...(m.readOnly ? { "x-read-only": true } : {}),
+  }));
+  return { openrpc: "1.2.6", info, methods };
+}
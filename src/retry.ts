@@ -2,9 +2,12 @@
 // v0.7.0: +dialog_blocking, +navigation_changed (3→5 error types)
 // v0.8.0: +overlay_interference (6 types)
 // v0.9.0: +captcha_detected (7 types) + retry statistics
+// +page_crashed (8 types): the tab is reloaded in place, or reopened at the same URL
+// Refs from an older snapshot generation (e5@g3) are stale_ref, remapped by role and name
 
 import type { Page } from "playwright-core";
 import { takeSnapshot } from "./browser.js";
+import { parseRef } from "./snapshot.js";
 import { globalObserver } from "./observer.js";
 import type { RoleRef, RoleRefMap } from "./types.js";
 import { recordRetryAttempt, recordRetryOutcome } from "./stats.js";
@@ -19,9 +22,12 @@ export type ErrorClass =
   | "navigation_changed"    // v0.7.0
   | "overlay_interference"  // v0.8.0
   | "captcha_detected"      // v0.9.0
+  | "page_crashed"
   | "unknown";
 
 export interface ErrorContext {
+  /** error_class the error carries in rpcData (e.g. getPage's crash fail-fast) */
+  errorClass?: string;
   hasUnhandledDialog?: boolean;
   preActionUrl?: string;
   currentUrl?: string;
@@ -29,7 +35,24 @@ export interface ErrorContext {
   notInteractableCount?: number;
 }
 
+/** The error_class an error carries in rpcData, if any */
+function errorClassOf(err: Error): string | undefined {
+  const data = (err as { rpcData?: { error_class?: unknown } }).rpcData;
+  return typeof data?.error_class === "string" ? data.error_class : undefined;
+}
+
 export function classifyError(message: string, ctx?: ErrorContext): ErrorClass {
+  // page_crashed: renderer gone ("Target crashed"/"Page crashed" from Playwright, or
+  // the structured class of getPage's fail-fast and of a failed recovery)
+  if (ctx?.errorClass === "page_crashed" || /\b(?:Target|Page) crashed\b/.test(message)) {
+    return "page_crashed";
+  }
+
+  // A ref from an older snapshot generation is stale whatever the URL did
+  if (message.includes("is from snapshot generation")) {
+    return "stale_ref";
+  }
+
   // Stale ref: element is gone or ref cache is outdated
   if (
     message.includes("Unknown ref") ||
@@ -120,6 +143,8 @@ function buildSuggestion(errorClass: ErrorClass, attempts: number): string {
       return `Element blocked by an overlay (modal, cookie banner, or dialog) after ${attempts} attempt(s). An auto-dismiss was attempted. Run snapshot to verify overlay is gone.`;
     case "captcha_detected":
       return "Manual intervention required — solve the CAPTCHA in the browser and retry.";
+    case "page_crashed":
+      return `Tab crashed and could not be recovered after ${attempts} attempt(s). Close it and open its URL in a new tab; if tabs keep crashing, check Chrome memory in "daemon health" and relaunch Chrome.`;
     default:
       return `Action failed after ${attempts} attempt(s).`;
   }
@@ -141,13 +166,25 @@ export async function attemptRecovery(
   targetId: string | undefined,
   errorClass: ErrorClass,
   recoveries: string[],
+  ref?: string,
 ): Promise<void> {
   switch (errorClass) {
-    case "stale_ref":
+    case "stale_ref": {
+      // A generation-qualified ref is remapped onto the latest snapshot, resnapping if that has no match
+      const stale = ref !== undefined && parseRef(ref).generation !== undefined;
+      if (stale && (await remapStaleRef(targetId, ref))) {
+        recoveries.push("remap");
+        break;
+      }
       // Resnap to refresh the ref cache
       await takeSnapshot({ targetId, mode: "role", options: { compact: true }, maxChars: 50000 });
+      if (stale && (await remapStaleRef(targetId, ref))) {
+        recoveries.push("resnap-remap");
+        break;
+      }
       recoveries.push("resnap");
       break;
+    }
 
     case "strict_mode":
       // Resnap without compact to get nth-disambiguated refs
@@ -227,6 +264,14 @@ export async function attemptRecovery(
       break;
     }
 
+    case "page_crashed": {
+      // Reload in place, or reopen at the same URL (the old targetId resolves to the new tab)
+      const { recoverCrashedTab } = await import("./browser.js");
+      const tab = await recoverCrashedTab(targetId);
+      recoveries.push(tab && tab.to === tab.from ? "tab-reloaded" : "tab-reopened");
+      break;
+    }
+
     default:
       // No recovery strategy for unknown errors
       break;
@@ -235,6 +280,28 @@ export async function attemptRecovery(
 
 // --- Ref re-matching after resnap ---
 
+/**
+ * Point a ref from an earlier snapshot generation ("e5@g3") at the element with the
+ * same role, name and nth in the tab's latest snapshot. Only an exact match counts:
+ * guessing would act on the wrong node. Returns the current ref, or null.
+ */
+export async function remapStaleRef(targetId: string | undefined, ref: string): Promise<string | null> {
+  const { getStoredRefs, remapRef } = await import("./browser.js");
+  const key = targetId ?? "default";
+  const parsed = parseRef(ref);
+  const state = getStoredRefs(key);
+  if (parsed.generation === undefined || !state || state.generation === parsed.generation) return null;
+  const old = state.history?.find((h) => h.generation === parsed.generation)?.refs[parsed.ref];
+  if (!old) return null;
+  const matches = Object.entries(state.refs).filter(
+    ([, rr]) => rr.role === old.role && rr.name === old.name && rr.nth === old.nth,
+  );
+  if (matches.length !== 1) return null;
+  const current = matches[0]![0];
+  remapRef(key, `${parsed.ref}@g${parsed.generation}`, current);
+  return current;
+}
+
 export function findMatchingRef(
   refs: RoleRefMap,
   oldRole: string,
@@ -317,6 +384,7 @@ export async function withRetry<T>(
       // Build context for error classification
       const { getPendingDialogs } = await import("./browser.js").catch(() => ({ getPendingDialogs: () => [] as unknown[] }));
       const ctx: ErrorContext = {
+        errorClass: errorClassOf(lastError),
         hasUnhandledDialog: getPendingDialogs().length > 0,
         preActionUrl,
         currentUrl: opts.page ? opts.page.url() : undefined,
@@ -351,8 +419,14 @@ export async function withRetry<T>(
       recordRetryAttempt(errorClass);
       retryAttempted = true;
 
-      // Attempt recovery before next retry
-      await attemptRecovery(opts.page, opts.targetId, errorClass, recoveries);
+      // Attempt recovery before next retry; a tab that can't be reopened ends the chain
+      try {
+        await attemptRecovery(opts.page, opts.targetId, errorClass, recoveries, opts.ref);
+      } catch (err) {
+        if (errorClass !== "page_crashed") throw err;
+        lastError = err instanceof Error ? err : new Error(String(err));
+        break;
+      }
 
       // Delay before retrying
       if (opts.delayMs > 0) {
@@ -365,6 +439,7 @@ export async function withRetry<T>(
   if (retryAttempted) recordRetryOutcome(false);
   const { getPendingDialogs } = await import("./browser.js").catch(() => ({ getPendingDialogs: () => [] as unknown[] }));
   const finalCtx: ErrorContext = {
+    errorClass: errorClassOf(lastError),
     hasUnhandledDialog: getPendingDialogs().length > 0,
     preActionUrl,
     currentUrl: opts.page ? opts.page.url() : undefined,
@@ -373,11 +448,16 @@ export async function withRetry<T>(
   const consoleErrors = globalObserver
     .getConsole(opts.targetId ?? "", { level: "error" })
     .messages.map((e) => e.text);
-  throw makeRichError(lastError.message, {
+  const richError = makeRichError(lastError.message, {
     ref: opts.ref,
     attempts: maxAttempts,
     retry_log: recoveries,
     console_errors: consoleErrors,
     suggestion: buildSuggestion(finalClass, maxAttempts),
   });
+  // Crashes and stale generations can't be diagnosed from the message alone
+  if (finalClass === "page_crashed" || (finalClass === "stale_ref" && parseRef(opts.ref ?? "").generation !== undefined)) {
+    Object.assign(richError, { rpcData: { error_class: finalClass, suggestion: richError.context.suggestion } });
+  }
+  throw richError;
 }
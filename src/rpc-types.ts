@@ -0,0 +1,407 @@
+// rpc-types.ts — Params and result types for every daemon RPC method
+// Type-only module: JarvisClient (sdk.ts) is typed from RpcMethods, and
+// test/unit/sdk.test.ts checks that it lists exactly the methods the registry serves.
+
+import type { ActionResult, SnapshotResult, RoleSnapshotStats, TabInfo } from "./types.js";
+import type { DaemonHello } from "./protocol.js";
+import type { EventChannel, DaemonEvent } from "./events.js";
+import type { ConsoleEntry, ErrorEntry, NetworkEntry } from "./observer.js";
+import type { CapturedEntry, RuleSummary } from "./network.js";
+import type { SessionInfo } from "./session.js";
+import type { RuntimeConfig, ConfigValue } from "./config.js";
+import type { MetricsSnapshot, Gauges } from "./metrics.js";
+import type { DaemonState } from "./state-journal.js";
+import type { RestoreSummary } from "./server.js";
+import type { FindAction } from "./commands/find-cmd.js";
+import type { BatchEntry, BatchResult } from "./commands/batch.js";
+import type { StorageType } from "./storage.js";
+import type { EffectivePolicy, PolicyFile } from "./policy.js";
+import type { ContextInfo } from "./contexts.js";
+import type { ProfileInfo } from "./profiles.js";
+
+// --- Shared params ---
+
+export interface TabParams {
+  /** Tab targetId (default: active tab) */
+  targetId?: string;
+}
+
+export interface TimeoutParams {
+  timeoutMs?: number;
+}
+
+export interface RetryParams {
+  /** Retry on recoverable errors (stale ref, overlay, ...) */
+  autoRetry?: boolean;
+  maxRetries?: number;
+}
+
+export interface RefParams extends TabParams, TimeoutParams {
+  /** Element ref from the last snapshot (e.g. e5; e5@g3 fails with stale_ref unless generation 3 is the latest) */
+  ref: string;
+}
+
+export interface FindMethodParams extends TabParams, TimeoutParams {
+  value: string;
+  action?: FindAction;
+  actionArg?: string;
+  exact?: boolean;
+}
+
+export interface StorageParams extends TabParams {
+  type?: StorageType;
+}
+
+export interface LaunchParams {
+  port?: number;
+  headless?: boolean;
+  noSandbox?: boolean;
+  /** Extra Chrome switches (added to chrome-args) */
+  args?: string[];
+  /** Unpacked extension dirs (added to chrome-extensions) */
+  extensions?: string[];
+  /** WIDTHxHEIGHT */
+  windowSize?: string;
+  /** X,Y */
+  windowPosition?: string;
+  lang?: string;
+  /** IANA time zone, e.g. Europe/Berlin */
+  timezone?: string;
+  ignoreCertErrors?: boolean;
+  downloadDir?: string;
+}
+
+type NoParams = Record<string, never>;
+
+// --- Results ---
+
+/** A tab as listed by `tabs`, with its context and lease (null when unowned) */
+export interface TabView extends TabInfo {
+  contextId: string;
+  owner: string | null;
+  lease_remaining_s: number | null;
+}
+
+export interface LaunchResult {
+  cdpUrl: string;
+  pid: number;
+  /** Set when launched with a named profile */
+  profile?: string;
+  /** Result of applying the profile's device to the first tab */
+  device?: Record<string, unknown>;
+}
+
+export interface LeaseResult {
+  ok: true;
+  targetId: string;
+  owner: string | null;
+  lease_remaining_s: number | null;
+}
+
+export interface RouteRuleResult {
+  ok: true;
+  rule_id: string;
+  pattern: string;
+}
+
+export interface FrameInfo {
+  name: string;
+  url: string;
+  current: boolean;
+}
+
+export interface ConfigEntryResult {
+  ok: true;
+  key: string;
+  value: ConfigValue;
+  /** config.set only: the key takes effect after `daemon restart` */
+  restart_required?: boolean;
+}
+
+export interface SubscribeResult {
+  ok: true;
+  subscription: string;
+  channels: EventChannel[];
+  targetId?: string;
+}
+
+export interface DaemonStatus {
+  ok: true;
+  pid: number;
+  version: string;
+  protocol: number;
+  uptime_s: number;
+  socket: string;
+  tcp?: string;
+  ws?: string;
+  metrics?: string;
+  state_journal?: string;
+  restored?: RestoreSummary;
+}
+
+export type MetricsResult =
+  | { ok: true; format: "prometheus"; text: string }
+  | (MetricsSnapshot & { ok: true; gauges: Gauges });
+
+/** Server-push event as delivered to a subscribed connection */
+export interface JarvisEvent extends DaemonEvent {
+  subscription: string;
+}
+
+// --- Method map ---
+
+/** method name → { params, result } for every RPC the daemon serves */
+export interface RpcMethods {
+  // Connection
+  "status": { params: { port?: number }; result: Record<string, unknown> };
+  "launch": { params: LaunchParams & { profile?: string }; result: LaunchResult };
+  "connect": { params: { cdpUrl?: string; port?: number }; result: { ok: true; contexts: number } };
+  "stop": { params: NoParams; result: ActionResult };
+
+  // Tabs
+  "tabs": { params: NoParams; result: TabView[] };
+  "open": { params: { url?: string; contextId?: string }; result: TabInfo & { contextId: string } };
+  "close": { params: { targetId: string }; result: ActionResult };
+  "focus": { params: { targetId: string }; result: ActionResult };
+  "cleanup": { params: { keepUrls?: string[] }; result: ActionResult };
+
+  // Browser contexts
+  "context.new": { params: NoParams; result: { ok: true; contextId: string; owner: string | null } };
+  "context.list": { params: NoParams; result: ContextInfo[] };
+  "context.close": { params: { contextId: string }; result: { ok: true; contextId: string; closed_tabs: string[] } };
+
+  // Tab leases
+  "tab.claim": { params: { targetId: string; ttlMs?: number }; result: LeaseResult };
+  "tab.release": { params: { targetId: string }; result: { ok: true; targetId: string; released: boolean } };
+  "tab.renew": { params: { targetId: string; ttlMs?: number }; result: LeaseResult };
+  "tab.transfer": { params: { targetId: string; to: string; ttlMs?: number }; result: LeaseResult };
+
+  // Navigation
+  "navigate": { params: TabParams & TimeoutParams & { url: string }; result: ActionResult };
+  "reload": { params: TabParams; result: ActionResult };
+  "back": { params: TabParams; result: ActionResult };
+  "forward": { params: TabParams; result: ActionResult };
+
+  // Snapshot (outputFile: the snapshot goes to the file and only its stats come back)
+  "snapshot": {
+    params: TabParams & {
+      mode?: "role" | "aria" | "ai";
+      interactive?: boolean;
+      compact?: boolean;
+      maxDepth?: number;
+      maxChars?: number;
+      outputFile?: string;
+    };
+    result: SnapshotResult | (RoleSnapshotStats & { generation?: number });
+  };
+
+  // Interaction
+  "click": { params: RefParams & RetryParams & { button?: "left" | "right" | "middle"; doubleClick?: boolean }; result: ActionResult };
+  "type": { params: RefParams & RetryParams & { text: string; clearFirst?: boolean; pressEnter?: boolean }; result: ActionResult };
+  "fill": { params: RefParams & RetryParams & { value?: string }; result: ActionResult };
+  "select": { params: RefParams & RetryParams & { values: string[] }; result: ActionResult };
+  "check": { params: RefParams & RetryParams & { checked?: boolean }; result: ActionResult };
+  "hover": { params: RefParams & RetryParams; result: ActionResult };
+  "drag": { params: TabParams & TimeoutParams & RetryParams & { sourceRef: string; targetRef: string }; result: ActionResult };
+  "scroll": {
+    params: TabParams & RetryParams & { direction?: "up" | "down" | "left" | "right"; ref?: string; amount?: number };
+    result: ActionResult;
+  };
+  "press": { params: TabParams & TimeoutParams & RetryParams & { key: string; ref?: string }; result: ActionResult };
+  "wait": {
+    params: TabParams & TimeoutParams & {
+      ref?: string;
+      state?: "visible" | "hidden" | "attached" | "detached";
+      text?: string;
+      url?: string;
+      js?: string;
+      networkIdle?: boolean;
+      navigation?: boolean;
+      visible?: boolean;
+      hidden?: boolean;
+      enabled?: boolean;
+      checked?: boolean;
+      download?: boolean;
+      saveTo?: string;
+    };
+    result: ActionResult;
+  };
+  "upload": { params: TabParams & TimeoutParams & { files: string[]; ref?: string; selector?: string }; result: ActionResult };
+
+  // Get / Is
+  "get.text": { params: RefParams; result: ActionResult };
+  "get.html": { params: RefParams; result: ActionResult };
+  "get.value": { params: RefParams; result: ActionResult };
+  "get.attr": { params: RefParams & { attrName: string }; result: ActionResult };
+  "get.title": { params: TabParams; result: ActionResult };
+  "get.url": { params: TabParams; result: ActionResult };
+  "get.count": { params: TabParams & { selector: string }; result: ActionResult };
+  "get.box": { params: RefParams; result: ActionResult };
+  "is.visible": { params: TabParams & { ref: string }; result: ActionResult };
+  "is.hidden": { params: TabParams & { ref: string }; result: ActionResult };
+  "is.enabled": { params: TabParams & { ref: string }; result: ActionResult };
+  "is.checked": { params: TabParams & { ref: string }; result: ActionResult };
+  "is.editable": { params: TabParams & { ref: string }; result: ActionResult };
+
+  // Dialog
+  "dialog.list": { params: NoParams; result: ActionResult };
+  "dialog.last": { params: NoParams; result: ActionResult };
+  "dialog.accept": { params: { text?: string }; result: ActionResult };
+  "dialog.dismiss": { params: NoParams; result: ActionResult };
+  "dialog.mode": { params: { mode: "accept" | "dismiss" | "queue" }; result: ActionResult };
+
+  // Data
+  "screenshot": { params: TabParams & { ref?: string; path?: string; fullPage?: boolean }; result: ActionResult };
+  "evaluate": { params: TabParams & { expression: string; outputFile?: string }; result: ActionResult };
+  "text": { params: TabParams & TimeoutParams & { ref?: string }; result: ActionResult };
+  "attribute": { params: RefParams & { name: string }; result: ActionResult };
+  "cookies": { params: TabParams & { url?: string; domain?: string; name?: string }; result: Array<Record<string, unknown>> };
+  "set-cookie": { params: TabParams & { cookieJson: string }; result: ActionResult };
+  "clear-cookies": { params: TabParams; result: ActionResult };
+
+  // Batch (outputFile: per-step results go to the file and only the totals come back)
+  "batch": {
+    params: { commands: BatchEntry[]; outputFile?: string };
+    result: BatchResult[] | { ok: true; total: number; passed: number; failed: number };
+  };
+
+  // Observer
+  "console": {
+    params: TabParams & { level?: string; last?: number; clear?: boolean };
+    result: { ok: true; messages: ConsoleEntry[]; total: number; filtered: number };
+  };
+  "errors": { params: TabParams & { last?: number }; result: { ok: true; errors: ErrorEntry[]; count: number } };
+  "requests": {
+    params: TabParams & {
+      filter?: string;
+      urlPattern?: string;
+      last?: number;
+      method?: string;
+      statusFilter?: string;
+      withBody?: boolean;
+    };
+    result: { ok: true; requests: NetworkEntry[]; summary: { total: number; failed: number; pending: number } };
+  };
+  "observe": {
+    params: TabParams & { include?: string | string[]; export?: string; format?: "json" | "har" };
+    result: Record<string, unknown>;
+  };
+  "page-info": { params: TabParams; result: { ok: true; data: Record<string, unknown> } };
+
+  // Storage
+  "storage.get": { params: StorageParams & { key: string }; result: { ok: true; key: string; value: string | null; found: boolean } };
+  "storage.set": { params: StorageParams & { key: string; value?: string }; result: { ok: true; key: string } };
+  "storage.remove": { params: StorageParams & { key: string }; result: { ok: true; key: string } };
+  "storage.clear": { params: StorageParams; result: { ok: true; cleared: StorageType } };
+  "storage.keys": { params: StorageParams; result: { ok: true; keys: string[]; count: number } };
+  "storage.dump": { params: StorageParams; result: { ok: true; data: Record<string, string>; count: number } };
+
+  // Session
+  "session.save": {
+    params: TabParams & { name: string };
+    result: {
+      ok: true;
+      name: string;
+      origin: string;
+      saved_at: string;
+      cookies: number;
+      localStorage_keys: number;
+      sessionStorage_keys: number;
+    };
+  };
+  "session.load": { params: TabParams & { name: string }; result: { ok: true; cookies_restored: number; storage_restored: number } };
+  "session.list": { params: NoParams; result: { ok: true; sessions: SessionInfo[]; count: number } };
+  "session.delete": { params: { name: string }; result: { ok: true; deleted: string } };
+  "session.export": { params: { name: string; outputFile?: string; includeSecrets?: boolean }; result: { ok: true; path: string } };
+  "session.import": { params: { path: string; name?: string }; result: { ok: true; imported: string } };
+
+  // Profiles
+  "profile.create": { params: { name: string; proxy?: string; device?: string }; result: { ok: true; profile: ProfileInfo } };
+  "profile.list": { params: NoParams; result: { ok: true; root: string; profiles: ProfileInfo[]; count: number } };
+  "profile.clone": { params: { name: string; to: string }; result: { ok: true; cloned: string; profile: ProfileInfo } };
+  "profile.delete": { params: { name: string }; result: { ok: true; deleted: string } };
+  "profile.launch": { params: LaunchParams & { name: string }; result: LaunchResult };
+
+  // Route
+  "route.block": { params: TabParams & { pattern: string }; result: RouteRuleResult };
+  "route.mock": {
+    params: TabParams & { pattern: string; body?: string; status?: number; contentType?: string };
+    result: RouteRuleResult;
+  };
+  "route.capture": { params: TabParams & { pattern: string }; result: RouteRuleResult };
+  "route.list": { params: TabParams; result: { ok: true; rules: RuleSummary[]; count: number } };
+  "route.remove": { params: TabParams & { ruleId: string }; result: { ok: true; removed: string } };
+  "route.clear": { params: TabParams; result: { ok: true; cleared: number } };
+  "route.captured": { params: TabParams & { pattern?: string }; result: { ok: true; captured: CapturedEntry[]; count: number } };
+
+  // Frame
+  "frame.list": { params: TabParams; result: { ok: true; frames: FrameInfo[] } };
+  "frame.switch": { params: TabParams & { name: string }; result: { ok: true; switched_to: string; selector: string } };
+  "frame.main": { params: TabParams; result: { ok: true; switched_to: "main" } };
+
+  // Config
+  "config.get": { params: { key: string }; result: ConfigEntryResult };
+  "config.set": { params: { key: string; value?: string | number | boolean }; result: ConfigEntryResult };
+  "config.list": {
+    params: NoParams;
+    result: {
+      ok: true;
+      config: Record<string, ConfigValue>;
+      defaults: RuntimeConfig;
+      entries: Array<{ key: string; value: ConfigValue; default: ConfigValue; modified: boolean }>;
+    };
+  };
+  "config.reset": { params: NoParams; result: { ok: true; message: string; config: RuntimeConfig } };
+
+  // Find
+  "find.role": { params: FindMethodParams & { name?: string }; result: ActionResult };
+  "find.text": { params: FindMethodParams; result: ActionResult };
+  "find.label": { params: FindMethodParams; result: ActionResult };
+  "find.placeholder": { params: FindMethodParams; result: ActionResult };
+  "find.testid": { params: Omit<FindMethodParams, "exact">; result: ActionResult };
+
+  // Highlight / emulation / PDF / recording
+  "highlight": {
+    params: TabParams & { ref: string; color?: string; duration?: number };
+    result: { ok: true; ref: string; color: string; duration_ms: number };
+  };
+  "set.device": { params: TabParams & { device: string }; result: ActionResult };
+  "set.viewport": { params: TabParams & { width?: number; height?: number; reset?: boolean }; result: ActionResult };
+  "set.geo": {
+    params: TabParams & { latitude?: number; longitude?: number; accuracy?: number; reset?: boolean };
+    result: ActionResult;
+  };
+  "set.headers": { params: TabParams & { headersJson?: string; reset?: boolean }; result: ActionResult };
+  "pdf": { params: TabParams & { path?: string; fullPage?: boolean; landscape?: boolean }; result: { ok: true; path: string } };
+  "record.start": {
+    params: TabParams & { path?: string; fps?: number; quality?: number; maxFrames?: number };
+    result: ActionResult;
+  };
+  "record.stop": { params: NoParams; result: ActionResult };
+  "record.status": { params: NoParams; result: Record<string, unknown> & { recording: boolean } };
+
+  // Server-push events
+  "subscribe": { params: TabParams & { include?: EventChannel | EventChannel[] | string }; result: SubscribeResult };
+  "unsubscribe": { params: { subscription?: string }; result: { ok: true; removed: string[] } };
+
+  // Daemon management
+  "daemon.hello": { params: { clientVersion?: string; clientProtocol?: number }; result: DaemonHello & { ok: true } };
+  "daemon.status": { params: NoParams; result: DaemonStatus };
+  "daemon.health": { params: NoParams; result: Record<string, unknown> };
+  "daemon.metrics": { params: { format?: "json" | "prometheus" }; result: MetricsResult };
+  "daemon.state": {
+    params: { save?: boolean };
+    result: { ok: true; path: string; enabled: boolean; saved: boolean; state: DaemonState; restored?: RestoreSummary };
+  };
+  "daemon.stop": { params: NoParams; result: ActionResult };
+  "policy.show": {
+    params: { worker?: string };
+    result: { ok: true; path: string | null; error?: string; effective: EffectivePolicy; url_rules?: string; policy: PolicyFile | null };
+  };
+  "auth": { params: { token: string }; result: { ok: true; authenticated: true } };
+  "rpc.discover": { params: NoParams; result: Record<string, unknown> };
+}
+
+export type RpcMethod = keyof RpcMethods;
+export type RpcParams<M extends RpcMethod> = RpcMethods[M]["params"];
+export type RpcResult<M extends RpcMethod> = RpcMethods[M]["result"];
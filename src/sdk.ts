@@ -0,0 +1,445 @@
+// sdk.ts — JarvisClient: typed daemon client over one long-lived connection
+// Requests are multiplexed by JSON-RPC id, so concurrent calls share the socket and
+// each resolves with its own reply. After the daemon goes away the client reconnects
+// on its own and re-creates its event subscriptions on the new connection.
+
+import { EventEmitter } from "node:events";
+import type net from "node:net";
+import { connectToSocket } from "./client.js";
+import { makeRequest, makeNotification, isRpcError, ERROR_CODES, type RpcResponse } from "./protocol.js";
+import type { EventChannel } from "./events.js";
+import type {
+  RpcMethod,
+  RpcParams,
+  RpcResult,
+  JarvisEvent,
+  SubscribeResult,
+} from "./rpc-types.js";
+
+// --- Types ---
+
+export interface JarvisClientOptions {
+  /** Unix socket path (default: JARVIS_DAEMON_URL, then the JARVIS_WORKER_ID socket) */
+  socketPath?: string;
+  /** Sent as workerId with every call (default: JARVIS_WORKER_ID) */
+  workerId?: string;
+  /** Re-open the connection after it drops (default: true) */
+  reconnect?: boolean;
+  /** First reconnect delay; doubles per failed attempt up to reconnectMaxDelayMs */
+  reconnectDelayMs?: number;
+  reconnectMaxDelayMs?: number;
+  /** How long a call waits for a connection before it fails */
+  connectTimeoutMs?: number;
+}
+
+export interface CallOptions {
+  /** Aborting rejects the call and sends $/cancel so the daemon stops work on it */
+  signal?: AbortSignal;
+  /** Daemon-side deadline; the call fails with TIMEOUT when it is exceeded */
+  deadlineMs?: number;
+}
+
+/** Error for a failed call: code mirrors client.ts (string), rpcCode is the numeric ERROR_CODES value */
+export interface JarvisRpcError extends Error {
+  code: string;
+  rpcCode?: number;
+  data?: unknown;
+}
+
+export type JarvisClientEvents = {
+  /** Every server-push event, from any subscription */
+  event: [JarvisEvent];
+  /** A connection was opened (reconnected: not the first one) */
+  connect: [{ reconnected: boolean }];
+  /** The connection dropped; in-flight calls were rejected */
+  disconnect: [Error];
+} & {
+  /** Events of one channel, e.g. client.on("console", ...) */
+  [C in EventChannel]: [JarvisEvent];
+};
+
+type CallArgs<M extends RpcMethod> = Record<string, never> extends RpcParams<M>
+  ? [params?: RpcParams<M>, opts?: CallOptions]
+  : [params: RpcParams<M>, opts?: CallOptions];
+
+type MethodFn<M extends RpcMethod> = (...args: CallArgs<M>) => Promise<RpcResult<M>>;
+
+type CamelCase<S extends string> = S extends `${infer Head}-${infer Tail}`
+  ? `${Head}${Capitalize<CamelCase<Tail>>}`
+  : S;
+
+type Namespace<M = RpcMethod> = M extends `${infer N}.${string}` ? N : never;
+
+/** One function per RPC: "snapshot" → client.snapshot(), "find.role" → client.find.role(), "page-info" → client.pageInfo() */
+export type JarvisApi = {
+  [M in Exclude<RpcMethod, `${string}.${string}`> as CamelCase<M>]: MethodFn<M>;
+} & {
+  [N in Namespace]: {
+    [M in RpcMethod as M extends `${N}.${infer F}` ? CamelCase<F> : never]: MethodFn<M>;
+  };
+};
+
+// Listing every method as a Record key makes tsc reject a missing or unknown name
+const RPC_METHOD_SET: Record<RpcMethod, true> = {
+  "status": true, "launch": true, "connect": true, "stop": true,
+  "tabs": true, "open": true, "close": true, "focus": true, "cleanup": true,
+  "context.new": true, "context.list": true, "context.close": true,
+  "tab.claim": true, "tab.release": true, "tab.renew": true, "tab.transfer": true,
+  "navigate": true, "reload": true, "back": true, "forward": true,
+  "snapshot": true,
+  "click": true, "type": true, "fill": true, "select": true, "check": true, "hover": true,
+  "drag": true, "scroll": true, "press": true, "wait": true, "upload": true,
+  "get.text": true, "get.html": true, "get.value": true, "get.attr": true,
+  "get.title": true, "get.url": true, "get.count": true, "get.box": true,
+  "is.visible": true, "is.hidden": true, "is.enabled": true, "is.checked": true, "is.editable": true,
+  "dialog.list": true, "dialog.last": true, "dialog.accept": true, "dialog.dismiss": true, "dialog.mode": true,
+  "screenshot": true, "evaluate": true, "text": true, "attribute": true,
+  "cookies": true, "set-cookie": true, "clear-cookies": true,
+  "batch": true,
+  "console": true, "errors": true, "requests": true, "observe": true, "page-info": true,
+  "storage.get": true, "storage.set": true, "storage.remove": true,
+  "storage.clear": true, "storage.keys": true, "storage.dump": true,
+  "session.save": true, "session.load": true, "session.list": true,
+  "session.delete": true, "session.export": true, "session.import": true,
+  "profile.create": true, "profile.list": true, "profile.clone": true, "profile.delete": true, "profile.launch": true,
+  "route.block": true, "route.mock": true, "route.capture": true, "route.list": true,
+  "route.remove": true, "route.clear": true, "route.captured": true,
+  "frame.list": true, "frame.switch": true, "frame.main": true,
+  "config.get": true, "config.set": true, "config.list": true, "config.reset": true,
+  "find.role": true, "find.text": true, "find.label": true, "find.placeholder": true, "find.testid": true,
+  "highlight": true,
+  "set.device": true, "set.viewport": true, "set.geo": true, "set.headers": true,
+  "pdf": true,
+  "record.start": true, "record.stop": true, "record.status": true,
+  "subscribe": true, "unsubscribe": true,
+  "daemon.hello": true, "daemon.status": true, "daemon.health": true,
+  "daemon.metrics": true, "daemon.state": true, "daemon.stop": true,
+  "policy.show": true,
+  "auth": true,
+  "rpc.discover": true,
+};
+
+/** Every method JarvisClient exposes (kept equal to the daemon registry by test/unit/sdk.test.ts) */
+export const RPC_METHOD_NAMES = Object.keys(RPC_METHOD_SET) as RpcMethod[];
+
+const DEFAULTS = {
+  reconnect: true,
+  reconnectDelayMs: 100,
+  reconnectMaxDelayMs: 5_000,
+  connectTimeoutMs: 10_000,
+};
+
+interface PendingCall {
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+}
+
+/** A subscription as the caller knows it; serverId changes with every reconnect */
+interface ClientSubscription {
+  params: RpcParams<"subscribe">;
+  serverId: string | null;
+}
+
+function toCamelCase(name: string): string {
+  return name.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+}
+
+function rpcError(message: string, rpcCode: number, data?: unknown): JarvisRpcError {
+  return Object.assign(new Error(message), {
+    code: String(rpcCode),
+    rpcCode,
+    ...(data !== undefined ? { data } : {}),
+  });
+}
+
+function connectionError(message: string): JarvisRpcError {
+  return Object.assign(new Error(message), { code: "ECONNRESET" });
+}
+
+// --- Client ---
+
+export interface JarvisClient extends JarvisApi {}
+
+export class JarvisClient extends EventEmitter<JarvisClientEvents> {
+  private readonly options: Required<Omit<JarvisClientOptions, "socketPath" | "workerId">>;
+  private readonly socketPath: string | undefined;
+  private readonly workerId: string | undefined;
+  private socket: net.Socket | null = null;
+  private connecting: Promise<net.Socket> | null = null;
+  private everConnected = false;
+  private closed = false;
+  private nextId = 0;
+  private readonly pending = new Map<number, PendingCall>();
+  private readonly subscriptions = new Map<string, ClientSubscription>();
+  /** Wakes a reconnect loop that is sleeping between attempts (disconnect()) */
+  private wakeRetry: (() => void) | null = null;
+
+  constructor(opts: JarvisClientOptions = {}) {
+    super();
+    this.options = {
+      reconnect: opts.reconnect ?? DEFAULTS.reconnect,
+      reconnectDelayMs: opts.reconnectDelayMs ?? DEFAULTS.reconnectDelayMs,
+      reconnectMaxDelayMs: opts.reconnectMaxDelayMs ?? DEFAULTS.reconnectMaxDelayMs,
+      connectTimeoutMs: opts.connectTimeoutMs ?? DEFAULTS.connectTimeoutMs,
+    };
+    this.socketPath = opts.socketPath;
+    this.workerId = opts.workerId ?? process.env.JARVIS_WORKER_ID;
+
+    const self = this as unknown as Record<string, unknown>;
+    for (const method of RPC_METHOD_NAMES) {
+      const call = (params?: Record<string, unknown>, callOpts?: CallOptions) => this.dispatch(method, params, callOpts);
+      const dot = method.indexOf(".");
+      if (dot === -1) {
+        self[toCamelCase(method)] = call;
+      } else {
+        const ns = (self[method.slice(0, dot)] ??= {}) as Record<string, unknown>;
+        ns[toCamelCase(method.slice(dot + 1))] = call;
+      }
+    }
+  }
+
+  get connected(): boolean {
+    return this.socket !== null;
+  }
+
+  /** Open the connection now instead of on the first call. */
+  async ready(): Promise<void> {
+    await this.ensureConnected();
+  }
+
+  /** Call any method by name; the typed helpers (client.click(), client.find.role()) all land here. */
+  request<M extends RpcMethod>(method: M, ...[params, opts]: CallArgs<M>): Promise<RpcResult<M>> {
+    return this.dispatch(method, params, opts) as Promise<RpcResult<M>>;
+  }
+
+  /** Close the connection, reject in-flight calls and stop reconnecting. */
+  async disconnect(): Promise<void> {
+    this.closed = true;
+    this.wakeRetry?.();
+    const socket = this.socket;
+    this.detach(connectionError("Client disconnected"));
+    if (socket) {
+      await new Promise<void>((resolve) => {
+        socket.once("close", () => resolve());
+        socket.end();
+      });
+    }
+  }
+
+  private dispatch(method: RpcMethod, params: object = {}, opts?: CallOptions): Promise<unknown> {
+    // Subscriptions are tracked client-side so they can be re-created after a reconnect
+    if (method === "subscribe") return this.addSubscription(params as RpcParams<"subscribe">, opts);
+    if (method === "unsubscribe") return this.removeSubscription(params as RpcParams<"unsubscribe">, opts);
+    return this.send(method, params as Record<string, unknown>, opts);
+  }
+
+  // --- Subscriptions ---
+
+  private async addSubscription(params: RpcParams<"subscribe">, opts?: CallOptions): Promise<SubscribeResult> {
+    const result = await this.send("subscribe", { ...params }, opts) as SubscribeResult;
+    // The first server id doubles as the caller's id for the subscription's lifetime
+    this.subscriptions.set(result.subscription, { params, serverId: result.subscription });
+    return result;
+  }
+
+  private async removeSubscription(params: RpcParams<"unsubscribe">, opts?: CallOptions): Promise<RpcResult<"unsubscribe">> {
+    if (params.subscription === undefined) {
+      const removed = Array.from(this.subscriptions.keys());
+      this.subscriptions.clear();
+      await this.send("unsubscribe", {}, opts);
+      return { ok: true, removed };
+    }
+    const sub = this.subscriptions.get(params.subscription);
+    if (!sub) throw new Error(`Subscription "${params.subscription}" not found`);
+    this.subscriptions.delete(params.subscription);
+    if (sub.serverId) await this.send("unsubscribe", { subscription: sub.serverId }, opts);
+    return { ok: true, removed: [params.subscription] };
+  }
+
+  private async resubscribe(): Promise<void> {
+    for (const sub of this.subscriptions.values()) {
+      sub.serverId = null;
+      try {
+        const result = await this.send("subscribe", { ...sub.params }) as SubscribeResult;
+        sub.serverId = result.subscription;
+      } catch {
+        // Left without a serverId — retried on the next reconnect
+      }
+    }
+  }
+
+  private clientSubscriptionId(serverId: string): string | undefined {
+    for (const [id, sub] of this.subscriptions) {
+      if (sub.serverId === serverId) return id;
+    }
+    return undefined;
+  }
+
+  // --- Calls ---
+
+  private async send(method: string, params: Record<string, unknown>, opts: CallOptions = {}): Promise<unknown> {
+    if (opts.signal?.aborted) throw this.cancelledError(method);
+    const socket = await this.ensureConnected();
+    const id = ++this.nextId;
+    const full = {
+      ...(this.workerId && params.workerId === undefined ? { workerId: this.workerId } : {}),
+      ...params,
+      ...(opts.deadlineMs !== undefined ? { deadlineMs: opts.deadlineMs } : {}),
+    };
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        if (!this.pending.delete(id)) return;
+        if (!socket.destroyed) socket.write(JSON.stringify(makeNotification("$/cancel", { id })) + "\n");
+        reject(this.cancelledError(method));
+      };
+      opts.signal?.addEventListener("abort", onAbort, { once: true });
+      this.pending.set(id, {
+        resolve: (result) => {
+          opts.signal?.removeEventListener("abort", onAbort);
+          resolve(result);
+        },
+        reject: (err) => {
+          opts.signal?.removeEventListener("abort", onAbort);
+          reject(err);
+        },
+      });
+      socket.write(JSON.stringify(makeRequest(id, method, full)) + "\n");
+    });
+  }
+
+  private cancelledError(method: string): JarvisRpcError {
+    return rpcError(`${method} cancelled`, ERROR_CODES.REQUEST_CANCELLED);
+  }
+
+  // --- Connection ---
+
+  private ensureConnected(): Promise<net.Socket> {
+    if (this.closed) return Promise.reject(connectionError("Client disconnected"));
+    if (this.socket) return Promise.resolve(this.socket);
+    this.connecting ??= this.connectLoop().finally(() => { this.connecting = null; });
+
+    const { connectTimeoutMs } = this.options;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(connectionError(`Could not connect to the daemon within ${connectTimeoutMs}ms`)),
+        connectTimeoutMs,
+      );
+    });
+    return Promise.race([this.connecting, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  private async connectLoop(): Promise<net.Socket> {
+    let delay = this.options.reconnectDelayMs;
+    for (;;) {
+      try {
+        const socket = await connectToSocket(this.socketPath);
+        if (this.closed) {
+          socket.destroy();
+          throw connectionError("Client disconnected");
+        }
+        const reconnected = this.everConnected;
+        this.attach(socket);
+        await this.resubscribe();
+        this.emit("connect", { reconnected });
+        return socket;
+      } catch (err) {
+        if (this.closed || !this.options.reconnect) throw err;
+        await this.sleep(delay);
+        delay = Math.min(delay * 2, this.options.reconnectMaxDelayMs);
+      }
+    }
+  }
+
+  /** Backoff between attempts; unref'd so a client waiting for a daemon never holds the process open */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.wakeRetry = null;
+        resolve();
+      }, ms);
+      timer.unref();
+      this.wakeRetry = () => {
+        clearTimeout(timer);
+        this.wakeRetry = null;
+        resolve();
+      };
+    });
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    this.everConnected = true;
+    let buffer = "";
+
+    socket.on("data", (chunk: Buffer) => {
+      buffer += chunk.toString("utf-8");
+      for (;;) {
+        const newlineIdx = buffer.indexOf("\n");
+        if (newlineIdx === -1) return;
+        const line = buffer.slice(0, newlineIdx);
+        buffer = buffer.slice(newlineIdx + 1);
+        if (line.trim() === "") continue;
+
+        let msg: unknown;
+        try {
+          msg = JSON.parse(line);
+        } catch {
+          // A frame we can't read may be someone's reply — fail them all and start over
+          socket.destroy(new Error(`Daemon returned invalid JSON: ${line.slice(0, 200)}`));
+          return;
+        }
+        this.handleFrame(msg);
+      }
+    });
+    socket.on("error", () => {
+      // Reported through "close" below
+    });
+    socket.once("close", () => {
+      if (this.socket !== socket) return;
+      this.detach(connectionError("Connection to daemon lost"));
+      if (!this.closed && this.options.reconnect) {
+        // Reconnect in the background so subscriptions resume without waiting for a call
+        this.ensureConnected().catch(() => {});
+      }
+    });
+  }
+
+  private detach(reason: Error): void {
+    const hadSocket = this.socket !== null;
+    this.socket = null;
+    // Calls in flight may or may not have run — they fail rather than being replayed
+    for (const call of this.pending.values()) call.reject(reason);
+    this.pending.clear();
+    if (hadSocket) this.emit("disconnect", reason);
+  }
+
+  private handleFrame(msg: unknown): void {
+    if (!msg || typeof msg !== "object" || Array.isArray(msg)) return;
+    const frame = msg as Record<string, unknown>;
+
+    if ("id" in frame) {
+      const id = frame.id as number;
+      const call = this.pending.get(id);
+      if (!call) return; // cancelled, or a reply to a call that already failed
+      this.pending.delete(id);
+      const resp = frame as unknown as RpcResponse;
+      if (isRpcError(resp)) {
+        call.reject(rpcError(resp.error.message, resp.error.code, resp.error.data));
+      } else {
+        call.resolve(resp.result);
+      }
+      return;
+    }
+
+    if (frame.method === "event") {
+      const params = (frame.params ?? {}) as JarvisEvent;
+      const subscription = this.clientSubscriptionId(params.subscription);
+      if (subscription === undefined) return; // from a subscription this client already dropped
+      const event: JarvisEvent = { ...params, subscription };
+      this.emit("event", event);
+      this.emit(event.channel, event);
+    }
+  }
+}
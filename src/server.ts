@@ -2,14 +2,24 @@
 // The daemon runs this server to handle CLI client requests.
 
 import net from "node:net";
+import type { Duplex } from "node:stream";
 import { unlink } from "node:fs/promises";
 import { existsSync } from "node:fs";
 import {
   ERROR_CODES,
+  PACKAGE_VERSION,
+  PROTOCOL_VERSION,
+  BUILD_ID,
   makeResponse,
   makeErrorResponse,
+  makeNotification,
   validateRequest,
+  METHODS,
+  validateNotification,
   type RpcRequest,
+  type RpcResponse,
+  type RpcNotification,
+  type DaemonHello,
 } from "./protocol.js";
 import * as connCmd from "./commands/connection.js";
 import * as tabsCmd from "./commands/tabs.js";
@@ -21,6 +31,7 @@ import { getSocketPath } from "./client.js";
 import * as obsCmds from "./commands/observe.js";
 import * as storageCmd from "./commands/storage-cmd.js";
 import * as sessionCmd from "./commands/session-cmd.js";
+import * as profileCmd from "./commands/profile-cmd.js";
 import * as networkCmd from "./commands/network-cmd.js";
 import * as frameCmd from "./commands/frame-cmd.js";
 import * as configCmd from "./commands/config-cmd.js";
@@ -33,10 +44,65 @@ import * as highlightCmd from "./commands/highlight-cmd.js";
 import * as emulationCmd from "./commands/emulation.js";
 import * as pdfCmd from "./commands/pdf-cmd.js";
 import * as recordingCmd from "./commands/recording.js";
+import {
+  MethodRegistry,
+  validateParams,
+  invalidParamsError,
+  toOpenRpc,
+  type ParamSchema,
+} from "./registry.js";
 import { globalObserver, setNetworkBodyMaxKb } from "./observer.js";
 import { getRetryStats } from "./stats.js";
+import { globalTabQueue } from "./tab-queue.js";
+import { TabLeases } from "./leases.js";
+import { AuditLog, getAuditLogPath, redactParams, type AuditOptions } from "./audit.js";
+import { globalMetrics, toPrometheus, startMetricsServer, type Gauges, type MetricsServer } from "./metrics.js";
 import { globalNetwork } from "./network.js";
-import { getPage, setDialogMode } from "./browser.js";
+import { globalEvents, parseChannels } from "./events.js";
+import { PolicyStore, URL_RULES_SCOPE } from "./policy.js";
+import {
+  getPage,
+  listTabs,
+  getDialogMode,
+  setDialogMode,
+  getOpenPageCount,
+  getChromeMemory,
+  getRefCacheStats,
+  getRefTargets,
+  restoreRefs,
+  newContext,
+  ensureWorkerContext,
+  listContexts,
+  getContextOwner,
+  closeContext,
+  onNewTab,
+  getPageResolutionStats,
+  onTabReplaced,
+  resolveTargetAlias,
+  getActiveTargetId,
+  type NewTab,
+  type ReplacedTab,
+} from "./browser.js";
+import { globalOpenedTabs } from "./popups.js";
+import { globalSupervisor } from "./supervisor.js";
+import { readConfig, getDefaults, type ConfigKey } from "./config.js";
+import { ConfigApplier, RESTART_REQUIRED_KEYS } from "./config-apply.js";
+import { setScreenshotDir } from "./actions.js";
+import {
+  StateJournal,
+  STATE_JOURNAL_VERSION,
+  getStateJournalPath,
+  readStateJournal,
+  removeStateJournal,
+  type DaemonState,
+} from "./state-journal.js";
+import {
+  startRemoteListeners,
+  resolveAuthToken,
+  tokensMatch,
+  type RemoteListenerOptions,
+  type RemoteListeners,
+} from "./transport.js";
 
 // --- Chrome status (set by daemon.ts when Chrome connects/disconnects) ---
 
@@ -47,21 +113,28 @@ export function setChromeStatus(connected: boolean, cdpUrl: string): void {
   _chrome.cdpUrl = connected ? cdpUrl : "";
 }
 
-// --- Tab ownership tracking ---
+// --- Tab ownership (leases) ---
 
-// Maps targetId → workerId for ownership enforcement
-const tabOwnership = new Map<string, string>();
+// targetId → lease held by a worker; expired leases are swept periodically
+const tabLeases = new TabLeases();
+const LEASE_SWEEP_INTERVAL_MS = 5_000;
+const _leaseSweep: { timer: ReturnType<typeof setInterval> | null } = { timer: null };
 
 function getWorkerId(params?: Record<string, unknown>): string {
   return String(params?.workerId ?? "");
 }
 
-export function claimTab(targetId: string, workerId: string): void {
-  if (workerId) tabOwnership.set(targetId, workerId);
+async function defaultLeaseTtlMs(): Promise<number> {
+  const config = await readConfig();
+  return Math.max(0, config["tab-lease-ttl-s"]) * 1000;
+}
+
+export async function claimTab(targetId: string, workerId: string): Promise<void> {
+  if (workerId) tabLeases.claim(targetId, workerId, await defaultLeaseTtlMs());
 }
 
 export function releaseTab(targetId: string): void {
-  tabOwnership.delete(targetId);
+  tabLeases.drop(targetId);
 }
 
 function checkTabOwnership(
@@ -69,28 +142,180 @@ function checkTabOwnership(
   requestingWorker: string,
 ): string | null {
   if (!targetId || !requestingWorker) return null; // no ownership check needed
-  const owner = tabOwnership.get(targetId);
+  const owner = tabLeases.owner(targetId);
   if (owner && owner !== requestingWorker) {
     return `Tab "${targetId}" is owned by worker "${owner}"`;
   }
   return null; // ok
 }
 
+function requireLeaseWorker(workerId: string): string {
+  if (!workerId) {
+    throw Object.assign(new Error("workerId is required for tab leases (set JARVIS_WORKER_ID)"), {
+      rpcCode: ERROR_CODES.INVALID_PARAMS,
+    });
+  }
+  return workerId;
+}
+
+function leaseResult(targetId: string): object {
+  return { ok: true, targetId, ...(tabLeases.view(targetId) ?? { owner: null, lease_remaining_s: null }) };
+}
+
+/** Forget a closed tab everywhere the daemon tracks it. */
+function forgetTab(targetId: string): void {
+  releaseTab(targetId);
+  globalObserver.destroy(targetId);
+  globalNetwork.destroyTab(targetId);
+  emulationCmd.forgetEmulation(targetId);
+}
+
+async function sweepExpiredLeases(): Promise<void> {
+  const expired = tabLeases.sweep();
+  if (expired.length === 0) return;
+  stateJournal.markDirty();
+  const config = await readConfig();
+  if (!config["tab-lease-close-orphans"]) return;
+  // Closed in the tab's queue, so calls already queued on it finish first
+  await Promise.all(expired.map((lease) => globalTabQueue.run(lease.targetId, async () => {
+    // Another worker may have claimed it while the config was read or the close waited
+    if (tabLeases.get(lease.targetId)) return;
+    process.stderr.write(`[jarvis-daemon] Lease on ${lease.targetId} (worker "${lease.owner}") expired — closing tab\n`);
+    await tabsCmd.handleClose({ targetId: lease.targetId }).catch(() => {});
+    forgetTab(lease.targetId);
+  })));
+}
+
+// --- New tabs (popups, target=_blank) ---
+
+/** Set up a tab the daemon didn't open itself; popups also get the opener's route rules and owner. */
+async function adoptNewTab(tab: NewTab): Promise<void> {
+  globalObserver.attach(tab.page, tab.targetId);
+  if (!tab.openerId) return;
+  const owner = tabLeases.owner(tab.openerId);
+  if (owner && !tabLeases.owner(tab.targetId)) await claimTab(tab.targetId, owner);
+  // Rules set without a targetId live under "default" and apply to the active tab
+  const rules = globalNetwork.exportRules();
+  const specs = [...rules[tab.openerId] ?? []];
+  if (tab.openerId === await getActiveTargetId()) specs.push(...rules["default"] ?? []);
+  for (const spec of specs) {
+    await globalNetwork.restoreRule(spec, tab.page, tab.targetId).catch((err: unknown) => {
+      process.stderr.write(`[jarvis-daemon] Could not copy route ${spec.pattern} to ${tab.targetId}: ${err instanceof Error ? err.message : String(err)}\n`);
+    });
+  }
+  stateJournal.markDirty();
+}
+
+onNewTab((tab) => {
+  adoptNewTab(tab).catch(() => {});
+});
+
+/**
+ * Report the tab an action opened ({ opened_tab }, plus opened_tabs when there were
+ * several) and the tab that replaced targetId if it crashed and was reopened ({ recovered_tab }).
+ * Only tabs whose opener is the tab the action ran on (openerId) count.
+ */
+function withTabChanges(result: unknown, since: number, targetId: string | undefined, openerId = targetId): unknown {
+  if (!result || typeof result !== "object" || Array.isArray(result)) return result;
+  const opened = globalOpenedTabs.openedSince(since, openerId);
+  const current = targetId ? resolveTargetAlias(targetId) : targetId;
+  if (opened.length === 0 && current === targetId) return result;
+  return {
+    ...result,
+    ...(opened.length ? { opened_tab: opened[0] } : {}),
+    ...(opened.length > 1 ? { opened_tabs: opened } : {}),
+    ...(current !== targetId ? { recovered_tab: current } : {}),
+  };
+}
+
+// --- Crashed tabs ---
+
+/**
+ * Move a crashed (or relaunched) tab's lease, observer buffers, route rules and
+ * emulation onto the tab that replaced it. Refs are not moved: the page was reloaded.
+ */
+async function moveTabState({ from, to, page, activeTab, reason }: ReplacedTab): Promise<void> {
+  const lease = tabLeases.get(from);
+  if (lease) {
+    tabLeases.drop(from);
+    tabLeases.claim(to, lease.owner, lease.ttlMs);
+  }
+  globalObserver.move(from, to, page);
+
+  // State set without a targetId follows the active tab
+  const keys: Array<[string, string]> = activeTab ? [[from, to], ["default", "default"]] : [[from, to]];
+  const rules = globalNetwork.exportRules();
+  const emulation = emulationCmd.getAppliedEmulation();
+  for (const [oldKey, newKey] of keys) {
+    globalNetwork.destroyTab(oldKey);
+    for (const spec of rules[oldKey] ?? []) await globalNetwork.restoreRule(spec, page, newKey);
+    const applied = emulation[oldKey];
+    if (applied) {
+      emulationCmd.forgetEmulation(oldKey);
+      await emulationCmd.restoreEmulation(newKey, applied);
+    }
+  }
+  stateJournal.markDirty();
+  process.stderr.write(reason === "crash"
+    ? `[jarvis-daemon] Tab ${from} crashed — reopened as ${to}\n`
+    : `[jarvis-daemon] Tab ${from} reopened as ${to} after Chrome relaunch\n`);
+}
+
+onTabReplaced(moveTabState);
+
+// --- Browser contexts ---
+
+/**
+ * The context a worker's tab-less calls (open, cookies) land in: its own under
+ * worker-contexts isolated, otherwise the shared one (undefined).
+ */
+async function workerContextId(workerId: string): Promise<string | undefined> {
+  if (!workerId) return undefined;
+  const config = await readConfig();
+  return config["worker-contexts"] === "isolated" ? ensureWorkerContext(workerId) : undefined;
+}
+
+/** Fail unless the context exists and is shared or belongs to the caller. */
+function requireContextAccess(contextId: string, workerId: string): void {
+  const owner = getContextOwner(contextId);
+  if (owner === undefined) {
+    throw Object.assign(new Error(`Context "${contextId}" not found (see context list)`), {
+      rpcCode: ERROR_CODES.INVALID_PARAMS,
+    });
+  }
+  if (owner && workerId && owner !== workerId) {
+    throw Object.assign(new Error(`Context "${contextId}" belongs to worker "${owner}"`), {
+      rpcCode: ERROR_CODES.TAB_OWNED_BY_OTHER,
+    });
+  }
+}
+
+/** contextId param if given (checked), else the worker's own context. */
+async function resolveContextParam(params: Params, workerId: string): Promise<string | undefined> {
+  const contextId = params.contextId as string | undefined;
+  if (contextId === undefined) return workerContextId(workerId);
+  requireContextAccess(contextId, workerId);
+  return contextId;
+}
+
 // --- Idle timer ---
 
 const _idle: {
   timer: ReturnType<typeof setTimeout> | null;
   callback: (() => void) | null;
-} = { timer: null, callback: null };
-const IDLE_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
+  timeoutMs: number;   // daemon-idle-timeout-m; 0 = never shut down
+  subscriptions: number; // live event subscriptions across all connections
+} = { timer: null, callback: null, timeoutMs: 30 * 60 * 1000, subscriptions: 0 };
 
+/** Restart the idle countdown. It stays off while any client is subscribed to events. */
 function resetIdleTimer(): void {
   if (_idle.timer) clearTimeout(_idle.timer);
-  if (IDLE_TIMEOUT_MS <= 0 || !_idle.callback) return;
+  _idle.timer = null;
+  if (_idle.timeoutMs <= 0 || !_idle.callback || _idle.subscriptions > 0) return;
   _idle.timer = setTimeout(() => {
     process.stderr.write("[jarvis-daemon] Idle timeout reached, shutting down.\n");
     _idle.callback?.();
-  }, IDLE_TIMEOUT_MS);
+  }, _idle.timeoutMs);
   _idle.timer.unref(); // don't keep process alive for this timer alone
 }
 
@@ -99,118 +324,540 @@ export function setShutdownCallback(fn: () => void): void {
   resetIdleTimer();
 }
 
-// --- Request routing ---
+// --- State journal (state-journal config key) ---
 
-type Params = Record<string, unknown>;
+// Methods whose success changes journaled state
+const JOURNALED_METHODS = new Set([
+  "open", "close", "cleanup", "snapshot",
+  "tab.claim", "tab.release", "tab.renew", "tab.transfer",
+  "route.block", "route.mock", "route.capture", "route.remove", "route.clear",
+  "set.device", "set.viewport", "set.geo", "set.headers",
+  "dialog.mode",
+]);
 
-async function routeRequest(req: RpcRequest): Promise<unknown> {
-  const params = (req.params ?? {}) as Params;
-  const workerId = getWorkerId(params);
-  const targetId = params.targetId as string | undefined;
+function collectDaemonState(): DaemonState {
+  return {
+    version: STATE_JOURNAL_VERSION,
+    saved_at: new Date().toISOString(),
+    pid: process.pid,
+    dialog_mode: getDialogMode(),
+    observed: globalObserver.attachedTargets(),
+    leases: tabLeases.list().map(({ targetId, owner, ttlMs }) => ({ targetId, owner, ttlMs })),
+    routes: globalNetwork.exportRules(),
+    emulation: emulationCmd.getAppliedEmulation(),
+    refs: getRefTargets(),
+  };
+}
 
-  // Tab ownership check for tab-specific operations
-  const tabOps = new Set([
-    "navigate", "reload", "back", "forward", "snapshot", "click", "type",
-    "fill", "select", "check", "hover", "drag", "scroll", "press", "wait",
-    "screenshot", "evaluate", "text", "attribute", "cookies", "set-cookie",
-    "clear-cookies", "close", "focus",
-    // v0.5.0 compound methods
-    "storage.get", "storage.set", "storage.remove", "storage.clear",
-    "storage.keys", "storage.dump",
-    "session.save", "session.load",
-    "route.block", "route.mock", "route.capture", "route.remove", "route.clear",
-    "route.captured", "frame.list", "frame.switch", "frame.main",
-    // v0.7.0 new commands
-    "upload",
-    "get.text", "get.html", "get.value", "get.attr", "get.title", "get.url", "get.count", "get.box",
-    "is.visible", "is.hidden", "is.enabled", "is.checked", "is.editable",
-    // v0.8.0 find commands
-    "find.role", "find.text", "find.label", "find.placeholder", "find.testid",
-    // v0.9.0
-    "highlight",
-    // v1.0.0
-    "set.device", "set.viewport", "set.geo", "set.headers",
-    "pdf",
-    "record.start", "record.stop", "record.status",
-  ]);
+const stateJournal = new StateJournal(getStateJournalPath, collectDaemonState);
+
+export interface RestoreSummary {
+  saved_at: string;
+  observers: number;
+  leases: number;
+  routes: number;
+  emulation: number;
+  refs: number;
+  /** Journaled targetIds that no longer exist in Chrome */
+  missing_tabs: string[];
+}
 
-  if (tabOps.has(req.method) && targetId) {
-    const ownerError = checkTabOwnership(targetId, workerId);
-    if (ownerError) {
-      throw Object.assign(new Error(ownerError), { rpcCode: ERROR_CODES.TAB_OWNED_BY_OTHER });
+const _restore: { pending: DaemonState | null; last: RestoreSummary | null } = { pending: null, last: null };
+
+/**
+ * Read the journal and re-apply it to the tabs Chrome still has. Runs when
+ * state-journal is on, or with force (the one-shot handoff from `daemon restart`,
+ * whose journal is removed once read). If Chrome is not reachable yet, the state
+ * is held and journal writes pause until resumePendingRestore() applies it.
+ */
+export async function restoreDaemonState(opts: { force?: boolean } = {}): Promise<RestoreSummary | null> {
+  const config = await readConfig();
+  if (!config["state-journal"] && !opts.force) return null;
+  const state = await readStateJournal(stateJournal.path);
+  if (!state) return null;
+  if (!config["state-journal"]) await removeStateJournal(stateJournal.path);
+  _restore.pending = state;
+  return resumePendingRestore();
+}
+
+/** Apply a restore that was waiting for Chrome (called after a reconnect). */
+export async function resumePendingRestore(): Promise<RestoreSummary | null> {
+  const state = _restore.pending;
+  if (!state) return null;
+  let tabs: Array<{ targetId: string }>;
+  try {
+    tabs = await listTabs();
+  } catch {
+    stateJournal.suspend();
+    process.stderr.write("[jarvis-daemon] Chrome not connected — state restore deferred until it is\n");
+    return null;
+  }
+  _restore.pending = null;
+  const summary = await applyDaemonState(state, new Set(tabs.map((t) => t.targetId)));
+  _restore.last = summary;
+  stateJournal.resume();
+  stateJournal.markDirty();
+  process.stderr.write(
+    `[jarvis-daemon] Restored state from ${state.saved_at}: ${summary.observers} observer(s), ` +
+    `${summary.leases} lease(s), ${summary.routes} route rule(s), ${summary.emulation} emulation(s)` +
+    (summary.missing_tabs.length ? `; ${summary.missing_tabs.length} tab(s) gone` : "") + "\n",
+  );
+  return summary;
+}
+
+async function applyDaemonState(state: DaemonState, live: Set<string>): Promise<RestoreSummary> {
+  const summary: RestoreSummary = {
+    saved_at: state.saved_at, observers: 0, leases: 0, routes: 0, emulation: 0, refs: 0, missing_tabs: [],
+  };
+  const missing = new Set<string>();
+  // "default" keys (no targetId given) apply to whichever tab is active now
+  const exists = (tid: string) => (tid === "default" ? live.size > 0 : live.has(tid));
+  const pageFor = (tid: string) => getPage(tid === "default" ? undefined : tid);
+  const warn = (what: string, tid: string, err: unknown) => {
+    process.stderr.write(`[jarvis-daemon] Restoring ${what} on ${tid} failed: ${err instanceof Error ? err.message : String(err)}\n`);
+  };
+
+  for (const tid of state.observed) {
+    if (!exists(tid)) { missing.add(tid); continue; }
+    try {
+      globalObserver.attach(await pageFor(tid), tid);
+      summary.observers++;
+    } catch (err) { warn("observer", tid, err); }
+  }
+  for (const lease of state.leases) {
+    if (!exists(lease.targetId)) { missing.add(lease.targetId); continue; }
+    try {
+      tabLeases.claim(lease.targetId, lease.owner, lease.ttlMs);
+      summary.leases++;
+    } catch (err) { warn("lease", lease.targetId, err); }
+  }
+  for (const [tid, specs] of Object.entries(state.routes)) {
+    if (!exists(tid)) { missing.add(tid); continue; }
+    try {
+      const page = await pageFor(tid);
+      for (const spec of specs) {
+        await globalNetwork.restoreRule(spec, page, tid);
+        summary.routes++;
+      }
+    } catch (err) { warn("route rules", tid, err); }
+  }
+  for (const [tid, emulation] of Object.entries(state.emulation)) {
+    if (!exists(tid)) { missing.add(tid); continue; }
+    try {
+      await emulationCmd.restoreEmulation(tid, emulation);
+      summary.emulation++;
+    } catch (err) { warn("emulation", tid, err); }
+  }
+  for (const tid of state.refs) {
+    if (exists(tid) && restoreRefs(tid)) summary.refs++;
+  }
+  // dialog-mode is also persisted in the config file, which startServer applies afterwards
+  setDialogMode(state.dialog_mode);
+
+  summary.missing_tabs = Array.from(missing);
+  return summary;
+}
+
+// --- Worker policies ---
+
+// workerId → allowed/denied methods and URLs, from the policy-file config key
+const workerPolicies = new PolicyStore();
+
+// --- Runtime config application ---
+
+const configApplier = new ConfigApplier();
+
+configApplier.on(["daemon-idle-timeout-m"], (config) => {
+  _idle.timeoutMs = Math.max(0, Number(config["daemon-idle-timeout-m"]) || 0) * 60 * 1000;
+  resetIdleTimer();
+});
+configApplier.on(["console-buffer-size", "network-buffer-size"], (config) => {
+  const defaults = getDefaults();
+  globalObserver.setBufferSizes({
+    console: Math.max(1, Number(config["console-buffer-size"]) || defaults["console-buffer-size"]),
+    network: Math.max(1, Number(config["network-buffer-size"]) || defaults["network-buffer-size"]),
+  });
+});
+configApplier.on(["network-body-max-kb"], (config) => {
+  setNetworkBodyMaxKb(Math.max(0, Number(config["network-body-max-kb"]) || 0));
+});
+configApplier.on(["dialog-mode"], (config) => setDialogMode(config["dialog-mode"]));
+configApplier.on(["screenshot-dir"], (config) => setScreenshotDir(config["screenshot-dir"]));
+configApplier.on(
+  ["audit-log", "audit-log-max-mb", "audit-log-files", "audit-redact-session-names"],
+  (config) => configureAuditLog(config["audit-log"]
+    ? {
+      path: getAuditLogPath(),
+      maxBytes: Math.max(1, config["audit-log-max-mb"]) * 1024 * 1024,
+      maxFiles: Math.max(1, config["audit-log-files"]),
+      redactSessionNames: config["audit-redact-session-names"],
     }
+    : null),
+);
+
+configApplier.on(["state-journal"], (config) => stateJournal.setEnabled(config["state-journal"]));
+configApplier.on(["chrome-restart-max", "chrome-restart-window-s"], (config) => globalSupervisor.setLimits({
+  maxRestarts: Number(config["chrome-restart-max"]) || 0,
+  windowMs: Math.max(0, Number(config["chrome-restart-window-s"]) || 0) * 1000,
+}));
+configApplier.on(["policy-file"], (config) => workerPolicies.load(config["policy-file"]));
+
+/** Re-read the config file and apply what changed. Returns the changed keys. */
+export function applyRuntimeConfig(): Promise<ConfigKey[]> {
+  return configApplier.reload();
+}
+
+type Params = Record<string, unknown>;
+
+// --- Per-connection state ---
+
+interface ConnState {
+  /** Unix/TCP socket, or a WebSocketStream for WebSocket clients */
+  socket: Duplex;
+  buffer: string;
+  /** false until a remote client sends a valid `auth` request */
+  authenticated: boolean;
+  /** subscriptionId → unsubscribe function */
+  subscriptions: Map<string, () => void>;
+  /** request id → abort controller for requests still being handled (notifications get a private Symbol key) */
+  inflight: Map<number | string | symbol, AbortController>;
+}
+
+let subscriptionCounter = 0;
+
+function subscribeConnection(conn: ConnState, params: Params): object {
+  const channels = parseChannels(params.include);
+  const filterTarget = params.targetId as string | undefined;
+  const id = `sub_${++subscriptionCounter}`;
+
+  const off = globalEvents.subscribe((event) => {
+    if (!channels.includes(event.channel)) return;
+    if (filterTarget && event.targetId !== filterTarget) return;
+    if (conn.socket.destroyed) return;
+    const note = makeNotification("event", { subscription: id, ...event });
+    conn.socket.write(JSON.stringify(note) + "\n");
+  });
+  conn.subscriptions.set(id, off);
+  _idle.subscriptions++;
+  resetIdleTimer();
+
+  return { ok: true, subscription: id, channels, ...(filterTarget ? { targetId: filterTarget } : {}) };
+}
+
+/** The idle countdown starts over once the last subscription anywhere goes away. */
+function releaseSubscriptions(count: number): void {
+  if (count === 0) return;
+  _idle.subscriptions -= count;
+  if (_idle.subscriptions === 0) resetIdleTimer();
+}
+
+function unsubscribeConnection(conn: ConnState, subscription?: string): object {
+  if (subscription) {
+    const off = conn.subscriptions.get(subscription);
+    if (!off) throw new Error(`Subscription "${subscription}" not found`);
+    off();
+    conn.subscriptions.delete(subscription);
+    releaseSubscriptions(1);
+    return { ok: true, removed: [subscription] };
   }
+  const removed = Array.from(conn.subscriptions.keys());
+  conn.subscriptions.forEach((off) => off());
+  conn.subscriptions.clear();
+  releaseSubscriptions(removed.length);
+  return { ok: true, removed };
+}
 
-  switch (req.method) {
-    // Connection
-    case "status":
-      return connCmd.handleStatus({ port: params.port as number | undefined });
-    case "launch":
-      return connCmd.handleLaunch({
-        port: params.port as number | undefined,
-        headless: params.headless as boolean | undefined,
-        noSandbox: params.noSandbox as boolean | undefined,
-      });
-    case "connect":
-      return connCmd.handleConnect({
-        cdpUrl: params.cdpUrl as string | undefined,
-        port: params.port as number | undefined,
-      });
-    case "stop":
-      return connCmd.handleStop();
+// --- Method registry ---
+
+interface MethodContext {
+  conn: ConnState;
+  signal: AbortSignal;
+  workerId: string;
+}
 
-    // Tabs
-    case "tabs":
-      return tabsCmd.handleTabs({ workerId });
-    case "open": {
+// Shared param schemas
+const targetIdParam: ParamSchema = { type: "string", description: "Tab targetId (default: active tab)" };
+const refParam: ParamSchema = { type: "string", required: true, description: "Element ref from the last snapshot (e.g. e5)" };
+const optRefParam: ParamSchema = { type: "string", description: "Element ref from the last snapshot (e.g. e5)" };
+const timeoutParam: ParamSchema = { type: "number", minimum: 0, description: "Timeout in milliseconds" };
+const contextIdParam: ParamSchema = {
+  type: "string",
+  description: "Browser context (default: the worker's own, or the shared one without a workerId)",
+};
+const retryParams: Record<string, ParamSchema> = {
+  autoRetry: { type: "boolean", description: "Retry on recoverable errors (stale ref, overlay, ...)" },
+  maxRetries: { type: "integer", minimum: 0 },
+};
+const storageTypeParam: ParamSchema = { type: "string", enum: ["local", "session"] };
+const findParams: Record<string, ParamSchema> = {
+  value: { type: "string", required: true },
+  action: { type: "string", enum: ["click", "fill", "type", "hover", "check", "none"] },
+  actionArg: { type: "string" },
+  targetId: targetIdParam,
+  timeoutMs: timeoutParam,
+};
+
+// launch / profile.launch (chrome-* config keys supply the defaults)
+const launchParams: Record<string, ParamSchema> = {
+  port: { type: "integer" },
+  headless: { type: "boolean" },
+  noSandbox: { type: "boolean" },
+  args: { type: "array", items: { type: "string" }, description: "Extra Chrome switches (added to chrome-args)" },
+  extensions: { type: "array", items: { type: "string" }, description: "Unpacked extension dirs (added to chrome-extensions)" },
+  windowSize: { type: "string", description: "WIDTHxHEIGHT" },
+  windowPosition: { type: "string", description: "X,Y" },
+  lang: { type: "string", description: "UI and Accept-Language locale, e.g. de-DE" },
+  timezone: { type: "string", description: "IANA time zone, e.g. Europe/Berlin" },
+  ignoreCertErrors: { type: "boolean" },
+  downloadDir: { type: "string" },
+};
+
+function launchFlags(params: Params): connCmd.LaunchFlags & { port?: number; headless?: boolean; noSandbox?: boolean } {
+  return {
+    port: params.port as number | undefined,
+    headless: params.headless as boolean | undefined,
+    noSandbox: params.noSandbox as boolean | undefined,
+    args: params.args as string[] | undefined,
+    extensions: params.extensions as string[] | undefined,
+    windowSize: params.windowSize as string | undefined,
+    windowPosition: params.windowPosition as string | undefined,
+    lang: params.lang as string | undefined,
+    timezone: params.timezone as string | undefined,
+    ignoreCertErrors: params.ignoreCertErrors as boolean | undefined,
+    downloadDir: params.downloadDir as string | undefined,
+  };
+}
+
+const DISCOVERY_INFO = { title: "jarvis-browser daemon", version: PACKAGE_VERSION };
+
+const registry: MethodRegistry<MethodContext> = new MethodRegistry<MethodContext>([
+  // Connection
+  {
+    name: "status",
+    summary: "Chrome connection status",
+    params: { port: { type: "integer" } },
+    handler: (params) => connCmd.handleStatus({ port: params.port as number | undefined }),
+  },
+  {
+    name: "launch",
+    summary: "Launch Chrome with remote debugging",
+    params: {
+      ...launchParams,
+      profile: { type: "string", description: "Named profile (default: a per-port profile in /tmp)" },
+    },
+    handler: (params) => connCmd.handleLaunch({
+      ...launchFlags(params),
+      profile: params.profile as string | undefined,
+    }),
+  },
+  {
+    name: "connect",
+    summary: "Connect to a running Chrome over CDP",
+    params: { cdpUrl: { type: "string" }, port: { type: "integer" } },
+    handler: (params) => connCmd.handleConnect({
+      cdpUrl: params.cdpUrl as string | undefined,
+      port: params.port as number | undefined,
+    }),
+  },
+  { name: "stop", summary: "Stop the launched Chrome", handler: () => connCmd.handleStop() },
+
+  // Tabs
+  {
+    name: "tabs",
+    summary: "List open tabs with lease owner and remaining lease",
+    handler: async (_params, { workerId }) => {
+      const tabs = await tabsCmd.handleTabs({ workerId }) as Array<{ targetId: string }>;
+      return tabs.map((tab) => ({
+        ...tab,
+        ...(tabLeases.view(tab.targetId) ?? { owner: null, lease_remaining_s: null }),
+      }));
+    },
+  },
+  {
+    name: "open",
+    summary: "Open a new tab",
+    params: {
+      url: { type: "string", description: "Initial URL (default: about:blank)" },
+      contextId: contextIdParam,
+    },
+    handler: async (params, { workerId }) => {
       const result = await tabsCmd.handleOpen({
         url: String(params.url ?? "about:blank"),
         workerId,
+        contextId: await resolveContextParam(params, workerId),
       });
       // Register tab ownership and attach observer
       const tabResult = result as { targetId?: string };
       if (tabResult.targetId) {
-        if (workerId) claimTab(tabResult.targetId, workerId);
+        await claimTab(tabResult.targetId, workerId);
         const page = await getPage(tabResult.targetId).catch(() => null);
         if (page) globalObserver.attach(page, tabResult.targetId);
       }
       return result;
-    }
-    case "close": {
+    },
+  },
+  {
+    name: "close",
+    summary: "Close a tab",
+    tab: true,
+    params: { targetId: { ...targetIdParam, required: true } },
+    handler: async (params, { workerId }) => {
       const tid = String(params.targetId ?? "");
       await tabsCmd.handleClose({ targetId: tid, workerId });
-      releaseTab(tid);
-      globalObserver.destroy(tid);
-      globalNetwork.destroyTab(tid);
+      forgetTab(tid);
       return { ok: true, message: `Closed ${tid}` };
-    }
-    case "focus":
-      return tabsCmd.handleFocus({
-        targetId: String(params.targetId ?? ""),
-        workerId,
-      });
-    case "cleanup":
-      return tabsCmd.handleCleanup({
-        keepUrls: params.keepUrls as string[] | undefined,
-        workerId,
-      });
-
-    // Navigation
-    case "navigate":
-      return navCmd.handleNavigate({
-        url: String(params.url),
-        targetId: params.targetId as string | undefined,
-        timeoutMs: params.timeoutMs as number | undefined,
-      });
-    case "reload":
-      return navCmd.handleReload({ targetId: params.targetId as string | undefined });
-    case "back":
-      return navCmd.handleBack({ targetId: params.targetId as string | undefined });
-    case "forward":
-      return navCmd.handleForward({ targetId: params.targetId as string | undefined });
-
-    // Snapshot
-    case "snapshot": {
+    },
+  },
+  {
+    name: "focus",
+    summary: "Bring a tab to the front",
+    tab: true,
+    params: { targetId: { ...targetIdParam, required: true } },
+    handler: (params, { workerId }) => tabsCmd.handleFocus({
+      targetId: String(params.targetId ?? ""),
+      workerId,
+    }),
+  },
+  {
+    name: "cleanup",
+    summary: "Close tabs except those matching keepUrls",
+    params: { keepUrls: { type: "array", items: { type: "string" } } },
+    handler: (params, { workerId }) => tabsCmd.handleCleanup({
+      keepUrls: params.keepUrls as string[] | undefined,
+      workerId,
+    }),
+  },
+
+  // Browser contexts
+  {
+    name: "context.new",
+    summary: "Create an isolated (incognito) browser context for this worker",
+    handler: async (_params, { workerId }) => {
+      const contextId = await newContext(workerId || null);
+      return { ok: true, contextId, owner: workerId || null };
+    },
+  },
+  {
+    name: "context.list",
+    summary: "List browser contexts with owner and tab count",
+    handler: () => listContexts(),
+  },
+  {
+    name: "context.close",
+    summary: "Close a browser context and all of its tabs",
+    params: { contextId: { type: "string", required: true } },
+    handler: async (params, { workerId }) => {
+      const contextId = String(params.contextId);
+      requireContextAccess(contextId, workerId);
+      const closed = await closeContext(contextId);
+      for (const tid of closed) forgetTab(tid);
+      return { ok: true, contextId, closed_tabs: closed };
+    },
+  },
+
+  // Tab leases
+  {
+    name: "tab.claim",
+    summary: "Claim a tab for this worker (re-claiming your own renews it)",
+    params: {
+      targetId: { ...targetIdParam, required: true },
+      ttlMs: { type: "number", minimum: 0, description: "Lease length (default: tab-lease-ttl-s; 0 = never expires)" },
+    },
+    handler: async (params, { workerId }) => {
+      const tid = String(params.targetId);
+      const ttlMs = params.ttlMs as number | undefined;
+      tabLeases.claim(tid, requireLeaseWorker(workerId), ttlMs ?? await defaultLeaseTtlMs());
+      return leaseResult(tid);
+    },
+  },
+  {
+    name: "tab.release",
+    summary: "Release this worker's lease on a tab",
+    params: { targetId: { ...targetIdParam, required: true } },
+    handler: (params, { workerId }) => {
+      const tid = String(params.targetId);
+      const released = tabLeases.release(tid, requireLeaseWorker(workerId));
+      return { ok: true, targetId: tid, released };
+    },
+  },
+  {
+    name: "tab.renew",
+    summary: "Extend this worker's lease on a tab (heartbeat)",
+    params: {
+      targetId: { ...targetIdParam, required: true },
+      ttlMs: { type: "number", minimum: 0, description: "New lease length (default: the current lease's TTL)" },
+    },
+    handler: (params, { workerId }) => {
+      const tid = String(params.targetId);
+      tabLeases.renew(tid, requireLeaseWorker(workerId), params.ttlMs as number | undefined);
+      return leaseResult(tid);
+    },
+  },
+  {
+    name: "tab.transfer",
+    summary: "Hand a tab this worker owns to another worker",
+    params: {
+      targetId: { ...targetIdParam, required: true },
+      to: { type: "string", required: true, description: "Receiving workerId" },
+      ttlMs: { type: "number", minimum: 0, description: "Lease length for the receiver (default: the current lease's TTL)" },
+    },
+    handler: (params, { workerId }) => {
+      const tid = String(params.targetId);
+      tabLeases.transfer(tid, requireLeaseWorker(workerId), String(params.to), params.ttlMs as number | undefined);
+      return leaseResult(tid);
+    },
+  },
+
+  // Navigation
+  {
+    name: "navigate",
+    summary: "Navigate the tab to a URL",
+    tab: true,
+    params: { url: { type: "string", required: true }, targetId: targetIdParam, timeoutMs: timeoutParam },
+    handler: (params, { signal }) => navCmd.handleNavigate({
+      url: String(params.url),
+      targetId: params.targetId as string | undefined,
+      timeoutMs: params.timeoutMs as number | undefined,
+      signal,
+    }),
+  },
+  {
+    name: "reload",
+    summary: "Reload the tab",
+    tab: true,
+    params: { targetId: targetIdParam },
+    handler: (params) => navCmd.handleReload({ targetId: params.targetId as string | undefined }),
+  },
+  {
+    name: "back",
+    summary: "Go back in history",
+    tab: true,
+    params: { targetId: targetIdParam },
+    handler: (params) => navCmd.handleBack({ targetId: params.targetId as string | undefined }),
+  },
+  {
+    name: "forward",
+    summary: "Go forward in history",
+    tab: true,
+    params: { targetId: targetIdParam },
+    handler: (params) => navCmd.handleForward({ targetId: params.targetId as string | undefined }),
+  },
+
+  // Snapshot
+  {
+    name: "snapshot",
+    summary: "Accessibility snapshot with element refs",
+    tab: true,
+    params: {
+      targetId: targetIdParam,
+      mode: { type: "string", enum: ["role", "aria", "ai"] },
+      interactive: { type: "boolean" },
+      compact: { type: "boolean" },
+      maxDepth: { type: "integer", minimum: 0 },
+      maxChars: { type: "integer", minimum: 0 },
+      outputFile: { type: "string" },
+    },
+    handler: async (params) => {
       const result = await dataCmd.handleSnapshot({
         targetId: params.targetId as string | undefined,
         mode: params.mode as "role" | "aria" | "ai" | undefined,
@@ -221,516 +868,1191 @@ async function routeRequest(req: RpcRequest): Promise<unknown> {
         outputFile: params.outputFile as string | undefined,
       });
       // Record snapshot time for observe's snapshot_stale field
-      if (targetId) globalObserver.recordSnapshot(targetId);
+      if (params.targetId) globalObserver.recordSnapshot(params.targetId as string);
       return result;
-    }
-
-    // Interaction
-    case "click":
-      return interactCmd.handleClick({
-        ref: String(params.ref),
-        targetId: params.targetId as string | undefined,
-        button: params.button as "left" | "right" | "middle" | undefined,
-        doubleClick: params.doubleClick as boolean | undefined,
-        timeoutMs: params.timeoutMs as number | undefined,
-        autoRetry: params.autoRetry as boolean | undefined,
-        maxRetries: params.maxRetries as number | undefined,
-      });
-    case "type":
-      return interactCmd.handleType({
-        ref: String(params.ref),
-        text: String(params.text),
-        targetId: params.targetId as string | undefined,
-        clearFirst: params.clearFirst as boolean | undefined,
-        pressEnter: params.pressEnter as boolean | undefined,
-        timeoutMs: params.timeoutMs as number | undefined,
-        autoRetry: params.autoRetry as boolean | undefined,
-        maxRetries: params.maxRetries as number | undefined,
-      });
-    case "fill":
-      return interactCmd.handleFill({
-        ref: String(params.ref),
-        value: String(params.value ?? ""),
-        targetId: params.targetId as string | undefined,
-        timeoutMs: params.timeoutMs as number | undefined,
-        autoRetry: params.autoRetry as boolean | undefined,
-        maxRetries: params.maxRetries as number | undefined,
-      });
-    case "select":
-      return interactCmd.handleSelect({
-        ref: String(params.ref),
-        values: params.values as string[],
-        targetId: params.targetId as string | undefined,
-        timeoutMs: params.timeoutMs as number | undefined,
-        autoRetry: params.autoRetry as boolean | undefined,
-        maxRetries: params.maxRetries as number | undefined,
-      });
-    case "check":
-      return interactCmd.handleCheck({
-        ref: String(params.ref),
-        checked: params.checked as boolean ?? true,
-        targetId: params.targetId as string | undefined,
-        timeoutMs: params.timeoutMs as number | undefined,
-        autoRetry: params.autoRetry as boolean | undefined,
-        maxRetries: params.maxRetries as number | undefined,
-      });
-    case "hover":
-      return interactCmd.handleHover({
-        ref: String(params.ref),
-        targetId: params.targetId as string | undefined,
-        timeoutMs: params.timeoutMs as number | undefined,
-        autoRetry: params.autoRetry as boolean | undefined,
-        maxRetries: params.maxRetries as number | undefined,
-      });
-    case "drag":
-      return interactCmd.handleDrag({
-        sourceRef: String(params.sourceRef),
-        targetRef: String(params.targetRef),
-        targetId: params.targetId as string | undefined,
-        timeoutMs: params.timeoutMs as number | undefined,
-        autoRetry: params.autoRetry as boolean | undefined,
-        maxRetries: params.maxRetries as number | undefined,
-      });
-    case "scroll":
-      return interactCmd.handleScroll({
-        direction: (params.direction as "up" | "down" | "left" | "right") ?? "down",
-        ref: params.ref as string | undefined,
-        targetId: params.targetId as string | undefined,
-        amount: params.amount as number | undefined,
-        autoRetry: params.autoRetry as boolean | undefined,
-        maxRetries: params.maxRetries as number | undefined,
-      });
-    case "press":
-      return interactCmd.handlePress({
-        key: String(params.key),
-        ref: params.ref as string | undefined,
-        targetId: params.targetId as string | undefined,
-        timeoutMs: params.timeoutMs as number | undefined,
-        autoRetry: params.autoRetry as boolean | undefined,
-        maxRetries: params.maxRetries as number | undefined,
-      });
-
-    // Wait
-    case "wait":
-      return interactCmd.handleWait({
-        ref: params.ref as string | undefined,
-        state: params.state as "visible" | "hidden" | "attached" | "detached" | undefined,
-        targetId: params.targetId as string | undefined,
-        timeoutMs: params.timeoutMs as number | undefined,
-        text: params.text as string | undefined,
-        url: params.url as string | undefined,
-        js: params.js as string | undefined,
-        networkIdle: params.networkIdle as boolean | undefined,
-        navigation: params.navigation as boolean | undefined,
-        visible: params.visible as boolean | undefined,
-        hidden: params.hidden as boolean | undefined,
-        enabled: params.enabled as boolean | undefined,
-        checked: params.checked as boolean | undefined,
-        download: params.download as boolean | undefined,
-        saveTo: params.saveTo as string | undefined,
-      });
-
-    // Upload (v0.7.0 FM-2)
-    case "upload":
-      return interactCmd.handleUploadFile({
-        ref: params.ref as string | undefined,
-        selector: params.selector as string | undefined,
-        files: params.files as string[],
-        targetId: params.targetId as string | undefined,
-        timeoutMs: params.timeoutMs as number | undefined,
-      });
-
-    // Get (v0.7.0 FM-3 / FM-4)
-    case "get.text":
-      return getCmds.handleGetText({ ref: String(params.ref ?? ""), targetId: params.targetId as string | undefined, timeoutMs: params.timeoutMs as number | undefined });
-    case "get.html":
-      return getCmds.handleGetHtml({ ref: String(params.ref ?? ""), targetId: params.targetId as string | undefined, timeoutMs: params.timeoutMs as number | undefined });
-    case "get.value":
-      return getCmds.handleGetValue({ ref: String(params.ref ?? ""), targetId: params.targetId as string | undefined, timeoutMs: params.timeoutMs as number | undefined });
-    case "get.attr":
-      return getCmds.handleGetAttr({ ref: String(params.ref ?? ""), attrName: String(params.attrName ?? ""), targetId: params.targetId as string | undefined, timeoutMs: params.timeoutMs as number | undefined });
-    case "get.title":
-      return getCmds.handleGetTitle({ targetId: params.targetId as string | undefined });
-    case "get.url":
-      return getCmds.handleGetUrl({ targetId: params.targetId as string | undefined });
-    case "get.count":
-      return getCmds.handleGetCount({ selector: String(params.selector ?? ""), targetId: params.targetId as string | undefined });
-    case "get.box":
-      return getCmds.handleGetBox({ ref: String(params.ref ?? ""), targetId: params.targetId as string | undefined, timeoutMs: params.timeoutMs as number | undefined });
-
-    // Is (v0.7.0 FM-3)
-    case "is.visible":
-      return stateCmds.handleIsVisible({ ref: String(params.ref ?? ""), targetId: params.targetId as string | undefined });
-    case "is.hidden":
-      return stateCmds.handleIsHidden({ ref: String(params.ref ?? ""), targetId: params.targetId as string | undefined });
-    case "is.enabled":
-      return stateCmds.handleIsEnabled({ ref: String(params.ref ?? ""), targetId: params.targetId as string | undefined });
-    case "is.checked":
-      return stateCmds.handleIsChecked({ ref: String(params.ref ?? ""), targetId: params.targetId as string | undefined });
-    case "is.editable":
-      return stateCmds.handleIsEditable({ ref: String(params.ref ?? ""), targetId: params.targetId as string | undefined });
-
-    // Dialog (v0.7.0 FM-1)
-    case "dialog.list":
-      return dialogCmds.handleDialogList();
-    case "dialog.last":
-      return dialogCmds.handleDialogLast();
-    case "dialog.accept":
-      return dialogCmds.handleDialogAccept({ text: params.text as string | undefined });
-    case "dialog.dismiss":
-      return dialogCmds.handleDialogDismiss();
-    case "dialog.mode": {
-      const mode = String(params.mode ?? "");
-      if (!["accept", "dismiss", "queue"].includes(mode)) {
-        return { ok: false, error: `Invalid mode "${mode}". Use: accept | dismiss | queue` };
-      }
-      setDialogMode(mode as "accept" | "dismiss" | "queue");
+    },
+  },
+
+  // Interaction
+  {
+    name: "click",
+    summary: "Click an element",
+    tab: true,
+    params: {
+      ref: refParam,
+      targetId: targetIdParam,
+      button: { type: "string", enum: ["left", "right", "middle"] },
+      doubleClick: { type: "boolean" },
+      timeoutMs: timeoutParam,
+      ...retryParams,
+    },
+    handler: (params) => interactCmd.handleClick({
+      ref: String(params.ref),
+      targetId: params.targetId as string | undefined,
+      button: params.button as "left" | "right" | "middle" | undefined,
+      doubleClick: params.doubleClick as boolean | undefined,
+      timeoutMs: params.timeoutMs as number | undefined,
+      autoRetry: params.autoRetry as boolean | undefined,
+      maxRetries: params.maxRetries as number | undefined,
+    }),
+  },
+  {
+    name: "type",
+    summary: "Type text into an element",
+    tab: true,
+    params: {
+      ref: refParam,
+      text: { type: "string", required: true },
+      targetId: targetIdParam,
+      clearFirst: { type: "boolean" },
+      pressEnter: { type: "boolean" },
+      timeoutMs: timeoutParam,
+      ...retryParams,
+    },
+    handler: (params) => interactCmd.handleType({
+      ref: String(params.ref),
+      text: String(params.text),
+      targetId: params.targetId as string | undefined,
+      clearFirst: params.clearFirst as boolean | undefined,
+      pressEnter: params.pressEnter as boolean | undefined,
+      timeoutMs: params.timeoutMs as number | undefined,
+      autoRetry: params.autoRetry as boolean | undefined,
+      maxRetries: params.maxRetries as number | undefined,
+    }),
+  },
+  {
+    name: "fill",
+    summary: "Fill an input (replaces its value)",
+    tab: true,
+    params: { ref: refParam, value: { type: "string" }, targetId: targetIdParam, timeoutMs: timeoutParam, ...retryParams },
+    handler: (params) => interactCmd.handleFill({
+      ref: String(params.ref),
+      value: String(params.value ?? ""),
+      targetId: params.targetId as string | undefined,
+      timeoutMs: params.timeoutMs as number | undefined,
+      autoRetry: params.autoRetry as boolean | undefined,
+      maxRetries: params.maxRetries as number | undefined,
+    }),
+  },
+  {
+    name: "select",
+    summary: "Select option(s) in a <select>",
+    tab: true,
+    params: {
+      ref: refParam,
+      values: { type: "array", items: { type: "string" }, required: true },
+      targetId: targetIdParam,
+      timeoutMs: timeoutParam,
+      ...retryParams,
+    },
+    handler: (params) => interactCmd.handleSelect({
+      ref: String(params.ref),
+      values: params.values as string[],
+      targetId: params.targetId as string | undefined,
+      timeoutMs: params.timeoutMs as number | undefined,
+      autoRetry: params.autoRetry as boolean | undefined,
+      maxRetries: params.maxRetries as number | undefined,
+    }),
+  },
+  {
+    name: "check",
+    summary: "Check or uncheck a checkbox",
+    tab: true,
+    params: { ref: refParam, checked: { type: "boolean" }, targetId: targetIdParam, timeoutMs: timeoutParam, ...retryParams },
+    handler: (params) => interactCmd.handleCheck({
+      ref: String(params.ref),
+      checked: params.checked as boolean ?? true,
+      targetId: params.targetId as string | undefined,
+      timeoutMs: params.timeoutMs as number | undefined,
+      autoRetry: params.autoRetry as boolean | undefined,
+      maxRetries: params.maxRetries as number | undefined,
+    }),
+  },
+  {
+    name: "hover",
+    summary: "Hover over an element",
+    tab: true,
+    params: { ref: refParam, targetId: targetIdParam, timeoutMs: timeoutParam, ...retryParams },
+    handler: (params) => interactCmd.handleHover({
+      ref: String(params.ref),
+      targetId: params.targetId as string | undefined,
+      timeoutMs: params.timeoutMs as number | undefined,
+      autoRetry: params.autoRetry as boolean | undefined,
+      maxRetries: params.maxRetries as number | undefined,
+    }),
+  },
+  {
+    name: "drag",
+    summary: "Drag one element onto another",
+    tab: true,
+    params: {
+      sourceRef: refParam,
+      targetRef: refParam,
+      targetId: targetIdParam,
+      timeoutMs: timeoutParam,
+      ...retryParams,
+    },
+    handler: (params) => interactCmd.handleDrag({
+      sourceRef: String(params.sourceRef),
+      targetRef: String(params.targetRef),
+      targetId: params.targetId as string | undefined,
+      timeoutMs: params.timeoutMs as number | undefined,
+      autoRetry: params.autoRetry as boolean | undefined,
+      maxRetries: params.maxRetries as number | undefined,
+    }),
+  },
+  {
+    name: "scroll",
+    summary: "Scroll the page or an element",
+    tab: true,
+    params: {
+      direction: { type: "string", enum: ["up", "down", "left", "right"] },
+      ref: optRefParam,
+      targetId: targetIdParam,
+      amount: { type: "number" },
+      ...retryParams,
+    },
+    handler: (params) => interactCmd.handleScroll({
+      direction: (params.direction as "up" | "down" | "left" | "right") ?? "down",
+      ref: params.ref as string | undefined,
+      targetId: params.targetId as string | undefined,
+      amount: params.amount as number | undefined,
+      autoRetry: params.autoRetry as boolean | undefined,
+      maxRetries: params.maxRetries as number | undefined,
+    }),
+  },
+  {
+    name: "press",
+    summary: "Press a key (optionally focused on an element)",
+    tab: true,
+    params: {
+      key: { type: "string", required: true },
+      ref: optRefParam,
+      targetId: targetIdParam,
+      timeoutMs: timeoutParam,
+      ...retryParams,
+    },
+    handler: (params) => interactCmd.handlePress({
+      key: String(params.key),
+      ref: params.ref as string | undefined,
+      targetId: params.targetId as string | undefined,
+      timeoutMs: params.timeoutMs as number | undefined,
+      autoRetry: params.autoRetry as boolean | undefined,
+      maxRetries: params.maxRetries as number | undefined,
+    }),
+  },
+
+  // Wait — readOnly: it changes nothing, and holding the tab lock for the whole
+  // timeout would queue the click that triggers what it waits for behind it
+  {
+    name: "wait",
+    summary: "Wait for an element, text, URL, JS condition, network idle or download",
+    tab: true,
+    readOnly: true,
+    params: {
+      ref: optRefParam,
+      state: { type: "string", enum: ["visible", "hidden", "attached", "detached"] },
+      targetId: targetIdParam,
+      timeoutMs: timeoutParam,
+      text: { type: "string" },
+      url: { type: "string" },
+      js: { type: "string" },
+      networkIdle: { type: "boolean" },
+      navigation: { type: "boolean" },
+      visible: { type: "boolean" },
+      hidden: { type: "boolean" },
+      enabled: { type: "boolean" },
+      checked: { type: "boolean" },
+      download: { type: "boolean" },
+      saveTo: { type: "string" },
+    },
+    handler: (params, { signal }) => interactCmd.handleWait({
+      ref: params.ref as string | undefined,
+      state: params.state as "visible" | "hidden" | "attached" | "detached" | undefined,
+      targetId: params.targetId as string | undefined,
+      timeoutMs: params.timeoutMs as number | undefined,
+      text: params.text as string | undefined,
+      url: params.url as string | undefined,
+      js: params.js as string | undefined,
+      networkIdle: params.networkIdle as boolean | undefined,
+      navigation: params.navigation as boolean | undefined,
+      visible: params.visible as boolean | undefined,
+      hidden: params.hidden as boolean | undefined,
+      enabled: params.enabled as boolean | undefined,
+      checked: params.checked as boolean | undefined,
+      download: params.download as boolean | undefined,
+      saveTo: params.saveTo as string | undefined,
+      signal,
+    }),
+  },
+
+  // Upload (v0.7.0 FM-2)
+  {
+    name: "upload",
+    summary: "Set files on a file input",
+    tab: true,
+    params: {
+      ref: optRefParam,
+      selector: { type: "string" },
+      files: { type: "array", items: { type: "string" }, required: true },
+      targetId: targetIdParam,
+      timeoutMs: timeoutParam,
+    },
+    handler: (params) => interactCmd.handleUploadFile({
+      ref: params.ref as string | undefined,
+      selector: params.selector as string | undefined,
+      files: params.files as string[],
+      targetId: params.targetId as string | undefined,
+      timeoutMs: params.timeoutMs as number | undefined,
+    }),
+  },
+
+  // Get (v0.7.0 FM-3 / FM-4)
+  {
+    name: "get.text",
+    summary: "Element text content",
+    tab: true,
+    readOnly: true,
+    params: { ref: refParam, targetId: targetIdParam, timeoutMs: timeoutParam },
+    handler: (params) => getCmds.handleGetText({ ref: String(params.ref ?? ""), targetId: params.targetId as string | undefined, timeoutMs: params.timeoutMs as number | undefined }),
+  },
+  {
+    name: "get.html",
+    summary: "Element inner HTML",
+    tab: true,
+    readOnly: true,
+    params: { ref: refParam, targetId: targetIdParam, timeoutMs: timeoutParam },
+    handler: (params) => getCmds.handleGetHtml({ ref: String(params.ref ?? ""), targetId: params.targetId as string | undefined, timeoutMs: params.timeoutMs as number | undefined }),
+  },
+  {
+    name: "get.value",
+    summary: "Input value",
+    tab: true,
+    readOnly: true,
+    params: { ref: refParam, targetId: targetIdParam, timeoutMs: timeoutParam },
+    handler: (params) => getCmds.handleGetValue({ ref: String(params.ref ?? ""), targetId: params.targetId as string | undefined, timeoutMs: params.timeoutMs as number | undefined }),
+  },
+  {
+    name: "get.attr",
+    summary: "Element attribute value",
+    tab: true,
+    readOnly: true,
+    params: { ref: refParam, attrName: { type: "string", required: true }, targetId: targetIdParam, timeoutMs: timeoutParam },
+    handler: (params) => getCmds.handleGetAttr({ ref: String(params.ref ?? ""), attrName: String(params.attrName ?? ""), targetId: params.targetId as string | undefined, timeoutMs: params.timeoutMs as number | undefined }),
+  },
+  {
+    name: "get.title",
+    summary: "Page title",
+    tab: true,
+    readOnly: true,
+    params: { targetId: targetIdParam },
+    handler: (params) => getCmds.handleGetTitle({ targetId: params.targetId as string | undefined }),
+  },
+  {
+    name: "get.url",
+    summary: "Page URL",
+    tab: true,
+    readOnly: true,
+    params: { targetId: targetIdParam },
+    handler: (params) => getCmds.handleGetUrl({ targetId: params.targetId as string | undefined }),
+  },
+  {
+    name: "get.count",
+    summary: "Number of elements matching a CSS selector",
+    tab: true,
+    readOnly: true,
+    params: { selector: { type: "string", required: true }, targetId: targetIdParam },
+    handler: (params) => getCmds.handleGetCount({ selector: String(params.selector ?? ""), targetId: params.targetId as string | undefined }),
+  },
+  {
+    name: "get.box",
+    summary: "Element bounding box",
+    tab: true,
+    readOnly: true,
+    params: { ref: refParam, targetId: targetIdParam, timeoutMs: timeoutParam },
+    handler: (params) => getCmds.handleGetBox({ ref: String(params.ref ?? ""), targetId: params.targetId as string | undefined, timeoutMs: params.timeoutMs as number | undefined }),
+  },
+
+  // Is (v0.7.0 FM-3)
+  {
+    name: "is.visible",
+    summary: "Whether an element is visible",
+    tab: true,
+    readOnly: true,
+    params: { ref: refParam, targetId: targetIdParam },
+    handler: (params) => stateCmds.handleIsVisible({ ref: String(params.ref ?? ""), targetId: params.targetId as string | undefined }),
+  },
+  {
+    name: "is.hidden",
+    summary: "Whether an element is hidden",
+    tab: true,
+    readOnly: true,
+    params: { ref: refParam, targetId: targetIdParam },
+    handler: (params) => stateCmds.handleIsHidden({ ref: String(params.ref ?? ""), targetId: params.targetId as string | undefined }),
+  },
+  {
+    name: "is.enabled",
+    summary: "Whether an element is enabled",
+    tab: true,
+    readOnly: true,
+    params: { ref: refParam, targetId: targetIdParam },
+    handler: (params) => stateCmds.handleIsEnabled({ ref: String(params.ref ?? ""), targetId: params.targetId as string | undefined }),
+  },
+  {
+    name: "is.checked",
+    summary: "Whether a checkbox is checked",
+    tab: true,
+    readOnly: true,
+    params: { ref: refParam, targetId: targetIdParam },
+    handler: (params) => stateCmds.handleIsChecked({ ref: String(params.ref ?? ""), targetId: params.targetId as string | undefined }),
+  },
+  {
+    name: "is.editable",
+    summary: "Whether an element is editable",
+    tab: true,
+    readOnly: true,
+    params: { ref: refParam, targetId: targetIdParam },
+    handler: (params) => stateCmds.handleIsEditable({ ref: String(params.ref ?? ""), targetId: params.targetId as string | undefined }),
+  },
+
+  // Dialog (v0.7.0 FM-1)
+  { name: "dialog.list", summary: "Pending dialogs", handler: () => dialogCmds.handleDialogList() },
+  { name: "dialog.last", summary: "Most recent dialog", handler: () => dialogCmds.handleDialogLast() },
+  {
+    name: "dialog.accept",
+    summary: "Accept the oldest pending dialog",
+    params: { text: { type: "string", description: "Prompt text" } },
+    handler: (params) => dialogCmds.handleDialogAccept({ text: params.text as string | undefined }),
+  },
+  { name: "dialog.dismiss", summary: "Dismiss the oldest pending dialog", handler: () => dialogCmds.handleDialogDismiss() },
+  {
+    name: "dialog.mode",
+    summary: "Set how dialogs are handled",
+    params: { mode: { type: "string", required: true, enum: ["accept", "dismiss", "queue"] } },
+    handler: async (params) => {
+      const mode = params.mode as "accept" | "dismiss" | "queue";
+      setDialogMode(mode);
       // Persist to config too
       await configCmd.handleConfigSet({ key: "dialog-mode", value: mode });
+      await applyRuntimeConfig();
       return { ok: true, message: `Dialog mode set to "${mode}"` };
-    }
-
-    // Data
-    case "screenshot":
-      return dataCmd.handleScreenshot({
-        ref: params.ref as string | undefined,
-        path: params.path as string | undefined,
-        fullPage: params.fullPage as boolean | undefined,
-        targetId: params.targetId as string | undefined,
-      });
-    case "evaluate":
-      return dataCmd.handleEvaluate({
-        expression: String(params.expression),
-        targetId: params.targetId as string | undefined,
-        outputFile: params.outputFile as string | undefined,
-      });
-    case "text":
-      return dataCmd.handleText({
-        ref: params.ref as string | undefined,
-        targetId: params.targetId as string | undefined,
-        timeoutMs: params.timeoutMs as number | undefined,
-      });
-    case "attribute":
-      return dataCmd.handleAttribute({
-        ref: String(params.ref),
-        name: String(params.name),
-        targetId: params.targetId as string | undefined,
-        timeoutMs: params.timeoutMs as number | undefined,
-      });
-    case "cookies":
-      return dataCmd.handleCookies({
-        targetId: params.targetId as string | undefined,
-        url: params.url as string | undefined,
-        domain: params.domain as string | undefined,
-        name: params.name as string | undefined,
-      });
-    case "set-cookie":
-      return dataCmd.handleSetCookie({
-        cookieJson: String(params.cookieJson),
-      });
-    case "clear-cookies":
-      return dataCmd.handleClearCookies({
-        targetId: params.targetId as string | undefined,
-      });
-
-    // Batch
-    case "batch":
-      return batchCmd.handleBatch({
-        commands: params.commands as Array<Record<string, unknown>>,
-        outputFile: params.outputFile as string | undefined,
-      });
-
-    // Observer (v0.4.0)
-    case "console":
-      return obsCmds.handleConsole({
-        targetId: params.targetId as string | undefined,
-        level: params.level as string | undefined,
-        last: params.last as number | undefined,
-        clear: params.clear as boolean | undefined,
-      });
-    case "errors":
-      return obsCmds.handleErrors({
-        targetId: params.targetId as string | undefined,
-        last: params.last as number | undefined,
-      });
-    case "requests":
-      return obsCmds.handleRequests({
-        targetId: params.targetId as string | undefined,
-        filter: params.filter as string | undefined,
-        urlPattern: params.urlPattern as string | undefined,
-        last: params.last as number | undefined,
-        method: params.method as string | undefined,
-        statusFilter: params.statusFilter as string | undefined,
-        withBody: params.withBody as boolean | undefined,
-      });
-    case "observe":
-      return obsCmds.handleObserve({
-        targetId: params.targetId as string | undefined,
-        include: params.include as string | undefined,
-        export: params.export as string | undefined,
-        format: params.format as string | undefined,
-      });
-    case "page-info":
-      return obsCmds.handlePageInfo({
-        targetId: params.targetId as string | undefined,
-      });
-
-    // Storage (v0.5.0)
-    case "storage.get":
-      return storageCmd.handleStorageGet({
-        key: String(params.key ?? ""),
-        type: params.type,
-        targetId: params.targetId as string | undefined,
-      });
-    case "storage.set":
-      return storageCmd.handleStorageSet({
-        key: String(params.key ?? ""),
-        value: String(params.value ?? ""),
-        type: params.type,
-        targetId: params.targetId as string | undefined,
-      });
-    case "storage.remove":
-      return storageCmd.handleStorageRemove({
-        key: String(params.key ?? ""),
-        type: params.type,
-        targetId: params.targetId as string | undefined,
-      });
-    case "storage.clear":
-      return storageCmd.handleStorageClear({
-        type: params.type,
-        targetId: params.targetId as string | undefined,
-      });
-    case "storage.keys":
-      return storageCmd.handleStorageKeys({
-        type: params.type,
-        targetId: params.targetId as string | undefined,
-      });
-    case "storage.dump":
-      return storageCmd.handleStorageDump({
-        type: params.type,
-        targetId: params.targetId as string | undefined,
-      });
-
-    // Session (v0.5.0)
-    case "session.save":
-      return sessionCmd.handleSessionSave({
-        name: String(params.name ?? ""),
-        targetId: params.targetId as string | undefined,
-      });
-    case "session.load":
-      return sessionCmd.handleSessionLoad({
-        name: String(params.name ?? ""),
-        targetId: params.targetId as string | undefined,
-      });
-    case "session.list":
-      return sessionCmd.handleSessionList(params);
-    case "session.delete":
-      return sessionCmd.handleSessionDelete({ name: String(params.name ?? "") });
-    case "session.export":
-      return sessionCmd.handleSessionExport({
-        name: String(params.name ?? ""),
-        outputFile: params.outputFile as string | undefined,
-        includeSecrets: params.includeSecrets as boolean | undefined,
-      });
-    case "session.import":
-      return sessionCmd.handleSessionImport({
-        path: String(params.path ?? ""),
-        name: params.name as string | undefined,
-      });
-
-    // Route / Network (v0.5.0)
-    case "route.block":
-      return networkCmd.handleRouteBlock({
-        pattern: String(params.pattern ?? ""),
-        targetId: params.targetId as string | undefined,
-      });
-    case "route.mock":
-      return networkCmd.handleRouteMock({
-        pattern: String(params.pattern ?? ""),
-        body: params.body as string | undefined,
-        status: params.status as number | undefined,
-        contentType: params.contentType as string | undefined,
-        targetId: params.targetId as string | undefined,
-      });
-    case "route.capture":
-      return networkCmd.handleRouteCapture({
-        pattern: String(params.pattern ?? ""),
-        targetId: params.targetId as string | undefined,
-      });
-    case "route.list":
-      return networkCmd.handleRouteList({
-        targetId: params.targetId as string | undefined,
-      });
-    case "route.remove":
-      return networkCmd.handleRouteRemove({
-        ruleId: String(params.ruleId ?? ""),
-        targetId: params.targetId as string | undefined,
-      });
-    case "route.clear":
-      return networkCmd.handleRouteClear({
-        targetId: params.targetId as string | undefined,
-      });
-    case "route.captured":
-      return networkCmd.handleRouteCaptured({
-        pattern: params.pattern as string | undefined,
-        targetId: params.targetId as string | undefined,
-      });
-
-    // Frame (v0.5.0)
-    case "frame.list":
-      return frameCmd.handleFrameList({
-        targetId: params.targetId as string | undefined,
-      });
-    case "frame.switch":
-      return frameCmd.handleFrameSwitch({
-        name: String(params.name ?? ""),
-        targetId: params.targetId as string | undefined,
-      });
-    case "frame.main":
-      return frameCmd.handleFrameMain({
-        targetId: params.targetId as string | undefined,
-      });
-
-    // Config (v0.6.0)
-    case "config.get":
-      return configCmd.handleConfigGet({ key: String(params.key ?? "") });
-    case "config.set": {
+    },
+  },
+
+  // Data
+  {
+    name: "screenshot",
+    summary: "Screenshot the page or an element",
+    tab: true,
+    params: { ref: optRefParam, path: { type: "string" }, fullPage: { type: "boolean" }, targetId: targetIdParam },
+    handler: (params) => dataCmd.handleScreenshot({
+      ref: params.ref as string | undefined,
+      path: params.path as string | undefined,
+      fullPage: params.fullPage as boolean | undefined,
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+  {
+    name: "evaluate",
+    summary: "Evaluate a JavaScript expression in the page",
+    tab: true,
+    params: { expression: { type: "string", required: true }, targetId: targetIdParam, outputFile: { type: "string" } },
+    handler: (params) => dataCmd.handleEvaluate({
+      expression: String(params.expression),
+      targetId: params.targetId as string | undefined,
+      outputFile: params.outputFile as string | undefined,
+    }),
+  },
+  {
+    name: "text",
+    summary: "Visible text of the page or an element",
+    tab: true,
+    readOnly: true,
+    params: { ref: optRefParam, targetId: targetIdParam, timeoutMs: timeoutParam },
+    handler: (params) => dataCmd.handleText({
+      ref: params.ref as string | undefined,
+      targetId: params.targetId as string | undefined,
+      timeoutMs: params.timeoutMs as number | undefined,
+    }),
+  },
+  {
+    name: "attribute",
+    summary: "Element attribute value",
+    tab: true,
+    readOnly: true,
+    params: { ref: refParam, name: { type: "string", required: true }, targetId: targetIdParam, timeoutMs: timeoutParam },
+    handler: (params) => dataCmd.handleAttribute({
+      ref: String(params.ref),
+      name: String(params.name),
+      targetId: params.targetId as string | undefined,
+      timeoutMs: params.timeoutMs as number | undefined,
+    }),
+  },
+  {
+    name: "cookies",
+    summary: "List cookies",
+    tab: true,
+    readOnly: true,
+    params: { targetId: targetIdParam, url: { type: "string" }, domain: { type: "string" }, name: { type: "string" } },
+    handler: async (params, { workerId }) => dataCmd.handleCookies({
+      targetId: params.targetId as string | undefined,
+      url: params.url as string | undefined,
+      domain: params.domain as string | undefined,
+      name: params.name as string | undefined,
+      contextId: params.targetId ? undefined : await workerContextId(workerId),
+    }),
+  },
+  {
+    name: "set-cookie",
+    summary: "Set a cookie from JSON",
+    tab: true,
+    params: { cookieJson: { type: "string", required: true }, targetId: targetIdParam },
+    handler: async (params, { workerId }) => dataCmd.handleSetCookie({
+      cookieJson: String(params.cookieJson),
+      targetId: params.targetId as string | undefined,
+      contextId: params.targetId ? undefined : await workerContextId(workerId),
+    }),
+  },
+  {
+    name: "clear-cookies",
+    summary: "Clear all cookies",
+    tab: true,
+    params: { targetId: targetIdParam },
+    handler: async (params, { workerId }) => dataCmd.handleClearCookies({
+      targetId: params.targetId as string | undefined,
+      contextId: params.targetId ? undefined : await workerContextId(workerId),
+    }),
+  },
+
+  // Batch
+  {
+    name: "batch",
+    summary: "Run a list of commands sequentially",
+    params: {
+      commands: { type: "array", items: { type: "object" }, required: true },
+      outputFile: { type: "string" },
+    },
+    handler: (params, { signal }) => batchCmd.handleBatch({
+      commands: params.commands as Array<Record<string, unknown>>,
+      outputFile: params.outputFile as string | undefined,
+      signal,
+    }),
+  },
+
+  // Observer (v0.4.0)
+  {
+    name: "console",
+    summary: "Buffered console messages",
+    params: { targetId: targetIdParam, level: { type: "string" }, last: { type: "integer", minimum: 0 }, clear: { type: "boolean" } },
+    handler: (params) => obsCmds.handleConsole({
+      targetId: params.targetId as string | undefined,
+      level: params.level as string | undefined,
+      last: params.last as number | undefined,
+      clear: params.clear as boolean | undefined,
+    }),
+  },
+  {
+    name: "errors",
+    summary: "Buffered page errors",
+    params: { targetId: targetIdParam, last: { type: "integer", minimum: 0 } },
+    handler: (params) => obsCmds.handleErrors({
+      targetId: params.targetId as string | undefined,
+      last: params.last as number | undefined,
+    }),
+  },
+  {
+    name: "requests",
+    summary: "Buffered network requests",
+    params: {
+      targetId: targetIdParam,
+      filter: { type: "string" },
+      urlPattern: { type: "string" },
+      last: { type: "integer", minimum: 0 },
+      method: { type: "string" },
+      statusFilter: { type: "string" },
+      withBody: { type: "boolean" },
+    },
+    handler: (params) => obsCmds.handleRequests({
+      targetId: params.targetId as string | undefined,
+      filter: params.filter as string | undefined,
+      urlPattern: params.urlPattern as string | undefined,
+      last: params.last as number | undefined,
+      method: params.method as string | undefined,
+      statusFilter: params.statusFilter as string | undefined,
+      withBody: params.withBody as boolean | undefined,
+    }),
+  },
+  {
+    name: "observe",
+    summary: "Page health overview (console, errors, network, performance)",
+    params: {
+      targetId: targetIdParam,
+      include: { type: ["string", "array"] },
+      export: { type: "string", description: "Export path (triggers export mode)" },
+      format: { type: "string", enum: ["json", "har"] },
+    },
+    handler: (params) => obsCmds.handleObserve({
+      targetId: params.targetId as string | undefined,
+      include: params.include as string | undefined,
+      export: params.export as string | undefined,
+      format: params.format as string | undefined,
+    }),
+  },
+  {
+    name: "page-info",
+    summary: "Title, URL, viewport and load state",
+    params: { targetId: targetIdParam },
+    handler: (params) => obsCmds.handlePageInfo({
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+
+  // Storage (v0.5.0)
+  {
+    name: "storage.get",
+    summary: "Read a web storage key",
+    tab: true,
+    readOnly: true,
+    params: { key: { type: "string", required: true }, type: storageTypeParam, targetId: targetIdParam },
+    handler: (params) => storageCmd.handleStorageGet({
+      key: String(params.key ?? ""),
+      type: params.type,
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+  {
+    name: "storage.set",
+    summary: "Write a web storage key",
+    tab: true,
+    params: { key: { type: "string", required: true }, value: { type: "string" }, type: storageTypeParam, targetId: targetIdParam },
+    handler: (params) => storageCmd.handleStorageSet({
+      key: String(params.key ?? ""),
+      value: String(params.value ?? ""),
+      type: params.type,
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+  {
+    name: "storage.remove",
+    summary: "Remove a web storage key",
+    tab: true,
+    params: { key: { type: "string", required: true }, type: storageTypeParam, targetId: targetIdParam },
+    handler: (params) => storageCmd.handleStorageRemove({
+      key: String(params.key ?? ""),
+      type: params.type,
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+  {
+    name: "storage.clear",
+    summary: "Clear web storage",
+    tab: true,
+    params: { type: storageTypeParam, targetId: targetIdParam },
+    handler: (params) => storageCmd.handleStorageClear({
+      type: params.type,
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+  {
+    name: "storage.keys",
+    summary: "List web storage keys",
+    tab: true,
+    readOnly: true,
+    params: { type: storageTypeParam, targetId: targetIdParam },
+    handler: (params) => storageCmd.handleStorageKeys({
+      type: params.type,
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+  {
+    name: "storage.dump",
+    summary: "Dump all web storage entries",
+    tab: true,
+    readOnly: true,
+    params: { type: storageTypeParam, targetId: targetIdParam },
+    handler: (params) => storageCmd.handleStorageDump({
+      type: params.type,
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+
+  // Session (v0.5.0)
+  {
+    name: "session.save",
+    summary: "Save cookies and storage as a named session",
+    tab: true,
+    params: { name: { type: "string", required: true }, targetId: targetIdParam },
+    handler: (params) => sessionCmd.handleSessionSave({
+      name: String(params.name ?? ""),
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+  {
+    name: "session.load",
+    summary: "Restore a named session",
+    tab: true,
+    params: { name: { type: "string", required: true }, targetId: targetIdParam },
+    handler: (params) => sessionCmd.handleSessionLoad({
+      name: String(params.name ?? ""),
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+  { name: "session.list", summary: "List saved sessions", handler: (params) => sessionCmd.handleSessionList(params) },
+  {
+    name: "session.delete",
+    summary: "Delete a saved session",
+    params: { name: { type: "string", required: true } },
+    handler: (params) => sessionCmd.handleSessionDelete({ name: String(params.name ?? "") }),
+  },
+  {
+    name: "session.export",
+    summary: "Export a saved session to a file",
+    params: { name: { type: "string", required: true }, outputFile: { type: "string" }, includeSecrets: { type: "boolean" } },
+    handler: (params) => sessionCmd.handleSessionExport({
+      name: String(params.name ?? ""),
+      outputFile: params.outputFile as string | undefined,
+      includeSecrets: params.includeSecrets as boolean | undefined,
+    }),
+  },
+  {
+    name: "session.import",
+    summary: "Import a session file",
+    params: { path: { type: "string", required: true }, name: { type: "string" } },
+    handler: (params) => sessionCmd.handleSessionImport({
+      path: String(params.path ?? ""),
+      name: params.name as string | undefined,
+    }),
+  },
+
+  // Profiles
+  {
+    name: "profile.create",
+    summary: "Create a named, persistent Chrome profile",
+    params: {
+      name: { type: "string", required: true },
+      proxy: { type: "string", description: "Proxy server to launch with (overrides the proxy config key)" },
+      device: { type: "string", description: "Device preset for the first tab on launch" },
+    },
+    handler: (params) => profileCmd.handleProfileCreate({
+      name: String(params.name ?? ""),
+      proxy: params.proxy as string | undefined,
+      device: params.device as string | undefined,
+    }),
+  },
+  { name: "profile.list", summary: "List profiles under profile-root", handler: (params) => profileCmd.handleProfileList(params) },
+  {
+    name: "profile.clone",
+    summary: "Copy a profile, logins included, under a new name",
+    params: { name: { type: "string", required: true }, to: { type: "string", required: true } },
+    handler: (params) => profileCmd.handleProfileClone({ name: String(params.name ?? ""), to: String(params.to ?? "") }),
+  },
+  {
+    name: "profile.delete",
+    summary: "Delete a profile and its user data",
+    params: { name: { type: "string", required: true } },
+    handler: (params) => profileCmd.handleProfileDelete({ name: String(params.name ?? "") }),
+  },
+  {
+    name: "profile.launch",
+    summary: "Launch Chrome with a profile",
+    params: { name: { type: "string", required: true }, ...launchParams },
+    handler: (params) => profileCmd.handleProfileLaunch({
+      name: String(params.name ?? ""),
+      ...launchFlags(params),
+    }),
+  },
+
+  // Route / Network (v0.5.0)
+  {
+    name: "route.block",
+    summary: "Block requests matching a URL pattern",
+    tab: true,
+    params: { pattern: { type: "string", required: true }, targetId: targetIdParam },
+    handler: (params) => networkCmd.handleRouteBlock({
+      pattern: String(params.pattern ?? ""),
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+  {
+    name: "route.mock",
+    summary: "Mock responses for a URL pattern",
+    tab: true,
+    params: {
+      pattern: { type: "string", required: true },
+      body: { type: "string" },
+      status: { type: "integer" },
+      contentType: { type: "string" },
+      targetId: targetIdParam,
+    },
+    handler: (params) => networkCmd.handleRouteMock({
+      pattern: String(params.pattern ?? ""),
+      body: params.body as string | undefined,
+      status: params.status as number | undefined,
+      contentType: params.contentType as string | undefined,
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+  {
+    name: "route.capture",
+    summary: "Capture requests matching a URL pattern",
+    tab: true,
+    params: { pattern: { type: "string", required: true }, targetId: targetIdParam },
+    handler: (params) => networkCmd.handleRouteCapture({
+      pattern: String(params.pattern ?? ""),
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+  {
+    name: "route.list",
+    summary: "List active route rules",
+    params: { targetId: targetIdParam },
+    handler: (params) => networkCmd.handleRouteList({
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+  {
+    name: "route.remove",
+    summary: "Remove a route rule",
+    tab: true,
+    params: { ruleId: { type: "string", required: true }, targetId: targetIdParam },
+    handler: (params) => networkCmd.handleRouteRemove({
+      ruleId: String(params.ruleId ?? ""),
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+  {
+    name: "route.clear",
+    summary: "Remove all route rules",
+    tab: true,
+    params: { targetId: targetIdParam },
+    handler: (params) => networkCmd.handleRouteClear({
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+  {
+    name: "route.captured",
+    summary: "Requests captured by route.capture",
+    tab: true,
+    readOnly: true,
+    params: { pattern: { type: "string" }, targetId: targetIdParam },
+    handler: (params) => networkCmd.handleRouteCaptured({
+      pattern: params.pattern as string | undefined,
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+
+  // Frame (v0.5.0)
+  {
+    name: "frame.list",
+    summary: "List frames in the tab",
+    tab: true,
+    readOnly: true,
+    params: { targetId: targetIdParam },
+    handler: (params) => frameCmd.handleFrameList({
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+  {
+    name: "frame.switch",
+    summary: "Target a child frame by name",
+    tab: true,
+    params: { name: { type: "string", required: true }, targetId: targetIdParam },
+    handler: (params) => frameCmd.handleFrameSwitch({
+      name: String(params.name ?? ""),
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+  {
+    name: "frame.main",
+    summary: "Target the main frame again",
+    tab: true,
+    params: { targetId: targetIdParam },
+    handler: (params) => frameCmd.handleFrameMain({
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+
+  // Config (v0.6.0)
+  {
+    name: "config.get",
+    summary: "Read a config value",
+    params: { key: { type: "string", required: true } },
+    handler: (params) => configCmd.handleConfigGet({ key: String(params.key ?? "") }),
+  },
+  {
+    name: "config.set",
+    summary: "Write a config value",
+    params: { key: { type: "string", required: true }, value: { type: ["string", "number", "boolean"] } },
+    handler: async (params) => {
       const cfgKey = String(params.key ?? "");
       const cfgVal = String(params.value ?? "");
       const result = await configCmd.handleConfigSet({ key: cfgKey, value: cfgVal });
-      // Apply in-memory side effects for keys that need runtime state
-      if (cfgKey === "network-body-max-kb") {
-        setNetworkBodyMaxKb(Number(cfgVal));
-      }
+      await applyRuntimeConfig();
+      return RESTART_REQUIRED_KEYS.has(cfgKey as ConfigKey)
+        ? { ...result, restart_required: true }
+        : result;
+    },
+  },
+  { name: "config.list", summary: "All config values", handler: () => configCmd.handleConfigList() },
+  {
+    name: "config.reset",
+    summary: "Reset config to defaults",
+    handler: async () => {
+      const result = await configCmd.handleConfigReset();
+      await applyRuntimeConfig();
       return result;
-    }
-    case "config.list":
-      return configCmd.handleConfigList();
-    case "config.reset":
-      return configCmd.handleConfigReset();
-
-    // Find (v0.8.0 FM-6)
-    case "find.role":
-      return findCmds.handleFindRole({
-        value: String(params.value ?? ""),
-        name: params.name as string | undefined,
-        exact: params.exact as boolean | undefined,
-        action: params.action as FindAction | undefined,
-        actionArg: params.actionArg as string | undefined,
-        targetId: params.targetId as string | undefined,
-        timeoutMs: params.timeoutMs as number | undefined,
-      });
-    case "find.text":
-      return findCmds.handleFindText({
-        value: String(params.value ?? ""),
-        exact: params.exact as boolean | undefined,
-        action: params.action as FindAction | undefined,
-        actionArg: params.actionArg as string | undefined,
-        targetId: params.targetId as string | undefined,
-        timeoutMs: params.timeoutMs as number | undefined,
-      });
-    case "find.label":
-      return findCmds.handleFindLabel({
-        value: String(params.value ?? ""),
-        exact: params.exact as boolean | undefined,
-        action: params.action as FindAction | undefined,
-        actionArg: params.actionArg as string | undefined,
-        targetId: params.targetId as string | undefined,
-        timeoutMs: params.timeoutMs as number | undefined,
-      });
-    case "find.placeholder":
-      return findCmds.handleFindPlaceholder({
-        value: String(params.value ?? ""),
-        exact: params.exact as boolean | undefined,
-        action: params.action as FindAction | undefined,
-        actionArg: params.actionArg as string | undefined,
-        targetId: params.targetId as string | undefined,
-        timeoutMs: params.timeoutMs as number | undefined,
-      });
-    case "find.testid":
-      return findCmds.handleFindTestid({
-        value: String(params.value ?? ""),
-        action: params.action as FindAction | undefined,
-        actionArg: params.actionArg as string | undefined,
-        targetId: params.targetId as string | undefined,
-        timeoutMs: params.timeoutMs as number | undefined,
-      });
+    },
+  },
+
+  // Find (v0.8.0 FM-6)
+  {
+    name: "find.role",
+    summary: "Find an element by ARIA role (and act on it)",
+    tab: true,
+    params: { ...findParams, name: { type: "string", description: "Accessible name" }, exact: { type: "boolean" } },
+    handler: (params) => findCmds.handleFindRole({
+      value: String(params.value ?? ""),
+      name: params.name as string | undefined,
+      exact: params.exact as boolean | undefined,
+      action: params.action as FindAction | undefined,
+      actionArg: params.actionArg as string | undefined,
+      targetId: params.targetId as string | undefined,
+      timeoutMs: params.timeoutMs as number | undefined,
+    }),
+  },
+  {
+    name: "find.text",
+    summary: "Find an element by text (and act on it)",
+    tab: true,
+    params: { ...findParams, exact: { type: "boolean" } },
+    handler: (params) => findCmds.handleFindText({
+      value: String(params.value ?? ""),
+      exact: params.exact as boolean | undefined,
+      action: params.action as FindAction | undefined,
+      actionArg: params.actionArg as string | undefined,
+      targetId: params.targetId as string | undefined,
+      timeoutMs: params.timeoutMs as number | undefined,
+    }),
+  },
+  {
+    name: "find.label",
+    summary: "Find an element by label (and act on it)",
+    tab: true,
+    params: { ...findParams, exact: { type: "boolean" } },
+    handler: (params) => findCmds.handleFindLabel({
+      value: String(params.value ?? ""),
+      exact: params.exact as boolean | undefined,
+      action: params.action as FindAction | undefined,
+      actionArg: params.actionArg as string | undefined,
+      targetId: params.targetId as string | undefined,
+      timeoutMs: params.timeoutMs as number | undefined,
+    }),
+  },
+  {
+    name: "find.placeholder",
+    summary: "Find an element by placeholder (and act on it)",
+    tab: true,
+    params: { ...findParams, exact: { type: "boolean" } },
+    handler: (params) => findCmds.handleFindPlaceholder({
+      value: String(params.value ?? ""),
+      exact: params.exact as boolean | undefined,
+      action: params.action as FindAction | undefined,
+      actionArg: params.actionArg as string | undefined,
+      targetId: params.targetId as string | undefined,
+      timeoutMs: params.timeoutMs as number | undefined,
+    }),
+  },
+  {
+    name: "find.testid",
+    summary: "Find an element by data-testid (and act on it)",
+    tab: true,
+    params: findParams,
+    handler: (params) => findCmds.handleFindTestid({
+      value: String(params.value ?? ""),
+      action: params.action as FindAction | undefined,
+      actionArg: params.actionArg as string | undefined,
+      targetId: params.targetId as string | undefined,
+      timeoutMs: params.timeoutMs as number | undefined,
+    }),
+  },
+
+  // Highlight (v0.9.0 FM-4)
+  {
+    name: "highlight",
+    summary: "Outline an element on screen",
+    tab: true,
+    params: { ref: refParam, color: { type: "string" }, duration: { type: "integer", minimum: 0 }, targetId: targetIdParam },
+    handler: (params) => highlightCmd.handleHighlight({
+      ref: String(params.ref ?? ""),
+      color: params.color as string | undefined,
+      duration: params.duration as number | undefined,
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+
+  // Emulation (v1.0.0)
+  {
+    name: "set.device",
+    summary: "Emulate a device preset",
+    tab: true,
+    params: { device: { type: "string", required: true }, targetId: targetIdParam },
+    handler: (params) => emulationCmd.handleSetDevice({
+      device: String(params.device ?? ""),
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+  {
+    name: "set.viewport",
+    summary: "Set or reset the viewport size",
+    tab: true,
+    params: { width: { type: "integer", minimum: 1 }, height: { type: "integer", minimum: 1 }, reset: { type: "boolean" }, targetId: targetIdParam },
+    handler: (params) => emulationCmd.handleSetViewport({
+      width: params.width as number | undefined,
+      height: params.height as number | undefined,
+      reset: params.reset as boolean | undefined,
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+  {
+    name: "set.geo",
+    summary: "Set or reset geolocation",
+    tab: true,
+    params: {
+      latitude: { type: "number" },
+      longitude: { type: "number" },
+      accuracy: { type: "number", minimum: 0 },
+      reset: { type: "boolean" },
+      targetId: targetIdParam,
+    },
+    handler: (params) => emulationCmd.handleSetGeo({
+      latitude: params.latitude as number | undefined,
+      longitude: params.longitude as number | undefined,
+      accuracy: params.accuracy as number | undefined,
+      reset: params.reset as boolean | undefined,
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+  {
+    name: "set.headers",
+    summary: "Set or reset extra HTTP headers",
+    tab: true,
+    params: { headersJson: { type: "string" }, reset: { type: "boolean" }, targetId: targetIdParam },
+    handler: (params) => emulationCmd.handleSetHeaders({
+      headersJson: params.headersJson as string | undefined,
+      reset: params.reset as boolean | undefined,
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+
+  // PDF (v1.0.0)
+  {
+    name: "pdf",
+    summary: "Save the page as PDF",
+    tab: true,
+    params: { path: { type: "string" }, fullPage: { type: "boolean" }, landscape: { type: "boolean" }, targetId: targetIdParam },
+    handler: (params) => pdfCmd.handlePdf({
+      path: params.path as string | undefined,
+      fullPage: params.fullPage as boolean | undefined,
+      landscape: params.landscape as boolean | undefined,
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+
+  // Recording (v1.0.0)
+  {
+    name: "record.start",
+    summary: "Start screencast recording",
+    tab: true,
+    params: {
+      path: { type: "string" },
+      fps: { type: "integer", minimum: 1 },
+      quality: { type: "integer", minimum: 0 },
+      maxFrames: { type: "integer", minimum: 1 },
+      targetId: targetIdParam,
+    },
+    handler: (params) => recordingCmd.handleRecordStart({
+      path: params.path as string | undefined,
+      fps: params.fps as number | undefined,
+      quality: params.quality as number | undefined,
+      maxFrames: params.maxFrames as number | undefined,
+      targetId: params.targetId as string | undefined,
+    }),
+  },
+  { name: "record.stop", summary: "Stop recording and write frames", tab: true, handler: () => recordingCmd.handleRecordStop() },
+  { name: "record.status", summary: "Recording status", tab: true, readOnly: true, handler: () => recordingCmd.handleRecordStatus() },
+
+  // Server-push events
+  {
+    name: "subscribe",
+    summary: "Stream events to this connection as notifications",
+    params: { include: { type: ["string", "array"], description: "Channels (default: all)" }, targetId: targetIdParam },
+    handler: (params, { conn }) => subscribeConnection(conn, params),
+  },
+  {
+    name: "unsubscribe",
+    summary: "Stop one or all event subscriptions",
+    params: { subscription: { type: "string" } },
+    handler: (params, { conn }) => unsubscribeConnection(conn, params.subscription as string | undefined),
+  },
+
+  // Daemon management
+  {
+    name: "daemon.hello",
+    summary: "Version handshake: package version, protocol version, build and supported methods",
+    params: {
+      clientVersion: { type: "string", description: "Caller's package version (informational)" },
+      clientProtocol: { type: "integer", description: "Caller's protocol version (informational)" },
+    },
+    handler: (): DaemonHello & { ok: true } => ({
+      ok: true,
+      name: "jarvis-browser",
+      version: PACKAGE_VERSION,
+      protocol: PROTOCOL_VERSION,
+      build_id: BUILD_ID,
+      pid: process.pid,
+      methods: registry.list().map((m) => m.name).sort(),
+    }),
+  },
+  { name: "daemon.status", summary: "Daemon pid, uptime and socket", handler: () => getDaemonStatus() },
+  { name: "daemon.health", summary: "Daemon, Chrome and buffer health", handler: () => getDaemonHealth() },
+  {
+    name: "daemon.metrics",
+    summary: "Per-method request counts, errors and latency histograms",
+    params: { format: { type: "string", enum: ["json", "prometheus"], description: "Output format (default: json)" } },
+    handler: async (params) => {
+      if (params.format === "prometheus") {
+        return { ok: true, format: "prometheus", text: await renderPrometheus() };
+      }
+      return { ok: true, ...globalMetrics.snapshot(), gauges: await collectGauges() };
+    },
+  },
+  {
+    name: "daemon.state",
+    summary: "State the journal would persist (save: write it now, even with state-journal off)",
+    params: { save: { type: "boolean", description: "Write the journal file now (used by daemon restart)" } },
+    handler: async (params) => {
+      const state = params.save ? await stateJournal.save() : collectDaemonState();
+      return {
+        ok: true,
+        path: stateJournal.path,
+        enabled: stateJournal.isEnabled,
+        saved: params.save === true,
+        state,
+        ...(_restore.last ? { restored: _restore.last } : {}),
+      };
+    },
+  },
+  {
+    name: "daemon.stop",
+    summary: "Shut the daemon down",
+    handler: () => {
+      // Signal shutdown after sending response
+      setImmediate(() => _idle.callback?.());
+      return { ok: true, message: "Daemon shutting down" };
+    },
+  },
+
+  // Worker policies
+  {
+    name: "policy.show",
+    summary: "Loaded worker policy and the rules that apply to a worker",
+    params: { worker: { type: "string", description: "Worker to evaluate (default: the caller's workerId)" } },
+    handler: (params, { workerId }) => {
+      const worker = (params.worker as string | undefined) ?? workerId;
+      const { path, policy, error } = workerPolicies.describe();
+      const effective = workerPolicies.effective(worker);
+      return {
+        ok: true,
+        path: path || null,
+        ...(error ? { error } : {}),
+        effective,
+        ...(effective.allow_urls || effective.deny_urls ? { url_rules: URL_RULES_SCOPE } : {}),
+        policy,
+      };
+    },
+  },
+
+  // Remote transport authentication (connections start authenticated on the Unix socket)
+  {
+    name: "auth",
+    summary: "Authenticate a TCP/WebSocket connection with the daemon bearer token",
+    params: { token: { type: "string", required: true } },
+    handler: () => ({ ok: true, authenticated: true }),
+  },
+
+  // Discovery
+  {
+    name: "rpc.discover",
+    summary: "OpenRPC document describing every method",
+    handler: () => toOpenRpc(registry, DISCOVERY_INFO),
+  },
+]);
+
+/** Methods subject to tab ownership checks (derived from the registry). */
+const tabOps = registry.tabMethods();
+
+/** Mutating tab methods — serialized per targetId so refs and page state don't race. */
+const serializedOps = registry.serializedMethods();
+
+/** Read-only view of the method registry (for discovery and tooling). */
+export function getMethodRegistry(): MethodRegistry<MethodContext> {
+  return registry;
+}
 
-    // Highlight (v0.9.0 FM-4)
-    case "highlight":
-      return highlightCmd.handleHighlight({
-        ref: String(params.ref ?? ""),
-        color: params.color as string | undefined,
-        duration: params.duration as number | undefined,
-        targetId: params.targetId as string | undefined,
-      });
+// --- Request routing ---
 
-    // Emulation (v1.0.0)
-    case "set.device":
-      return emulationCmd.handleSetDevice({
-        device: String(params.device ?? ""),
-        targetId: params.targetId as string | undefined,
-      });
-    case "set.viewport":
-      return emulationCmd.handleSetViewport({
-        width: params.width as number | undefined,
-        height: params.height as number | undefined,
-        reset: params.reset as boolean | undefined,
-        targetId: params.targetId as string | undefined,
-      });
-    case "set.geo":
-      return emulationCmd.handleSetGeo({
-        latitude: params.latitude as number | undefined,
-        longitude: params.longitude as number | undefined,
-        accuracy: params.accuracy as number | undefined,
-        reset: params.reset as boolean | undefined,
-        targetId: params.targetId as string | undefined,
-      });
-    case "set.headers":
-      return emulationCmd.handleSetHeaders({
-        headersJson: params.headersJson as string | undefined,
-        reset: params.reset as boolean | undefined,
-        targetId: params.targetId as string | undefined,
-      });
+async function routeRequest(req: RpcRequest, conn: ConnState, signal: AbortSignal): Promise<unknown> {
+  const raw = (req.params ?? {}) as Params;
+  // A crashed tab's targetId keeps working: it names the tab that replaced it
+  const params = typeof raw.targetId === "string" ? { ...raw, targetId: resolveTargetAlias(raw.targetId) } : raw;
+  const workerId = getWorkerId(params);
+  const targetId = params.targetId as string | undefined;
 
-    // PDF (v1.0.0)
-    case "pdf":
-      return pdfCmd.handlePdf({
-        path: params.path as string | undefined,
-        fullPage: params.fullPage as boolean | undefined,
-        landscape: params.landscape as boolean | undefined,
-        targetId: params.targetId as string | undefined,
-      });
+  const spec = registry.get(req.method);
+  if (!spec) {
+    throw Object.assign(new Error(`Unknown method: ${req.method}`), {
+      rpcCode: ERROR_CODES.METHOD_NOT_FOUND,
+    });
+  }
 
-    // Recording (v1.0.0)
-    case "record.start":
-      return recordingCmd.handleRecordStart({
-        path: params.path as string | undefined,
-        fps: params.fps as number | undefined,
-        quality: params.quality as number | undefined,
-        maxFrames: params.maxFrames as number | undefined,
-        targetId: params.targetId as string | undefined,
-      });
-    case "record.stop":
-      return recordingCmd.handleRecordStop();
-    case "record.status":
-      return recordingCmd.handleRecordStatus();
-
-    // Daemon management
-    case "daemon.status":
-      return getDaemonStatus();
-    case "daemon.health":
-      return getDaemonHealth();
-    case "daemon.stop":
-      // Signal shutdown after sending response
-      setImmediate(() => _idle.callback?.());
-      return { ok: true, message: "Daemon shutting down" };
+  const issues = validateParams(spec.params, params);
+  if (issues.length > 0) throw invalidParamsError(req.method, issues);
 
-    default:
-      throw Object.assign(new Error(`Unknown method: ${req.method}`), {
-        rpcCode: ERROR_CODES.METHOD_NOT_FOUND,
-      });
+  workerPolicies.check(workerId, req.method, params);
+
+  // Tab ownership check for tab-specific operations
+  let endTabUse: (() => void) | undefined;
+  if (tabOps.has(req.method) && targetId) {
+    const ownerError = checkTabOwnership(targetId, workerId);
+    if (ownerError) {
+      throw Object.assign(new Error(ownerError), { rpcCode: ERROR_CODES.TAB_OWNED_BY_OTHER });
+    }
+    // Using a tab you own counts as a heartbeat, and the lease can't lapse mid-call
+    endTabUse = tabLeases.use(targetId, workerId);
   }
+
+  const ctx: MethodContext = { conn, signal, workerId };
+  let result: unknown;
+  try {
+    if (serializedOps.has(req.method)) {
+      // Calls without a targetId act on the active tab: queue them with calls that name it
+      // ("" only when there is no tab to resolve yet)
+      const queueKey = targetId ?? (await getActiveTargetId()) ?? "";
+      // Tabs opened while queued behind another call are that call's, not this one's
+      let startedAt = 0;
+      const raw = await globalTabQueue.run(queueKey, () => {
+        startedAt = Date.now();
+        return spec.handler(params, ctx);
+      }, signal);
+      result = withTabChanges(raw, startedAt, targetId, queueKey || undefined);
+    } else {
+      result = await spec.handler(params, ctx);
+    }
+  } finally {
+    endTabUse?.();
+  }
+  if (JOURNALED_METHODS.has(req.method)) stateJournal.markDirty();
+  return result;
 }
 
 // --- Daemon introspection ---
@@ -741,13 +2063,22 @@ function getDaemonStatus(): object {
   return {
     ok: true,
     pid: process.pid,
+    version: PACKAGE_VERSION,
+    protocol: PROTOCOL_VERSION,
     uptime_s: Math.floor((Date.now() - daemonStartTime) / 1000),
     socket: getSocketPath(),
+    ...(_remote.listeners?.tcpUrl ? { tcp: _remote.listeners.tcpUrl } : {}),
+    ...(_remote.listeners?.wsUrl ? { ws: _remote.listeners.wsUrl } : {}),
+    ...(_metricsHttp.server ? { metrics: _metricsHttp.server.url } : {}),
+    ...(stateJournal.isEnabled ? { state_journal: stateJournal.path } : {}),
+    ...(_restore.last ? { restored: _restore.last } : {}),
   };
 }
 
-function getDaemonHealth(): object {
+async function getDaemonHealth(): Promise<object> {
   const used = process.memoryUsage();
+  const buffers = globalObserver.getBufferStats();
+  const metrics = globalMetrics.snapshot();
   return {
     daemon: {
       pid: process.pid,
@@ -756,22 +2087,179 @@ function getDaemonHealth(): object {
     },
     chrome: {
       connected: _chrome.connected,
-      tabs: 0,       // Phase 2: populated by observer
+      tabs: getOpenPageCount(),
       cdp_url: _chrome.cdpUrl,
+      memory: await getChromeMemory().catch(() => null),
+      supervision: globalSupervisor.stats(),
+    },
+    buffers: {
+      observed_tabs: buffers.tabs,
+      console: buffers.console,
+      errors: buffers.errors,
+      network: buffers.network,
+      routes: globalNetwork.totalRules,
     },
-    buffers: { console: 0, network: 0, routes: 0 }, // Phase 2 stubs
-    refs: { cached_targets: 0, total_refs: 0 },      // Phase 2 stubs
+    refs: getRefCacheStats(),
     tabs: {
-      owned: tabOwnership.size,
+      owned: tabLeases.size,
     },
+    page_resolution: getPageResolutionStats(),
+    requests: {
+      total: metrics.requests_total,
+      errors: metrics.errors_total,
+      errors_by_code: metrics.errors_by_code,
+    },
+    tab_queue: globalTabQueue.getStats(),
     retry_stats: getRetryStats(),
   };
 }
 
+/** Point-in-time gauges for daemon.metrics and /metrics. */
+async function collectGauges(): Promise<Gauges> {
+  const buffers = globalObserver.getBufferStats();
+  const refs = getRefCacheStats();
+  const resolution = getPageResolutionStats();
+  const chromeMemory = await getChromeMemory().catch(() => null);
+  return {
+    uptime_seconds: Math.floor((Date.now() - daemonStartTime) / 1000),
+    daemon_memory_bytes: process.memoryUsage().rss,
+    chrome_connected: _chrome.connected ? 1 : 0,
+    chrome_tabs: getOpenPageCount(),
+    chrome_processes: chromeMemory?.processes,
+    chrome_memory_bytes: chromeMemory?.rss_mb != null ? chromeMemory.rss_mb * 1024 * 1024 : null,
+    tabs_leased: tabLeases.size,
+    buffered_console_entries: buffers.console,
+    buffered_error_entries: buffers.errors,
+    buffered_network_entries: buffers.network,
+    route_rules: globalNetwork.totalRules,
+    ref_cached_targets: refs.cached_targets,
+    ref_total_refs: refs.total_refs,
+    page_index_size: resolution.indexed_pages,
+    page_resolution_cache_hits: resolution.cache_hits,
+    page_resolution_cdp_fallbacks: resolution.cdp_fallbacks,
+    page_resolution_avg_ms: resolution.avg_ms,
+    tab_queue_waiting: globalTabQueue.getStats().waiting,
+  };
+}
+
+async function renderPrometheus(): Promise<string> {
+  return toPrometheus(globalMetrics.snapshot(), await collectGauges());
+}
+
 // --- Server lifecycle ---
 
 const _srv: { instance: net.Server | null } = { instance: null };
 
+// Optional TCP/WebSocket listeners and the token they require
+// Remote peers that have not authenticated within this long are disconnected
+const AUTH_TIMEOUT_MS = 10_000;
+
+const _remote: { listeners: RemoteListeners | null; token: string; authTimeoutMs: number } = {
+  listeners: null, token: "", authTimeoutMs: AUTH_TIMEOUT_MS,
+};
+
+/** Start the TCP and/or WebSocket listeners, feeding connections into the same handler as the Unix socket. */
+export async function startRemoteServer(
+  opts: RemoteListenerOptions & { authTimeoutMs?: number },
+): Promise<RemoteListeners> {
+  if (_remote.listeners) throw new Error("Remote listeners are already running");
+  _remote.authTimeoutMs = opts.authTimeoutMs ?? AUTH_TIMEOUT_MS;
+  const listeners = await startRemoteListeners(opts, (stream, info) => {
+    handleConnection(stream, info.authenticated);
+  });
+  _remote.listeners = listeners;
+  _remote.token = opts.token;
+  return listeners;
+}
+
+export async function stopRemoteServer(): Promise<void> {
+  if (!_remote.listeners) return;
+  await _remote.listeners.close();
+  _remote.listeners = null;
+  _remote.token = "";
+}
+
+async function startRemoteFromConfig(): Promise<void> {
+  const config = await readConfig();
+  const tcpPort = config["daemon-tcp-port"];
+  const wsPort = config["daemon-ws-port"];
+  if (tcpPort <= 0 && wsPort <= 0) return;
+
+  const token = resolveAuthToken(config["daemon-auth-token"]);
+  if (!token) {
+    process.stderr.write(
+      "[jarvis-daemon] daemon-tcp-port/daemon-ws-port set but no auth token " +
+      "(daemon-auth-token or JARVIS_DAEMON_TOKEN) — remote listeners disabled.\n",
+    );
+    return;
+  }
+
+  const listeners = await startRemoteServer({
+    host: config["daemon-bind-host"],
+    tcpPort: tcpPort > 0 ? tcpPort : undefined,
+    wsPort: wsPort > 0 ? wsPort : undefined,
+    token,
+    tlsCert: config["daemon-tls-cert"] || undefined,
+    tlsKey: config["daemon-tls-key"] || undefined,
+  });
+  for (const url of [listeners.tcpUrl, listeners.wsUrl]) {
+    if (url) process.stderr.write(`[jarvis-daemon] Listening on ${url}\n`);
+  }
+}
+
+// Optional audit log (audit-log config key)
+const _audit: { log: AuditLog | null; redactSessionNames: boolean } = { log: null, redactSessionNames: false };
+
+/** Enable (or with null, disable) the audit log. Pending entries of a replaced log are flushed first. */
+export async function configureAuditLog(opts: AuditOptions | null): Promise<void> {
+  await _audit.log?.flush();
+  _audit.log = opts ? new AuditLog(opts) : null;
+  _audit.redactSessionNames = opts?.redactSessionNames ?? false;
+}
+
+/** Resolves once every queued audit entry is on disk. */
+export async function flushAuditLog(): Promise<void> {
+  await _audit.log?.flush();
+}
+
+function auditRequest(req: RpcRequest, durationMs: number, error?: { code: number; message: string }): void {
+  if (!_audit.log) return;
+  const params = (req.params ?? {}) as Params;
+  _audit.log.record({
+    ts: new Date().toISOString(),
+    worker: getWorkerId(params),
+    method: req.method,
+    params: redactParams(req.method, params, { redactSessionNames: _audit.redactSessionNames }),
+    status: error ? "error" : "ok",
+    duration_ms: Math.round(durationMs),
+    ...(error ? { error_code: error.code, error: error.message } : {}),
+  });
+}
+
+// Optional Prometheus /metrics endpoint
+const _metricsHttp: { server: MetricsServer | null } = { server: null };
+
+/** Serve GET /metrics over HTTP (port 0 = ephemeral). */
+export async function startMetricsEndpoint(host: string, port: number): Promise<MetricsServer> {
+  if (_metricsHttp.server) throw new Error("Metrics endpoint is already running");
+  _metricsHttp.server = await startMetricsServer(host, port, renderPrometheus);
+  return _metricsHttp.server;
+}
+
+export async function stopMetricsEndpoint(): Promise<void> {
+  if (!_metricsHttp.server) return;
+  await _metricsHttp.server.close();
+  _metricsHttp.server = null;
+}
+
+async function startMetricsFromConfig(): Promise<void> {
+  const config = await readConfig();
+  const port = config["daemon-metrics-port"];
+  if (port <= 0) return;
+  const server = await startMetricsEndpoint(config["daemon-bind-host"], port);
+  process.stderr.write(`[jarvis-daemon] Metrics on ${server.url}\n`);
+}
+
 export async function startServer(): Promise<void> {
   const socketPath = getSocketPath();
 
@@ -803,7 +2291,14 @@ export async function startServer(): Promise<void> {
   });
 
   resetIdleTimer();
+  _leaseSweep.timer = setInterval(() => { void sweepExpiredLeases(); }, LEASE_SWEEP_INTERVAL_MS);
+  _leaseSweep.timer.unref();
   process.stderr.write(`[jarvis-daemon] Listening on ${socketPath}\n`);
+
+  await applyRuntimeConfig();
+  configApplier.watch();
+  await startRemoteFromConfig();
+  await startMetricsFromConfig();
 }
 
 export async function stopServer(): Promise<void> {
@@ -811,6 +2306,17 @@ export async function stopServer(): Promise<void> {
     clearTimeout(_idle.timer);
     _idle.timer = null;
   }
+  if (_leaseSweep.timer) {
+    clearInterval(_leaseSweep.timer);
+    _leaseSweep.timer = null;
+  }
+  await stopRemoteServer();
+  await stopMetricsEndpoint();
+  configApplier.unwatch();
+  configApplier.reset();
+  workerPolicies.set(null);
+  await configureAuditLog(null);
+  await stateJournal.flush();
   if (!_srv.instance) return;
   const srv = _srv.instance;
   await new Promise<void>((resolve) => srv.close(() => resolve()));
@@ -822,8 +2328,25 @@ export async function stopServer(): Promise<void> {
 
 // --- Per-connection handling ---
 
-function handleConnection(socket: net.Socket): void {
-  const conn = { buffer: "" };
+// Longest line (in characters) a client may send; an unauthenticated peer only gets
+// room for an auth request. Exceeding it drops the connection.
+const MAX_LINE_LENGTH = 64 * 1024 * 1024;
+const MAX_PRE_AUTH_LINE_LENGTH = 4 * 1024;
+
+function handleConnection(socket: Duplex, authenticated = true): void {
+  const conn: ConnState = {
+    socket,
+    buffer: "",
+    authenticated,
+    subscriptions: new Map(),
+    inflight: new Map(),
+  };
+
+  const authTimer = authenticated ? null : setTimeout(() => {
+    writeFrame(conn, makeErrorResponse(null, ERROR_CODES.UNAUTHORIZED, "Authentication timed out"));
+    socket.destroy();
+  }, _remote.authTimeoutMs);
+  authTimer?.unref();
 
   socket.on("data", (chunk: Buffer) => {
     conn.buffer += chunk.toString("utf-8");
@@ -832,45 +2355,221 @@ function handleConnection(socket: net.Socket): void {
       if (newlineIdx === -1) break;
       const line = conn.buffer.slice(0, newlineIdx);
       conn.buffer = conn.buffer.slice(newlineIdx + 1);
-      if (line.trim()) processLine(socket, line);
+      if (line.trim()) processLine(conn, line);
+      // A rejected peer's remaining lines are not read
+      if (!conn.authenticated && !socket.writable) return;
+    }
+    if (conn.authenticated && authTimer) clearTimeout(authTimer);
+    if (conn.buffer.length > (conn.authenticated ? MAX_LINE_LENGTH : MAX_PRE_AUTH_LINE_LENGTH)) {
+      conn.buffer = "";
+      socket.destroy();
     }
   });
 
+  socket.on("close", () => {
+    if (authTimer) clearTimeout(authTimer);
+    unsubscribeConnection(conn);
+    // Nobody is left to read the replies — stop in-flight work
+    for (const ctrl of conn.inflight.values()) ctrl.abort(cancelledError("client disconnected"));
+    conn.inflight.clear();
+  });
   socket.on("error", () => { /* ignore client disconnect errors */ });
 }
 
-function processLine(socket: net.Socket, line: string): void {
-  resetIdleTimer();
+// --- Cancellation and deadlines ---
+
+function cancelledError(reason: string): Error {
+  return Object.assign(new Error(`Request cancelled: ${reason}`), {
+    rpcCode: ERROR_CODES.REQUEST_CANCELLED,
+  });
+}
+
+function deadlineError(deadlineMs: number): Error {
+  return Object.assign(new Error(`Deadline of ${deadlineMs}ms exceeded`), {
+    rpcCode: ERROR_CODES.TIMEOUT,
+  });
+}
+
+/** Settles with the work's outcome, or rejects with signal.reason as soon as the signal aborts. */
+function withAbort<T>(work: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    work.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+function handleNotification(conn: ConnState, note: RpcNotification): void {
+  if (note.method === "$/cancel") {
+    const id = note.params?.id as number | string | undefined;
+    if (id === undefined) return;
+    conn.inflight.get(id)?.abort(cancelledError(`$/cancel for id ${id}`));
+  }
+  // Other "$/" notifications (including $/batch outside a batch) are optional — ignore them
+}
+
+function writeFrame(conn: ConnState, payload: unknown): void {
+  if (!conn.socket.destroyed) conn.socket.write(JSON.stringify(payload) + "\n");
+}
+
+/** Run one request with cancellation and deadline support. Always resolves to a response. */
+async function executeRequest(
+  conn: ConnState,
+  req: RpcRequest,
+  inflightKey: number | string | symbol = req.id,
+): Promise<RpcResponse> {
+  // Per-request abort: $/cancel, socket close, or optional deadlineMs
+  const ctrl = new AbortController();
+  conn.inflight.set(inflightKey, ctrl);
+  const deadlineMs = Number(req.params?.deadlineMs ?? 0);
+  const deadlineTimer = deadlineMs > 0
+    ? setTimeout(() => ctrl.abort(deadlineError(deadlineMs)), deadlineMs)
+    : null;
+  const startedAt = performance.now();
+  // Unknown method names are bucketed together to keep metric labels bounded
+  const metricName = registry.get(req.method) ? req.method : "(unknown)";
+
+  try {
+    const result = await withAbort(routeRequest(req, conn, ctrl.signal), ctrl.signal);
+    const durationMs = performance.now() - startedAt;
+    globalMetrics.record(metricName, durationMs);
+    auditRequest(req, durationMs);
+    return makeResponse(req.id, result);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    const code = (err instanceof Error && "rpcCode" in err)
+      ? (err as NodeJS.ErrnoException & { rpcCode: number }).rpcCode
+      : ERROR_CODES.ACTION_FAILED;
+    const data = err instanceof Error && "rpcData" in err ? (err as { rpcData: unknown }).rpcData : undefined;
+    const durationMs = performance.now() - startedAt;
+    globalMetrics.record(metricName, durationMs, code);
+    auditRequest(req, durationMs, { code, message });
+    return makeErrorResponse(req.id, code, message, data);
+  } finally {
+    if (deadlineTimer) clearTimeout(deadlineTimer);
+    if (conn.inflight.get(inflightKey) === ctrl) conn.inflight.delete(inflightKey);
+  }
+}
+
+/**
+ * Run (and audit) a plain notification and discard the outcome. It has no id, so it is
+ * tracked under a key of its own: $/cancel can't reach it and it never collides with a request.
+ */
+async function executeNotification(conn: ConnState, note: RpcNotification): Promise<void> {
+  await executeRequest(conn, { ...note, id: "" }, Symbol(note.method));
+}
+
+// --- Remote authentication ---
+
+/** Only `auth` is accepted before authentication; anything else (or a bad token) closes the connection. */
+function authenticateConnection(conn: ConnState, msg: unknown): void {
+  const req = validateRequest(msg);
+  if (req?.method === METHODS.AUTH && tokensMatch(_remote.token, req.params?.token)) {
+    conn.authenticated = true;
+    writeFrame(conn, makeResponse(req.id, { ok: true, authenticated: true }));
+    return;
+  }
+  const message = req?.method === METHODS.AUTH
+    ? "Invalid auth token"
+    : `Authentication required: send {"method":"auth","params":{"token":...}} first`;
+  writeFrame(conn, makeErrorResponse(req?.id ?? null, ERROR_CODES.UNAUTHORIZED, message));
+  conn.socket.end();
+}
+
+// --- JSON-RPC batch arrays ---
+
+/** `{"jsonrpc":"2.0","method":"$/batch","params":{"parallel":true}}` inside a batch opts into parallel mode. */
+function isParallelDirective(item: unknown): boolean {
+  const note = validateNotification(item);
+  return note?.method === METHODS.BATCH_MODE && note.params?.parallel === true;
+}
+
+/** Handle one batch entry. Returns null for notifications (they get no response entry). */
+async function executeBatchItem(conn: ConnState, item: unknown): Promise<RpcResponse | null> {
+  const note = validateNotification(item);
+  if (note) {
+    if (note.method.startsWith("$/")) {
+      handleNotification(conn, note);
+    } else {
+      await executeNotification(conn, note);
+    }
+    return null;
+  }
+  const req = validateRequest(item);
+  if (!req) return makeErrorResponse(null, ERROR_CODES.INVALID_REQUEST, "Invalid JSON-RPC 2.0 request");
+  return executeRequest(conn, req);
+}
+
+/**
+ * Sequential by default. In parallel mode, calls are grouped by targetId:
+ * groups run concurrently, calls within a group (same tab) stay in order.
+ */
+async function processBatch(conn: ConnState, items: unknown[]): Promise<void> {
+  if (items.length === 0) {
+    writeFrame(conn, makeErrorResponse(null, ERROR_CODES.INVALID_REQUEST, "Invalid Request: empty batch"));
+    return;
+  }
+
+  const results: Array<RpcResponse | null> = new Array(items.length).fill(null);
+
+  if (items.some(isParallelDirective)) {
+    const chains = new Map<string, Promise<void>>();
+    items.forEach((item, idx) => {
+      const params = (item as { params?: Params } | null)?.params;
+      const key = String(params?.targetId ?? "");
+      const prev = chains.get(key) ?? Promise.resolve();
+      chains.set(key, prev.then(async () => { results[idx] = await executeBatchItem(conn, item); }));
+    });
+    await Promise.all(chains.values());
+  } else {
+    for (let idx = 0; idx < items.length; idx++) {
+      results[idx] = await executeBatchItem(conn, items[idx]);
+    }
+  }
+
+  const responses = results.filter((r): r is RpcResponse => r !== null);
+  // A batch of only notifications gets no reply at all
+  if (responses.length > 0) writeFrame(conn, responses);
+}
 
+function processLine(conn: ConnState, line: string): void {
   const parsedResult = (() => {
     try { return { ok: true as const, value: JSON.parse(line) as unknown }; }
     catch { return { ok: false as const }; }
   })();
 
+  // Anything but a valid auth request (including unparsable JSON) closes the connection;
+  // anonymous traffic never counts as activity for the idle timer
+  if (!conn.authenticated) {
+    authenticateConnection(conn, parsedResult.ok ? parsedResult.value : undefined);
+    return;
+  }
+
+  resetIdleTimer();
+
   if (!parsedResult.ok) {
-    const resp = makeErrorResponse(null, ERROR_CODES.PARSE_ERROR, "Parse error: invalid JSON");
-    socket.write(JSON.stringify(resp) + "\n");
+    writeFrame(conn, makeErrorResponse(null, ERROR_CODES.PARSE_ERROR, "Parse error: invalid JSON"));
+    return;
+  }
+
+  if (Array.isArray(parsedResult.value)) {
+    void processBatch(conn, parsedResult.value);
+    return;
+  }
+
+  const note = validateNotification(parsedResult.value);
+  if (note) {
+    if (note.method.startsWith("$/")) handleNotification(conn, note);
+    else void executeNotification(conn, note);
     return;
   }
 
   const req = validateRequest(parsedResult.value);
   if (!req) {
-    const resp = makeErrorResponse(null, ERROR_CODES.INVALID_REQUEST, "Invalid JSON-RPC 2.0 request");
-    socket.write(JSON.stringify(resp) + "\n");
+    writeFrame(conn, makeErrorResponse(null, ERROR_CODES.INVALID_REQUEST, "Invalid JSON-RPC 2.0 request"));
     return;
   }
 
-  routeRequest(req)
-    .then((result) => {
-      const resp = makeResponse(req.id, result);
-      socket.write(JSON.stringify(resp) + "\n");
-    })
-    .catch((err: unknown) => {
-      const message = err instanceof Error ? err.message : String(err);
-      const code = (err instanceof Error && "rpcCode" in err)
-        ? (err as NodeJS.ErrnoException & { rpcCode: number }).rpcCode
-        : ERROR_CODES.ACTION_FAILED;
-      const resp = makeErrorResponse(req.id, code, message);
-      socket.write(JSON.stringify(resp) + "\n");
-    });
+  void executeRequest(conn, req).then((resp) => writeFrame(conn, resp));
 }
@@ -14,6 +14,58 @@ export function normalizeTimeoutMs(timeoutMs: number | undefined, fallback: numb
   return Math.max(500, Math.min(120_000, timeoutMs ?? fallback));
 }
 
+// --- Abortable waits ---
+// Playwright's waits and goto can't be cancelled. Long waits run as short slices
+// so a cancelled (or past-deadline) request stops within one slice, instead of
+// waiting out its whole timeout in the daemon while holding the tab lock.
+
+const WAIT_SLICE_MS = 250;
+
+/**
+ * Run `wait` with slice-sized timeouts until it settles, timeoutMs passes, or the signal aborts.
+ * Without a signal there is nothing to stop for, so it waits once for the full timeout.
+ * On timeout the last slice's error is rethrown, reporting timeoutMs instead of the slice.
+ */
+export async function waitInSlices<T>(
+  wait: (sliceMs: number) => Promise<T>,
+  timeoutMs: number,
+  signal?: AbortSignal,
+): Promise<T> {
+  if (!signal) return wait(timeoutMs);
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    signal.throwIfAborted();
+    const sliceMs = Math.max(1, Math.min(WAIT_SLICE_MS, deadline - Date.now()));
+    try {
+      return await wait(sliceMs);
+    } catch (error) {
+      if (!(error instanceof Error && error.name === "TimeoutError")) throw error;
+      if (Date.now() >= deadline) {
+        error.message = error.message.replace(`Timeout ${sliceMs}ms exceeded`, `Timeout ${timeoutMs}ms exceeded`);
+        throw error;
+      }
+    }
+  }
+}
+
+/** Settle with `work`, or run onAbort (to stop it) and reject with signal.reason once the signal aborts. */
+export function untilAborted<T>(work: Promise<T>, signal: AbortSignal | undefined, onAbort: () => void): Promise<T> {
+  if (!signal) return work;
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => {
+      work.catch(() => {});
+      onAbort();
+      reject(signal.reason);
+    };
+    if (signal.aborted) {
+      abort();
+      return;
+    }
+    signal.addEventListener("abort", abort, { once: true });
+    work.then(resolve, reject).finally(() => signal.removeEventListener("abort", abort));
+  });
+}
+
 export function toAIFriendlyError(error: unknown, selector: string): Error {
   const message = error instanceof Error ? error.message : String(error);
 
@@ -2,7 +2,7 @@
 // https://github.com/openclaw/openclaw/blob/main/src/browser/pw-role-snapshot.ts
 // Pure functions, zero dependencies.
 
-import type { RoleRef, RoleRefMap, RoleSnapshotOptions, RoleSnapshotStats } from "./types.js";
+import type { AxNodeIdentity, RoleRef, RoleRefMap, RoleSnapshotOptions, RoleSnapshotStats } from "./types.js";
 
 const INTERACTIVE_ROLES = new Set([
   "button", "link", "textbox", "checkbox", "radio", "combobox",
@@ -189,6 +189,18 @@ export function parseRoleRef(raw: string): string | null {
   return /^e\d+$/.test(normalized) ? normalized : null;
 }
 
+/** "e5@g3" → { ref: "e5", generation: 3 }; a ref without a generation matches any. */
+export function parseRef(raw: string): { ref: string; generation?: number } {
+  const trimmed = raw.trim();
+  const normalized = trimmed.startsWith("@")
+    ? trimmed.slice(1)
+    : trimmed.startsWith("ref=")
+      ? trimmed.slice(4)
+      : trimmed;
+  const m = /^(.+)@g(\d+)$/.exec(normalized);
+  return m ? { ref: m[1]!, generation: Number(m[2]) } : { ref: normalized };
+}
+
 export function buildRoleSnapshotFromAriaSnapshot(
   ariaSnapshot: string,
   options: RoleSnapshotOptions = {},
@@ -237,6 +249,95 @@ export function buildRoleSnapshotFromAriaSnapshot(
   return { snapshot: options.compact ? compactTree(tree) : tree, refs };
 }
 
+// --- Stable refs ---
+// buildRoleSnapshotFromAriaSnapshot numbers refs e1..eN in document order, so an
+// insertion renumbers everything below it. When the DOM nodes behind the refs are
+// known, stabilizeRefs renumbers a fresh snapshot so that elements seen in the
+// tab's previous snapshot keep their refs and only new elements get new numbers.
+
+function normalizeName(name: string | undefined): string {
+  return (name ?? "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Pair refs with the DOM nodes they name: the k-th ref of a role+name is the k-th
+ * accessibility node with that role+name. A role+name whose counts differ between
+ * the snapshot and the tree (maxDepth, hidden subtrees) is left out rather than guessed.
+ */
+export function matchRefsToNodes(refs: RoleRefMap, nodes: AxNodeIdentity[]): Record<string, number> {
+  const key = (role: string, name: string | undefined) => `${role.toLowerCase()}:${normalizeName(name)}`;
+  const nodesByKey = new Map<string, number[]>();
+  for (const node of nodes) {
+    const list = nodesByKey.get(key(node.role, node.name)) ?? [];
+    list.push(node.backendNodeId);
+    nodesByKey.set(key(node.role, node.name), list);
+  }
+  const refsByKey = new Map<string, string[]>();
+  for (const [ref, info] of Object.entries(refs)) {
+    const list = refsByKey.get(key(info.role, info.name)) ?? [];
+    list.push(ref);
+    refsByKey.set(key(info.role, info.name), list);
+  }
+
+  const out: Record<string, number> = {};
+  for (const [k, refList] of refsByKey) {
+    const nodeList = nodesByKey.get(k);
+    if (!nodeList || nodeList.length !== refList.length) continue;
+    refList.forEach((ref, i) => { out[ref] = nodeList[i]!; });
+  }
+  return out;
+}
+
+function refNumber(ref: string): number {
+  const m = /^e(\d+)$/.exec(ref);
+  return m ? Number(m[1]) : 0;
+}
+
+/**
+ * Renumber a freshly built snapshot against the tab's previous one. A ref whose DOM
+ * node (and role) was in the previous snapshot keeps its old ref; every other ref gets
+ * the next number after the highest one ever handed out on the tab (lastRef), so a ref
+ * is never reused for a different element. `nodes` maps the fresh refs to DOM nodes.
+ */
+export function stabilizeRefs(
+  built: { snapshot: string; refs: RoleRefMap },
+  nodes: Record<string, number>,
+  previous?: { refs: RoleRefMap; nodes: Record<string, number>; lastRef?: number },
+): { snapshot: string; refs: RoleRefMap; nodes: Record<string, number>; lastRef: number } {
+  const previousByNode = new Map<number, string>();
+  for (const [ref, node] of Object.entries(previous?.nodes ?? {})) previousByNode.set(node, ref);
+  let lastRef = previous
+    ? Math.max(previous.lastRef ?? 0, ...Object.keys(previous.refs).map(refNumber))
+    : 0;
+
+  const renamed = new Map<string, string>();
+  const kept = new Set<string>();
+  for (const [ref, info] of Object.entries(built.refs)) {
+    const node = nodes[ref];
+    const old = node !== undefined ? previousByNode.get(node) : undefined;
+    if (old && previous?.refs[old]?.role === info.role && !kept.has(old)) {
+      renamed.set(ref, old);
+      kept.add(old);
+    }
+  }
+  for (const ref of Object.keys(built.refs)) {
+    if (!renamed.has(ref)) renamed.set(ref, `e${++lastRef}`);
+  }
+
+  const refs: RoleRefMap = {};
+  const renamedNodes: Record<string, number> = {};
+  for (const [ref, info] of Object.entries(built.refs)) {
+    const to = renamed.get(ref)!;
+    refs[to] = info;
+    if (nodes[ref] !== undefined) renamedNodes[to] = nodes[ref]!;
+  }
+  const snapshot = built.snapshot.replace(/\[ref=(e\d+)\]/g, (whole, ref: string) => {
+    const to = renamed.get(ref);
+    return to ? `[ref=${to}]` : whole;
+  });
+  return { snapshot, refs, nodes: renamedNodes, lastRef };
+}
+
 function parseAiSnapshotRef(suffix: string): string | null {
   const match = suffix.match(/\[ref=(e\d+)\]/i);
   return match ? match[1]! : null;
@@ -0,0 +1,173 @@
+// state-journal.ts — Opt-in journal of daemon state that must survive a restart
+// The daemon marks the journal dirty after state-changing requests; writes are
+// debounced and atomic (temp file + rename). On startup the daemon reads it back
+// and re-applies route rules, emulation, leases and observers to tabs that still exist.
+
+import { readFile, writeFile, rename, unlink } from "node:fs/promises";
+import type { RuleSpec } from "./network.js";
+import type { EmulationState } from "./commands/emulation.js";
+
+// --- Types ---
+
+export const STATE_JOURNAL_VERSION = 1;
+
+export interface JournaledLease {
+  targetId: string;
+  owner: string;
+  /** Lease length in ms; restored leases start a fresh TTL */
+  ttlMs: number;
+}
+
+export interface DaemonState {
+  version: number;
+  saved_at: string;   // ISO 8601
+  pid: number;
+  dialog_mode: "accept" | "dismiss" | "queue";
+  /** Tabs with observers attached */
+  observed: string[];
+  leases: JournaledLease[];
+  /** targetId ("default" = active tab) → route rules in creation order */
+  routes: Record<string, RuleSpec[]>;
+  /** targetId ("default" = active tab) → applied emulation */
+  emulation: Record<string, EmulationState>;
+  /** Tabs whose refs are cached (the refs themselves live in the on-disk ref cache) */
+  refs: string[];
+}
+
+export function getStateJournalPath(): string {
+  const workerId = process.env.JARVIS_WORKER_ID;
+  return workerId
+    ? `/tmp/jarvis-browser-state-${workerId}.json`
+    : "/tmp/jarvis-browser-state.json";
+}
+
+// --- Read ---
+
+/** Read a journal; null when missing, unreadable or from an incompatible version. */
+export async function readStateJournal(path: string): Promise<DaemonState | null> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf-8");
+  } catch {
+    return null;
+  }
+  try {
+    const state = JSON.parse(raw) as DaemonState;
+    return state.version === STATE_JOURNAL_VERSION ? state : null;
+  } catch {
+    return null; // hand-edited or truncated file
+  }
+}
+
+export async function removeStateJournal(path: string): Promise<void> {
+  await unlink(path).catch(() => {});
+}
+
+// --- Writer ---
+
+const WRITE_DEBOUNCE_MS = 200;
+
+export class StateJournal {
+  private enabled = false;
+  private suspended = false;
+  private dirty = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  // Writes are chained so a slow write never races the next one
+  private queue: Promise<void> = Promise.resolve();
+
+  /** resolvePath is called per write, so the path follows JARVIS_WORKER_ID as it is when used */
+  constructor(
+    private readonly resolvePath: () => string,
+    private readonly collect: () => DaemonState,
+  ) {}
+
+  get path(): string {
+    return this.resolvePath();
+  }
+
+  get isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /** Turn journaling on (writes the current state) or off (removes the file). */
+  async setEnabled(enabled: boolean): Promise<void> {
+    if (enabled === this.enabled) return;
+    this.enabled = enabled;
+    if (enabled) {
+      this.markDirty();
+    } else {
+      this.cancelTimer();
+      this.dirty = false;
+      await this.queue;
+      await removeStateJournal(this.path);
+    }
+  }
+
+  /**
+   * Hold writes while a restore is pending, so an empty daemon can't overwrite
+   * the journal it has not applied yet. resume() writes anything marked meanwhile.
+   */
+  suspend(): void {
+    this.suspended = true;
+    this.cancelTimer();
+  }
+
+  resume(): void {
+    this.suspended = false;
+    if (this.dirty) this.schedule();
+  }
+
+  /** Record that state changed; the write happens after a short debounce. */
+  markDirty(): void {
+    if (!this.enabled) return;
+    this.dirty = true;
+    if (!this.suspended) this.schedule();
+  }
+
+  /** Write now if anything is pending (daemon shutdown). */
+  async flush(): Promise<void> {
+    this.cancelTimer();
+    if (this.dirty && this.enabled && !this.suspended) this.enqueueWrite();
+    await this.queue;
+  }
+
+  /** Write the current state now, even when journaling is off (daemon restart). */
+  async save(): Promise<DaemonState> {
+    this.cancelTimer();
+    const state = this.collect();
+    const run = this.queue.then(() => this.write(state));
+    this.queue = run.catch(() => {});
+    await run;
+    this.dirty = false;
+    return state;
+  }
+
+  private schedule(): void {
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.enqueueWrite();
+    }, WRITE_DEBOUNCE_MS);
+    this.timer.unref();
+  }
+
+  private cancelTimer(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private enqueueWrite(): void {
+    this.dirty = false;
+    this.queue = this.queue
+      .then(() => this.write(this.collect()))
+      .catch((err: unknown) => {
+        process.stderr.write(`[jarvis-daemon] State journal write failed: ${err instanceof Error ? err.message : String(err)}\n`);
+      });
+  }
+
+  private async write(state: DaemonState): Promise<void> {
+    const tmp = `${this.path}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(state), { encoding: "utf-8", mode: 0o600 });
+    await rename(tmp, this.path);
+  }
+}
@@ -0,0 +1,86 @@
+// supervisor.ts — Chrome process supervision
+// When a Chrome the daemon launched dies (OOM kill, browser crash), daemon.ts
+// relaunches it with the same options and reopens its tabs. ChromeSupervisor
+// holds the restart budget (at most maxRestarts within windowMs) and the recent
+// supervision events shown by daemon.health; it is exported for unit testing,
+// globalSupervisor is the daemon-wide singleton.
+
+// --- Constants ---
+
+const SUPERVISION_EVENT_CAPACITY = 20;
+
+// --- Types ---
+
+export type SupervisionEventType = "chrome_exited" | "relaunched" | "relaunch_failed" | "gave_up";
+
+export interface SupervisionEvent {
+  type: SupervisionEventType;
+  at: string;   // ISO 8601
+  /** Chrome's pid: the one that exited, or the relaunched one */
+  pid?: number;
+  /** Exit code/signal, or the relaunch error */
+  detail?: string;
+  /** old targetId → new targetId for the tabs reopened after a relaunch */
+  remapped?: Record<string, string>;
+  /** Tabs that could not be reopened */
+  failed_tabs?: string[];
+}
+
+export interface SupervisionLimits {
+  /** 0 = never relaunch */
+  maxRestarts: number;
+  windowMs: number;
+}
+
+export interface SupervisionStats {
+  restarts_in_window: number;
+  max_restarts: number;
+  window_s: number;
+  events: SupervisionEvent[];
+}
+
+// --- Supervisor ---
+
+export class ChromeSupervisor {
+  private limits: SupervisionLimits = { maxRestarts: 3, windowMs: 600_000 };
+  private restarts: number[] = [];
+  private readonly events: SupervisionEvent[] = [];
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  setLimits(limits: SupervisionLimits): void {
+    this.limits = { maxRestarts: Math.max(0, limits.maxRestarts), windowMs: Math.max(0, limits.windowMs) };
+  }
+
+  /** Use one restart from the budget. False when the window's restarts are used up. */
+  tryRestart(): boolean {
+    this.prune();
+    if (this.restarts.length >= this.limits.maxRestarts) return false;
+    this.restarts.push(this.now());
+    return true;
+  }
+
+  record(event: Omit<SupervisionEvent, "at">): SupervisionEvent {
+    const entry: SupervisionEvent = { ...event, at: new Date(this.now()).toISOString() };
+    this.events.push(entry);
+    while (this.events.length > SUPERVISION_EVENT_CAPACITY) this.events.shift();
+    return entry;
+  }
+
+  stats(): SupervisionStats {
+    this.prune();
+    return {
+      restarts_in_window: this.restarts.length,
+      max_restarts: this.limits.maxRestarts,
+      window_s: Math.round(this.limits.windowMs / 1000),
+      events: [...this.events],
+    };
+  }
+
+  private prune(): void {
+    const cutoff = this.now() - this.limits.windowMs;
+    this.restarts = this.restarts.filter((at) => at > cutoff);
+  }
+}
+
+export const globalSupervisor = new ChromeSupervisor();
@@ -0,0 +1,93 @@
+// tab-queue.ts — Per-tab FIFO mutex for mutating RPC methods
+// Two workers (or one impatient agent) must not interleave click/snapshot on the
+// same tab: the ref cache written by storeRefs would race. Read-only methods
+// bypass the queue entirely.
+
+export interface TabQueueStats {
+  /** Tabs with a running or waiting call */
+  active_tabs: number;
+  /** Calls currently waiting for a tab lock */
+  waiting: number;
+  /** Running + waiting calls per tab (calls without a targetId count under the active tab; "" when none resolved) */
+  depth: Record<string, number>;
+  /** Calls that acquired a lock */
+  acquired: number;
+  /** Calls that had to wait behind another call */
+  contended: number;
+  avg_wait_ms: number;
+  max_wait_ms: number;
+}
+
+export class TabQueue {
+  /** key → promise that settles when the last queued call releases */
+  private readonly tails = new Map<string, Promise<void>>();
+  private readonly depth = new Map<string, number>();
+  private waiting = 0;
+  private acquired = 0;
+  private contended = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+
+  /**
+   * Run fn once every earlier call on the same key has finished.
+   * A call aborted while waiting never runs, but keeps its place so order is preserved.
+   */
+  async run<T>(key: string, fn: () => T | Promise<T>, signal?: AbortSignal): Promise<T> {
+    const prev = this.tails.get(key);
+    let release!: () => void;
+    const held = new Promise<void>((resolve) => { release = resolve; });
+    const tail = (prev ?? Promise.resolve()).then(() => held);
+    this.tails.set(key, tail);
+    this.depth.set(key, (this.depth.get(key) ?? 0) + 1);
+
+    try {
+      if (prev) {
+        const queuedAt = Date.now();
+        this.waiting++;
+        try {
+          await prev;
+        } finally {
+          this.waiting--;
+        }
+        const waitedMs = Date.now() - queuedAt;
+        this.contended++;
+        this.totalWaitMs += waitedMs;
+        this.maxWaitMs = Math.max(this.maxWaitMs, waitedMs);
+      }
+      signal?.throwIfAborted();
+      this.acquired++;
+      return await fn();
+    } finally {
+      release();
+      const remaining = (this.depth.get(key) ?? 1) - 1;
+      if (remaining > 0) {
+        this.depth.set(key, remaining);
+      } else {
+        this.depth.delete(key);
+      }
+      if (this.tails.get(key) === tail) this.tails.delete(key);
+    }
+  }
+
+  getStats(): TabQueueStats {
+    return {
+      active_tabs: this.depth.size,
+      waiting: this.waiting,
+      depth: Object.fromEntries(this.depth),
+      acquired: this.acquired,
+      contended: this.contended,
+      avg_wait_ms: this.contended > 0 ? Math.round(this.totalWaitMs / this.contended) : 0,
+      max_wait_ms: this.maxWaitMs,
+    };
+  }
+
+  /** Reset counters (not pending locks) — useful for tests. */
+  resetStats(): void {
+    this.acquired = 0;
+    this.contended = 0;
+    this.totalWaitMs = 0;
+    this.maxWaitMs = 0;
+  }
+}
+
+export const globalTabQueue = new TabQueue();
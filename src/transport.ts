@@ -0,0 +1,299 @@
+// transport.ts — Optional TCP and WebSocket listeners for remote clients
+// Both carry the same newline-delimited JSON-RPC frames as the Unix socket.
+// A bearer token is mandatory; TLS is enabled when a cert/key pair is configured.
+
+import net from "node:net";
+import tls from "node:tls";
+import http from "node:http";
+import https from "node:https";
+import { createHash, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { Duplex } from "node:stream";
+
+// --- Types ---
+
+export interface RemoteListenerOptions {
+  host: string;
+  /** TCP port (undefined = disabled, 0 = ephemeral) */
+  tcpPort?: number;
+  /** WebSocket port (undefined = disabled, 0 = ephemeral) */
+  wsPort?: number;
+  token: string;
+  tlsCert?: string;   // PEM file path
+  tlsKey?: string;    // PEM file path
+}
+
+/** authenticated: true when the token was already verified during the handshake (WebSocket header). */
+export type RemoteConnectionHandler = (stream: Duplex, info: { authenticated: boolean }) => void;
+
+export interface RemoteListeners {
+  tcpUrl?: string;
+  wsUrl?: string;
+  close(): Promise<void>;
+}
+
+// --- Auth ---
+
+export const DAEMON_TOKEN_ENV = "JARVIS_DAEMON_TOKEN";
+
+/** The env var wins over the config key so secrets can stay out of the config file. */
+export function resolveAuthToken(configToken: string): string {
+  return process.env[DAEMON_TOKEN_ENV] || configToken;
+}
+
+/** Constant-time token comparison. An empty expected token never matches. */
+export function tokensMatch(expected: string, given: unknown): boolean {
+  if (!expected || typeof given !== "string") return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(given);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function bearerToken(req: http.IncomingMessage): string | undefined {
+  const header = req.headers.authorization;
+  if (header?.startsWith("Bearer ")) return header.slice("Bearer ".length).trim();
+  const url = new URL(req.url ?? "/", "http://localhost");
+  return url.searchParams.get("token") ?? undefined;
+}
+
+// --- WebSocket framing (RFC 6455, server side) ---
+
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const WS_MAX_MESSAGE_BYTES = 16 * 1024 * 1024;
+
+export const WS_OPCODES = {
+  CONTINUATION: 0x0,
+  TEXT: 0x1,
+  BINARY: 0x2,
+  CLOSE: 0x8,
+  PING: 0x9,
+  PONG: 0xa,
+} as const;
+
+export interface WsFrame {
+  fin: boolean;
+  opcode: number;
+  payload: Buffer;
+}
+
+export function websocketAcceptKey(key: string): string {
+  return createHash("sha1").update(key + WS_GUID).digest("base64");
+}
+
+/** Encode one frame. Servers send unmasked frames; pass mask to build client frames. */
+export function encodeWsFrame(opcode: number, payload: Buffer, mask?: Buffer): Buffer {
+  const len = payload.length;
+  const lenBytes = len < 126 ? 0 : len < 65536 ? 2 : 8;
+  const header = Buffer.alloc(2 + lenBytes + (mask ? 4 : 0));
+  header[0] = 0x80 | opcode;
+  header[1] = (mask ? 0x80 : 0) | (lenBytes === 0 ? len : lenBytes === 2 ? 126 : 127);
+  if (lenBytes === 2) header.writeUInt16BE(len, 2);
+  if (lenBytes === 8) header.writeBigUInt64BE(BigInt(len), 2);
+  if (!mask) return Buffer.concat([header, payload]);
+
+  mask.copy(header, 2 + lenBytes);
+  const masked = Buffer.from(payload);
+  for (let i = 0; i < masked.length; i++) masked[i] ^= mask[i % 4];
+  return Buffer.concat([header, masked]);
+}
+
+/** Decode all complete frames in buf. Returns the frames and the unconsumed remainder. */
+export function decodeWsFrames(buf: Buffer): { frames: WsFrame[]; rest: Buffer } {
+  const frames: WsFrame[] = [];
+  let offset = 0;
+  for (;;) {
+    if (buf.length - offset < 2) break;
+    const b0 = buf[offset];
+    const b1 = buf[offset + 1];
+    const masked = (b1 & 0x80) !== 0;
+    let len = b1 & 0x7f;
+    let pos = offset + 2;
+    if (len === 126) {
+      if (buf.length - pos < 2) break;
+      len = buf.readUInt16BE(pos);
+      pos += 2;
+    } else if (len === 127) {
+      if (buf.length - pos < 8) break;
+      len = Number(buf.readBigUInt64BE(pos));
+      pos += 8;
+    }
+    if (len > WS_MAX_MESSAGE_BYTES) throw new Error(`WebSocket frame too large (${len} bytes)`);
+    const maskKey = masked ? buf.subarray(pos, pos + 4) : null;
+    if (masked) pos += 4;
+    if (buf.length - pos < len) break;
+
+    const payload = Buffer.from(buf.subarray(pos, pos + len));
+    if (maskKey) for (let i = 0; i < payload.length; i++) payload[i] ^= maskKey[i % 4];
+    frames.push({ fin: (b0 & 0x80) !== 0, opcode: b0 & 0x0f, payload });
+    offset = pos + len;
+  }
+  return { frames, rest: buf.subarray(offset) };
+}
+
+/**
+ * Duplex over an upgraded socket: each incoming text message becomes one or more
+ * newline-terminated lines; each write goes out as one text message.
+ */
+export class WebSocketStream extends Duplex {
+  private pending: Buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+
+  constructor(private readonly socket: net.Socket, head: Buffer) {
+    super();
+    socket.setNoDelay(true);
+    socket.on("data", (chunk: Buffer) => this.onData(chunk));
+    socket.on("close", () => {
+      this.push(null);
+      this.destroy();
+    });
+    socket.on("error", () => this.destroy());
+    if (head.length > 0) this.onData(head);
+  }
+
+  private onData(chunk: Buffer): void {
+    this.pending = Buffer.concat([this.pending, chunk]);
+    let frames: WsFrame[];
+    try {
+      ({ frames, rest: this.pending } = decodeWsFrames(this.pending));
+    } catch {
+      this.closeWith(1009);
+      return;
+    }
+    for (const frame of frames) {
+      switch (frame.opcode) {
+        case WS_OPCODES.TEXT:
+        case WS_OPCODES.BINARY:
+        case WS_OPCODES.CONTINUATION:
+          this.fragments.push(frame.payload);
+          if (frame.fin) {
+            const text = Buffer.concat(this.fragments).toString("utf-8");
+            this.fragments = [];
+            this.push(text.endsWith("\n") ? text : text + "\n");
+          }
+          break;
+        case WS_OPCODES.PING:
+          this.socket.write(encodeWsFrame(WS_OPCODES.PONG, frame.payload));
+          break;
+        case WS_OPCODES.CLOSE:
+          this.closeWith(1000);
+          return;
+        default:
+          break; // PONG and reserved opcodes are ignored
+      }
+    }
+  }
+
+  private closeWith(code: number): void {
+    const body = Buffer.alloc(2);
+    body.writeUInt16BE(code, 0);
+    if (!this.socket.destroyed) this.socket.end(encodeWsFrame(WS_OPCODES.CLOSE, body));
+  }
+
+  override _read(): void {
+    // Data is pushed as frames arrive
+  }
+
+  override _write(chunk: Buffer | string, _enc: BufferEncoding, cb: (err?: Error | null) => void): void {
+    const payload = typeof chunk === "string" ? Buffer.from(chunk, "utf-8") : chunk;
+    this.socket.write(encodeWsFrame(WS_OPCODES.TEXT, payload), cb);
+  }
+
+  override _final(cb: (err?: Error | null) => void): void {
+    this.closeWith(1000);
+    cb();
+  }
+
+  override _destroy(err: Error | null, cb: (err?: Error | null) => void): void {
+    this.socket.destroy();
+    cb(err);
+  }
+}
+
+// --- Listeners ---
+
+function listen(server: net.Server, port: number, host: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => {
+      server.off("error", reject);
+      resolve((server.address() as net.AddressInfo).port);
+    });
+  });
+}
+
+function closeServer(server: net.Server): Promise<void> {
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+export async function startRemoteListeners(
+  opts: RemoteListenerOptions,
+  onConnection: RemoteConnectionHandler,
+): Promise<RemoteListeners> {
+  if (!opts.token) throw new Error("Remote listeners require an auth token");
+
+  const tlsOptions = opts.tlsCert && opts.tlsKey
+    ? { cert: readFileSync(opts.tlsCert), key: readFileSync(opts.tlsKey) }
+    : null;
+  const servers: net.Server[] = [];
+  const sockets = new Set<net.Socket>();
+  const track = (socket: net.Socket) => {
+    sockets.add(socket);
+    socket.once("close", () => sockets.delete(socket));
+  };
+  const result: RemoteListeners = {
+    close: async () => {
+      for (const s of sockets) s.destroy();
+      await Promise.all(servers.map(closeServer));
+    },
+  };
+
+  try {
+    if (opts.tcpPort !== undefined) {
+      const onSocket = (socket: net.Socket) => {
+        track(socket);
+        onConnection(socket, { authenticated: false });
+      };
+      const server = tlsOptions ? tls.createServer(tlsOptions, onSocket) : net.createServer(onSocket);
+      servers.push(server);
+      const port = await listen(server, opts.tcpPort, opts.host);
+      result.tcpUrl = `${tlsOptions ? "tls" : "tcp"}://${opts.host}:${port}`;
+    }
+
+    if (opts.wsPort !== undefined) {
+      const reject = (req: http.IncomingMessage, res: http.ServerResponse) => {
+        res.writeHead(426, { "Content-Type": "text/plain" }).end("WebSocket upgrade required\n");
+      };
+      const server = tlsOptions ? https.createServer(tlsOptions, reject) : http.createServer(reject);
+      server.on("upgrade", (req: http.IncomingMessage, socket: net.Socket, head: Buffer) => {
+        track(socket);
+        const key = req.headers["sec-websocket-key"];
+        if (typeof key !== "string" || req.headers.upgrade?.toLowerCase() !== "websocket") {
+          socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+          return;
+        }
+        // A token offered during the handshake must be valid; without one the client
+        // authenticates with an `auth` request, exactly like TCP.
+        const offered = bearerToken(req);
+        if (offered !== undefined && !tokensMatch(opts.token, offered)) {
+          socket.end("HTTP/1.1 401 Unauthorized\r\n\r\n");
+          return;
+        }
+        socket.write(
+          "HTTP/1.1 101 Switching Protocols\r\n" +
+          "Upgrade: websocket\r\n" +
+          "Connection: Upgrade\r\n" +
+          `Sec-WebSocket-Accept: ${websocketAcceptKey(key)}\r\n\r\n`,
+        );
+        onConnection(new WebSocketStream(socket, head), { authenticated: offered !== undefined });
+      });
+      servers.push(server);
+      const port = await listen(server, opts.wsPort, opts.host);
+      result.wsUrl = `${tlsOptions ? "wss" : "ws"}://${opts.host}:${port}`;
+    }
+  } catch (err) {
+    await result.close();
+    throw err;
+  }
+
+  return result;
+}
@@ -9,6 +9,16 @@ export type RoleRef = {
 
 export type RoleRefMap = Record<string, RoleRef>;
 
+/** How a ref was resolved: the snapshot's DOM node, a role+name+nth query, or aria-ref */
+export type RefResolution = "node" | "role" | "aria";
+
+/** An unignored accessibility node and the DOM node behind it (CDP backendDOMNodeId) */
+export type AxNodeIdentity = {
+  role: string;
+  name: string;
+  backendNodeId: number;
+};
+
 export type RoleSnapshotStats = {
   lines: number;
   chars: number;
@@ -26,6 +36,8 @@ export type SnapshotResult = {
   snapshot: string;
   refs: RoleRefMap;
   stats: RoleSnapshotStats;
+  /** Per-tab snapshot counter: refs can be written e5@g3 to fail fast once the tab is snapped again */
+  generation?: number;
   truncated?: boolean;
 };
 
@@ -53,5 +65,11 @@ export type ActionResult = {
   suggestion?: string;
   ref?: string;
   action?: string;
+  // Tab the action opened (window.open, target=_blank); opened_tabs when several
+  opened_tab?: string;
+  opened_tabs?: string[];
+  // How the ref was found: the snapshot's DOM node, or the role query when the node is gone
+  resolved_via?: RefResolution;
+  target_resolved_via?: RefResolution;
   [key: string]: unknown;
 };
@@ -10,7 +10,7 @@
 
 import { existsSync } from "node:fs";
 import { resolve } from "node:path";
-import { getPage, refLocator, getStoredRefs } from "./browser.js";
+import { getPage, locateRef, getStoredRefs } from "./browser.js";
 import type { ActionResult } from "./types.js";
 
 // --- File path validation ---
@@ -38,13 +38,8 @@ function validateFilePaths(paths: string[]): string[] {
 // --- Find file input near a visible element ---
 
 async function findFileInputNearRef(
-  page: Awaited<ReturnType<typeof getPage>>,
-  ref: string,
-  targetId?: string,
+  loc: import("playwright-core").Locator,
 ): Promise<import("playwright-core").Locator | null> {
-  const state = getStoredRefs(targetId ?? "default");
-  const loc = refLocator(page, ref, state);
-
   // Check if the ref element itself is a file input
   const tagName = await loc.evaluate((el: Element) => el.tagName.toLowerCase()).catch(() => "");
   const inputType = await loc.evaluate((el: HTMLInputElement) => el.type?.toLowerCase()).catch(() => "");
@@ -108,6 +103,8 @@ export async function handleUpload(params: {
   const timeout = params.timeoutMs ?? 10000;
 
   let fileInputLocator: import("playwright-core").Locator | null = null;
+  // Undoes what locating the ref changed on the page, once the upload is done
+  let release = async (): Promise<void> => {};
 
   // Mode 1: CSS selector provided directly (escape hatch for hidden inputs)
   if (params.selector) {
@@ -115,9 +112,12 @@ export async function handleUpload(params: {
   }
   // Mode 2: ref-based discovery
   else if (params.ref) {
-    fileInputLocator = await findFileInputNearRef(page, params.ref, params.targetId);
+    const located = await locateRef(page, params.ref, getStoredRefs(params.targetId ?? "default"));
+    release = located.release;
+    fileInputLocator = await findFileInputNearRef(located.locator);
 
     if (!fileInputLocator) {
+      await release();
       return {
         ok: false,
         error: `No file input found near ref "${params.ref}"`,
@@ -142,5 +142,7 @@ export async function handleUpload(params: {
       error: `Upload failed: ${msg}`,
       suggestion: 'Try using --selector "input[type=file]" to target the file input directly',
     };
+  } finally {
+    await release();
   }
 }
@@ -0,0 +1,81 @@
+/**
+ * Integration test: every RPC on the daemon socket lands in the audit log, redacted
+ */
+
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { describe, it, beforeAll, afterAll, expect } from "vitest";
+import { startServer, stopServer, configureAuditLog, flushAuditLog } from "../../src/server.js";
+import { connectToSocket, sendRequest } from "../../src/client.js";
+import { queryAuditLog, REDACTED } from "../../src/audit.js";
+import { ERROR_CODES, makeNotification } from "../../src/protocol.js";
+
+const TEST_WORKER_ID = "audit-integration-test";
+const SAVED_WORKER_ID = process.env.JARVIS_WORKER_ID;
+
+type Socket = Awaited<ReturnType<typeof connectToSocket>>;
+
+describe("audit log — in-process integration", () => {
+  let socket: Socket;
+  let dir: string;
+  let path: string;
+
+  beforeAll(async () => {
+    process.env.JARVIS_WORKER_ID = TEST_WORKER_ID;
+    dir = mkdtempSync(join(tmpdir(), "jarvis-audit-int-"));
+    path = join(dir, "audit.jsonl");
+    await startServer();
+    await configureAuditLog({ path, maxBytes: 1024 * 1024, maxFiles: 2, redactSessionNames: false });
+    socket = await connectToSocket();
+  });
+
+  afterAll(async () => {
+    socket.end();
+    await stopServer();
+    rmSync(dir, { recursive: true, force: true });
+    if (SAVED_WORKER_ID === undefined) {
+      delete process.env.JARVIS_WORKER_ID;
+    } else {
+      process.env.JARVIS_WORKER_ID = SAVED_WORKER_ID;
+    }
+  });
+
+  it("records successes and failures with worker, status, duration and error code", async () => {
+    await sendRequest(socket, "daemon.status", { workerId: "agent-7" });
+    await sendRequest(socket, "click", { workerId: "agent-7" }).catch(() => {});
+    await flushAuditLog();
+
+    const entries = await queryAuditLog(path, { worker: "agent-7" });
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ method: "daemon.status", status: "ok", worker: "agent-7" });
+    expect(entries[0].duration_ms).toEqual(expect.any(Number));
+    expect(entries[1]).toMatchObject({ method: "click", status: "error", error_code: ERROR_CODES.INVALID_PARAMS });
+  });
+
+  it("redacts secrets before they reach disk", async () => {
+    await sendRequest(socket, "fill", { ref: "e1", value: "hunter2", workerId: "agent-8" }).catch(() => {});
+    await sendRequest(socket, "storage.set", { key: "jwt", value: "eyJ...", workerId: "agent-8" }).catch(() => {});
+    await flushAuditLog();
+
+    const entries = await queryAuditLog(path, { worker: "agent-8" });
+    expect(entries.map((e) => e.params)).toEqual([
+      { ref: "e1", value: REDACTED, workerId: "agent-8" },
+      { key: "jwt", value: REDACTED, workerId: "agent-8" },
+    ]);
+  });
+
+  it("records notifications sent inside a batch", async () => {
+    const note = makeNotification("set.headers", { headersJson: '{"Authorization":"Bearer t"}', workerId: "agent-9" });
+    socket.write(JSON.stringify([note]) + "\n");
+
+    let entries: Awaited<ReturnType<typeof queryAuditLog>> = [];
+    for (let i = 0; i < 100 && entries.length === 0; i++) {
+      await new Promise((r) => setTimeout(r, 20));
+      await flushAuditLog();
+      entries = await queryAuditLog(path, { worker: "agent-9" });
+    }
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ method: "set.headers", params: { headersJson: REDACTED } });
+  });
+});
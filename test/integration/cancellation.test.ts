@@ -0,0 +1,176 @@
+/**
+ * Integration test: $/cancel, disconnect cancellation and deadlineMs
+ *
+ * getPage is mocked to return an EventEmitter-backed fake page, so
+ * `wait --download` blocks forever until it is cancelled (no Chrome needed).
+ * Its waitForFunction always times out and its goto never settles, standing in
+ * for `wait --js` and a slow navigation.
+ */
+
+import { EventEmitter } from "node:events";
+import { vi, describe, it, beforeAll, afterAll, expect } from "vitest";
+
+const cdpSend = vi.fn(async () => ({}));
+const fakePage = Object.assign(new EventEmitter(), {
+  waitForFunction: vi.fn((_expr: string, _arg: unknown, opts: { timeout: number }) =>
+    new Promise((_resolve, reject) => setTimeout(() => {
+      reject(Object.assign(new Error(`Timeout ${opts.timeout}ms exceeded`), { name: "TimeoutError" }));
+    }, opts.timeout))),
+  goto: vi.fn(() => new Promise(() => {})),
+  context: () => ({ newCDPSession: async () => ({ send: cdpSend, detach: async () => {} }) }),
+});
+
+vi.mock("../../src/browser.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/browser.js")>()),
+  getPage: vi.fn(async () => fakePage),
+}));
+
+import { startServer, stopServer } from "../../src/server.js";
+import { connectToSocket } from "../../src/client.js";
+import { ERROR_CODES } from "../../src/protocol.js";
+
+const TEST_WORKER_ID = "cancel-integration-test";
+const SAVED_WORKER_ID = process.env.JARVIS_WORKER_ID;
+
+type Frame = { id?: number | string; error?: { code: number; message: string }; result?: unknown };
+
+function readFrame(socket: Awaited<ReturnType<typeof connectToSocket>>): Promise<Frame> {
+  return new Promise((resolve, reject) => {
+    let buffer = "";
+    const onData = (chunk: Buffer) => {
+      buffer += chunk.toString("utf-8");
+      const idx = buffer.indexOf("\n");
+      if (idx === -1) return;
+      socket.off("data", onData);
+      try { resolve(JSON.parse(buffer.slice(0, idx)) as Frame); } catch (e) { reject(e); }
+    };
+    socket.on("data", onData);
+    socket.once("error", reject);
+  });
+}
+
+function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const deadline = Date.now() + timeoutMs;
+    const tick = () => {
+      if (predicate()) return resolve();
+      if (Date.now() > deadline) return reject(new Error("waitFor timed out"));
+      setTimeout(tick, 10);
+    };
+    tick();
+  });
+}
+
+const waitDownload = (id: number, extra: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    jsonrpc: "2.0",
+    id,
+    method: "wait",
+    params: { download: true, timeoutMs: 60_000, ...extra },
+  }) + "\n";
+
+describe("Request cancellation — in-process integration", () => {
+  beforeAll(async () => {
+    process.env.JARVIS_WORKER_ID = TEST_WORKER_ID;
+    await startServer();
+  });
+
+  afterAll(async () => {
+    await stopServer();
+    if (SAVED_WORKER_ID === undefined) {
+      delete process.env.JARVIS_WORKER_ID;
+    } else {
+      process.env.JARVIS_WORKER_ID = SAVED_WORKER_ID;
+    }
+  });
+
+  it("$/cancel ends the request with REQUEST_CANCELLED and detaches the listener", async () => {
+    const socket = await connectToSocket();
+    try {
+      const reply = readFrame(socket);
+      socket.write(waitDownload(1));
+      await waitFor(() => fakePage.listenerCount("download") === 1);
+
+      socket.write(JSON.stringify({ jsonrpc: "2.0", method: "$/cancel", params: { id: 1 } }) + "\n");
+      const frame = await reply;
+
+      expect(frame.id).toBe(1);
+      expect(frame.error?.code).toBe(ERROR_CODES.REQUEST_CANCELLED);
+      await waitFor(() => fakePage.listenerCount("download") === 0);
+    } finally {
+      socket.end();
+    }
+  });
+
+  it("deadlineMs ends the request with TIMEOUT", async () => {
+    const socket = await connectToSocket();
+    try {
+      const reply = readFrame(socket);
+      socket.write(waitDownload(2, { deadlineMs: 50 }));
+      const frame = await reply;
+
+      expect(frame.id).toBe(2);
+      expect(frame.error?.code).toBe(ERROR_CODES.TIMEOUT);
+      expect(frame.error?.message).toContain("50ms");
+      await waitFor(() => fakePage.listenerCount("download") === 0);
+    } finally {
+      socket.end();
+    }
+  });
+
+  it("client disconnect cancels in-flight requests", async () => {
+    const socket = await connectToSocket();
+    socket.write(waitDownload(3));
+    await waitFor(() => fakePage.listenerCount("download") === 1);
+    socket.destroy();
+    await waitFor(() => fakePage.listenerCount("download") === 0);
+  });
+
+  it("$/cancel stops a wait --js instead of leaving it polling", async () => {
+    const socket = await connectToSocket();
+    try {
+      const reply = readFrame(socket);
+      socket.write(JSON.stringify({ jsonrpc: "2.0", id: 5, method: "wait", params: { js: "window.done", timeoutMs: 60_000 } }) + "\n");
+      await waitFor(() => fakePage.waitForFunction.mock.calls.length > 0);
+
+      socket.write(JSON.stringify({ jsonrpc: "2.0", method: "$/cancel", params: { id: 5 } }) + "\n");
+      expect((await reply).error?.code).toBe(ERROR_CODES.REQUEST_CANCELLED);
+
+      // The current slice runs out, then no further waitForFunction is started
+      await new Promise((resolve) => setTimeout(resolve, 400));
+      const calls = fakePage.waitForFunction.mock.calls.length;
+      await new Promise((resolve) => setTimeout(resolve, 400));
+      expect(fakePage.waitForFunction.mock.calls.length).toBe(calls);
+    } finally {
+      socket.end();
+    }
+  });
+
+  it("deadlineMs stops a navigation's page load", async () => {
+    const socket = await connectToSocket();
+    try {
+      const reply = readFrame(socket);
+      socket.write(JSON.stringify({
+        jsonrpc: "2.0", id: 6, method: "navigate", params: { url: "https://example.com/slow", deadlineMs: 50 },
+      }) + "\n");
+      expect((await reply).error?.code).toBe(ERROR_CODES.TIMEOUT);
+      await waitFor(() => cdpSend.mock.calls.some((call: unknown[]) => call[0] === "Page.stopLoading"));
+    } finally {
+      socket.end();
+    }
+  });
+
+  it("ignores $/cancel for unknown ids and unknown $/ notifications", async () => {
+    const socket = await connectToSocket();
+    try {
+      socket.write(JSON.stringify({ jsonrpc: "2.0", method: "$/cancel", params: { id: 999 } }) + "\n");
+      socket.write(JSON.stringify({ jsonrpc: "2.0", method: "$/progress", params: {} }) + "\n");
+      const reply = readFrame(socket);
+      socket.write(JSON.stringify({ jsonrpc: "2.0", id: 4, method: "daemon.status" }) + "\n");
+      const frame = await reply;
+      expect(frame.id).toBe(4); // no frames were emitted for the notifications
+    } finally {
+      socket.end();
+    }
+  });
+});
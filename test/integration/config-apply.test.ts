@@ -0,0 +1,52 @@
+/**
+ * Integration test: config.set over the daemon socket applies to live state
+ */
+
+import { describe, it, beforeAll, afterAll, expect } from "vitest";
+import { startServer, stopServer } from "../../src/server.js";
+import { connectToSocket, sendRequest } from "../../src/client.js";
+import { globalObserver } from "../../src/observer.js";
+
+const TEST_WORKER_ID = "config-apply-integration-test";
+const SAVED_WORKER_ID = process.env.JARVIS_WORKER_ID;
+
+type Socket = Awaited<ReturnType<typeof connectToSocket>>;
+
+describe("runtime config — in-process integration", () => {
+  let socket: Socket;
+
+  beforeAll(async () => {
+    process.env.JARVIS_WORKER_ID = TEST_WORKER_ID;
+    await startServer();
+    socket = await connectToSocket();
+  });
+
+  afterAll(async () => {
+    await sendRequest(socket, "config.reset", {}).catch(() => {});
+    socket.end();
+    await stopServer();
+    if (SAVED_WORKER_ID === undefined) {
+      delete process.env.JARVIS_WORKER_ID;
+    } else {
+      process.env.JARVIS_WORKER_ID = SAVED_WORKER_ID;
+    }
+  });
+
+  it("config.set console-buffer-size resizes observer buffers without a restart", async () => {
+    const result = (await sendRequest(socket, "config.set", { key: "console-buffer-size", value: "321" })) as Record<string, unknown>;
+    expect(result.ok).toBe(true);
+    expect(result.restart_required).toBeUndefined();
+    expect(globalObserver.getBufferSizes().console).toBe(321);
+  });
+
+  it("config.set on a listener key reports restart_required", async () => {
+    const result = (await sendRequest(socket, "config.set", { key: "daemon-metrics-port", value: "0" })) as Record<string, unknown>;
+    expect(result.ok).toBe(true);
+    expect(result.restart_required).toBe(true);
+  });
+
+  it("config.reset restores default buffer sizes", async () => {
+    await sendRequest(socket, "config.reset", {});
+    expect(globalObserver.getBufferSizes().console).toBe(500);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Integration test: browser contexts per worker (context.* and open/set-cookie routing)
+ *
+ * browser.js is mocked: a worker's context is "ctx-<workerId>", so the test can see
+ * which context open and set-cookie were routed to without Chrome.
+ */
+
+import { vi, describe, it, beforeAll, afterAll, expect } from "vitest";
+
+vi.mock("../../src/browser.js", async (importOriginal) => {
+  let opened = 0;
+  return {
+    ...(await importOriginal<typeof import("../../src/browser.js")>()),
+    openTab: vi.fn(async (url: string, contextId?: string) => ({
+      targetId: `CTX-T${++opened}`, title: "", url, contextId: contextId ?? "default",
+    })),
+    setCookies: vi.fn(async () => {}),
+    newContext: vi.fn(async (owner: string | null) => `ctx-${owner}-extra`),
+    ensureWorkerContext: vi.fn(async (workerId: string) => `ctx-${workerId}`),
+    getContextOwner: vi.fn((contextId: string) => {
+      if (contextId === "default") return null;
+      return contextId.startsWith("ctx-") ? contextId.slice(4).replace(/-extra$/, "") : undefined;
+    }),
+    closeContext: vi.fn(async () => ["CTX-T1"]),
+  };
+});
+
+import { startServer, stopServer } from "../../src/server.js";
+import { connectToSocket, sendRequest } from "../../src/client.js";
+import { ERROR_CODES } from "../../src/protocol.js";
+import { openTab, setCookies, closeContext } from "../../src/browser.js";
+
+const TEST_WORKER_ID = "contexts-integration-test";
+const SAVED_WORKER_ID = process.env.JARVIS_WORKER_ID;
+
+type Socket = Awaited<ReturnType<typeof connectToSocket>>;
+
+async function rpcError(p: Promise<unknown>): Promise<{ code: number; message: string }> {
+  const err = await p.then(() => null, (e: Error & { code?: string }) => e);
+  expect(err).not.toBeNull();
+  return { code: Number(err!.code), message: err!.message };
+}
+
+describe("browser contexts — in-process integration", () => {
+  let socket: Socket;
+
+  beforeAll(async () => {
+    process.env.JARVIS_WORKER_ID = TEST_WORKER_ID;
+    await startServer();
+    socket = await connectToSocket();
+  });
+
+  afterAll(async () => {
+    socket.end();
+    await stopServer();
+    if (SAVED_WORKER_ID === undefined) {
+      delete process.env.JARVIS_WORKER_ID;
+    } else {
+      process.env.JARVIS_WORKER_ID = SAVED_WORKER_ID;
+    }
+  });
+
+  it("opens a worker's tabs in its own context, and others' in the shared one", async () => {
+    const opened = await sendRequest(socket, "open", { url: "about:blank", workerId: "w1" });
+    expect(opened).toMatchObject({ targetId: "CTX-T1", contextId: "ctx-w1" });
+    await sendRequest(socket, "open", { url: "about:blank" });
+    expect(vi.mocked(openTab)).toHaveBeenLastCalledWith("about:blank", undefined);
+  });
+
+  it("opens in a named context only for its owner", async () => {
+    await sendRequest(socket, "open", { url: "about:blank", contextId: "default", workerId: "w2" });
+    expect(vi.mocked(openTab)).toHaveBeenLastCalledWith("about:blank", "default");
+
+    const taken = await rpcError(sendRequest(socket, "open", { contextId: "ctx-w1", workerId: "w2" }));
+    expect(taken.code).toBe(ERROR_CODES.TAB_OWNED_BY_OTHER);
+    expect(taken.message).toBe('Context "ctx-w1" belongs to worker "w1"');
+    const unknown = await rpcError(sendRequest(socket, "open", { contextId: "nope", workerId: "w2" }));
+    expect(unknown.code).toBe(ERROR_CODES.INVALID_PARAMS);
+  });
+
+  it("writes cookies into the worker's context when no tab is named", async () => {
+    await sendRequest(socket, "set-cookie", { cookieJson: '{"name":"a","value":"1","url":"https://a.test"}', workerId: "w1" });
+    expect(vi.mocked(setCookies)).toHaveBeenLastCalledWith(
+      [{ name: "a", value: "1", url: "https://a.test" }],
+      { targetId: undefined, contextId: "ctx-w1" },
+    );
+  });
+
+  it("creates and closes contexts, refusing to close another worker's", async () => {
+    const created = await sendRequest(socket, "context.new", { workerId: "w3" });
+    expect(created).toEqual({ ok: true, contextId: "ctx-w3-extra", owner: "w3" });
+
+    const refused = await rpcError(sendRequest(socket, "context.close", { contextId: "ctx-w3-extra", workerId: "w4" }));
+    expect(refused.code).toBe(ERROR_CODES.TAB_OWNED_BY_OTHER);
+    expect(vi.mocked(closeContext)).not.toHaveBeenCalled();
+
+    const closed = await sendRequest(socket, "context.close", { contextId: "ctx-w3-extra", workerId: "w3" });
+    expect(closed).toEqual({ ok: true, contextId: "ctx-w3-extra", closed_tabs: ["CTX-T1"] });
+  });
+});
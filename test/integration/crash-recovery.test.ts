@@ -0,0 +1,88 @@
+/**
+ * Integration test: a crashed tab's lease, routes and emulation move to the tab that replaced it
+ *
+ * browser.js is mocked: the mocked click "recovers" a crash the way recoverCrashedTab
+ * does — alias the old targetId, then hand the replacement to the daemon's listener.
+ */
+
+import { vi, describe, it, beforeAll, afterAll, expect } from "vitest";
+import type { Page } from "playwright-core";
+
+const mocks = vi.hoisted(() => ({
+  aliases: new Map<string, string>(),
+  replaced: null as ((tab: { from: string; to: string; page: Page; activeTab: boolean }) => Promise<void>) | null,
+  fakePage: (): Page => ({
+    on: () => {}, off: () => {}, route: async () => {}, unroute: async () => {},
+  }) as unknown as Page,
+}));
+
+vi.mock("../../src/browser.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/browser.js")>()),
+  getPage: vi.fn(async () => mocks.fakePage()),
+  resolveTargetAlias: vi.fn((targetId: string) => mocks.aliases.get(targetId) ?? targetId),
+  onTabReplaced: vi.fn((listener: typeof mocks.replaced) => {
+    mocks.replaced = listener;
+    return () => {};
+  }),
+}));
+
+vi.mock("../../src/commands/interaction.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/commands/interaction.js")>()),
+  handleClick: vi.fn(async (params: { ref: string; targetId?: string }) => {
+    if (params.ref === "e-crash" && params.targetId) {
+      mocks.aliases.set(params.targetId, "NEW-1");
+      await mocks.replaced?.({ from: params.targetId, to: "NEW-1", page: mocks.fakePage(), activeTab: false });
+    }
+    return { ok: true, message: `Clicked ${params.ref}` };
+  }),
+}));
+
+import { startServer, stopServer } from "../../src/server.js";
+import { connectToSocket, sendRequest } from "../../src/client.js";
+import { ERROR_CODES } from "../../src/protocol.js";
+import { globalObserver } from "../../src/observer.js";
+
+const TEST_WORKER_ID = "crash-recovery-integration-test";
+const SAVED_WORKER_ID = process.env.JARVIS_WORKER_ID;
+
+type Socket = Awaited<ReturnType<typeof connectToSocket>>;
+
+describe("crash recovery — in-process integration", () => {
+  let socket: Socket;
+
+  beforeAll(async () => {
+    process.env.JARVIS_WORKER_ID = TEST_WORKER_ID;
+    await startServer();
+    socket = await connectToSocket();
+  });
+
+  afterAll(async () => {
+    socket.end();
+    await stopServer();
+    if (SAVED_WORKER_ID === undefined) {
+      delete process.env.JARVIS_WORKER_ID;
+    } else {
+      process.env.JARVIS_WORKER_ID = SAVED_WORKER_ID;
+    }
+  });
+
+  it("reports the replacement and keeps the old targetId working", async () => {
+    await sendRequest(socket, "tab.claim", { targetId: "CRASH-1", workerId: "w1" });
+    await sendRequest(socket, "route.block", { pattern: "**/*.png", targetId: "CRASH-1", workerId: "w1" });
+    globalObserver.attach(mocks.fakePage(), "CRASH-1");
+
+    const result = await sendRequest(socket, "click", { ref: "e-crash", targetId: "CRASH-1", workerId: "w1" });
+    expect(result).toEqual({ ok: true, message: "Clicked e-crash", recovered_tab: "NEW-1" });
+
+    const routes = await sendRequest(socket, "route.list", { targetId: "CRASH-1" }) as { rules: Array<{ pattern: string }> };
+    expect(routes.rules.map((r) => r.pattern)).toEqual(["**/*.png"]);
+    expect(globalObserver.isAttached("NEW-1")).toBe(true);
+    expect(globalObserver.isAttached("CRASH-1")).toBe(false);
+
+    const tabs = await sendRequest(socket, "tab.renew", { targetId: "NEW-1", workerId: "w1" });
+    expect(tabs).toMatchObject({ targetId: "NEW-1", owner: "w1" });
+    const err = await sendRequest(socket, "click", { ref: "e1", targetId: "CRASH-1", workerId: "w2" })
+      .then(() => null, (e: Error & { code?: string }) => e);
+    expect(Number(err?.code)).toBe(ERROR_CODES.TAB_OWNED_BY_OTHER);
+  });
+});
@@ -9,9 +9,15 @@
  * connection.
  */
 
+import net from "node:net";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { unlink } from "node:fs/promises";
 import { describe, it, beforeAll, afterAll, expect } from "vitest";
 import { startServer, stopServer } from "../../src/server.js";
 import { connectToSocket, sendRequest, call, tryConnect } from "../../src/client.js";
+import { daemonHello, ensureCompatibleDaemon } from "../../src/daemon.js";
+import { PACKAGE_VERSION, PROTOCOL_VERSION, BUILD_ID, makeResponse, makeErrorResponse } from "../../src/protocol.js";
 
 // Use an isolated worker ID so this test doesn't clash with a running daemon
 const TEST_WORKER_ID = "integration-test";
@@ -195,4 +201,83 @@ describe("Daemon server — in-process integration", () => {
       process.env.JARVIS_WORKER_ID = prev ?? TEST_WORKER_ID;
     }
   });
+
+  it("daemon.hello reports package version, protocol, build and methods", async () => {
+    const hello = await withSocket((s) => daemonHello(s));
+    expect(hello).toMatchObject({
+      name: "jarvis-browser",
+      version: PACKAGE_VERSION,
+      protocol: PROTOCOL_VERSION,
+      build_id: BUILD_ID,
+      pid: process.pid,
+    });
+    expect(hello?.methods).toContain("daemon.hello");
+    expect(hello?.methods).toContain("navigate");
+  });
+
+  it("ensureCompatibleDaemon keeps the connection to a matching daemon", async () => {
+    const socket = await connectToSocket();
+    try {
+      const same = await ensureCompatibleDaemon(socket, { method: "navigate", mode: "error" });
+      expect(same).toBe(socket);
+      expect(await sendRequest(same, "daemon.status")).toHaveProperty("ok", true);
+    } finally {
+      socket.end();
+    }
+  });
+
+  it("ensureCompatibleDaemon lets a method unknown to both sides fail as unknown", async () => {
+    const socket = await connectToSocket();
+    try {
+      const same = await ensureCompatibleDaemon(socket, { method: "get.textt", mode: "error" });
+      expect(same).toBe(socket);
+      await expect(sendRequest(same, "get.textt")).rejects.toThrow("Unknown method");
+    } finally {
+      socket.end();
+    }
+  });
+
+  it("ensureCompatibleDaemon in error mode names both versions when a known method is missing", async () => {
+    // Same version, but started before `navigate` existed
+    const path = join(tmpdir(), `jarvis-stale-daemon-${process.pid}.sock`);
+    const stale = net.createServer((conn) => {
+      conn.on("data", (chunk) => {
+        const req = JSON.parse(chunk.toString("utf-8").split("\n")[0]) as { id: number };
+        conn.write(JSON.stringify(makeResponse(req.id, {
+          name: "jarvis-browser", version: PACKAGE_VERSION, protocol: PROTOCOL_VERSION,
+          build_id: "", pid: 1, methods: ["daemon.hello"],
+        })) + "\n");
+      });
+    });
+    await new Promise<void>((resolve) => stale.listen(path, resolve));
+    try {
+      const socket = await connectToSocket(path);
+      await expect(ensureCompatibleDaemon(socket, { method: "navigate", mode: "error" }))
+        .rejects.toThrow(`jarvis-browser ${PACKAGE_VERSION} (protocol ${PROTOCOL_VERSION}), this CLI is ${PACKAGE_VERSION}`);
+    } finally {
+      await new Promise<void>((resolve) => stale.close(() => resolve()));
+      await unlink(path).catch(() => {});
+    }
+  });
+
+  it("a daemon without daemon.hello is reported as predating the handshake", async () => {
+    // Minimal stand-in for an old daemon: every method is unknown
+    const path = join(tmpdir(), `jarvis-old-daemon-${process.pid}.sock`);
+    const old = net.createServer((conn) => {
+      conn.on("data", (chunk) => {
+        const req = JSON.parse(chunk.toString("utf-8").split("\n")[0]) as { id: number; method: string };
+        conn.write(JSON.stringify(makeErrorResponse(req.id, -32601, `Unknown method: ${req.method}`)) + "\n");
+      });
+    });
+    await new Promise<void>((resolve) => old.listen(path, resolve));
+    try {
+      const socket = await connectToSocket(path);
+      expect(await daemonHello(socket)).toBeNull();
+      await expect(ensureCompatibleDaemon(socket, { mode: "error" }))
+        .rejects.toThrow("an older version (no daemon.hello)");
+    } finally {
+      await new Promise<void>((resolve) => old.close(() => resolve()));
+      await unlink(path).catch(() => {});
+    }
+  });
 });
@@ -0,0 +1,92 @@
+/**
+ * Integration test: rpc.discover and registry-driven param validation
+ * (in-process daemon, no Chrome)
+ */
+
+import { describe, it, beforeAll, afterAll, expect } from "vitest";
+import { startServer, stopServer } from "../../src/server.js";
+import { connectToSocket, sendRequest } from "../../src/client.js";
+import { ERROR_CODES } from "../../src/protocol.js";
+
+const TEST_WORKER_ID = "discover-integration-test";
+const SAVED_WORKER_ID = process.env.JARVIS_WORKER_ID;
+
+describe("Method registry — in-process integration (no Chrome)", () => {
+  beforeAll(async () => {
+    process.env.JARVIS_WORKER_ID = TEST_WORKER_ID;
+    await startServer();
+  });
+
+  afterAll(async () => {
+    await stopServer();
+    if (SAVED_WORKER_ID === undefined) {
+      delete process.env.JARVIS_WORKER_ID;
+    } else {
+      process.env.JARVIS_WORKER_ID = SAVED_WORKER_ID;
+    }
+  });
+
+  async function withSocket<T>(
+    fn: (socket: Awaited<ReturnType<typeof connectToSocket>>) => Promise<T>,
+  ): Promise<T> {
+    const socket = await connectToSocket();
+    try {
+      return await fn(socket);
+    } finally {
+      socket.end();
+    }
+  }
+
+  it("rpc.discover returns an OpenRPC document listing every method", async () => {
+    const doc = await withSocket((s) => sendRequest(s, "rpc.discover")) as {
+      openrpc: string;
+      info: { title: string };
+      methods: Array<{ name: string; params: Array<{ name: string; required: boolean }> }>;
+    };
+
+    expect(doc.openrpc).toMatch(/^1\.2/);
+    expect(doc.info.title).toContain("jarvis-browser");
+    const names = doc.methods.map((m) => m.name);
+    expect(names).toContain("click");
+    expect(names).toContain("rpc.discover");
+    const click = doc.methods.find((m) => m.name === "click")!;
+    expect(click.params.find((p) => p.name === "ref")?.required).toBe(true);
+  });
+
+  it("rejects a missing required param with INVALID_PARAMS before touching Chrome", async () => {
+    await withSocket(async (s) => {
+      try {
+        await sendRequest(s, "click", {});
+        expect.fail("should have thrown");
+      } catch (err) {
+        const e = err as NodeJS.ErrnoException;
+        expect(Number(e.code)).toBe(ERROR_CODES.INVALID_PARAMS);
+        expect(e.message).toContain("ref is required");
+      }
+    });
+  });
+
+  it("returns field-level detail in error.data", async () => {
+    const socket = await connectToSocket();
+    try {
+      const frame = await new Promise<{ error: { code: number; data: { errors: Array<{ field: string }> } } }>((resolve) => {
+        socket.once("data", (chunk: Buffer) => resolve(JSON.parse(chunk.toString("utf-8").split("\n")[0])));
+        socket.write(JSON.stringify({
+          jsonrpc: "2.0", id: 1, method: "scroll", params: { direction: "sideways", amount: "lots" },
+        }) + "\n");
+      });
+      expect(frame.error.code).toBe(ERROR_CODES.INVALID_PARAMS);
+      expect(frame.error.data.errors.map((i) => i.field)).toEqual(["direction", "amount"]);
+    } finally {
+      socket.end();
+    }
+  });
+
+  it("unknown methods still return METHOD_NOT_FOUND", async () => {
+    await withSocket(async (s) => {
+      await expect(sendRequest(s, "no.such.method")).rejects.toMatchObject({
+        code: String(ERROR_CODES.METHOD_NOT_FOUND),
+      });
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Integration test: subscribe / unsubscribe over the daemon socket
+ *
+ * Events are injected through globalEvents directly (no Chrome needed) and
+ * must arrive as JSON-RPC notifications on the subscribed connection.
+ */
+
+import { vi, describe, it, beforeAll, afterAll, expect } from "vitest";
+
+// A short idle timeout (300ms) so idle shutdown is observable
+const IDLE_MS = 300;
+vi.mock("../../src/config.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../../src/config.js")>();
+  return {
+    ...actual,
+    readConfig: vi.fn(async () => ({ ...actual.getDefaults(), "daemon-idle-timeout-m": IDLE_MS / 60_000 })),
+  };
+});
+
+import { startServer, stopServer, setShutdownCallback } from "../../src/server.js";
+import { connectToSocket, sendRequest, followEvents } from "../../src/client.js";
+import { globalEvents } from "../../src/events.js";
+
+const TEST_WORKER_ID = "events-integration-test";
+const SAVED_WORKER_ID = process.env.JARVIS_WORKER_ID;
+
+function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const deadline = Date.now() + timeoutMs;
+    const tick = () => {
+      if (predicate()) return resolve();
+      if (Date.now() > deadline) return reject(new Error("waitFor timed out"));
+      setTimeout(tick, 10);
+    };
+    tick();
+  });
+}
+
+describe("Event subscriptions — in-process integration", () => {
+  beforeAll(async () => {
+    process.env.JARVIS_WORKER_ID = TEST_WORKER_ID;
+    await startServer();
+  });
+
+  afterAll(async () => {
+    await stopServer();
+    if (SAVED_WORKER_ID === undefined) {
+      delete process.env.JARVIS_WORKER_ID;
+    } else {
+      process.env.JARVIS_WORKER_ID = SAVED_WORKER_ID;
+    }
+  });
+
+  it("streams matching events as notifications", async () => {
+    const socket = await connectToSocket();
+    try {
+      const events: Record<string, unknown>[] = [];
+      const result = await followEvents(socket, { include: "console,dialog" }, (e) => events.push(e));
+      const r = result as { ok: boolean; subscription: string; channels: string[] };
+      expect(r.ok).toBe(true);
+      expect(r.channels).toEqual(["console", "dialog"]);
+
+      globalEvents.publish("network", "T1", { url: "https://skip.me" });
+      globalEvents.publish("console", "T1", { text: "hello" });
+      globalEvents.publish("dialog", "T2", { type: "alert", message: "hi" });
+
+      await waitFor(() => events.length >= 2);
+      expect(events.map((e) => e.channel)).toEqual(["console", "dialog"]);
+      expect(events[0]).toMatchObject({ subscription: r.subscription, targetId: "T1", data: { text: "hello" } });
+    } finally {
+      socket.end();
+    }
+  });
+
+  it("filters by targetId", async () => {
+    const socket = await connectToSocket();
+    try {
+      const events: Record<string, unknown>[] = [];
+      await followEvents(socket, { targetId: "ONLY" }, (e) => events.push(e));
+      globalEvents.publish("console", "OTHER", { text: "no" });
+      globalEvents.publish("console", "ONLY", { text: "yes" });
+      await waitFor(() => events.length >= 1);
+      expect(events).toHaveLength(1);
+      expect(events[0]!.targetId).toBe("ONLY");
+    } finally {
+      socket.end();
+    }
+  });
+
+  it("sendRequest still gets its reply while events are flowing", async () => {
+    const socket = await connectToSocket();
+    try {
+      await followEvents(socket, {}, () => {});
+      globalEvents.publish("console", "T", { text: "noise" });
+      const status = await sendRequest(socket, "daemon.status") as Record<string, unknown>;
+      expect(status.ok).toBe(true);
+    } finally {
+      socket.end();
+    }
+  });
+
+  it("unsubscribe stops delivery and reports removed ids", async () => {
+    const socket = await connectToSocket();
+    try {
+      const events: unknown[] = [];
+      const sub = await followEvents(socket, {}, (e) => events.push(e)) as { subscription: string };
+      const removed = await sendRequest(socket, "unsubscribe", { subscription: sub.subscription }) as { removed: string[] };
+      expect(removed.removed).toEqual([sub.subscription]);
+      globalEvents.publish("console", "T", { text: "after" });
+      const status = await sendRequest(socket, "daemon.status") as Record<string, unknown>;
+      expect(status.ok).toBe(true);
+      expect(events).toHaveLength(0);
+    } finally {
+      socket.end();
+    }
+  });
+
+  it("rejects unknown channels", async () => {
+    const socket = await connectToSocket();
+    try {
+      await expect(sendRequest(socket, "subscribe", { include: "bogus" })).rejects.toThrow(/Unknown event channel/);
+    } finally {
+      socket.end();
+    }
+  });
+
+  it("drops subscriptions when the connection closes", async () => {
+    const before = globalEvents.listenerCount;
+    const socket = await connectToSocket();
+    await followEvents(socket, {}, () => {});
+    expect(globalEvents.listenerCount).toBe(before + 1);
+    socket.end();
+    await waitFor(() => globalEvents.listenerCount === before);
+  });
+
+  it("does not shut down for idleness while a connection is subscribed", async () => {
+    const shutdown = vi.fn();
+    const socket = await connectToSocket();
+    await followEvents(socket, {}, () => {});
+    setShutdownCallback(shutdown);
+    await new Promise((r) => setTimeout(r, IDLE_MS * 2));
+    expect(shutdown).not.toHaveBeenCalled();
+    // The countdown starts over once the last subscription goes away
+    socket.end();
+    await waitFor(() => shutdown.mock.calls.length > 0);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Integration test: tab lease RPCs (tab.claim / renew / transfer / release)
+ *
+ * listTabs is mocked so `tabs` works without Chrome.
+ */
+
+import { vi, describe, it, beforeAll, afterAll, expect } from "vitest";
+
+vi.mock("../../src/browser.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/browser.js")>()),
+  listTabs: vi.fn(async () => [
+    { targetId: "LEASE-T1", title: "One", url: "https://one.test/" },
+    { targetId: "LEASE-T2", title: "Two", url: "https://two.test/" },
+  ]),
+}));
+
+import { startServer, stopServer } from "../../src/server.js";
+import { connectToSocket, sendRequest } from "../../src/client.js";
+import { ERROR_CODES } from "../../src/protocol.js";
+
+const TEST_WORKER_ID = "leases-integration-test";
+const SAVED_WORKER_ID = process.env.JARVIS_WORKER_ID;
+
+type Socket = Awaited<ReturnType<typeof connectToSocket>>;
+
+async function rpcError(p: Promise<unknown>): Promise<{ code: number; message: string }> {
+  const err = await p.then(() => null, (e: Error & { code?: string }) => e);
+  expect(err).not.toBeNull();
+  return { code: Number(err!.code), message: err!.message };
+}
+
+describe("tab leases — in-process integration", () => {
+  let socket: Socket;
+
+  beforeAll(async () => {
+    process.env.JARVIS_WORKER_ID = TEST_WORKER_ID;
+    await startServer();
+    socket = await connectToSocket();
+  });
+
+  afterAll(async () => {
+    socket.end();
+    await stopServer();
+    if (SAVED_WORKER_ID === undefined) {
+      delete process.env.JARVIS_WORKER_ID;
+    } else {
+      process.env.JARVIS_WORKER_ID = SAVED_WORKER_ID;
+    }
+  });
+
+  it("claims a tab and blocks other workers from tab operations", async () => {
+    const claimed = await sendRequest(socket, "tab.claim", { targetId: "LEASE-T1", workerId: "w1", ttlMs: 60_000 });
+    expect(claimed).toEqual({ ok: true, targetId: "LEASE-T1", owner: "w1", lease_remaining_s: 60 });
+
+    const blocked = await rpcError(sendRequest(socket, "click", { ref: "e1", targetId: "LEASE-T1", workerId: "w2" }));
+    expect(blocked.code).toBe(ERROR_CODES.TAB_OWNED_BY_OTHER);
+    const stolen = await rpcError(sendRequest(socket, "tab.claim", { targetId: "LEASE-T1", workerId: "w2" }));
+    expect(stolen.code).toBe(ERROR_CODES.TAB_OWNED_BY_OTHER);
+  });
+
+  it("shows owner and remaining lease in tabs", async () => {
+    const tabs = await sendRequest(socket, "tabs", {}) as Array<Record<string, unknown>>;
+    expect(tabs).toEqual([
+      expect.objectContaining({ targetId: "LEASE-T1", owner: "w1", lease_remaining_s: expect.any(Number) }),
+      expect.objectContaining({ targetId: "LEASE-T2", owner: null, lease_remaining_s: null }),
+    ]);
+  });
+
+  it("transfers, renews and releases", async () => {
+    await sendRequest(socket, "tab.transfer", { targetId: "LEASE-T1", to: "w2", workerId: "w1" });
+    const renewed = await sendRequest(socket, "tab.renew", { targetId: "LEASE-T1", workerId: "w2", ttlMs: 5_000 });
+    expect(renewed).toMatchObject({ owner: "w2", lease_remaining_s: 5 });
+
+    const notOwner = await rpcError(sendRequest(socket, "tab.release", { targetId: "LEASE-T1", workerId: "w1" }));
+    expect(notOwner.code).toBe(ERROR_CODES.TAB_OWNED_BY_OTHER);
+    expect(await sendRequest(socket, "tab.release", { targetId: "LEASE-T1", workerId: "w2" }))
+      .toEqual({ ok: true, targetId: "LEASE-T1", released: true });
+  });
+
+  it("lets another worker claim once a lease expires", async () => {
+    await sendRequest(socket, "tab.claim", { targetId: "LEASE-T2", workerId: "w1", ttlMs: 30 });
+    await new Promise((r) => setTimeout(r, 60));
+    const claimed = await sendRequest(socket, "tab.claim", { targetId: "LEASE-T2", workerId: "w2", ttlMs: 0 });
+    expect(claimed).toMatchObject({ owner: "w2", lease_remaining_s: null });
+  });
+
+  it("requires a workerId", async () => {
+    const err = await rpcError(sendRequest(socket, "tab.claim", { targetId: "LEASE-T1" }));
+    expect(err.code).toBe(ERROR_CODES.INVALID_PARAMS);
+    expect(err.message).toContain("workerId");
+  });
+});
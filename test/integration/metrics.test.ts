@@ -0,0 +1,92 @@
+/**
+ * Integration test: daemon.metrics, daemon.health and the HTTP /metrics endpoint
+ *
+ * Runs without Chrome: requests fail with BROWSER_NOT_CONNECTED-style errors,
+ * which is exactly what the error counters should pick up.
+ */
+
+import { describe, it, beforeAll, afterAll, expect } from "vitest";
+import { startServer, stopServer, startMetricsEndpoint, stopMetricsEndpoint } from "../../src/server.js";
+import { connectToSocket, sendRequest } from "../../src/client.js";
+
+const TEST_WORKER_ID = "metrics-integration-test";
+const SAVED_WORKER_ID = process.env.JARVIS_WORKER_ID;
+
+type Socket = Awaited<ReturnType<typeof connectToSocket>>;
+
+interface MetricsResult {
+  requests_total: number;
+  errors_total: number;
+  errors_by_code: Record<string, number>;
+  methods: Record<string, { count: number; errors: number; buckets: number[] }>;
+  gauges: Record<string, number | null>;
+}
+
+describe("daemon metrics — in-process integration", () => {
+  let socket: Socket;
+
+  beforeAll(async () => {
+    process.env.JARVIS_WORKER_ID = TEST_WORKER_ID;
+    await startServer();
+    socket = await connectToSocket();
+  });
+
+  afterAll(async () => {
+    socket.end();
+    await stopServer();
+    if (SAVED_WORKER_ID === undefined) {
+      delete process.env.JARVIS_WORKER_ID;
+    } else {
+      process.env.JARVIS_WORKER_ID = SAVED_WORKER_ID;
+    }
+  });
+
+  it("counts requests per method and errors by code", async () => {
+    await sendRequest(socket, "daemon.status");
+    await sendRequest(socket, "daemon.status");
+    await sendRequest(socket, "click", {}).catch(() => {});       // INVALID_PARAMS
+    await sendRequest(socket, "no.such.method").catch(() => {});  // METHOD_NOT_FOUND
+
+    const m = await sendRequest(socket, "daemon.metrics") as MetricsResult;
+    expect(m.methods["daemon.status"]).toMatchObject({ count: 2, errors: 0 });
+    expect(m.methods.click).toMatchObject({ count: 1, errors: 1 });
+    expect(m.methods["(unknown)"]).toMatchObject({ count: 1, errors: 1 });
+    expect(m.methods["no.such.method"]).toBeUndefined();
+    expect(m.errors_by_code).toMatchObject({ INVALID_PARAMS: 1, METHOD_NOT_FOUND: 1 });
+    expect(m.gauges).toMatchObject({ chrome_connected: 0, chrome_tabs: 0 });
+  });
+
+  it("reports real buffer, ref and request figures in daemon.health", async () => {
+    const health = await sendRequest(socket, "daemon.health") as Record<string, Record<string, unknown>>;
+    expect(health.chrome).toMatchObject({ connected: false, tabs: 0, memory: null });
+    expect(health.chrome.supervision).toEqual({ restarts_in_window: 0, max_restarts: 3, window_s: 600, events: [] });
+    expect(health.buffers).toEqual({
+      observed_tabs: expect.any(Number),
+      console: expect.any(Number),
+      errors: expect.any(Number),
+      network: expect.any(Number),
+      routes: expect.any(Number),
+    });
+    expect(health.refs).toEqual({ cached_targets: expect.any(Number), total_refs: expect.any(Number) });
+    expect(health.page_resolution).toMatchObject({ indexed_pages: 0, lookups: expect.any(Number), avg_ms: expect.any(Number) });
+    expect(health.requests.total).toBeGreaterThanOrEqual(4);
+    expect(health.requests.errors).toBeGreaterThanOrEqual(2);
+  });
+
+  it("returns Prometheus text over RPC and HTTP", async () => {
+    const rpc = await sendRequest(socket, "daemon.metrics", { format: "prometheus" }) as { text: string };
+    expect(rpc.text).toContain('jarvis_requests_total{method="daemon.status"} 2');
+
+    const endpoint = await startMetricsEndpoint("127.0.0.1", 0);
+    try {
+      const status = await sendRequest(socket, "daemon.status") as { metrics?: string };
+      expect(status.metrics).toBe(endpoint.url);
+      const body = await (await fetch(endpoint.url)).text();
+      expect(body).toContain("# TYPE jarvis_request_duration_seconds histogram");
+      expect(body).toContain('jarvis_requests_total{method="daemon.metrics"}');
+      expect(body).toContain("jarvis_chrome_connected 0");
+    } finally {
+      await stopMetricsEndpoint();
+    }
+  });
+});
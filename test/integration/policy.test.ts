@@ -0,0 +1,93 @@
+/**
+ * Integration test: worker policies enforced by routeRequest
+ *
+ * The policy file is installed through config.set policy-file, the way an operator
+ * would. Only the "policy-*" workers are restricted, so other suites sharing the
+ * config file are unaffected.
+ */
+
+import { writeFileSync } from "node:fs";
+import { unlink } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { describe, it, beforeAll, afterAll, expect } from "vitest";
+import { startServer, stopServer } from "../../src/server.js";
+import { connectToSocket, sendRequest } from "../../src/client.js";
+import { ERROR_CODES } from "../../src/protocol.js";
+
+const TEST_WORKER_ID = "policy-integration-test";
+const SAVED_WORKER_ID = process.env.JARVIS_WORKER_ID;
+const POLICY_PATH = join(tmpdir(), `jarvis-policy-${process.pid}.json`);
+
+type Socket = Awaited<ReturnType<typeof connectToSocket>>;
+
+describe("worker policies — in-process integration", () => {
+  let socket: Socket;
+
+  beforeAll(async () => {
+    process.env.JARVIS_WORKER_ID = TEST_WORKER_ID;
+    writeFileSync(POLICY_PATH, JSON.stringify({
+      workers: {
+        "policy-untrusted": {
+          deny_methods: ["evaluate", "set-cookie", "session.export", "route.mock"],
+          allow_urls: ["*.example.com"],
+        },
+      },
+    }));
+    await startServer();
+    socket = await connectToSocket();
+    await sendRequest(socket, "config.set", { key: "policy-file", value: POLICY_PATH });
+  });
+
+  afterAll(async () => {
+    await sendRequest(socket, "config.reset", {}).catch(() => {});
+    socket.end();
+    await stopServer();
+    await unlink(POLICY_PATH).catch(() => {});
+    if (SAVED_WORKER_ID === undefined) {
+      delete process.env.JARVIS_WORKER_ID;
+    } else {
+      process.env.JARVIS_WORKER_ID = SAVED_WORKER_ID;
+    }
+  });
+
+  it("rejects denied methods with SECURITY_VIOLATION before they run", async () => {
+    const err = await sendRequest(socket, "evaluate", { workerId: "policy-untrusted", expression: "1" })
+      .catch((e: NodeJS.ErrnoException) => e);
+    expect((err as NodeJS.ErrnoException).code).toBe(String(ERROR_CODES.SECURITY_VIOLATION));
+    expect((err as Error).message).toBe('Policy denies "evaluate" for worker "policy-untrusted"');
+  });
+
+  it("rejects navigation outside allow_urls", async () => {
+    const err = await sendRequest(socket, "navigate", { workerId: "policy-untrusted", url: "https://evil.io/" })
+      .catch((e: NodeJS.ErrnoException) => e);
+    expect((err as NodeJS.ErrnoException).code).toBe(String(ERROR_CODES.SECURITY_VIOLATION));
+  });
+
+  it("leaves other workers and allowed methods alone", async () => {
+    const list = await sendRequest(socket, "route.list", { workerId: "policy-untrusted" }) as { ok: boolean };
+    expect(list.ok).toBe(true);
+    const other = await sendRequest(socket, "config.get", { workerId: "policy-trusted", key: "policy-file" }) as { value: string };
+    expect(other.value).toBe(POLICY_PATH);
+  });
+
+  it("does not let a restricted worker switch the policy off", async () => {
+    const err = await sendRequest(socket, "config.set", { workerId: "policy-untrusted", key: "policy-file", value: "" })
+      .catch((e: NodeJS.ErrnoException) => e);
+    expect((err as NodeJS.ErrnoException).code).toBe(String(ERROR_CODES.SECURITY_VIOLATION));
+  });
+
+  it("policy.show reports the effective rules for a worker", async () => {
+    const shown = await sendRequest(socket, "policy.show", { worker: "policy-untrusted" }) as Record<string, unknown>;
+    expect(shown.path).toBe(POLICY_PATH);
+    expect(shown.effective).toMatchObject({
+      worker: "policy-untrusted",
+      matched: "policy-untrusted",
+      allow_urls: ["*.example.com"],
+    });
+    expect(shown.url_rules).toContain("Redirects");
+    const own = await sendRequest(socket, "policy.show", { workerId: "policy-trusted" }) as Record<string, unknown>;
+    expect(own.effective).toEqual({ worker: "policy-trusted", matched: null });
+    expect(own).not.toHaveProperty("url_rules");
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Integration test: tabs opened by a page (popups) are adopted and reported
+ *
+ * browser.js is mocked: onNewTab hands the daemon's listener to the test, and the
+ * mocked click "opens" a popup the way Chrome does — recorded with its opener, then
+ * announced as a new tab. "ACTIVE-1" plays the active tab.
+ */
+
+import { vi, describe, it, beforeAll, afterAll, expect } from "vitest";
+import type { Page } from "playwright-core";
+
+const { fakePage } = vi.hoisted(() => ({
+  fakePage: (): Page => ({
+    on: () => {}, off: () => {}, route: async () => {}, unroute: async () => {},
+  }) as unknown as Page,
+}));
+
+const newTab = vi.hoisted(() => ({
+  listener: null as ((tab: { page: Page; targetId: string; openerId: string | null }) => void) | null,
+}));
+
+vi.mock("../../src/browser.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/browser.js")>()),
+  getPage: vi.fn(async () => fakePage()),
+  getActiveTargetId: vi.fn(async () => "ACTIVE-1"),
+  onNewTab: vi.fn((listener: typeof newTab.listener) => {
+    newTab.listener = listener;
+    return () => {};
+  }),
+}));
+
+vi.mock("../../src/commands/interaction.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/commands/interaction.js")>()),
+  handleClick: vi.fn(async (params: { ref: string; targetId?: string }) => {
+    const { globalOpenedTabs } = await import("../../src/popups.js");
+    if (params.ref === "e-popup" || params.ref === "e-popup-b") {
+      const openerId = params.targetId ?? "ACTIVE-1";
+      const targetId = openerId !== "ACTIVE-1" ? "POPUP-1" : params.ref === "e-popup" ? "POPUP-A" : "POPUP-B";
+      globalOpenedTabs.record(targetId, openerId);
+      newTab.listener?.({ page: fakePage(), targetId, openerId });
+    }
+    // Another tab's script opens a popup while this click runs
+    if (params.ref === "e-elsewhere") globalOpenedTabs.record("POPUP-OTHER", "OTHER-1");
+    return { ok: true, message: `Clicked ${params.ref}` };
+  }),
+}));
+
+import { startServer, stopServer } from "../../src/server.js";
+import { connectToSocket, sendRequest } from "../../src/client.js";
+import { ERROR_CODES } from "../../src/protocol.js";
+import { globalObserver } from "../../src/observer.js";
+import { globalNetwork } from "../../src/network.js";
+
+const TEST_WORKER_ID = "popups-integration-test";
+const SAVED_WORKER_ID = process.env.JARVIS_WORKER_ID;
+
+type Socket = Awaited<ReturnType<typeof connectToSocket>>;
+
+async function waitFor(check: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error("condition not met in time");
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+describe("popup tracking — in-process integration", () => {
+  let socket: Socket;
+
+  beforeAll(async () => {
+    process.env.JARVIS_WORKER_ID = TEST_WORKER_ID;
+    await startServer();
+    socket = await connectToSocket();
+  });
+
+  afterAll(async () => {
+    socket.end();
+    await stopServer();
+    if (SAVED_WORKER_ID === undefined) {
+      delete process.env.JARVIS_WORKER_ID;
+    } else {
+      process.env.JARVIS_WORKER_ID = SAVED_WORKER_ID;
+    }
+  });
+
+  it("reports only the tab an action opened", async () => {
+    const plain = await sendRequest(socket, "click", { ref: "e1", targetId: "OPENER-1" });
+    expect(plain).toEqual({ ok: true, message: "Clicked e1" });
+  });
+
+  it("credits calls without a targetId only with popups of the active tab", async () => {
+    const elsewhere = await sendRequest(socket, "click", { ref: "e-elsewhere" });
+    expect(elsewhere).toEqual({ ok: true, message: "Clicked e-elsewhere" });
+
+    const own = await sendRequest(socket, "click", { ref: "e-popup" });
+    expect(own).toMatchObject({ ok: true, opened_tab: "POPUP-A" });
+  });
+
+  it("gives a popup the opener's observer, route rules and owner", async () => {
+    await sendRequest(socket, "tab.claim", { targetId: "OPENER-1", workerId: "w1" });
+    await sendRequest(socket, "route.block", { pattern: "**/ads/**", targetId: "OPENER-1", workerId: "w1" });
+
+    const result = await sendRequest(socket, "click", { ref: "e-popup", targetId: "OPENER-1", workerId: "w1" });
+    expect(result).toMatchObject({ ok: true, opened_tab: "POPUP-1" });
+
+    await waitFor(() => globalNetwork.listRules("POPUP-1").length > 0);
+    expect(globalObserver.attachedTargets()).toContain("POPUP-1");
+    const routes = await sendRequest(socket, "route.list", { targetId: "POPUP-1" }) as { rules: Array<{ pattern: string }> };
+    expect(routes.rules.map((r) => r.pattern)).toEqual(["**/ads/**"]);
+
+    const err = await sendRequest(socket, "click", { ref: "e2", targetId: "POPUP-1", workerId: "w2" })
+      .then(() => null, (e: Error & { code?: string }) => e);
+    expect(Number(err?.code)).toBe(ERROR_CODES.TAB_OWNED_BY_OTHER);
+  });
+
+  it("gives a popup of the active tab the rules set without a targetId", async () => {
+    await sendRequest(socket, "route.block", { pattern: "**/tracker/**" });
+
+    const result = await sendRequest(socket, "click", { ref: "e-popup-b" });
+    expect(result).toMatchObject({ ok: true, opened_tab: "POPUP-B" });
+
+    await waitFor(() => globalNetwork.listRules("POPUP-B").length > 0);
+    expect(globalNetwork.listRules("POPUP-B").map((r) => r.pattern)).toEqual(["**/tracker/**"]);
+  });
+});
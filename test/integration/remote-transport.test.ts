@@ -0,0 +1,189 @@
+/**
+ * Integration test: TCP and WebSocket listeners with bearer-token auth
+ * (in-process daemon on ephemeral ports, no Chrome)
+ */
+
+import net from "node:net";
+import { describe, it, beforeAll, afterAll, afterEach, expect } from "vitest";
+import { startServer, stopServer, startRemoteServer } from "../../src/server.js";
+import { connectToSocket, sendRequest } from "../../src/client.js";
+import { ERROR_CODES } from "../../src/protocol.js";
+import { decodeWsFrames, encodeWsFrame, WS_OPCODES } from "../../src/transport.js";
+
+const TEST_WORKER_ID = "remote-transport-integration-test";
+const TOKEN = "integration-s3cret";
+const SAVED_ENV = {
+  JARVIS_WORKER_ID: process.env.JARVIS_WORKER_ID,
+  JARVIS_DAEMON_URL: process.env.JARVIS_DAEMON_URL,
+  JARVIS_DAEMON_TOKEN: process.env.JARVIS_DAEMON_TOKEN,
+};
+
+function restoreEnv(key: keyof typeof SAVED_ENV): void {
+  if (SAVED_ENV[key] === undefined) delete process.env[key];
+  else process.env[key] = SAVED_ENV[key];
+}
+
+function readLine(socket: net.Socket): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    let buffer = "";
+    const onData = (chunk: Buffer) => {
+      buffer += chunk.toString("utf-8");
+      const idx = buffer.indexOf("\n");
+      if (idx === -1) return;
+      socket.off("data", onData);
+      resolve(JSON.parse(buffer.slice(0, idx)) as Record<string, unknown>);
+    };
+    socket.on("data", onData);
+    socket.once("error", reject);
+  });
+}
+
+/** Raw WebSocket handshake; resolves with the status line and the socket. */
+function wsHandshake(port: number, headers: Record<string, string>, path = "/"): Promise<{ status: string; socket: net.Socket; rest: Buffer }> {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection(port, "127.0.0.1");
+    let buf = Buffer.alloc(0);
+    const onData = (chunk: Buffer) => {
+      buf = Buffer.concat([buf, chunk]);
+      const end = buf.indexOf("\r\n\r\n");
+      if (end === -1) return;
+      socket.off("data", onData);
+      resolve({ status: buf.subarray(0, buf.indexOf("\r\n")).toString(), socket, rest: buf.subarray(end + 4) });
+    };
+    socket.on("data", onData);
+    socket.once("error", reject);
+    socket.once("connect", () => {
+      const lines = [
+        `GET ${path} HTTP/1.1`,
+        `Host: 127.0.0.1:${port}`,
+        "Upgrade: websocket",
+        "Connection: Upgrade",
+        "Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==",
+        "Sec-WebSocket-Version: 13",
+        ...Object.entries(headers).map(([k, v]) => `${k}: ${v}`),
+      ];
+      socket.write(lines.join("\r\n") + "\r\n\r\n");
+    });
+  });
+}
+
+function readWsText(socket: net.Socket, initial: Buffer): Promise<string> {
+  return new Promise((resolve) => {
+    let buf = initial;
+    const tryDecode = () => {
+      const { frames } = decodeWsFrames(buf);
+      if (frames.length > 0) {
+        socket.off("data", onData);
+        resolve(frames[0].payload.toString("utf-8"));
+        return true;
+      }
+      return false;
+    };
+    const onData = (chunk: Buffer) => {
+      buf = Buffer.concat([buf, chunk]);
+      tryDecode();
+    };
+    if (!tryDecode()) socket.on("data", onData);
+  });
+}
+
+describe("Remote transport — in-process integration (no Chrome)", () => {
+  let tcpPort = 0;
+  let wsPort = 0;
+
+  beforeAll(async () => {
+    process.env.JARVIS_WORKER_ID = TEST_WORKER_ID;
+    await startServer();
+    const listeners = await startRemoteServer({ host: "127.0.0.1", tcpPort: 0, wsPort: 0, token: TOKEN, authTimeoutMs: 300 });
+    tcpPort = Number(new URL(listeners.tcpUrl!).port);
+    wsPort = Number(new URL(listeners.wsUrl!).port);
+  });
+
+  afterAll(async () => {
+    await stopServer();
+    restoreEnv("JARVIS_WORKER_ID");
+  });
+
+  afterEach(() => {
+    restoreEnv("JARVIS_DAEMON_URL");
+    restoreEnv("JARVIS_DAEMON_TOKEN");
+  });
+
+  it("connectToSocket honors JARVIS_DAEMON_URL and authenticates with the token", async () => {
+    process.env.JARVIS_DAEMON_URL = `tcp://127.0.0.1:${tcpPort}`;
+    process.env.JARVIS_DAEMON_TOKEN = TOKEN;
+    const socket = await connectToSocket();
+    try {
+      const status = await sendRequest(socket, "daemon.status") as Record<string, unknown>;
+      expect(status.ok).toBe(true);
+      expect(status.tcp).toBe(`tcp://127.0.0.1:${tcpPort}`);
+    } finally {
+      socket.end();
+    }
+  });
+
+  it("rejects a wrong token with UNAUTHORIZED", async () => {
+    process.env.JARVIS_DAEMON_URL = `tcp://127.0.0.1:${tcpPort}`;
+    process.env.JARVIS_DAEMON_TOKEN = "wrong";
+    await expect(connectToSocket()).rejects.toMatchObject({ code: String(ERROR_CODES.UNAUTHORIZED) });
+  });
+
+  it("closes TCP connections that skip auth", async () => {
+    const socket = net.createConnection(tcpPort, "127.0.0.1");
+    await new Promise((r) => socket.once("connect", r));
+    const closed = new Promise((r) => socket.once("close", r));
+    const reply = readLine(socket);
+    socket.write(JSON.stringify({ jsonrpc: "2.0", id: 1, method: "daemon.status" }) + "\n");
+    expect(((await reply).error as { code: number }).code).toBe(ERROR_CODES.UNAUTHORIZED);
+    await closed;
+  });
+
+  it("closes TCP connections whose first line is not JSON", async () => {
+    const socket = net.createConnection(tcpPort, "127.0.0.1");
+    await new Promise((r) => socket.once("connect", r));
+    const closed = new Promise((r) => socket.once("close", r));
+    const reply = readLine(socket);
+    socket.write("GET / HTTP/1.1\n");
+    expect(((await reply).error as { code: number }).code).toBe(ERROR_CODES.UNAUTHORIZED);
+    await closed;
+  });
+
+  it("drops an unauthenticated peer that sends a long line without a newline", async () => {
+    const socket = net.createConnection(tcpPort, "127.0.0.1");
+    await new Promise((r) => socket.once("connect", r));
+    const closed = new Promise((r) => socket.once("close", r));
+    socket.on("error", () => {});
+    socket.write("x".repeat(64 * 1024));
+    await closed;
+  });
+
+  it("drops an unauthenticated peer that never authenticates", async () => {
+    const socket = net.createConnection(tcpPort, "127.0.0.1");
+    await new Promise((r) => socket.once("connect", r));
+    const closed = new Promise((r) => socket.once("close", r));
+    const reply = readLine(socket);
+    expect(((await reply).error as { message: string }).message).toContain("timed out");
+    await closed;
+  });
+
+  it("serves JSON-RPC over WebSocket with a bearer header", async () => {
+    const { status, socket, rest } = await wsHandshake(wsPort, { Authorization: `Bearer ${TOKEN}` });
+    try {
+      expect(status).toContain("101");
+      const reply = readWsText(socket, rest);
+      const req = JSON.stringify({ jsonrpc: "2.0", id: 7, method: "daemon.status" });
+      socket.write(encodeWsFrame(WS_OPCODES.TEXT, Buffer.from(req), Buffer.from([9, 8, 7, 6])));
+      const resp = JSON.parse(await reply) as { id: number; result: { ok: boolean } };
+      expect(resp.id).toBe(7);
+      expect(resp.result.ok).toBe(true);
+    } finally {
+      socket.destroy();
+    }
+  });
+
+  it("refuses a WebSocket upgrade with a bad ?token=", async () => {
+    const { status, socket } = await wsHandshake(wsPort, {}, "/?token=nope");
+    socket.destroy();
+    expect(status).toContain("401");
+  });
+});
@@ -124,13 +124,13 @@ describe("config.list", () => {
     mockExistsSync.mockReturnValue(false);
   });
 
-  it("returns all 12 config keys", async () => {
+  it("returns all 40 config keys", async () => {
     const result = (await handleConfigList()) as Record<string, unknown>;
     expect(result.ok).toBe(true);
     expect(result.config).toBeDefined();
     expect(result.defaults).toBeDefined();
     const entries = result.entries as Array<Record<string, unknown>>;
-    expect(entries).toHaveLength(12);
+    expect(entries).toHaveLength(40);
   });
 
   it("marks unmodified keys as modified=false", async () => {
@@ -195,10 +195,10 @@ describe("withRetry without page — fail-fast", () => {
       mouse: { wheel: vi.fn().mockResolvedValue(undefined) },
       keyboard: { press: vi.fn().mockResolvedValue(undefined) },
     };
-    const action = vi.fn().mockRejectedValue(new Error("Page crashed unexpectedly"));
+    const action = vi.fn().mockRejectedValue(new Error("Protocol error: Target closed unexpectedly"));
     await expect(
       withRetry(action, { page: mockPage as never, maxRetries: 3, delayMs: 0 }),
-    ).rejects.toThrow("Page crashed");
+    ).rejects.toThrow("Protocol error");
     expect(action).toHaveBeenCalledOnce();
   });
 });
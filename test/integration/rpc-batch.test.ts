@@ -0,0 +1,180 @@
+/**
+ * Integration test: JSON-RPC 2.0 batch arrays on the daemon socket
+ *
+ * getPage is mocked to return an EventEmitter-backed fake page, so
+ * `wait --download` blocks until its deadline and concurrency is observable
+ * through the page's download listener count (no Chrome needed).
+ */
+
+import { EventEmitter } from "node:events";
+import { vi, describe, it, beforeAll, afterAll, expect } from "vitest";
+
+const fakePage = new EventEmitter();
+
+vi.mock("../../src/browser.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/browser.js")>()),
+  getPage: vi.fn(async () => fakePage),
+}));
+
+import { startServer, stopServer } from "../../src/server.js";
+import { connectToSocket, sendBatch, sendRequest } from "../../src/client.js";
+import { ERROR_CODES, type RpcErrorResponse, type RpcSuccessResponse } from "../../src/protocol.js";
+
+const TEST_WORKER_ID = "rpc-batch-integration-test";
+const SAVED_WORKER_ID = process.env.JARVIS_WORKER_ID;
+
+type Socket = Awaited<ReturnType<typeof connectToSocket>>;
+
+function readLine(socket: Socket): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let buffer = "";
+    const onData = (chunk: Buffer) => {
+      buffer += chunk.toString("utf-8");
+      const idx = buffer.indexOf("\n");
+      if (idx === -1) return;
+      socket.off("data", onData);
+      try { resolve(JSON.parse(buffer.slice(0, idx))); } catch (e) { reject(e); }
+    };
+    socket.on("data", onData);
+  });
+}
+
+/** Track the highest number of concurrent download waiters while fn runs. */
+async function maxConcurrentWaits(fn: () => Promise<unknown>): Promise<number> {
+  let max = 0;
+  const timer = setInterval(() => { max = Math.max(max, fakePage.listenerCount("download")); }, 5);
+  try {
+    await fn();
+  } finally {
+    clearInterval(timer);
+  }
+  return max;
+}
+
+const slowWait = (targetId: string) => ({
+  method: "wait",
+  params: { download: true, targetId, timeoutMs: 60_000, deadlineMs: 150 },
+});
+
+describe("JSON-RPC batch arrays — in-process integration", () => {
+  beforeAll(async () => {
+    process.env.JARVIS_WORKER_ID = TEST_WORKER_ID;
+    await startServer();
+  });
+
+  afterAll(async () => {
+    await stopServer();
+    if (SAVED_WORKER_ID === undefined) {
+      delete process.env.JARVIS_WORKER_ID;
+    } else {
+      process.env.JARVIS_WORKER_ID = SAVED_WORKER_ID;
+    }
+  });
+
+  async function withSocket<T>(fn: (socket: Socket) => Promise<T>): Promise<T> {
+    const socket = await connectToSocket();
+    try {
+      return await fn(socket);
+    } finally {
+      socket.end();
+    }
+  }
+
+  it("returns one response array in request order, errors included", async () => {
+    const responses = await withSocket((s) => sendBatch(s, [
+      { method: "daemon.status" },
+      { method: "no.such.method" },
+      { method: "console", params: { targetId: "non-existent-tab" } },
+    ]));
+
+    expect(responses).toHaveLength(3);
+    expect((responses[0] as RpcSuccessResponse).result).toMatchObject({ ok: true });
+    expect((responses[1] as RpcErrorResponse).error.code).toBe(ERROR_CODES.METHOD_NOT_FOUND);
+    expect((responses[2] as RpcSuccessResponse).result).toMatchObject({ ok: true, total: 0 });
+    const ids = responses.map((r) => r.id as number);
+    expect(ids).toEqual([...ids].sort((a, b) => a - b));
+  });
+
+  it("gives notifications no entry and invalid entries an id-null error", async () => {
+    const reply = await withSocket(async (s) => {
+      const line = readLine(s);
+      s.write(JSON.stringify([
+        { jsonrpc: "2.0", method: "$/cancel", params: { id: 12345 } },
+        { jsonrpc: "2.0", id: "a", method: "daemon.status" },
+        { foo: "bar" },
+      ]) + "\n");
+      return line;
+    }) as Array<{ id: unknown; error?: { code: number } }>;
+
+    expect(reply).toHaveLength(2);
+    expect(reply[0].id).toBe("a");
+    expect(reply[1].id).toBeNull();
+    expect(reply[1].error?.code).toBe(ERROR_CODES.INVALID_REQUEST);
+  });
+
+  it("sends nothing back for a batch of only notifications", async () => {
+    await withSocket(async (s) => {
+      const line = readLine(s);
+      s.write(JSON.stringify([{ jsonrpc: "2.0", method: "$/cancel", params: { id: 1 } }]) + "\n");
+      const status = await sendRequest(s, "daemon.status");
+      expect(status).toMatchObject({ ok: true });
+      // The first frame on the socket was the status reply, not a batch array
+      expect(Array.isArray(await line)).toBe(false);
+    });
+  });
+
+  it("runs a standalone notification without replying, out of reach of $/cancel", async () => {
+    await withSocket(async (s) => {
+      const line = readLine(s);
+      s.write(JSON.stringify({ jsonrpc: "2.0", ...slowWait("tab-n") }) + "\n");
+      for (let i = 0; i < 50 && fakePage.listenerCount("download") === 0; i++) {
+        await new Promise((r) => setTimeout(r, 5));
+      }
+      expect(fakePage.listenerCount("download")).toBe(1);
+      s.write(JSON.stringify({ jsonrpc: "2.0", method: "$/cancel", params: { id: "" } }) + "\n");
+      const status = await sendRequest(s, "daemon.status");
+      expect(status).toMatchObject({ ok: true });
+      expect(fakePage.listenerCount("download")).toBe(1);
+      // The first frame on the socket was the status reply
+      expect(await line).toMatchObject({ result: { ok: true } });
+    });
+  });
+
+  it("rejects an empty batch with a single INVALID_REQUEST error", async () => {
+    const reply = await withSocket(async (s) => {
+      const line = readLine(s);
+      s.write("[]\n");
+      return line;
+    }) as { id: unknown; error: { code: number } };
+
+    expect(Array.isArray(reply)).toBe(false);
+    expect(reply.id).toBeNull();
+    expect(reply.error.code).toBe(ERROR_CODES.INVALID_REQUEST);
+  });
+
+  it("runs calls one at a time by default", async () => {
+    let responses: Awaited<ReturnType<typeof sendBatch>> = [];
+    const max = await maxConcurrentWaits(async () => {
+      responses = await withSocket((s) => sendBatch(s, [slowWait("tab-a"), slowWait("tab-b")]));
+    });
+    expect(max).toBe(1);
+    expect(responses.map((r) => (r as RpcErrorResponse).error.code)).toEqual([
+      ERROR_CODES.TIMEOUT,
+      ERROR_CODES.TIMEOUT,
+    ]);
+  });
+
+  it("runs calls on different tabs concurrently in parallel mode", async () => {
+    const max = await maxConcurrentWaits(() =>
+      withSocket((s) => sendBatch(s, [slowWait("tab-a"), slowWait("tab-b")], { parallel: true })),
+    );
+    expect(max).toBe(2);
+  });
+
+  it("keeps calls on the same tab in order in parallel mode", async () => {
+    const max = await maxConcurrentWaits(() =>
+      withSocket((s) => sendBatch(s, [slowWait("tab-a"), slowWait("tab-a")], { parallel: true })),
+    );
+    expect(max).toBe(1);
+  });
+});
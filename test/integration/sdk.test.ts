@@ -0,0 +1,210 @@
+/**
+ * Integration test: JarvisClient against the in-process daemon and a scripted stand-in
+ *
+ * The real daemon covers typed results, error codes and events; the stand-in
+ * (a bare JSON-RPC socket server) replies out of order and drops connections,
+ * which the real daemon can't be made to do on demand.
+ */
+
+import net from "node:net";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { unlink } from "node:fs/promises";
+import { describe, it, beforeAll, afterAll, expect } from "vitest";
+import { startServer, stopServer } from "../../src/server.js";
+import { JarvisClient, type JarvisRpcError } from "../../src/sdk.js";
+import type { JarvisEvent } from "../../src/rpc-types.js";
+import { globalEvents } from "../../src/events.js";
+import { ERROR_CODES, PACKAGE_VERSION, PROTOCOL_VERSION, makeResponse, makeNotification } from "../../src/protocol.js";
+
+const TEST_WORKER_ID = "sdk-integration-test";
+const SAVED_WORKER_ID = process.env.JARVIS_WORKER_ID;
+
+function waitFor(predicate: () => boolean, timeoutMs = 3000): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const deadline = Date.now() + timeoutMs;
+    const tick = () => {
+      if (predicate()) return resolve();
+      if (Date.now() > deadline) return reject(new Error("waitFor timed out"));
+      setTimeout(tick, 10);
+    };
+    tick();
+  });
+}
+
+describe("JarvisClient — in-process daemon", () => {
+  let client: JarvisClient;
+
+  beforeAll(async () => {
+    process.env.JARVIS_WORKER_ID = TEST_WORKER_ID;
+    await startServer();
+    client = new JarvisClient();
+  });
+
+  afterAll(async () => {
+    await client.disconnect();
+    await stopServer();
+    if (SAVED_WORKER_ID === undefined) {
+      delete process.env.JARVIS_WORKER_ID;
+    } else {
+      process.env.JARVIS_WORKER_ID = SAVED_WORKER_ID;
+    }
+  });
+
+  it("returns typed results over one connection", async () => {
+    const [hello, status, retry] = await Promise.all([
+      client.daemon.hello(),
+      client.daemon.status(),
+      client.config.get({ key: "retry-count" }),
+    ]);
+    expect(hello.version).toBe(PACKAGE_VERSION);
+    expect(hello.protocol).toBe(PROTOCOL_VERSION);
+    expect(hello.methods).toContain("find.role");
+    expect(status.pid).toBe(process.pid);
+    expect(retry).toMatchObject({ ok: true, key: "retry-count" });
+    expect(client.connected).toBe(true);
+  });
+
+  it("rejects with the daemon's error code", async () => {
+    const err = await client.request("config.get", {} as { key: string }).catch((e: JarvisRpcError) => e);
+    expect(err).toBeInstanceOf(Error);
+    expect((err as JarvisRpcError).rpcCode).toBe(ERROR_CODES.INVALID_PARAMS);
+    expect((err as JarvisRpcError).code).toBe(String(ERROR_CODES.INVALID_PARAMS));
+  });
+
+  it("emits subscribed events by channel", async () => {
+    const consoleEvents: JarvisEvent[] = [];
+    client.on("console", (e) => consoleEvents.push(e));
+    const sub = await client.subscribe({ include: "console" });
+    expect(sub.channels).toEqual(["console"]);
+
+    globalEvents.publish("network", "SDK-T1", { url: "https://skip.me" });
+    globalEvents.publish("console", "SDK-T1", { text: "hello" });
+    await waitFor(() => consoleEvents.length === 1);
+    expect(consoleEvents[0]).toMatchObject({ subscription: sub.subscription, channel: "console", data: { text: "hello" } });
+
+    await client.unsubscribe({ subscription: sub.subscription });
+    globalEvents.publish("console", "SDK-T1", { text: "after" });
+    await client.daemon.status(); // round-trip: a stray event would have arrived by now
+    expect(consoleEvents).toHaveLength(1);
+  });
+});
+
+describe("JarvisClient — multiplexing and reconnect", () => {
+  const path = join(tmpdir(), `jarvis-sdk-standin-${process.pid}.sock`);
+  const conns = new Set<net.Socket>();
+  const received: Array<{ id: number; method: string; params: Record<string, unknown> }> = [];
+  let held: Array<{ conn: net.Socket; id: number; key: string }> = [];
+  let subscriptions = 0;
+  let server: net.Server;
+
+  // "config.get" replies are held until three arrive, then sent newest first; "wait" never replies
+  function handle(conn: net.Socket, req: { id: number; method: string; params: Record<string, unknown> }): void {
+    received.push(req);
+    if (req.method === "config.get") {
+      held.push({ conn, id: req.id, key: String(req.params.key) });
+      if (held.length < 3) return;
+      for (const h of held.reverse()) h.conn.write(JSON.stringify(makeResponse(h.id, { ok: true, key: h.key, value: h.key })) + "\n");
+      held = [];
+    } else if (req.method === "subscribe") {
+      conn.write(JSON.stringify(makeResponse(req.id, { ok: true, subscription: `srv_${++subscriptions}`, channels: ["console"] })) + "\n");
+    } else if (req.method !== "wait") {
+      conn.write(JSON.stringify(makeResponse(req.id, { ok: true })) + "\n");
+    }
+  }
+
+  function listen(): Promise<void> {
+    server = net.createServer((conn) => {
+      conns.add(conn);
+      conn.on("close", () => conns.delete(conn));
+      let buffer = "";
+      conn.on("data", (chunk) => {
+        buffer += chunk.toString("utf-8");
+        let idx: number;
+        while ((idx = buffer.indexOf("\n")) !== -1) {
+          const msg = JSON.parse(buffer.slice(0, idx)) as { id?: number; method: string; params?: Record<string, unknown> };
+          buffer = buffer.slice(idx + 1);
+          if (msg.id !== undefined) handle(conn, { id: msg.id, method: msg.method, params: msg.params ?? {} });
+        }
+      });
+    });
+    return new Promise((resolve) => server.listen(path, resolve));
+  }
+
+  function pushEvent(subscription: string, text: string): void {
+    const note = makeNotification("event", { subscription, channel: "console", targetId: "T1", timestamp: Date.now(), data: { text } });
+    for (const conn of conns) conn.write(JSON.stringify(note) + "\n");
+  }
+
+  beforeAll(async () => {
+    await unlink(path).catch(() => {});
+    await listen();
+  });
+
+  afterAll(async () => {
+    for (const conn of conns) conn.destroy();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await unlink(path).catch(() => {});
+  });
+
+  it("matches replies to calls by id, not by arrival order", async () => {
+    const client = new JarvisClient({ socketPath: path, workerId: "w-sdk" });
+    try {
+      const results = await Promise.all(["a", "b", "c"].map((key) => client.config.get({ key })));
+      expect(results.map((r) => r.key)).toEqual(["a", "b", "c"]);
+      expect(conns.size).toBe(1);
+      expect(received.at(-1)?.params.workerId).toBe("w-sdk");
+    } finally {
+      await client.disconnect();
+    }
+  });
+
+  it("fails in-flight calls on disconnect, then reconnects and restores subscriptions", async () => {
+    const client = new JarvisClient({ socketPath: path, reconnectDelayMs: 20 });
+    const events: JarvisEvent[] = [];
+    const disconnects: Error[] = [];
+    let reconnects = 0;
+    client.on("event", (e) => events.push(e));
+    client.on("disconnect", (err) => disconnects.push(err));
+    client.on("connect", ({ reconnected }) => { if (reconnected) reconnects++; });
+    try {
+      const sub = await client.subscribe({ include: "console" });
+      expect(sub.subscription).toBe(`srv_${subscriptions}`);
+      pushEvent(sub.subscription, "before");
+      await waitFor(() => events.length === 1);
+
+      // Daemon goes away mid-call and comes back a little later
+      const inflight = client.wait({ text: "never" }).catch((e: JarvisRpcError) => e);
+      await waitFor(() => received.some((r) => r.method === "wait"));
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        for (const conn of conns) conn.destroy();
+      });
+      expect(((await inflight) as JarvisRpcError).code).toBe("ECONNRESET");
+      expect(disconnects).toHaveLength(1);
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      await unlink(path).catch(() => {});
+      await listen();
+      await waitFor(() => reconnects === 1);
+
+      // Re-subscribed under a new server id, still reported under the original one
+      pushEvent(`srv_${subscriptions}`, "after");
+      await waitFor(() => events.length === 2);
+      expect(events.map((e) => [e.subscription, (e.data as { text: string }).text])).toEqual([
+        [sub.subscription, "before"],
+        [sub.subscription, "after"],
+      ]);
+      expect(await client.daemon.stop()).toEqual({ ok: true });
+    } finally {
+      await client.disconnect();
+    }
+  });
+
+  it("does not reconnect after disconnect()", async () => {
+    const client = new JarvisClient({ socketPath: path });
+    await client.ready();
+    await client.disconnect();
+    await expect(client.daemon.status()).rejects.toThrow("Client disconnected");
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Integration test: a journaled daemon state is re-applied on startup
+ *
+ * browser.js is mocked: one live tab (STATE-T1) backed by an EventEmitter page,
+ * so observers, route rules and viewport emulation can be restored without Chrome.
+ */
+
+import { EventEmitter } from "node:events";
+import { existsSync, writeFileSync } from "node:fs";
+import { unlink } from "node:fs/promises";
+import { vi, describe, it, beforeAll, afterAll, expect } from "vitest";
+
+const fakePage = Object.assign(new EventEmitter(), {
+  route: vi.fn(async () => {}),
+  unroute: vi.fn(async () => {}),
+  setViewportSize: vi.fn(async () => {}),
+});
+
+vi.mock("../../src/browser.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/browser.js")>()),
+  listTabs: vi.fn(async () => [{ targetId: "STATE-T1", title: "One", url: "https://one.test/" }]),
+  getPage: vi.fn(async () => fakePage),
+}));
+
+import { startServer, stopServer, restoreDaemonState, type RestoreSummary } from "../../src/server.js";
+import { connectToSocket, sendRequest } from "../../src/client.js";
+import { globalObserver } from "../../src/observer.js";
+import { getStateJournalPath, readStateJournal, STATE_JOURNAL_VERSION } from "../../src/state-journal.js";
+
+const TEST_WORKER_ID = "state-journal-integration-test";
+const SAVED_WORKER_ID = process.env.JARVIS_WORKER_ID;
+
+type Socket = Awaited<ReturnType<typeof connectToSocket>>;
+
+describe("state journal — in-process integration", () => {
+  let socket: Socket;
+  let summary: RestoreSummary | null;
+
+  beforeAll(async () => {
+    process.env.JARVIS_WORKER_ID = TEST_WORKER_ID;
+    writeFileSync(getStateJournalPath(), JSON.stringify({
+      version: STATE_JOURNAL_VERSION,
+      saved_at: "2026-01-01T00:00:00.000Z",
+      pid: 1,
+      dialog_mode: "accept",
+      observed: ["STATE-T1", "STATE-GONE"],
+      leases: [
+        { targetId: "STATE-T1", owner: "w1", ttlMs: 60_000 },
+        { targetId: "STATE-GONE", owner: "w2", ttlMs: 60_000 },
+      ],
+      routes: { "STATE-T1": [{ type: "block", pattern: "**/ads/**" }] },
+      emulation: { "STATE-T1": { viewport: { width: 390, height: 844 } } },
+      refs: [],
+    }));
+    // Same order as the daemon: restore (as `daemon restart` does), then serve
+    summary = await restoreDaemonState({ force: true });
+    await startServer();
+    socket = await connectToSocket();
+  });
+
+  afterAll(async () => {
+    socket.end();
+    await stopServer();
+    globalObserver.destroy("STATE-T1");
+    await unlink(getStateJournalPath()).catch(() => {});
+    if (SAVED_WORKER_ID === undefined) {
+      delete process.env.JARVIS_WORKER_ID;
+    } else {
+      process.env.JARVIS_WORKER_ID = SAVED_WORKER_ID;
+    }
+  });
+
+  it("re-applies state to live tabs and reports the ones that are gone", () => {
+    expect(summary).toMatchObject({ observers: 1, leases: 1, routes: 1, emulation: 1, missing_tabs: ["STATE-GONE"] });
+    expect(globalObserver.isAttached("STATE-T1")).toBe(true);
+    expect(fakePage.route).toHaveBeenCalledWith("**/ads/**", expect.any(Function));
+    expect(fakePage.setViewportSize).toHaveBeenCalledWith({ width: 390, height: 844 });
+  });
+
+  it("consumes a forced (restart) journal when state-journal is off", () => {
+    expect(existsSync(getStateJournalPath())).toBe(false);
+  });
+
+  it("restored leases and rules are live over RPC", async () => {
+    const tabs = await sendRequest(socket, "tabs", {}) as Array<Record<string, unknown>>;
+    expect(tabs[0]).toMatchObject({ targetId: "STATE-T1", owner: "w1" });
+    const routes = await sendRequest(socket, "route.list", { targetId: "STATE-T1" }) as { count: number };
+    expect(routes.count).toBe(1);
+    const status = await sendRequest(socket, "daemon.status", {}) as { restored?: RestoreSummary };
+    expect(status.restored?.saved_at).toBe("2026-01-01T00:00:00.000Z");
+  });
+
+  it("daemon.state save writes the current state for the next daemon", async () => {
+    const result = await sendRequest(socket, "daemon.state", { save: true }) as { saved: boolean; path: string };
+    expect(result.saved).toBe(true);
+    const state = await readStateJournal(result.path);
+    expect(state?.leases).toEqual([{ targetId: "STATE-T1", owner: "w1", ttlMs: 60_000 }]);
+    expect(state?.routes["STATE-T1"]).toEqual([{ type: "block", pattern: "**/ads/**" }]);
+    expect(state?.emulation["STATE-T1"]).toEqual({ viewport: { width: 390, height: 844 } });
+    expect(state?.observed).toContain("STATE-T1");
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Integration test: per-tab serialization of mutating methods
+ *
+ * getPage is mocked to return an EventEmitter-backed fake page whose goto
+ * takes 100ms, so concurrency of `navigate` calls is observable through the
+ * number of gotos in flight (no Chrome needed). `wait --download` blocks until
+ * its deadline without holding the tab. "T-ACTIVE" plays the active tab.
+ */
+
+import { vi, describe, it, beforeAll, afterAll, expect } from "vitest";
+
+const { fakePage, inflight } = await vi.hoisted(async () => {
+  const { EventEmitter } = await import("node:events");
+  const inflight = { now: 0, max: 0 };
+  const fakePage = Object.assign(new EventEmitter(), {
+    title: async () => "Fake page",
+    url: () => "https://example.com/",
+    goto: async () => {
+      inflight.now++;
+      inflight.max = Math.max(inflight.max, inflight.now);
+      await new Promise((r) => setTimeout(r, 100));
+      inflight.now--;
+      return null;
+    },
+  });
+  return { fakePage, inflight };
+});
+
+vi.mock("../../src/browser.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/browser.js")>()),
+  getPage: vi.fn(async () => fakePage),
+  getActiveTargetId: vi.fn(async () => "T-ACTIVE"),
+}));
+
+import { startServer, stopServer } from "../../src/server.js";
+import { connectToSocket, sendRequest } from "../../src/client.js";
+
+const TEST_WORKER_ID = "tab-queue-integration-test";
+const SAVED_WORKER_ID = process.env.JARVIS_WORKER_ID;
+
+type Socket = Awaited<ReturnType<typeof connectToSocket>>;
+
+const slowWait = (targetId: string) => ({ download: true, targetId, timeoutMs: 60_000, deadlineMs: 150 });
+const nav = (targetId?: string) => ({ url: "https://example.com/", ...(targetId ? { targetId } : {}) });
+
+/** Highest number of gotos in flight at once while fn runs. */
+async function maxConcurrentNavigations(fn: () => Promise<unknown>): Promise<number> {
+  inflight.max = 0;
+  await fn();
+  return inflight.max;
+}
+
+describe("per-tab action queue — in-process integration", () => {
+  const sockets: Socket[] = [];
+
+  beforeAll(async () => {
+    process.env.JARVIS_WORKER_ID = TEST_WORKER_ID;
+    await startServer();
+    for (let i = 0; i < 3; i++) sockets.push(await connectToSocket());
+  });
+
+  afterAll(async () => {
+    for (const s of sockets) s.end();
+    await stopServer();
+    if (SAVED_WORKER_ID === undefined) {
+      delete process.env.JARVIS_WORKER_ID;
+    } else {
+      process.env.JARVIS_WORKER_ID = SAVED_WORKER_ID;
+    }
+  });
+
+  it("serializes mutating calls on the same tab across connections", async () => {
+    const max = await maxConcurrentNavigations(() => Promise.all([
+      sendRequest(sockets[0], "navigate", nav("T1")),
+      sendRequest(sockets[1], "navigate", nav("T1")),
+    ]));
+    expect(max).toBe(1);
+  });
+
+  it("runs mutating calls on different tabs concurrently", async () => {
+    const max = await maxConcurrentNavigations(() => Promise.all([
+      sendRequest(sockets[0], "navigate", nav("T1")),
+      sendRequest(sockets[1], "navigate", nav("T2")),
+    ]));
+    expect(max).toBe(2);
+  });
+
+  it("queues calls without a targetId with calls naming the active tab", async () => {
+    const max = await maxConcurrentNavigations(() => Promise.all([
+      sendRequest(sockets[0], "navigate", nav()),
+      sendRequest(sockets[1], "navigate", nav("T-ACTIVE")),
+    ]));
+    expect(max).toBe(1);
+  });
+
+  it("does not hold the tab while waiting, so the triggering action can run", async () => {
+    const waiting = sendRequest(sockets[0], "wait", slowWait("T1")).catch(() => null);
+    await new Promise((r) => setTimeout(r, 20));
+    const started = Date.now();
+    await sendRequest(sockets[1], "navigate", nav("T1"));
+    expect(Date.now() - started).toBeLessThan(140);
+    await waiting;
+  });
+
+  it("lets read-only methods through while the tab is busy", async () => {
+    const busy = sendRequest(sockets[0], "navigate", nav("T1"));
+    await new Promise((r) => setTimeout(r, 20));
+    const started = Date.now();
+    const title = await sendRequest(sockets[1], "get.title", { targetId: "T1" }) as { data: string };
+    expect(title.data).toBe("Fake page");
+    expect(Date.now() - started).toBeLessThan(80);
+    await busy;
+  });
+
+  it("reports queue depth and wait times in daemon.health", async () => {
+    const calls = [
+      sendRequest(sockets[0], "navigate", nav("T3")),
+      sendRequest(sockets[1], "navigate", nav("T3")),
+    ];
+    await new Promise((r) => setTimeout(r, 50));
+    const during = await sendRequest(sockets[2], "daemon.health") as { tab_queue: Record<string, unknown> };
+    expect(during.tab_queue).toMatchObject({ waiting: 1, depth: { T3: 2 } });
+
+    await Promise.all(calls);
+    const after = await sendRequest(sockets[2], "daemon.health") as { tab_queue: { contended: number; max_wait_ms: number; depth: object } };
+    expect(after.tab_queue.depth).toEqual({});
+    expect(after.tab_queue.contended).toBeGreaterThanOrEqual(1);
+    expect(after.tab_queue.max_wait_ms).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,135 @@
+// Unit tests for audit.ts — redaction, size-based rotation and querying
+
+import { mkdtempSync, rmSync, readFileSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  AuditLog,
+  REDACTED,
+  parseSince,
+  queryAuditLog,
+  redactParams,
+  type AuditEntry,
+} from "../../src/audit.js";
+
+function entry(overrides: Partial<AuditEntry> = {}): AuditEntry {
+  return {
+    ts: "2026-01-01T00:00:00.000Z",
+    worker: "w1",
+    method: "click",
+    params: { ref: "e1" },
+    status: "ok",
+    duration_ms: 5,
+    ...overrides,
+  };
+}
+
+describe("redactParams", () => {
+  it("redacts typed text, cookies, storage values and tokens", () => {
+    expect(redactParams("fill", { ref: "e1", value: "hunter2" })).toEqual({ ref: "e1", value: REDACTED });
+    expect(redactParams("type", { ref: "e1", text: "secret" }).text).toBe(REDACTED);
+    expect(redactParams("set-cookie", { cookieJson: "{}" }).cookieJson).toBe(REDACTED);
+    expect(redactParams("storage.set", { key: "jwt", value: "abc" })).toEqual({ key: "jwt", value: REDACTED });
+    expect(redactParams("auth", { token: "t" }).token).toBe(REDACTED);
+    expect(redactParams("set.headers", { headersJson: '{"Authorization":"Bearer t"}' }).headersJson).toBe(REDACTED);
+  });
+
+  it("redacts find actions that type, and secret config values", () => {
+    expect(redactParams("find.label", { value: "Password", action: "fill", actionArg: "pw" }).actionArg).toBe(REDACTED);
+    expect(redactParams("find.label", { value: "Go", action: "click", actionArg: "x" }).actionArg).toBe("x");
+    expect(redactParams("config.set", { key: "daemon-auth-token", value: "t" }).value).toBe(REDACTED);
+    expect(redactParams("config.set", { key: "retry-count", value: "3" }).value).toBe("3");
+  });
+
+  it("redacts typed text inside batch steps", () => {
+    const out = redactParams("batch", { commands: [{ cmd: "type", ref: "e1", text: "pw" }, { cmd: "click", ref: "e2" }] });
+    expect(out.commands).toEqual([{ cmd: "type", ref: "e1", text: REDACTED }, { cmd: "click", ref: "e2" }]);
+  });
+
+  it("redacts session names only when configured", () => {
+    expect(redactParams("session.save", { name: "acme-admin" }).name).toBe("acme-admin");
+    expect(redactParams("session.save", { name: "acme-admin" }, { redactSessionNames: true }).name).toBe(REDACTED);
+  });
+
+  it("does not mutate the caller's params", () => {
+    const params = { ref: "e1", value: "hunter2" };
+    redactParams("fill", params);
+    expect(params.value).toBe("hunter2");
+  });
+});
+
+describe("AuditLog", () => {
+  let dir: string;
+  beforeEach(() => { dir = mkdtempSync(join(tmpdir(), "jarvis-audit-")); });
+  afterEach(() => { rmSync(dir, { recursive: true, force: true }); });
+
+  it("appends one JSON line per entry", async () => {
+    const path = join(dir, "audit.jsonl");
+    const log = new AuditLog({ path, maxBytes: 1024 * 1024, maxFiles: 3, redactSessionNames: false });
+    log.record(entry({ method: "open" }));
+    log.record(entry({ method: "click", status: "error", error_code: -32003 }));
+    await log.flush();
+
+    const lines = readFileSync(path, "utf-8").trim().split("\n").map((l) => JSON.parse(l) as AuditEntry);
+    expect(lines.map((l) => l.method)).toEqual(["open", "click"]);
+    expect(lines[1].error_code).toBe(-32003);
+  });
+
+  it("rotates by size and keeps at most maxFiles files", async () => {
+    const path = join(dir, "audit.jsonl");
+    const lineBytes = JSON.stringify(entry()).length + 1;
+    const log = new AuditLog({ path, maxBytes: lineBytes * 2, maxFiles: 3, redactSessionNames: false });
+    for (let i = 0; i < 7; i++) log.record(entry({ duration_ms: i }));
+    await log.flush();
+
+    expect(existsSync(`${path}.1`)).toBe(true);
+    expect(existsSync(`${path}.2`)).toBe(true);
+    expect(existsSync(`${path}.3`)).toBe(false);
+    const kept = await queryAuditLog(path, {}, 3);
+    expect(kept.map((e) => e.duration_ms)).toEqual([2, 3, 4, 5, 6]);
+  });
+});
+
+describe("queryAuditLog", () => {
+  let dir: string;
+  beforeEach(() => { dir = mkdtempSync(join(tmpdir(), "jarvis-audit-")); });
+  afterEach(() => { rmSync(dir, { recursive: true, force: true }); });
+
+  it("filters by since, worker and method prefix, and keeps the last N", async () => {
+    const path = join(dir, "audit.jsonl");
+    const log = new AuditLog({ path, maxBytes: 1024 * 1024, maxFiles: 2, redactSessionNames: false });
+    log.record(entry({ ts: "2026-01-01T00:00:00.000Z", worker: "w1", method: "storage.get" }));
+    log.record(entry({ ts: "2026-01-02T00:00:00.000Z", worker: "w2", method: "storage.set" }));
+    log.record(entry({ ts: "2026-01-03T00:00:00.000Z", worker: "w1", method: "storage.keys" }));
+    log.record(entry({ ts: "2026-01-04T00:00:00.000Z", worker: "w1", method: "click" }));
+    await log.flush();
+
+    const since = Date.parse("2026-01-02T00:00:00.000Z");
+    expect((await queryAuditLog(path, { since })).length).toBe(3);
+    expect((await queryAuditLog(path, { worker: "w1", method: "storage.*" })).map((e) => e.method))
+      .toEqual(["storage.get", "storage.keys"]);
+    expect((await queryAuditLog(path, { method: "click" })).length).toBe(1);
+    expect((await queryAuditLog(path, { last: 2 })).map((e) => e.method)).toEqual(["storage.keys", "click"]);
+  });
+
+  it("returns nothing when the log does not exist", async () => {
+    expect(await queryAuditLog(join(dir, "missing.jsonl"))).toEqual([]);
+  });
+});
+
+describe("parseSince", () => {
+  const now = Date.parse("2026-06-01T12:00:00.000Z");
+
+  it("accepts relative ages, Unix ms and ISO dates", () => {
+    expect(parseSince("15m", now)).toBe(now - 15 * 60_000);
+    expect(parseSince("2h", now)).toBe(now - 2 * 3_600_000);
+    expect(parseSince("7d", now)).toBe(now - 7 * 86_400_000);
+    expect(parseSince("1700000000000", now)).toBe(1_700_000_000_000);
+    expect(parseSince("2026-05-01T00:00:00Z", now)).toBe(Date.parse("2026-05-01T00:00:00Z"));
+  });
+
+  it("rejects garbage", () => {
+    expect(() => parseSince("yesterday-ish", now)).toThrow("Invalid --since");
+  });
+});
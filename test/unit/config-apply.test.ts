@@ -0,0 +1,100 @@
+// Unit tests for config-apply.ts — change detection, handler isolation and file watching
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { writeFile, unlink } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ConfigApplier, RESTART_REQUIRED_KEYS } from "../../src/config-apply.js";
+import { getDefaults, type RuntimeConfig } from "../../src/config.js";
+
+function withValues(overrides: Partial<RuntimeConfig>): RuntimeConfig {
+  return { ...getDefaults(), ...overrides };
+}
+
+describe("ConfigApplier", () => {
+  const appliers: ConfigApplier[] = [];
+  afterEach(() => {
+    appliers.splice(0).forEach((a) => a.unwatch());
+  });
+
+  it("first apply runs every handler", async () => {
+    const applier = new ConfigApplier();
+    const idle = vi.fn();
+    const buffers = vi.fn();
+    applier.on(["daemon-idle-timeout-m"], idle);
+    applier.on(["console-buffer-size", "network-buffer-size"], buffers);
+
+    const changed = await applier.apply(getDefaults());
+    expect(idle).toHaveBeenCalledTimes(1);
+    expect(buffers).toHaveBeenCalledTimes(1);
+    expect(changed.length).toBe(Object.keys(getDefaults()).length);
+  });
+
+  it("later applies run only handlers whose keys changed", async () => {
+    const applier = new ConfigApplier();
+    const idle = vi.fn();
+    const buffers = vi.fn();
+    applier.on(["daemon-idle-timeout-m"], idle);
+    applier.on(["console-buffer-size", "network-buffer-size"], buffers);
+
+    await applier.apply(getDefaults());
+    const changed = await applier.apply(withValues({ "console-buffer-size": 50 }));
+    expect(changed).toEqual(["console-buffer-size"]);
+    expect(idle).toHaveBeenCalledTimes(1);
+    expect(buffers).toHaveBeenCalledTimes(2);
+    expect(buffers.mock.calls[1][0]["console-buffer-size"]).toBe(50);
+
+    expect(await applier.apply(withValues({ "console-buffer-size": 50 }))).toEqual([]);
+    expect(buffers).toHaveBeenCalledTimes(2);
+  });
+
+  it("a failing handler does not stop the others", async () => {
+    const applier = new ConfigApplier();
+    const stderr = vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+    const after = vi.fn();
+    applier.on(["console-buffer-size"], () => { throw new Error("bad size"); });
+    applier.on(["console-buffer-size"], after);
+
+    await applier.apply(getDefaults());
+    expect(after).toHaveBeenCalledTimes(1);
+    expect(stderr).toHaveBeenCalledWith(expect.stringContaining("bad size"));
+    stderr.mockRestore();
+  });
+
+  it("reset makes the next apply run every handler again", async () => {
+    const applier = new ConfigApplier();
+    const fn = vi.fn();
+    applier.on(["dialog-mode"], fn);
+    await applier.apply(getDefaults());
+    applier.reset();
+    await applier.apply(getDefaults());
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("watch reloads after the file changes on disk", async () => {
+    const path = join(tmpdir(), `jarvis-config-apply-${process.pid}.json`);
+    await writeFile(path, "{}");
+    let current = getDefaults();
+    const applier = new ConfigApplier(async () => current);
+    appliers.push(applier);
+    const fn = vi.fn();
+    applier.on(["daemon-idle-timeout-m"], fn);
+    await applier.apply(current);
+
+    try {
+      applier.watch(path);
+      current = withValues({ "daemon-idle-timeout-m": 5 });
+      await new Promise((r) => setTimeout(r, 50));
+      await writeFile(path, JSON.stringify({ "daemon-idle-timeout-m": 5 }));
+      await vi.waitFor(() => expect(fn).toHaveBeenCalledTimes(2), { timeout: 4_000, interval: 100 });
+      expect(fn.mock.calls[1][0]["daemon-idle-timeout-m"]).toBe(5);
+    } finally {
+      await unlink(path).catch(() => {});
+    }
+  });
+
+  it("flags listener keys as restart-required", () => {
+    expect(RESTART_REQUIRED_KEYS.has("daemon-tcp-port")).toBe(true);
+    expect(RESTART_REQUIRED_KEYS.has("console-buffer-size")).toBe(false);
+  });
+});
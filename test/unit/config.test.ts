@@ -160,6 +160,28 @@ describe("setConfigValue", () => {
     );
     expect(mockWriteFile).not.toHaveBeenCalled();
   });
+
+  it("accepts only restart|error for daemon-version-mismatch", async () => {
+    await setConfigValue("daemon-version-mismatch", "error");
+    const written = JSON.parse((mockWriteFile.mock.calls[0]?.[1] ?? "{}") as string);
+    expect(written["daemon-version-mismatch"]).toBe("error");
+    await expect(setConfigValue("daemon-version-mismatch", "ignore")).rejects.toThrow("must be restart|error");
+  });
+
+  it("accepts only isolated|shared for worker-contexts", async () => {
+    await setConfigValue("worker-contexts", "shared");
+    const written = JSON.parse((mockWriteFile.mock.calls[0]?.[1] ?? "{}") as string);
+    expect(written["worker-contexts"]).toBe("shared");
+    await expect(setConfigValue("worker-contexts", "private")).rejects.toThrow("must be isolated|shared");
+  });
+
+  it("validates chrome window geometry", async () => {
+    await setConfigValue("chrome-window-size", "1280x800");
+    const written = JSON.parse((mockWriteFile.mock.calls[0]?.[1] ?? "{}") as string);
+    expect(written["chrome-window-size"]).toBe("1280x800");
+    await expect(setConfigValue("chrome-window-size", "1280")).rejects.toThrow("WIDTHxHEIGHT");
+    await expect(setConfigValue("chrome-window-position", "left")).rejects.toThrow("X,Y");
+  });
 });
 
 describe("resetConfig", () => {
@@ -178,9 +200,9 @@ describe("resetConfig", () => {
     expect(written["default-timeout-ms"]).toBe(10000);
   });
 
-  it("resets all 12 keys", async () => {
+  it("resets all 40 keys", async () => {
     await resetConfig();
     const written = JSON.parse((mockWriteFile.mock.calls[0]?.[1] ?? "{}") as string);
-    expect(Object.keys(written)).toHaveLength(12);
+    expect(Object.keys(written)).toHaveLength(40);
   });
 });
@@ -0,0 +1,96 @@
+// Unit tests for contexts.ts — isolated contexts, per-worker defaults, listing and closing
+
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Browser, BrowserContext } from "playwright-core";
+import { ContextRegistry, DEFAULT_CONTEXT_ID } from "../../src/contexts.js";
+import { ERROR_CODES } from "../../src/protocol.js";
+
+// Just enough of Browser/BrowserContext for the registry
+function fakeBrowser() {
+  const contexts: BrowserContext[] = [];
+  const makeContext = (pages = 0): BrowserContext => {
+    const onClose: Array<() => void> = [];
+    const context = {
+      pages: () => new Array(pages).fill({}),
+      on: (event: string, fn: () => void) => { if (event === "close") onClose.push(fn); },
+      close: async () => {
+        contexts.splice(contexts.indexOf(context), 1);
+        onClose.forEach((fn) => fn());
+      },
+    } as unknown as BrowserContext;
+    contexts.push(context);
+    return context;
+  };
+  makeContext(2); // Chrome's own profile
+  const browser = {
+    contexts: () => contexts,
+    newContext: async () => makeContext(),
+  } as unknown as Browser;
+  return { browser, contexts };
+}
+
+describe("ContextRegistry", () => {
+  let registry: ContextRegistry;
+  let fake: ReturnType<typeof fakeBrowser>;
+
+  beforeEach(() => {
+    registry = new ContextRegistry();
+    fake = fakeBrowser();
+  });
+
+  it("resolves the shared default context and created ones by id", async () => {
+    const shared = fake.contexts[0];
+    expect(await registry.resolve(fake.browser)).toBe(shared);
+    const id = await registry.create(fake.browser, "w1");
+    expect(id).toBe("ctx-1");
+    const created = await registry.resolve(fake.browser, id);
+    expect(created).not.toBe(shared);
+    expect(registry.idOf(created)).toBe(id);
+    expect(registry.idOf(shared!)).toBe(DEFAULT_CONTEXT_ID);
+  });
+
+  it("gives each worker one default context, even for concurrent callers", async () => {
+    const [a, b] = await Promise.all([registry.forWorker(fake.browser, "w1"), registry.forWorker(fake.browser, "w1")]);
+    expect(a).toBe(b);
+    expect(await registry.forWorker(fake.browser, "w2")).not.toBe(a);
+    // An explicitly created context is not the worker's default
+    await registry.create(fake.browser, "w1");
+    expect(await registry.forWorker(fake.browser, "w1")).toBe(a);
+    expect(registry.size).toBe(3);
+  });
+
+  it("reports owners: null for shared, undefined for unknown ids", async () => {
+    const id = await registry.create(fake.browser, "w1");
+    expect(registry.owner(id)).toBe("w1");
+    expect(registry.owner(DEFAULT_CONTEXT_ID)).toBeNull();
+    expect(registry.owner("ctx-99")).toBeUndefined();
+    await expect(registry.resolve(fake.browser, "ctx-99")).rejects.toMatchObject({ rpcCode: ERROR_CODES.INVALID_PARAMS });
+  });
+
+  it("lists the default context first, then created ones", async () => {
+    await registry.forWorker(fake.browser, "w1");
+    const list = registry.list(fake.browser);
+    expect(list).toHaveLength(2);
+    expect(list[0]).toEqual({ contextId: "default", owner: null, worker_default: false, pages: 2, created_at: null });
+    expect(list[1]).toMatchObject({ contextId: "ctx-1", owner: "w1", worker_default: true, pages: 0 });
+  });
+
+  it("closes created contexts but never the default", async () => {
+    const id = await registry.forWorker(fake.browser, "w1");
+    await registry.close(id);
+    expect(registry.owner(id)).toBeUndefined();
+    expect(fake.contexts).toHaveLength(1);
+    // The next open gets a fresh context
+    expect(await registry.forWorker(fake.browser, "w1")).toBe("ctx-2");
+    await expect(registry.close(DEFAULT_CONTEXT_ID)).rejects.toThrow("can't be closed");
+  });
+
+  it("forgets contexts Chrome closed on its own, and all of them on clear()", async () => {
+    const id = await registry.create(fake.browser, null);
+    await (await registry.resolve(fake.browser, id)).close();
+    expect(registry.size).toBe(0);
+    await registry.create(fake.browser, "w1");
+    registry.clear();
+    expect(registry.list(fake.browser)).toHaveLength(1);
+  });
+});
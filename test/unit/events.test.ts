@@ -0,0 +1,71 @@
+// Unit tests for events.ts — channel parsing + EventBus fan-out
+
+import { describe, it, expect } from "vitest";
+import { EventBus, parseChannels, EVENT_CHANNELS } from "../../src/events.js";
+
+describe("parseChannels", () => {
+  it("returns all channels when include is omitted", () => {
+    expect(parseChannels(undefined)).toEqual([...EVENT_CHANNELS]);
+    expect(parseChannels("")).toEqual([...EVENT_CHANNELS]);
+  });
+
+  it("splits a comma-separated string", () => {
+    expect(parseChannels("console, network")).toEqual(["console", "network"]);
+  });
+
+  it("accepts an array (including comma-joined items) and dedupes", () => {
+    expect(parseChannels(["dialog", "console,dialog"])).toEqual(["dialog", "console"]);
+  });
+
+  it("rejects unknown channels", () => {
+    expect(() => parseChannels("console,bogus")).toThrow(/Unknown event channel "bogus"/);
+  });
+});
+
+describe("EventBus", () => {
+  it("delivers published events to every subscriber", () => {
+    const bus = new EventBus();
+    const a: string[] = [];
+    const b: string[] = [];
+    bus.subscribe((e) => a.push(e.channel));
+    bus.subscribe((e) => b.push(`${e.targetId}:${e.channel}`));
+
+    bus.publish("console", "T1", { text: "hi" });
+
+    expect(a).toEqual(["console"]);
+    expect(b).toEqual(["T1:console"]);
+  });
+
+  it("stamps events with timestamp and payload", () => {
+    const bus = new EventBus();
+    let seen: unknown;
+    bus.subscribe((e) => { seen = e; });
+    bus.publish("navigation", "T2", { url: "https://example.com" });
+    expect(seen).toMatchObject({
+      channel: "navigation",
+      targetId: "T2",
+      data: { url: "https://example.com" },
+    });
+    expect(typeof (seen as { timestamp: number }).timestamp).toBe("number");
+  });
+
+  it("stops delivering after unsubscribe", () => {
+    const bus = new EventBus();
+    const got: string[] = [];
+    const off = bus.subscribe((e) => got.push(e.channel));
+    bus.publish("errors", "T", {});
+    off();
+    bus.publish("errors", "T", {});
+    expect(got).toHaveLength(1);
+    expect(bus.listenerCount).toBe(0);
+  });
+
+  it("isolates a throwing subscriber from the others", () => {
+    const bus = new EventBus();
+    const got: string[] = [];
+    bus.subscribe(() => { throw new Error("boom"); });
+    bus.subscribe((e) => got.push(e.channel));
+    expect(() => bus.publish("download", "T", {})).not.toThrow();
+    expect(got).toEqual(["download"]);
+  });
+});
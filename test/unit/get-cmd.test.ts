@@ -25,7 +25,7 @@ const { mockLocator, mockPage } = vi.hoisted(() => {
 
 vi.mock("../../src/browser.js", () => ({
   getPage: vi.fn().mockResolvedValue(mockPage),
-  refLocator: vi.fn().mockReturnValue(mockLocator),
+  locateRef: vi.fn().mockResolvedValue({ locator: mockLocator, via: "role", release: async () => {} }),
   getStoredRefs: vi.fn().mockReturnValue({}),
 }));
 
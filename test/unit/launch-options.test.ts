@@ -0,0 +1,64 @@
+// Unit tests for buildLaunchOptions — chrome-* config keys merged with launch flags
+
+import { describe, it, expect } from "vitest";
+import { buildLaunchOptions } from "../../src/commands/connection.js";
+import { getDefaults } from "../../src/config.js";
+import { ERROR_CODES } from "../../src/protocol.js";
+
+describe("buildLaunchOptions", () => {
+  it("adds nothing with default config and no flags", () => {
+    expect(buildLaunchOptions(getDefaults(), {})).toEqual({});
+  });
+
+  it("parses the configured values", () => {
+    const config = {
+      ...getDefaults(),
+      "chrome-args": "--disable-gpu  --mute-audio",
+      "chrome-extensions": "/ext/a, /ext/b",
+      "chrome-window-size": "1280x800",
+      "chrome-window-position": "-1920,0",
+      "chrome-lang": "de-DE",
+      "chrome-timezone": "Europe/Berlin",
+      "chrome-ignore-cert-errors": true,
+      "chrome-download-dir": "/tmp/downloads",
+    };
+    expect(buildLaunchOptions(config, {})).toEqual({
+      extraArgs: ["--disable-gpu", "--mute-audio"],
+      extensions: ["/ext/a", "/ext/b"],
+      windowSize: { width: 1280, height: 800 },
+      windowPosition: { x: -1920, y: 0 },
+      lang: "de-DE",
+      timezone: "Europe/Berlin",
+      ignoreCertErrors: true,
+      downloadDir: "/tmp/downloads",
+    });
+  });
+
+  it("appends list flags to the config and lets scalar flags override it", () => {
+    const config = {
+      ...getDefaults(),
+      "chrome-args": "--mute-audio",
+      "chrome-extensions": "/ext/a",
+      "chrome-lang": "de-DE",
+      "chrome-ignore-cert-errors": true,
+    };
+    const options = buildLaunchOptions(config, {
+      args: ["--disable-gpu"],
+      extensions: ["/ext/b"],
+      lang: "fr-FR",
+      ignoreCertErrors: false,
+    });
+    expect(options).toEqual({
+      extraArgs: ["--mute-audio", "--disable-gpu"],
+      extensions: ["/ext/a", "/ext/b"],
+      lang: "fr-FR",
+    });
+  });
+
+  it("rejects malformed window geometry as invalid params", () => {
+    expect(() => buildLaunchOptions(getDefaults(), { windowSize: "big" })).toThrow(
+      expect.objectContaining({ rpcCode: ERROR_CODES.INVALID_PARAMS, message: expect.stringContaining("WIDTHxHEIGHT") }),
+    );
+    expect(() => buildLaunchOptions(getDefaults(), { windowPosition: "0;0" })).toThrow("expected X,Y");
+  });
+});
@@ -0,0 +1,107 @@
+// Unit tests for leases.ts — claim, renew, transfer, release and expiry
+
+import { describe, it, expect } from "vitest";
+import { TabLeases } from "../../src/leases.js";
+import { ERROR_CODES } from "../../src/protocol.js";
+
+function clock(start = 1_000_000) {
+  const c = { t: start, now: () => c.t };
+  return c;
+}
+
+describe("TabLeases", () => {
+  it("claims a free tab and rejects a claim by another worker", () => {
+    const leases = new TabLeases(clock().now);
+    leases.claim("T1", "w1", 60_000);
+    expect(leases.owner("T1")).toBe("w1");
+    expect(() => leases.claim("T1", "w2", 60_000)).toThrow('owned by worker "w1"');
+    try {
+      leases.claim("T1", "w2", 60_000);
+    } catch (err) {
+      expect((err as { rpcCode: number }).rpcCode).toBe(ERROR_CODES.TAB_OWNED_BY_OTHER);
+    }
+  });
+
+  it("expires leases after their TTL so another worker can claim", () => {
+    const c = clock();
+    const leases = new TabLeases(c.now);
+    leases.claim("T1", "w1", 10_000);
+    c.t += 10_000;
+    expect(leases.owner("T1")).toBeUndefined();
+    expect(leases.size).toBe(0);
+    leases.claim("T1", "w2", 10_000);
+    expect(leases.owner("T1")).toBe("w2");
+  });
+
+  it("treats a TTL of 0 as a lease that never expires", () => {
+    const c = clock();
+    const leases = new TabLeases(c.now);
+    leases.claim("T1", "w1", 0);
+    c.t += 365 * 24 * 3600_000;
+    expect(leases.view("T1")).toEqual({ owner: "w1", lease_remaining_s: null });
+  });
+
+  it("renews the owner's lease with its original TTL, and by use", () => {
+    const c = clock();
+    const leases = new TabLeases(c.now);
+    leases.claim("T1", "w1", 10_000);
+    c.t += 8_000;
+    leases.renew("T1", "w1");
+    expect(leases.view("T1")?.lease_remaining_s).toBe(10);
+    c.t += 8_000;
+    leases.touch("T1", "w1");
+    leases.touch("T1", "w2"); // not the owner — ignored
+    c.t += 8_000;
+    expect(leases.owner("T1")).toBe("w1");
+    expect(() => leases.renew("T1", "w2")).toThrow('owned by worker "w1"');
+  });
+
+  it("refuses to renew a lapsed lease", () => {
+    const c = clock();
+    const leases = new TabLeases(c.now);
+    leases.claim("T1", "w1", 1_000);
+    c.t += 1_000;
+    expect(() => leases.renew("T1", "w1")).toThrow("no active lease");
+  });
+
+  it("transfers ownership only from the current owner", () => {
+    const leases = new TabLeases(clock().now);
+    leases.claim("T1", "w1", 5_000);
+    expect(() => leases.transfer("T1", "w2", "w3")).toThrow('owned by worker "w1"');
+    leases.transfer("T1", "w1", "w2", 20_000);
+    expect(leases.view("T1")).toEqual({ owner: "w2", lease_remaining_s: 20 });
+  });
+
+  it("releases only for the owner; releasing a free tab is a no-op", () => {
+    const leases = new TabLeases(clock().now);
+    leases.claim("T1", "w1", 5_000);
+    expect(() => leases.release("T1", "w2")).toThrow();
+    expect(leases.release("T1", "w1")).toBe(true);
+    expect(leases.release("T1", "w1")).toBe(false);
+  });
+
+  it("sweep reports each expired lease once", () => {
+    const c = clock();
+    const leases = new TabLeases(c.now);
+    leases.claim("T1", "w1", 1_000);
+    leases.claim("T2", "w1", 60_000);
+    c.t += 2_000;
+    expect(leases.sweep().map((l) => l.targetId)).toEqual(["T1"]);
+    expect(leases.sweep()).toEqual([]);
+    expect(leases.owner("T2")).toBe("w1");
+  });
+
+  it("keeps a lease from expiring while a call on the tab runs, and renews it when the call ends", () => {
+    const c = clock();
+    const leases = new TabLeases(c.now);
+    leases.claim("T1", "w1", 10_000);
+    const end = leases.use("T1", "w1");
+    c.t += 30_000;
+    expect(leases.sweep()).toEqual([]);
+    expect(() => leases.claim("T1", "w2", 10_000)).toThrow('owned by worker "w1"');
+    end();
+    expect(leases.view("T1")).toEqual({ owner: "w1", lease_remaining_s: 10 });
+    c.t += 10_000;
+    expect(leases.sweep().map((l) => l.targetId)).toEqual(["T1"]);
+  });
+});
@@ -0,0 +1,158 @@
+// Unit tests for mcp.ts — tool mapping, result shaping and the MCP request flow
+
+import { writeFileSync, rmSync } from "node:fs";
+import { describe, it, expect, vi } from "vitest";
+import {
+  McpServer,
+  toolName,
+  toolsFromOpenRpc,
+  toToolResult,
+  type DaemonCaller,
+} from "../../src/mcp.js";
+import { getMethodRegistry } from "../../src/server.js";
+import { toOpenRpc } from "../../src/registry.js";
+import { ERROR_CODES } from "../../src/protocol.js";
+
+const DOC = {
+  methods: [
+    {
+      name: "find.role",
+      summary: "Find an element by ARIA role",
+      params: [
+        { name: "value", required: true, schema: { type: "string" } },
+        { name: "action", schema: { type: "string", enum: ["click", "none"] } },
+        { name: "workerId", schema: { type: "string" } },
+      ],
+    },
+    { name: "snapshot", summary: "Snapshot", params: [] },
+    { name: "subscribe", summary: "Stream events", params: [] },
+  ],
+};
+
+function fakeDaemon(results: Record<string, unknown>) {
+  const fn = vi.fn(async (method: string) => {
+    if (method === "rpc.discover") return DOC;
+    const r = results[method];
+    if (r instanceof Error) throw r;
+    return r;
+  });
+  return fn satisfies DaemonCaller;
+}
+
+describe("tool mapping", () => {
+  it("maps method names to MCP-safe tool names", () => {
+    expect(toolName("find.role")).toBe("find_role");
+    expect(toolName("set-cookie")).toBe("set_cookie");
+  });
+
+  it("builds JSON-schema inputs, hides workerId and skips streaming methods", () => {
+    const { tools, methods } = toolsFromOpenRpc(DOC);
+    expect(tools.map((t) => t.name)).toEqual(["find_role", "snapshot"]);
+    expect(methods.get("find_role")).toBe("find.role");
+    const find = tools[0];
+    expect(find.inputSchema.required).toEqual(["value"]);
+    expect(Object.keys(find.inputSchema.properties)).toEqual(["value", "action"]);
+  });
+
+  it("gives every registry method a unique, valid tool name", () => {
+    const { tools } = toolsFromOpenRpc(toOpenRpc(getMethodRegistry(), { title: "t", version: "0" }) as typeof DOC);
+    const names = tools.map((t) => t.name);
+    expect(new Set(names).size).toBe(names.length);
+    for (const n of names) expect(n).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(names).toEqual(expect.arrayContaining(["snapshot", "click", "fill", "find_text", "get_text", "is_visible", "wait", "observe"]));
+  });
+});
+
+describe("toToolResult", () => {
+  it("returns snapshot text as the first content block", async () => {
+    const result = await toToolResult("snapshot", { snapshot: "- button \"OK\" [ref=e1]", stats: { refs: 1 } });
+    expect(result.content[0]).toEqual({ type: "text", text: "- button \"OK\" [ref=e1]" });
+    expect(result.content[1].type).toBe("text");
+    expect(result.isError).toBeUndefined();
+  });
+
+  it("returns screenshots as base64 image content", async () => {
+    const path = `/tmp/jarvis-mcp-test-${process.pid}.png`;
+    writeFileSync(path, Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    try {
+      const result = await toToolResult("screenshot", { ok: true, data: { path } });
+      expect(result.content[0]).toEqual({ type: "image", data: "iVBORw==", mimeType: "image/png" });
+    } finally {
+      rmSync(path, { force: true });
+    }
+  });
+
+  it("wraps non-envelope results and flags ok:false as an error", async () => {
+    const wrapped = await toToolResult("tabs", [{ targetId: "T1" }]);
+    expect(JSON.parse((wrapped.content[0] as { text: string }).text)).toEqual({ ok: true, data: [{ targetId: "T1" }] });
+    const failed = await toToolResult("click", { ok: false, error: "Unknown ref e9" });
+    expect(failed.isError).toBe(true);
+  });
+});
+
+describe("McpServer", () => {
+  it("answers initialize with tools capability and the requested protocol version", async () => {
+    const server = new McpServer(fakeDaemon({}));
+    const resp = await server.handleMessage({
+      jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "2024-11-05" },
+    }) as { result: { protocolVersion: string; capabilities: object; serverInfo: { name: string } } };
+    expect(resp.result.protocolVersion).toBe("2024-11-05");
+    expect(resp.result.capabilities).toHaveProperty("tools");
+    expect(resp.result.serverInfo.name).toBe("jarvis-browser");
+  });
+
+  it("ignores notifications", async () => {
+    const server = new McpServer(fakeDaemon({}));
+    expect(await server.handleMessage({ jsonrpc: "2.0", method: "notifications/initialized" })).toBeNull();
+  });
+
+  it("routes tools/call to the daemon method with the worker id", async () => {
+    const daemon = fakeDaemon({ "find.role": { ok: true, message: "Clicked" } });
+    const server = new McpServer(daemon, "agent-1");
+    const resp = await server.handleMessage({
+      jsonrpc: "2.0", id: 2, method: "tools/call",
+      params: { name: "find_role", arguments: { value: "button", action: "click" } },
+    }) as { result: { content: Array<{ text: string }> } };
+    expect(daemon).toHaveBeenCalledWith("find.role", { value: "button", action: "click", workerId: "agent-1" }, expect.any(AbortSignal));
+    expect(JSON.parse(resp.result.content[0].text)).toEqual({ ok: true, message: "Clicked" });
+  });
+
+  it("turns daemon errors into isError tool results", async () => {
+    const err = Object.assign(new Error("No active page"), { code: String(ERROR_CODES.BROWSER_NOT_CONNECTED) });
+    const server = new McpServer(fakeDaemon({ snapshot: err }));
+    const resp = await server.handleMessage({
+      jsonrpc: "2.0", id: 3, method: "tools/call", params: { name: "snapshot", arguments: {} },
+    }) as { result: { isError: boolean; content: Array<{ text: string }> } };
+    expect(resp.result.isError).toBe(true);
+    expect(JSON.parse(resp.result.content[0].text)).toMatchObject({ ok: false, error: "No active page", code: -32001 });
+  });
+
+  it("rejects unknown tools and methods with protocol errors", async () => {
+    const server = new McpServer(fakeDaemon({}));
+    const unknownTool = await server.handleMessage({
+      jsonrpc: "2.0", id: 4, method: "tools/call", params: { name: "nope" },
+    }) as { error: { code: number } };
+    expect(unknownTool.error.code).toBe(ERROR_CODES.INVALID_PARAMS);
+    const unknownMethod = await server.handleMessage({ jsonrpc: "2.0", id: 5, method: "resources/list" }) as { error: { code: number } };
+    expect(unknownMethod.error.code).toBe(ERROR_CODES.METHOD_NOT_FOUND);
+  });
+
+  it("aborts the daemon call on notifications/cancelled and sends no response", async () => {
+    let signal: AbortSignal | undefined;
+    const daemon = vi.fn(async (method: string, _params: Record<string, unknown>, s?: AbortSignal) => {
+      if (method === "rpc.discover") return DOC;
+      signal = s;
+      return new Promise((_, reject) => s?.addEventListener("abort", () => reject(new Error("snapshot cancelled"))));
+    });
+    const server = new McpServer(daemon);
+    const pending = server.handleMessage({
+      jsonrpc: "2.0", id: 6, method: "tools/call", params: { name: "snapshot", arguments: {} },
+    });
+    await vi.waitFor(() => expect(signal).toBeDefined());
+    expect(await server.handleMessage({
+      jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: 6, reason: "user" },
+    })).toBeNull();
+    expect(signal?.aborted).toBe(true);
+    expect(await pending).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+// Unit tests for metrics.ts — per-method counters, histograms and Prometheus output
+
+import { describe, it, expect } from "vitest";
+import {
+  MetricsRegistry,
+  LATENCY_BUCKETS_MS,
+  errorCodeName,
+  toPrometheus,
+  startMetricsServer,
+} from "../../src/metrics.js";
+import { ERROR_CODES } from "../../src/protocol.js";
+
+describe("MetricsRegistry", () => {
+  it("counts requests and errors per method and by error code", () => {
+    const m = new MetricsRegistry();
+    m.record("click", 12);
+    m.record("click", 30, ERROR_CODES.REF_NOT_FOUND);
+    m.record("snapshot", 200);
+
+    const snap = m.snapshot();
+    expect(snap.requests_total).toBe(3);
+    expect(snap.errors_total).toBe(1);
+    expect(snap.errors_by_code).toEqual({ REF_NOT_FOUND: 1 });
+    expect(snap.methods.click).toMatchObject({ count: 2, errors: 1, sum_ms: 42, max_ms: 30, avg_ms: 21 });
+    expect(Object.keys(snap.methods)).toEqual(["click", "snapshot"]);
+  });
+
+  it("fills cumulative latency buckets", () => {
+    const m = new MetricsRegistry();
+    m.record("wait", 3);
+    m.record("wait", 60);
+    m.record("wait", 60_000);
+
+    const buckets = m.snapshot().methods.wait.buckets;
+    expect(buckets).toHaveLength(LATENCY_BUCKETS_MS.length + 1);
+    expect(buckets[LATENCY_BUCKETS_MS.indexOf(5)]).toBe(1);
+    expect(buckets[LATENCY_BUCKETS_MS.indexOf(100)]).toBe(2);
+    expect(buckets[LATENCY_BUCKETS_MS.length - 1]).toBe(2); // 30s bucket
+    expect(buckets[LATENCY_BUCKETS_MS.length]).toBe(3);     // +Inf
+  });
+
+  it("names known error codes and passes unknown ones through", () => {
+    expect(errorCodeName(ERROR_CODES.TIMEOUT)).toBe("TIMEOUT");
+    expect(errorCodeName(-1)).toBe("-1");
+  });
+});
+
+describe("toPrometheus", () => {
+  it("renders counters, histograms and gauges in text format", () => {
+    const m = new MetricsRegistry();
+    m.record("find.role", 7, ERROR_CODES.TIMEOUT);
+    const text = toPrometheus(m.snapshot(), { chrome_tabs: 3, chrome_memory_bytes: null });
+
+    expect(text).toContain("# TYPE jarvis_requests_total counter");
+    expect(text).toContain('jarvis_requests_total{method="find.role"} 1');
+    expect(text).toContain('jarvis_request_errors_total{method="find.role"} 1');
+    expect(text).toContain('jarvis_errors_by_code_total{code="TIMEOUT"} 1');
+    expect(text).toContain('jarvis_request_duration_seconds_bucket{method="find.role",le="0.005"} 0');
+    expect(text).toContain('jarvis_request_duration_seconds_bucket{method="find.role",le="0.01"} 1');
+    expect(text).toContain('jarvis_request_duration_seconds_bucket{method="find.role",le="+Inf"} 1');
+    expect(text).toContain('jarvis_request_duration_seconds_sum{method="find.role"} 0.007');
+    expect(text).toContain("jarvis_chrome_tabs 3");
+    expect(text).not.toContain("chrome_memory_bytes");
+    expect(text.endsWith("\n")).toBe(true);
+  });
+});
+
+describe("startMetricsServer", () => {
+  it("serves GET /metrics and 404s everything else", async () => {
+    const server = await startMetricsServer("127.0.0.1", 0, async () => "jarvis_up 1\n");
+    try {
+      const ok = await fetch(server.url);
+      expect(ok.status).toBe(200);
+      expect(ok.headers.get("content-type")).toContain("text/plain; version=0.0.4");
+      expect(await ok.text()).toBe("jarvis_up 1\n");
+
+      const missing = await fetch(server.url.replace("/metrics", "/other"));
+      expect(missing.status).toBe(404);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -228,4 +228,26 @@ describe("NetworkController (mock Page)", () => {
     const rules = nc.listRules(TID);
     expect(rules[0].mock_status).toBeUndefined();
   });
+
+  it("exportRules returns specs per tab that restoreRule re-creates", async () => {
+    await nc.addBlock("**/ads/**", page, TID);
+    await nc.addMock("**/api", { status: 503, body: "{}" }, page, TID);
+    await nc.addCapture("**/log", page, "other-tab");
+
+    const exported = nc.exportRules();
+    expect(exported[TID]).toEqual([
+      { type: "block", pattern: "**/ads/**" },
+      { type: "mock", pattern: "**/api", mockOptions: { status: 503, body: "{}" } },
+    ]);
+    expect(exported["other-tab"]).toEqual([{ type: "capture", pattern: "**/log" }]);
+
+    const fresh = new NetworkController();
+    const freshPage = createMockPage();
+    for (const spec of exported[TID]) await fresh.restoreRule(spec, freshPage, TID);
+    expect(freshPage.route).toHaveBeenCalledTimes(2);
+    expect(fresh.listRules(TID).map((r) => [r.type, r.pattern, r.mock_status])).toEqual([
+      ["block", "**/ads/**", undefined],
+      ["mock", "**/api", 503],
+    ]);
+  });
 });
@@ -167,6 +167,38 @@ describe("RingBuffer", () => {
     expect(all[0]).toBeLessThan(all[1]); // oldest first
     expect(all).toEqual([3, 4, 5, 6]);
   });
+
+  it("resize grow keeps every entry", () => {
+    const buf = new RingBuffer<number>(3);
+    buf.push(1); buf.push(2); buf.push(3); buf.push(4);
+    buf.resize(5);
+    expect(buf.capacity).toBe(5);
+    expect(buf.getAll()).toEqual([2, 3, 4]);
+    buf.push(5); buf.push(6);
+    expect(buf.getAll()).toEqual([2, 3, 4, 5, 6]);
+  });
+
+  it("resize shrink keeps the newest entries", () => {
+    const buf = new RingBuffer<number>(5);
+    for (let i = 1; i <= 5; i++) buf.push(i);
+    buf.resize(2);
+    expect(buf.capacity).toBe(2);
+    expect(buf.getAll()).toEqual([4, 5]);
+  });
+
+  it("push after resize wraps at the new capacity", () => {
+    const buf = new RingBuffer<number>(4);
+    buf.push(1); buf.push(2);
+    buf.resize(3);
+    buf.push(3); buf.push(4); buf.push(5);
+    expect(buf.getAll()).toEqual([3, 4, 5]);
+    expect(buf.size).toBe(3);
+  });
+
+  it("resize rejects capacity < 1", () => {
+    const buf = new RingBuffer<number>(2);
+    expect(() => buf.resize(0)).toThrow();
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -508,4 +540,43 @@ describe("PageObserver (mock Page)", () => {
     expect(globalObserver.getSnapshotAge(id)).toBeNull();
     usedIds.pop(); // already destroyed, remove from afterEach list
   });
+
+  it("records crashes and keeps them when the tab is replaced", () => {
+    const id = tid("crash");
+    const next = tid("crash-new");
+    const { page, emit } = createMockPage();
+    Object.assign(page, { url: () => "https://crash.test/" });
+    globalObserver.attach(page, id);
+    emit("console", mockMsg("error", "before"));
+    emit("crash");
+    expect(globalObserver.getObservation(id).crashes).toBe(1);
+    expect(globalObserver.getCrashes(id)).toEqual([
+      { url: "https://crash.test/", timestamp: expect.any(Number), recovered_as: null },
+    ]);
+
+    const replacement = createMockPage();
+    globalObserver.move(id, next, replacement.page);
+    replacement.emit("console", mockMsg("log", "after"));
+    emit("console", mockMsg("log", "ignored"));
+    expect(globalObserver.isAttached(id)).toBe(false);
+    expect(globalObserver.getConsole(next).messages.map((m) => m.text)).toEqual(["before", "after"]);
+    expect(globalObserver.getCrashes(next)[0]?.recovered_as).toBe(next);
+  });
+
+  it("setBufferSizes resizes buffers of attached tabs", () => {
+    const id = tid("resize");
+    const { page, emit } = createMockPage();
+    globalObserver.attach(page, id);
+    for (let i = 0; i < 10; i++) emit("console", mockMsg("log", `m${i}`));
+
+    const defaults = globalObserver.getBufferSizes();
+    try {
+      globalObserver.setBufferSizes({ console: 3 });
+      expect(globalObserver.getBufferSizes().console).toBe(3);
+      const { messages } = globalObserver.getConsole(id);
+      expect(messages.map((m) => m.text)).toEqual(["m7", "m8", "m9"]);
+    } finally {
+      globalObserver.setBufferSizes(defaults);
+    }
+  });
 });
@@ -0,0 +1,54 @@
+// Unit tests for page-index.ts — targetId ↔ Page lookups and resolution stats
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { PageIndex } from "../../src/page-index.js";
+
+describe("PageIndex", () => {
+  let index: PageIndex<{ name: string }>;
+  const a = { name: "a" };
+  const b = { name: "b" };
+
+  beforeEach(() => {
+    index = new PageIndex();
+  });
+
+  it("resolves both ways", () => {
+    index.set("T1", a);
+    index.set("T2", b);
+    expect(index.get("T1")).toBe(a);
+    expect(index.targetIdOf(b)).toBe("T2");
+    expect(index.get("T3")).toBeUndefined();
+    expect(index.size).toBe(2);
+  });
+
+  it("forgets closed pages without dropping a newer page for the same target", () => {
+    index.set("T1", a);
+    index.set("T1", b);
+    expect(index.targetIdOf(a)).toBeUndefined();
+    index.delete(a);
+    expect(index.get("T1")).toBe(b);
+    index.delete(b);
+    expect(index.get("T1")).toBeUndefined();
+    expect(index.size).toBe(0);
+  });
+
+  it("clears everything", () => {
+    index.set("T1", a);
+    index.clear();
+    expect(index.get("T1")).toBeUndefined();
+    expect(index.targetIdOf(a)).toBeUndefined();
+  });
+
+  it("reports hits, CDP fallbacks and timing", () => {
+    expect(index.stats()).toEqual({
+      indexed_pages: 0, lookups: 0, cache_hits: 0, cdp_fallbacks: 0, avg_ms: 0, max_ms: 0, avg_fallback_ms: 0,
+    });
+    index.set("T1", a);
+    index.recordLookup(0.5, true);
+    index.recordLookup(0.5, true);
+    index.recordLookup(11, false);
+    expect(index.stats()).toEqual({
+      indexed_pages: 1, lookups: 3, cache_hits: 2, cdp_fallbacks: 1, avg_ms: 4, max_ms: 11, avg_fallback_ms: 11,
+    });
+  });
+});
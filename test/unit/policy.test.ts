@@ -0,0 +1,143 @@
+// Unit tests for policy.ts — parsing, worker matching, method/URL checks and fail-closed loading
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { PolicyStore, parsePolicy, urlMatches, type PolicyFile } from "../../src/policy.js";
+import { ERROR_CODES } from "../../src/protocol.js";
+
+const POLICY: PolicyFile = {
+  workers: {
+    "prod": {},
+    "exp-*": {
+      deny_methods: ["evaluate", "set-cookie", "session.export", "route.*"],
+      allow_urls: ["*.example.com"],
+    },
+    "reader": { allow_methods: ["get.*", "snapshot"] },
+  },
+};
+
+function codeOf(fn: () => void): number | undefined {
+  try {
+    fn();
+    return undefined;
+  } catch (err) {
+    return (err as { rpcCode?: number }).rpcCode;
+  }
+}
+
+describe("parsePolicy", () => {
+  it("accepts workers and default", () => {
+    expect(parsePolicy({ workers: { a: { deny_methods: ["evaluate"] } }, default: {} })).toEqual({
+      workers: { a: { deny_methods: ["evaluate"] } },
+      default: {},
+    });
+  });
+
+  it("rejects unknown keys and non-string lists", () => {
+    expect(() => parsePolicy({ worker: {} })).toThrow('unknown top-level key "worker"');
+    expect(() => parsePolicy({ workers: { a: { deny: ["x"] } } })).toThrow('workers["a"]: unknown key "deny"');
+    expect(() => parsePolicy({ workers: { a: { allow_urls: "*.x.com" } } })).toThrow("must be an array of strings");
+  });
+});
+
+describe("urlMatches", () => {
+  it("matches *.domain against the domain and its subdomains", () => {
+    expect(urlMatches("*.example.com", "https://example.com/")).toBe(true);
+    expect(urlMatches("*.example.com", "https://a.b.example.com/x")).toBe(true);
+    expect(urlMatches("*.example.com", "https://badexample.com/")).toBe(false);
+    expect(urlMatches("*.example.com", "https://example.com.evil.io/")).toBe(false);
+  });
+
+  it("matches full-URL globs against the whole URL", () => {
+    expect(urlMatches("https://docs.test/*", "https://docs.test/a/b")).toBe(true);
+    expect(urlMatches("https://docs.test/*", "http://docs.test/a")).toBe(false);
+  });
+});
+
+describe("PolicyStore.check", () => {
+  let store: PolicyStore;
+
+  beforeEach(() => {
+    store = new PolicyStore();
+    store.set(POLICY);
+  });
+
+  it("denies listed methods for pattern-matched workers only", () => {
+    expect(codeOf(() => store.check("exp-1", "evaluate", {}))).toBe(ERROR_CODES.SECURITY_VIOLATION);
+    expect(codeOf(() => store.check("exp-1", "route.mock", {}))).toBe(ERROR_CODES.SECURITY_VIOLATION);
+    expect(codeOf(() => store.check("exp-1", "click", {}))).toBeUndefined();
+    expect(codeOf(() => store.check("prod", "evaluate", {}))).toBeUndefined();
+    expect(codeOf(() => store.check("", "evaluate", {}))).toBeUndefined(); // no default → unrestricted
+  });
+
+  it("allow_methods admits only listed methods, but never blocks the handshake", () => {
+    expect(codeOf(() => store.check("reader", "get.text", {}))).toBeUndefined();
+    expect(codeOf(() => store.check("reader", "click", {}))).toBe(ERROR_CODES.SECURITY_VIOLATION);
+    expect(codeOf(() => store.check("reader", "daemon.hello", {}))).toBeUndefined();
+  });
+
+  it("checks navigate/open URLs and batch steps", () => {
+    expect(codeOf(() => store.check("exp-1", "navigate", { url: "https://shop.example.com/" }))).toBeUndefined();
+    expect(() => store.check("exp-1", "navigate", { url: "https://evil.io/" }))
+      .toThrow('Policy does not allow navigation to https://evil.io/ for worker "exp-1"');
+    expect(codeOf(() => store.check("exp-1", "open", {}))).toBeUndefined();
+    expect(codeOf(() => store.check("exp-1", "open", { url: "about:blank" }))).toBeUndefined();
+    expect(codeOf(() => store.check("exp-1", "batch", { commands: [{ cmd: "navigate", url: "https://evil.io/" }] })))
+      .toBe(ERROR_CODES.SECURITY_VIOLATION);
+    expect(codeOf(() => store.check("exp-1", "batch", { commands: [{ cmd: "evaluate", expression: "1" }] })))
+      .toBe(ERROR_CODES.SECURITY_VIOLATION);
+  });
+
+  it("keeps restricted workers from changing policy-file", () => {
+    expect(codeOf(() => store.check("prod", "config.set", { key: "policy-file", value: "" })))
+      .toBe(ERROR_CODES.SECURITY_VIOLATION);
+    expect(codeOf(() => store.check("prod", "config.reset", {}))).toBe(ERROR_CODES.SECURITY_VIOLATION);
+    expect(codeOf(() => store.check("prod", "config.set", { key: "retry-count", value: "3" }))).toBeUndefined();
+    expect(codeOf(() => store.check("someone-else", "config.reset", {}))).toBeUndefined();
+  });
+
+  it("effective() prefers exact keys, then patterns, then default", () => {
+    store.set({ workers: { "exp-*": { deny_methods: ["a"] }, "exp-1": {} }, default: { deny_methods: ["b"] } });
+    expect(store.effective("exp-1").matched).toBe("exp-1");
+    expect(store.effective("exp-2").matched).toBe("exp-*");
+    expect(store.effective("other")).toEqual({ worker: "other", matched: "default", deny_methods: ["b"] });
+  });
+});
+
+describe("PolicyStore.load", () => {
+  let dir: string;
+  const store = new PolicyStore();
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "jarvis-policy-"));
+  });
+
+  afterEach(() => {
+    store.unwatch();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("loads a policy file", async () => {
+    const path = join(dir, "policy.json");
+    writeFileSync(path, JSON.stringify(POLICY));
+    await store.load(path);
+    expect(store.describe()).toEqual({ path, policy: expect.objectContaining({ workers: POLICY.workers }) });
+    expect(codeOf(() => store.check("exp-9", "evaluate", {}))).toBe(ERROR_CODES.SECURITY_VIOLATION);
+  });
+
+  it("denies everything except exempt methods when the file can't be loaded", async () => {
+    const path = join(dir, "broken.json");
+    writeFileSync(path, "{\"workers\": ");
+    await store.load(path);
+    expect(store.describe().error).toBeDefined();
+    expect(() => store.check("prod", "tabs", {})).toThrow("could not be loaded");
+    expect(codeOf(() => store.check("prod", "policy.show", {}))).toBeUndefined();
+  });
+
+  it("an empty path removes the policy", async () => {
+    await store.load("");
+    expect(codeOf(() => store.check("exp-1", "evaluate", {}))).toBeUndefined();
+  });
+});
@@ -0,0 +1,37 @@
+// Unit tests for popups.ts — recording opened tabs and attributing them to their opener
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { OpenedTabLog } from "../../src/popups.js";
+
+describe("OpenedTabLog", () => {
+  let log: OpenedTabLog;
+
+  beforeEach(() => {
+    log = new OpenedTabLog(3);
+  });
+
+  it("reports the tabs a page opened since a point in time", () => {
+    log.record("T-old", "OPENER", 100);
+    log.record("T-popup", "OPENER", 200);
+    log.record("T-other", "ELSEWHERE", 210);
+    log.record("T-cdp", null, 220);
+    expect(log.openedSince(150, "OPENER")).toEqual(["T-popup"]);
+    expect(log.openedSince(150)).toEqual(["T-popup", "T-other"]);
+    expect(log.openedSince(300)).toEqual([]);
+  });
+
+  it("records a tab once, filling in an opener learned later", () => {
+    expect(log.record("T1", null, 100)).toBe(true);
+    expect(log.record("T1", "OPENER", 150)).toBe(false);
+    expect(log.openerOf("T1")).toBe("OPENER");
+    expect(log.openedSince(100, "OPENER")).toEqual(["T1"]);
+    expect(log.openerOf("unknown")).toBeNull();
+  });
+
+  it("keeps only the most recent tabs", () => {
+    for (let i = 1; i <= 5; i++) log.record(`T${i}`, "OPENER", i);
+    expect(log.openedSince(0)).toEqual(["T3", "T4", "T5"]);
+    log.clear();
+    expect(log.openedSince(0)).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+// Unit tests for profiles.ts — create, list, clone, delete, launch bookkeeping and lock detection
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, symlinkSync, writeFileSync, existsSync, readdirSync } from "node:fs";
+import { hostname, tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createProfile,
+  getProfile,
+  listProfiles,
+  cloneProfile,
+  deleteProfile,
+  useProfile,
+} from "../../src/profiles.js";
+
+// A pid that is certainly not running
+const DEAD_PID = 2 ** 22 + 1;
+
+describe("profiles", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "jarvis-profiles-"));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("creates a profile with metadata and its own user-data-dir", async () => {
+    const profile = await createProfile(root, "logged-in-staging", { proxy: "socks5://127.0.0.1:1080", device: "iPhone 14" });
+    expect(profile).toMatchObject({
+      version: 1,
+      name: "logged-in-staging",
+      last_used: null,
+      proxy: "socks5://127.0.0.1:1080",
+      device: "iPhone 14",
+      user_data_dir: join(root, "logged-in-staging", "user-data"),
+      in_use: false,
+    });
+    expect(existsSync(profile.user_data_dir)).toBe(true);
+    await expect(createProfile(root, "logged-in-staging")).rejects.toThrow("already exists");
+  });
+
+  it("rejects names that could escape the root", async () => {
+    await expect(createProfile(root, "../etc")).rejects.toThrow("Invalid profile name");
+    await expect(createProfile(root, ".hidden")).rejects.toThrow("Invalid profile name");
+    await expect(getProfile(root, "a/b")).rejects.toThrow("Invalid profile name");
+  });
+
+  it("lists profiles by name and skips directories without metadata", async () => {
+    await createProfile(root, "zeta");
+    await createProfile(root, "alpha");
+    rmSync(join(root, "zeta", "profile.json"));
+    expect((await listProfiles(root)).map((p) => p.name)).toEqual(["alpha"]);
+    expect(await listProfiles(join(root, "missing"))).toEqual([]);
+  });
+
+  it("clones user data without Chrome's lock files", async () => {
+    const source = await createProfile(root, "clean", { device: "Desktop Chrome" });
+    writeFileSync(join(source.user_data_dir, "Local State"), "{}");
+    symlinkSync(`${hostname()}-${DEAD_PID}`, join(source.user_data_dir, "SingletonLock"));
+
+    const copy = await cloneProfile(root, "clean", "clean-2");
+    expect(copy).toMatchObject({ name: "clean-2", device: "Desktop Chrome", last_used: null, in_use: false });
+    expect(existsSync(join(copy.user_data_dir, "Local State"))).toBe(true);
+    expect(readdirSync(copy.user_data_dir)).toEqual(["Local State"]);
+    await expect(cloneProfile(root, "clean", "clean-2")).rejects.toThrow("already exists");
+  });
+
+  it("treats a lock held by a live process as in use, and a stale one as free", async () => {
+    const profile = await createProfile(root, "busy");
+    const lock = join(profile.user_data_dir, "SingletonLock");
+    symlinkSync(`${hostname()}-${process.pid}`, lock);
+    expect((await getProfile(root, "busy")).in_use).toBe(true);
+    await expect(deleteProfile(root, "busy")).rejects.toThrow("in use by a running Chrome");
+    await expect(useProfile(root, "busy")).rejects.toThrow("stop it before you launch it");
+
+    rmSync(lock);
+    symlinkSync(`${hostname()}-${DEAD_PID}`, lock);
+    expect((await getProfile(root, "busy")).in_use).toBe(false);
+    await deleteProfile(root, "busy");
+    expect(existsSync(join(root, "busy"))).toBe(false);
+    await expect(deleteProfile(root, "busy")).rejects.toThrow('Profile "busy" not found');
+  });
+
+  it("records last_used on launch", async () => {
+    await createProfile(root, "daily");
+    const used = await useProfile(root, "daily");
+    expect(used.last_used).not.toBeNull();
+    expect((await getProfile(root, "daily")).last_used).toBe(used.last_used);
+  });
+});
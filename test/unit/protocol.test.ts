@@ -7,6 +7,12 @@ import {
   makeErrorResponse,
   isRpcError,
   validateRequest,
+  validateNotification,
+  describeVersionMismatch,
+  PACKAGE_VERSION,
+  PROTOCOL_VERSION,
+  BUILD_ID,
+  type DaemonHello,
 } from "../../src/protocol.js";
 
 describe("ERROR_CODES", () => {
@@ -158,8 +164,64 @@ describe("validateRequest", () => {
     expect(validateRequest({ jsonrpc: "2.0", id: 1, method: 42 })).toBeNull();
   });
 
+  it("rejects batch arrays (the server splits them first)", () => {
+    expect(validateRequest([{ jsonrpc: "2.0", id: 1, method: "status" }])).toBeNull();
+  });
+
   it("rejects missing or null id", () => {
     expect(validateRequest({ jsonrpc: "2.0", method: "status" })).toBeNull();
     expect(validateRequest({ jsonrpc: "2.0", id: null, method: "status" })).toBeNull();
   });
 });
+
+describe("validateNotification", () => {
+  it("accepts a $/cancel notification without id", () => {
+    const n = validateNotification({ jsonrpc: "2.0", method: "$/cancel", params: { id: 3 } });
+    expect(n?.method).toBe("$/cancel");
+    expect(n?.params).toEqual({ id: 3 });
+  });
+
+  it("rejects frames that carry an id or malformed params", () => {
+    expect(validateNotification({ jsonrpc: "2.0", id: 1, method: "$/cancel" })).toBeNull();
+    expect(validateNotification({ jsonrpc: "2.0", method: "$/cancel", params: 5 })).toBeNull();
+    expect(validateNotification([{ jsonrpc: "2.0", method: "$/cancel" }])).toBeNull();
+  });
+});
+
+describe("describeVersionMismatch", () => {
+  const hello = (overrides: Partial<DaemonHello> = {}): DaemonHello => ({
+    name: "jarvis-browser",
+    version: PACKAGE_VERSION,
+    protocol: PROTOCOL_VERSION,
+    build_id: BUILD_ID,
+    pid: 1,
+    methods: ["navigate", "daemon.hello"],
+    ...overrides,
+  });
+
+  it("accepts a matching daemon", () => {
+    expect(describeVersionMismatch(hello(), { method: "navigate", checkBuild: true })).toBeNull();
+  });
+
+  it("flags a daemon that predates the handshake", () => {
+    expect(describeVersionMismatch(null)).toContain("predates");
+  });
+
+  it("flags protocol and package version differences", () => {
+    expect(describeVersionMismatch(hello({ protocol: PROTOCOL_VERSION + 1 }))).toContain("protocol");
+    expect(describeVersionMismatch(hello({ version: "0.9.0" }))).toContain("0.9.0");
+  });
+
+  it("flags a method the daemon does not serve only when the client knows it", () => {
+    const knownMethods = ["navigate", "daemon.hello", "tab.claim"];
+    expect(describeVersionMismatch(hello(), { method: "tab.claim", knownMethods })).toContain('"tab.claim"');
+    // A typo is not a sign of a stale daemon: the call goes through and fails as unknown
+    expect(describeVersionMismatch(hello(), { method: "get.textt", knownMethods })).toBeNull();
+  });
+
+  it("compares build ids only when asked", () => {
+    const rebuilt = hello({ build_id: "1" });
+    expect(describeVersionMismatch(rebuilt)).toBeNull();
+    expect(describeVersionMismatch(rebuilt, { checkBuild: true })).toContain("different build");
+  });
+});
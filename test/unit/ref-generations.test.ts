@@ -0,0 +1,87 @@
+// Unit tests for snapshot generations — e5@g3 refs fail fast or are remapped, never guessed
+
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Page } from "playwright-core";
+import { storeRefs, getStoredRefs, refLocator } from "../../src/browser.js";
+import { parseRef } from "../../src/snapshot.js";
+import { classifyError, remapStaleRef } from "../../src/retry.js";
+
+const TEST_WORKER_ID = "ref-generations-unit-test";
+const SAVED_WORKER_ID = process.env.JARVIS_WORKER_ID;
+
+function fakePage() {
+  const locator = { nth: vi.fn(() => locator) };
+  const page = { getByRole: vi.fn(() => locator), locator: vi.fn(() => locator) };
+  return page;
+}
+
+describe("snapshot generations", () => {
+  const cacheDir = join(tmpdir(), "jarvis-browser-refs", TEST_WORKER_ID);
+
+  beforeAll(async () => {
+    process.env.JARVIS_WORKER_ID = TEST_WORKER_ID;
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await rm(cacheDir, { recursive: true, force: true });
+    if (SAVED_WORKER_ID === undefined) delete process.env.JARVIS_WORKER_ID;
+    else process.env.JARVIS_WORKER_ID = SAVED_WORKER_ID;
+  });
+
+  it("parses generation-qualified refs", () => {
+    expect(parseRef("e5@g3")).toEqual({ ref: "e5", generation: 3 });
+    expect(parseRef("@e5")).toEqual({ ref: "e5" });
+    expect(parseRef("ref=e12@g1")).toEqual({ ref: "e12", generation: 1 });
+  });
+
+  it("counts generations per tab and keeps the tab's previous refs", () => {
+    expect(storeRefs("GEN-A", { e1: { role: "button", name: "Save" } }, "role")).toBe(1);
+    expect(storeRefs("GEN-A", { e1: { role: "link", name: "Home" } }, "role")).toBe(2);
+    expect(storeRefs("GEN-B", {}, "role")).toBe(1);
+    const state = getStoredRefs("GEN-A");
+    expect(state?.generation).toBe(2);
+    expect(state?.history).toEqual([{ generation: 1, refs: { e1: { role: "button", name: "Save" } } }]);
+  });
+
+  it("fails fast on a ref from another generation instead of resolving it", () => {
+    const page = fakePage();
+    storeRefs("GEN-C", { e1: { role: "button", name: "Save" } }, "role");
+    storeRefs("GEN-C", { e1: { role: "link", name: "Home" }, e2: { role: "button", name: "Save" } }, "role");
+    const state = getStoredRefs("GEN-C");
+
+    let thrown: (Error & { rpcData?: { error_class: string } }) | undefined;
+    try {
+      refLocator(page as unknown as Page, "e1@g1", state);
+    } catch (err) {
+      thrown = err as typeof thrown;
+    }
+    expect(thrown?.message).toContain("is from snapshot generation 1, but the tab is at generation 2");
+    expect(thrown?.rpcData?.error_class).toBe("stale_ref");
+    expect(page.getByRole).not.toHaveBeenCalled();
+    // Stale even if the page navigated meanwhile: a resnap alone can't fix it
+    expect(classifyError(thrown!.message, { preActionUrl: "https://a.test/", currentUrl: "https://b.test/" })).toBe("stale_ref");
+
+    refLocator(page as unknown as Page, "e1@g2", state);
+    expect(page.getByRole).toHaveBeenLastCalledWith("link", { name: "Home", exact: true });
+  });
+
+  it("remaps a stale ref by role and name, then resolves it to the current element", async () => {
+    storeRefs("GEN-D", { e1: { role: "button", name: "Save" }, e2: { role: "link", name: "Docs" } }, "role");
+    storeRefs("GEN-D", { e1: { role: "link", name: "Docs" }, e2: { role: "textbox" }, e3: { role: "button", name: "Save" } }, "role");
+
+    expect(await remapStaleRef("GEN-D", "e1@g1")).toBe("e3");
+    expect(await remapStaleRef("GEN-D", "e9@g1")).toBeNull();
+
+    const page = fakePage();
+    refLocator(page as unknown as Page, "e1@g1", getStoredRefs("GEN-D"));
+    expect(page.getByRole).toHaveBeenLastCalledWith("button", { name: "Save", exact: true });
+
+    // A new snapshot drops the remaps made against the old one
+    storeRefs("GEN-D", { e1: { role: "button", name: "Save" } }, "role");
+    expect(() => refLocator(page as unknown as Page, "e1@g1", getStoredRefs("GEN-D"))).toThrow("snapshot generation 1");
+  });
+});
@@ -0,0 +1,109 @@
+// Unit tests for registry.ts — param validation, tab method derivation, OpenRPC rendering
+
+import { describe, it, expect } from "vitest";
+import {
+  MethodRegistry,
+  validateParams,
+  invalidParamsError,
+  toOpenRpc,
+  type MethodSpec,
+} from "../../src/registry.js";
+import { ERROR_CODES } from "../../src/protocol.js";
+
+const specs: MethodSpec<void>[] = [
+  {
+    name: "click",
+    summary: "Click an element",
+    tab: true,
+    params: {
+      ref: { type: "string", required: true },
+      button: { type: "string", enum: ["left", "right"] },
+      timeoutMs: { type: "number", minimum: 0 },
+    },
+    handler: () => ({ ok: true }),
+  },
+  {
+    name: "select",
+    summary: "Select options",
+    tab: true,
+    params: { values: { type: "array", items: { type: "string" }, required: true } },
+    handler: () => ({ ok: true }),
+  },
+  { name: "tabs", summary: "List tabs", handler: () => [] },
+];
+
+describe("validateParams", () => {
+  const click = specs[0].params;
+
+  it("accepts valid params and ignores unknown keys", () => {
+    expect(validateParams(click, { ref: "e1", button: "left", extra: 1 })).toEqual([]);
+  });
+
+  it("reports missing and empty required fields", () => {
+    expect(validateParams(click, {})).toEqual([{ field: "ref", message: "is required" }]);
+    expect(validateParams(click, { ref: "" })).toEqual([{ field: "ref", message: "is required" }]);
+  });
+
+  it("reports type, enum and minimum violations per field", () => {
+    const issues = validateParams(click, { ref: 5, button: "middle", timeoutMs: -1 });
+    expect(issues.map((i) => i.field)).toEqual(["ref", "button", "timeoutMs"]);
+    expect(issues[0].message).toBe("must be string");
+    expect(issues[1].message).toContain("left, right");
+    expect(issues[2].message).toBe("must be >= 0");
+  });
+
+  it("rejects NaN for number params", () => {
+    expect(validateParams(click, { ref: "e1", timeoutMs: NaN })).toHaveLength(1);
+  });
+
+  it("checks array item types", () => {
+    const issues = validateParams(specs[1].params, { values: ["a", 2] });
+    expect(issues).toEqual([{ field: "values", message: "[1] must be string" }]);
+  });
+
+  it("validates common params on every method", () => {
+    const issues = validateParams(undefined, { deadlineMs: "soon" });
+    expect(issues).toEqual([{ field: "deadlineMs", message: "must be number" }]);
+  });
+});
+
+describe("invalidParamsError", () => {
+  it("carries INVALID_PARAMS and field detail", () => {
+    const err = invalidParamsError("click", [{ field: "ref", message: "is required" }]) as Error & {
+      rpcCode: number;
+      rpcData: unknown;
+    };
+    expect(err.rpcCode).toBe(ERROR_CODES.INVALID_PARAMS);
+    expect(err.message).toBe('Invalid params for "click": ref is required');
+    expect(err.rpcData).toEqual({ errors: [{ field: "ref", message: "is required" }] });
+  });
+});
+
+describe("MethodRegistry", () => {
+  it("derives tab methods from the tab flag", () => {
+    const registry = new MethodRegistry(specs);
+    expect(registry.tabMethods()).toEqual(new Set(["click", "select"]));
+    expect(registry.get("tabs")?.summary).toBe("List tabs");
+  });
+
+  it("rejects duplicate registrations", () => {
+    const registry = new MethodRegistry(specs);
+    expect(() => registry.register(specs[2])).toThrow(/already registered/);
+  });
+});
+
+describe("toOpenRpc", () => {
+  it("renders methods with by-name params and JSON schemas", () => {
+    const doc = toOpenRpc(new MethodRegistry(specs), { title: "t", version: "1.0.0" }) as {
+      openrpc: string;
+      methods: Array<{ name: string; params: Array<{ name: string; required: boolean; schema: Record<string, unknown> }> }>;
+    };
+    expect(doc.openrpc).toMatch(/^1\./);
+    const click = doc.methods.find((m) => m.name === "click")!;
+    const ref = click.params.find((p) => p.name === "ref")!;
+    expect(ref.required).toBe(true);
+    expect(ref.schema).toEqual({ type: "string" });
+    expect(click.params.find((p) => p.name === "button")!.schema.enum).toEqual(["left", "right"]);
+    expect(click.params.some((p) => p.name === "deadlineMs")).toBe(true);
+  });
+});
@@ -8,9 +8,11 @@ import { vi, describe, it, expect, beforeEach } from "vitest";
 vi.mock("../../src/browser.js", () => ({
   takeSnapshot: vi.fn().mockResolvedValue({ snapshot: "", stats: {}, refs: {} }),
   getPendingDialogs: vi.fn().mockReturnValue([]),
+  recoverCrashedTab: vi.fn().mockResolvedValue({ from: "T1", to: "T2" }),
 }));
 
 import { classifyError, findMatchingRef, withRetry, type RetryOptions } from "../../src/retry.js";
+import { recoverCrashedTab } from "../../src/browser.js";
 import type { RoleRefMap } from "../../src/types.js";
 
 // --- classifyError ---
@@ -37,9 +39,17 @@ describe("classifyError", () => {
   it("classifies unknown errors as unknown", () => {
     expect(classifyError("Timeout exceeded 10000ms")).toBe("unknown");
     expect(classifyError("Network request failed")).toBe("unknown");
-    expect(classifyError("Page crashed")).toBe("unknown");
     expect(classifyError("")).toBe("unknown");
   });
+
+  it("classifies renderer crashes as page_crashed", () => {
+    expect(classifyError("Page crashed")).toBe("page_crashed");
+    expect(classifyError("locator.click: Target crashed")).toBe("page_crashed");
+    expect(classifyError('Tab "T1" crashed (renderer process gone)', { errorClass: "page_crashed" })).toBe("page_crashed");
+    // Page text that merely mentions a crash is not one
+    expect(classifyError('Text "Upload crashed" not found or not visible')).toBe("stale_ref");
+    expect(classifyError("Element with text crashed-banner intercepts pointer events")).toBe("not_interactable");
+  });
 });
 
 // --- findMatchingRef ---
@@ -122,6 +132,38 @@ describe("withRetry", () => {
     expect(action).toHaveBeenCalledTimes(2);
   });
 
+  it("reopens a crashed tab and retries", async () => {
+    const action = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("locator.click: Target crashed"))
+      .mockResolvedValueOnce("clicked");
+    const r = await withRetry(action, { page: mockPage as never, targetId: "T1", maxRetries: 1, delayMs: 0 });
+    expect(r.result).toBe("clicked");
+    expect(r.recoveries).toEqual(["tab-reopened"]);
+    expect(vi.mocked(recoverCrashedTab)).toHaveBeenCalledWith("T1");
+  });
+
+  it("reports a crashed tab reloaded in place", async () => {
+    vi.mocked(recoverCrashedTab).mockResolvedValueOnce({ from: "T1", to: "T1" } as never);
+    const crashed = Object.assign(new Error('Tab "T1" crashed (renderer process gone)'), { rpcData: { error_class: "page_crashed" } });
+    const action = vi.fn().mockRejectedValueOnce(crashed).mockResolvedValueOnce("clicked");
+    const r = await withRetry(action, { page: mockPage as never, targetId: "T1", maxRetries: 1, delayMs: 0 });
+    expect(r.recoveries).toEqual(["tab-reloaded"]);
+  });
+
+  it("gives a page_crashed suggestion when the tab can't be reopened", async () => {
+    vi.mocked(recoverCrashedTab).mockRejectedValueOnce(Object.assign(
+      new Error('Could not reopen crashed tab "T1" at https://example.com: net::ERR_FAILED'),
+      { rpcData: { error_class: "page_crashed" } },
+    ));
+    const action = vi.fn().mockRejectedValue(new Error("Page crashed"));
+    const err = await withRetry(action, { page: mockPage as never, targetId: "T1", maxRetries: 2, delayMs: 0 })
+      .catch((e: Error & { rpcData?: { error_class: string; suggestion: string } }) => e);
+    expect(action).toHaveBeenCalledOnce();
+    expect(err.message).toContain("Could not reopen crashed tab");
+    expect(err.rpcData).toEqual({ error_class: "page_crashed", suggestion: expect.stringContaining("open its URL in a new tab") });
+  });
+
   it("retries on not_interactable and performs scroll-dismiss recovery", async () => {
     const action = vi
       .fn()
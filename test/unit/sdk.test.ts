@@ -0,0 +1,24 @@
+// Unit tests for sdk.ts — method coverage against the daemon registry and helper naming
+
+import { describe, it, expect } from "vitest";
+import { JarvisClient, RPC_METHOD_NAMES } from "../../src/sdk.js";
+import { getMethodRegistry } from "../../src/server.js";
+
+describe("JarvisClient methods", () => {
+  it("covers exactly the methods the daemon registry serves", () => {
+    const served = getMethodRegistry().list().map((m) => m.name).sort();
+    expect([...RPC_METHOD_NAMES].sort()).toEqual(served);
+  });
+
+  it("exposes top-level, namespaced and camel-cased helpers", () => {
+    const client = new JarvisClient({ reconnect: false });
+    expect(typeof client.snapshot).toBe("function");
+    expect(typeof client.click).toBe("function");
+    expect(typeof client.find.role).toBe("function");
+    expect(typeof client.tab.claim).toBe("function");
+    expect(typeof client.daemon.hello).toBe("function");
+    expect(typeof client.pageInfo).toBe("function");
+    expect(typeof client.setCookie).toBe("function");
+    expect(client.connected).toBe(false); // nothing is opened until the first call
+  });
+});
@@ -8,6 +8,7 @@ import {
   jsonOutput,
   textOutput,
   fileOutput,
+  waitInSlices,
 } from "../../src/shared.js";
 
 afterEach(() => {
@@ -43,6 +44,31 @@ describe("normalizeTimeoutMs", () => {
   });
 });
 
+describe("waitInSlices", () => {
+  const timeoutError = (ms: number) => Object.assign(
+    new Error(`locator.waitFor: Timeout ${ms}ms exceeded.\nCall log:\n  - waiting for locator('#x') to be visible`),
+    { name: "TimeoutError" },
+  );
+
+  it("waits once for the full timeout without a signal", async () => {
+    const wait = vi.fn(async (ms: number) => ms);
+    await expect(waitInSlices(wait, 5000)).resolves.toBe(5000);
+    expect(wait).toHaveBeenCalledTimes(1);
+  });
+
+  it("rethrows the last slice's error with the full timeout", async () => {
+    const wait = vi.fn(async (ms: number) => {
+      await new Promise((r) => setTimeout(r, ms));
+      throw timeoutError(ms);
+    });
+    const err = await waitInSlices(wait, 600, new AbortController().signal).catch((e: Error) => e);
+    expect(wait.mock.calls.length).toBeGreaterThan(1);
+    expect((err as Error).name).toBe("TimeoutError");
+    expect((err as Error).message).toContain("Timeout 600ms exceeded");
+    expect((err as Error).message).toContain("to be visible");
+  });
+});
+
 describe("validateNavigationUrl", () => {
   it("allows http URLs", () => {
     expect(() => validateNavigationUrl("http://example.com")).not.toThrow();
@@ -0,0 +1,172 @@
+// Unit tests for stable refs — elements keep their refs across snapshots and resolve through their DOM nodes
+
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Page } from "playwright-core";
+import { storeRefs, getStoredRefs, refLocator, locateRef } from "../../src/browser.js";
+import { buildRoleSnapshotFromAriaSnapshot, matchRefsToNodes, stabilizeRefs } from "../../src/snapshot.js";
+
+const TEST_WORKER_ID = "stable-refs-unit-test";
+const SAVED_WORKER_ID = process.env.JARVIS_WORKER_ID;
+
+/** Page whose CDP session knows the attached DOM nodes in `attached` */
+function nodePage(attached: number[]) {
+  const locator = { nth: vi.fn(() => locator) };
+  const session = {
+    send: vi.fn(async (method: string, params: { backendNodeId?: number; objectId?: string }) => {
+      if (method === "DOM.resolveNode") {
+        if (!attached.includes(params.backendNodeId!)) throw new Error("No node with given id found");
+        return { object: { objectId: `obj-${params.backendNodeId}` } };
+      }
+      if (method === "Runtime.callFunctionOn") return { result: { value: true } };
+      return {};
+    }),
+    detach: vi.fn(async () => {}),
+  };
+  const newCDPSession = vi.fn(async () => session);
+  const page = {
+    getByRole: vi.fn(() => locator),
+    locator: vi.fn(() => locator),
+    context: () => ({ newCDPSession }),
+  };
+  return { page, session, newCDPSession };
+}
+
+const FIRST = [
+  '- button "Save"',
+  '- link "Home"',
+  '- button "Save"',
+].join("\n");
+
+// A banner and a link inserted above everything; the second "Save" button removed
+const SECOND = [
+  '- heading "Cookies"',
+  '- link "Accept"',
+  '- button "Save"',
+  '- link "Home"',
+].join("\n");
+
+describe("stable refs", () => {
+  const cacheDir = join(tmpdir(), "jarvis-browser-refs", TEST_WORKER_ID);
+
+  beforeAll(async () => {
+    process.env.JARVIS_WORKER_ID = TEST_WORKER_ID;
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await rm(cacheDir, { recursive: true, force: true });
+    if (SAVED_WORKER_ID === undefined) delete process.env.JARVIS_WORKER_ID;
+    else process.env.JARVIS_WORKER_ID = SAVED_WORKER_ID;
+  });
+
+  it("pairs refs with DOM nodes by role, name and occurrence", () => {
+    const built = buildRoleSnapshotFromAriaSnapshot(FIRST);
+    const nodes = matchRefsToNodes(built.refs, [
+      { role: "RootWebArea", name: "", backendNodeId: 1 },
+      { role: "button", name: "Save", backendNodeId: 10 },
+      { role: "link", name: " Home\n", backendNodeId: 11 },
+      { role: "button", name: "Save", backendNodeId: 12 },
+    ]);
+    expect(nodes).toEqual({ e1: 10, e2: 11, e3: 12 });
+
+    // Counts that disagree leave the role+name unpaired instead of guessing
+    expect(matchRefsToNodes(built.refs, [
+      { role: "button", name: "Save", backendNodeId: 10 },
+      { role: "link", name: "Home", backendNodeId: 11 },
+    ])).toEqual({ e2: 11 });
+  });
+
+  it("keeps refs of elements seen before and numbers only new ones", () => {
+    const first = stabilizeRefs(buildRoleSnapshotFromAriaSnapshot(FIRST), { e1: 10, e2: 11, e3: 12 });
+    expect(Object.keys(first.refs)).toEqual(["e1", "e2", "e3"]);
+    expect(first.lastRef).toBe(3);
+
+    const built = buildRoleSnapshotFromAriaSnapshot(SECOND);
+    const second = stabilizeRefs(built, { e1: 20, e2: 21, e3: 10, e4: 11 }, first);
+    expect(second.refs).toEqual({
+      e4: { role: "heading", name: "Cookies" },
+      e5: { role: "link", name: "Accept" },
+      e1: { role: "button", name: "Save" },
+      e2: { role: "link", name: "Home" },
+    });
+    expect(second.nodes).toEqual({ e4: 20, e5: 21, e1: 10, e2: 11 });
+    expect(second.lastRef).toBe(5);
+    expect(second.snapshot).toBe([
+      '- heading "Cookies" [ref=e4]',
+      '- link "Accept" [ref=e5]',
+      '- button "Save" [ref=e1]',
+      '- link "Home" [ref=e2]',
+    ].join("\n"));
+
+    // e3's element is gone; its number is never handed to another element
+    const third = stabilizeRefs(buildRoleSnapshotFromAriaSnapshot('- button "Retry"'), { e1: 30 }, second);
+    expect(Object.keys(third.refs)).toEqual(["e6"]);
+  });
+
+  it("does not carry a ref over when the node now has another role", () => {
+    const first = stabilizeRefs(buildRoleSnapshotFromAriaSnapshot('- button "Menu"'), { e1: 10 });
+    const second = stabilizeRefs(buildRoleSnapshotFromAriaSnapshot('- link "Menu"'), { e1: 10 }, first);
+    expect(Object.keys(second.refs)).toEqual(["e2"]);
+  });
+
+  it("resolves a ref from an older generation while it names the same node", () => {
+    const locator = { nth: vi.fn(() => locator) };
+    const page = { getByRole: vi.fn(() => locator), locator: vi.fn(() => locator) };
+    storeRefs("STABLE-A", { e1: { role: "button", name: "Save" }, e2: { role: "link", name: "Home" } }, "role",
+      undefined, { tab: "STABLE-A", generation: 1 }, { nodes: { e1: 10, e2: 11 }, lastRef: 2 });
+    storeRefs("STABLE-A", { e3: { role: "heading", name: "Cookies" }, e1: { role: "button", name: "Save" } }, "role",
+      undefined, { tab: "STABLE-A", generation: 2 }, { nodes: { e3: 20, e1: 10 }, lastRef: 3 });
+    const state = getStoredRefs("STABLE-A");
+
+    refLocator(page as unknown as Page, "e1@g1", state);
+    expect(page.getByRole).toHaveBeenCalledWith("button", { name: "Save", exact: true });
+    expect(() => refLocator(page as unknown as Page, "e2@g1", state)).toThrow(/snapshot generation 1/);
+  });
+
+  it("resolves refs through their DOM node and falls back to the role query once it is gone", async () => {
+    storeRefs("STABLE-B", { e1: { role: "button", name: "Save", nth: 1 }, e2: { role: "link", name: "Home" } }, "role",
+      undefined, { tab: "STABLE-B", generation: 1 }, { nodes: { e1: 10, e2: 11 }, lastRef: 2 });
+    const state = getStoredRefs("STABLE-B");
+    const { page, session, newCDPSession } = nodePage([10]);
+
+    const byNode = await locateRef(page as unknown as Page, "e1", state);
+    expect(byNode.via).toBe("node");
+    expect(page.getByRole).not.toHaveBeenCalled();
+    const tag = vi.mocked(session.send).mock.calls.find(([method]) => method === "Runtime.callFunctionOn")![1] as
+      { objectId: string; arguments: Array<{ value: string }> };
+    const attribute = tag.arguments[0]!.value;
+    expect(tag.objectId).toBe("obj-10");
+    expect(attribute).toMatch(/^data-jarvis-node-\d+$/);
+    expect(page.locator).toHaveBeenCalledWith(`[${attribute}]`);
+
+    // The tag comes off again once the action is done
+    session.send.mockClear();
+    await byNode.release();
+    expect(session.send).toHaveBeenCalledWith("Runtime.callFunctionOn", expect.objectContaining({
+      objectId: "obj-10",
+      functionDeclaration: expect.stringContaining("removeAttribute"),
+      arguments: [{ value: attribute }],
+    }));
+    expect(session.send).toHaveBeenCalledWith("Runtime.releaseObject", { objectId: "obj-10" });
+
+    const byRole = await locateRef(page as unknown as Page, "e2", state);
+    expect(byRole.via).toBe("role");
+    expect(page.getByRole).toHaveBeenCalledWith("link", { name: "Home", exact: true });
+    // Lookups on one page share a CDP session
+    expect(newCDPSession).toHaveBeenCalledTimes(1);
+  });
+
+  it("uses the role query for refs without a recorded node and aria-ref in aria mode", async () => {
+    const { page } = nodePage([10]);
+    storeRefs("STABLE-C", { e1: { role: "button", name: "Save" } }, "role");
+    expect((await locateRef(page as unknown as Page, "e1", getStoredRefs("STABLE-C"))).via).toBe("role");
+
+    storeRefs("STABLE-D", { e1: { role: "button", name: "Save" } }, "aria");
+    const aria = await locateRef(page as unknown as Page, "e1", getStoredRefs("STABLE-D"));
+    expect(aria.via).toBe("aria");
+    expect(page.locator).toHaveBeenCalledWith("aria-ref=e1");
+  });
+});
@@ -20,7 +20,7 @@ const { mockLocator } = vi.hoisted(() => {
 
 vi.mock("../../src/browser.js", () => ({
   getPage: vi.fn().mockResolvedValue({}),
-  refLocator: vi.fn().mockReturnValue(mockLocator),
+  locateRef: vi.fn().mockResolvedValue({ locator: mockLocator, via: "role", release: async () => {} }),
   getStoredRefs: vi.fn().mockReturnValue({}),
 }));
 
@@ -119,6 +119,16 @@ describe("handleWaitVisible", () => {
     expect(mockLocator.waitFor).toHaveBeenCalledWith({ state: "visible", timeout: 1000 });
   });
 
+  it("stops waiting when the request is aborted", async () => {
+    const ctrl = new AbortController();
+    mockLocator.waitFor.mockImplementationOnce(async () => {
+      ctrl.abort(new Error("cancelled"));
+      throw Object.assign(new Error("Timeout 250ms exceeded"), { name: "TimeoutError" });
+    });
+    await expect(handleWaitVisible({ ref: "e1", timeoutMs: 10_000, signal: ctrl.signal })).rejects.toThrow("cancelled");
+    expect(mockLocator.waitFor).toHaveBeenCalledTimes(1);
+  });
+
   it("returns error on timeout", async () => {
     mockLocator.waitFor.mockRejectedValue(new Error("Timeout"));
     const result = await handleWaitVisible({ ref: "e1", timeoutMs: 100 });
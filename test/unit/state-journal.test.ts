@@ -0,0 +1,122 @@
+// Unit tests for state-journal.ts — debounced atomic writes, enable/disable, suspend and read-back
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, rmSync, existsSync, writeFileSync, readdirSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  StateJournal,
+  STATE_JOURNAL_VERSION,
+  readStateJournal,
+  type DaemonState,
+} from "../../src/state-journal.js";
+
+function makeState(overrides: Partial<DaemonState> = {}): DaemonState {
+  return {
+    version: STATE_JOURNAL_VERSION,
+    saved_at: new Date().toISOString(),
+    pid: process.pid,
+    dialog_mode: "accept",
+    observed: [],
+    leases: [],
+    routes: {},
+    emulation: {},
+    refs: [],
+    ...overrides,
+  };
+}
+
+describe("StateJournal", () => {
+  let dir: string;
+  let path: string;
+  let current: DaemonState;
+  let journal: StateJournal;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "jarvis-state-"));
+    path = join(dir, "state.json");
+    current = makeState();
+    journal = new StateJournal(() => path, () => current);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("ignores markDirty while disabled", async () => {
+    journal.markDirty();
+    await journal.flush();
+    expect(existsSync(path)).toBe(false);
+  });
+
+  it("writes the current state after a debounce once enabled", async () => {
+    await journal.setEnabled(true);
+    current = makeState({ observed: ["T1"], leases: [{ targetId: "T1", owner: "w1", ttlMs: 60_000 }] });
+    journal.markDirty();
+    await vi.waitFor(async () => {
+      expect((await readStateJournal(path))?.observed).toEqual(["T1"]);
+    }, { timeout: 2_000, interval: 50 });
+    expect(readdirSync(dir)).toEqual(["state.json"]); // temp file renamed away
+  });
+
+  it("flush writes pending changes immediately", async () => {
+    await journal.setEnabled(true);
+    current = makeState({ refs: ["T9"] });
+    journal.markDirty();
+    await journal.flush();
+    expect((await readStateJournal(path))?.refs).toEqual(["T9"]);
+  });
+
+  it("disabling removes the journal file", async () => {
+    await journal.setEnabled(true);
+    await journal.flush();
+    expect(existsSync(path)).toBe(true);
+    await journal.setEnabled(false);
+    expect(existsSync(path)).toBe(false);
+  });
+
+  it("holds writes while suspended and writes on resume", async () => {
+    writeFileSync(path, JSON.stringify(makeState({ observed: ["OLD"] })));
+    journal.suspend();
+    await journal.setEnabled(true);
+    current = makeState({ observed: ["NEW"] });
+    journal.markDirty();
+    await journal.flush();
+    expect((await readStateJournal(path))?.observed).toEqual(["OLD"]);
+
+    journal.resume();
+    await journal.flush();
+    expect((await readStateJournal(path))?.observed).toEqual(["NEW"]);
+  });
+
+  it("save writes even when journaling is off", async () => {
+    current = makeState({ dialog_mode: "queue" });
+    const saved = await journal.save();
+    expect(saved.dialog_mode).toBe("queue");
+    expect((await readStateJournal(path))?.dialog_mode).toBe("queue");
+  });
+});
+
+describe("readStateJournal", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "jarvis-state-read-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("returns null for missing, corrupt or other-version files", async () => {
+    expect(await readStateJournal(join(dir, "missing.json"))).toBeNull();
+
+    const corrupt = join(dir, "corrupt.json");
+    writeFileSync(corrupt, "{\"version\":1,");
+    expect(await readStateJournal(corrupt)).toBeNull();
+
+    const future = join(dir, "future.json");
+    writeFileSync(future, JSON.stringify(makeState({ version: STATE_JOURNAL_VERSION + 1 })));
+    expect(await readStateJournal(future)).toBeNull();
+  });
+});
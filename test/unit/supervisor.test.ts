@@ -0,0 +1,42 @@
+// Unit tests for supervisor.ts — Chrome restart budget and supervision events
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { ChromeSupervisor } from "../../src/supervisor.js";
+
+describe("ChromeSupervisor", () => {
+  let now: number;
+  let supervisor: ChromeSupervisor;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    supervisor = new ChromeSupervisor(() => now);
+    supervisor.setLimits({ maxRestarts: 2, windowMs: 60_000 });
+  });
+
+  it("allows maxRestarts within the window, then again once they age out", () => {
+    expect(supervisor.tryRestart()).toBe(true);
+    now += 10_000;
+    expect(supervisor.tryRestart()).toBe(true);
+    expect(supervisor.tryRestart()).toBe(false);
+    expect(supervisor.stats()).toMatchObject({ restarts_in_window: 2, max_restarts: 2, window_s: 60 });
+
+    now += 50_001; // the first restart is now outside the window
+    expect(supervisor.tryRestart()).toBe(true);
+    expect(supervisor.tryRestart()).toBe(false);
+  });
+
+  it("never restarts with maxRestarts 0", () => {
+    supervisor.setLimits({ maxRestarts: 0, windowMs: 60_000 });
+    expect(supervisor.tryRestart()).toBe(false);
+  });
+
+  it("keeps the most recent events with timestamps", () => {
+    for (let i = 0; i < 25; i++) supervisor.record({ type: "relaunch_failed", detail: `attempt ${i}` });
+    const event = supervisor.record({ type: "relaunched", pid: 42, remapped: { OLD: "NEW" } });
+    expect(event.at).toBe(new Date(now).toISOString());
+    const { events } = supervisor.stats();
+    expect(events).toHaveLength(20);
+    expect(events[0]).toMatchObject({ detail: "attempt 6" });
+    expect(events.at(-1)).toEqual(event);
+  });
+});
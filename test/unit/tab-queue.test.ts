@@ -0,0 +1,83 @@
+// Unit tests for tab-queue.ts — per-tab FIFO serialization and queue stats
+
+import { describe, it, expect } from "vitest";
+import { TabQueue } from "../../src/tab-queue.js";
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => { resolve = r; });
+  return { promise, resolve };
+}
+
+describe("TabQueue", () => {
+  it("runs calls on the same tab one at a time, in arrival order", async () => {
+    const queue = new TabQueue();
+    const order: string[] = [];
+    const gate = deferred();
+
+    const first = queue.run("T1", async () => { order.push("a:start"); await gate.promise; order.push("a:end"); });
+    const second = queue.run("T1", async () => { order.push("b"); });
+    await new Promise((r) => setTimeout(r, 10));
+    expect(order).toEqual(["a:start"]);
+    expect(queue.getStats()).toMatchObject({ waiting: 1, depth: { T1: 2 } });
+
+    gate.resolve();
+    await Promise.all([first, second]);
+    expect(order).toEqual(["a:start", "a:end", "b"]);
+  });
+
+  it("runs calls on different tabs concurrently", async () => {
+    const queue = new TabQueue();
+    const gate = deferred();
+    let running = 0;
+    let peak = 0;
+    const task = async () => { running++; peak = Math.max(peak, running); await gate.promise; running--; };
+
+    const all = Promise.all([queue.run("T1", task), queue.run("T2", task)]);
+    await new Promise((r) => setTimeout(r, 10));
+    gate.resolve();
+    await all;
+    expect(peak).toBe(2);
+  });
+
+  it("releases the lock when a call throws", async () => {
+    const queue = new TabQueue();
+    await expect(queue.run("T1", () => { throw new Error("boom"); })).rejects.toThrow("boom");
+    await expect(queue.run("T1", () => "next")).resolves.toBe("next");
+    expect(queue.getStats()).toMatchObject({ active_tabs: 0, waiting: 0, depth: {} });
+  });
+
+  it("skips a call aborted while waiting without breaking the order", async () => {
+    const queue = new TabQueue();
+    const gate = deferred();
+    const ctrl = new AbortController();
+    let ran = false;
+
+    const first = queue.run("T1", () => gate.promise);
+    const aborted = queue.run("T1", () => { ran = true; }, ctrl.signal);
+    const third = queue.run("T1", () => "third");
+    ctrl.abort(new Error("cancelled"));
+    gate.resolve();
+
+    await first;
+    await expect(aborted).rejects.toThrow("cancelled");
+    await expect(third).resolves.toBe("third");
+    expect(ran).toBe(false);
+  });
+
+  it("records contention and wait times", async () => {
+    const queue = new TabQueue();
+    const gate = deferred();
+    const first = queue.run("T1", () => gate.promise);
+    const second = queue.run("T1", () => undefined);
+    await new Promise((r) => setTimeout(r, 30));
+    gate.resolve();
+    await Promise.all([first, second]);
+
+    const stats = queue.getStats();
+    expect(stats.acquired).toBe(2);
+    expect(stats.contended).toBe(1);
+    expect(stats.max_wait_ms).toBeGreaterThanOrEqual(20);
+    expect(stats.avg_wait_ms).toBe(stats.max_wait_ms);
+  });
+});
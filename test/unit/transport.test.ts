@@ -0,0 +1,91 @@
+// Unit tests for transport.ts (WebSocket framing, token checks) and client.ts URL parsing / requests
+
+import net from "node:net";
+import { describe, it, expect } from "vitest";
+import {
+  encodeWsFrame,
+  decodeWsFrames,
+  websocketAcceptKey,
+  tokensMatch,
+  WS_OPCODES,
+} from "../../src/transport.js";
+import { parseDaemonUrl, sendRequest } from "../../src/client.js";
+
+const MASK = Buffer.from([1, 2, 3, 4]);
+
+describe("WebSocket framing", () => {
+  it("computes the RFC 6455 accept key", () => {
+    expect(websocketAcceptKey("dGhlIHNhbXBsZSBub25jZQ==")).toBe("s3pPLMBiTxaQ9kYGzzhZRbK+xOo=");
+  });
+
+  it("round-trips masked and unmasked frames", () => {
+    for (const mask of [undefined, MASK]) {
+      const frame = encodeWsFrame(WS_OPCODES.TEXT, Buffer.from('{"id":1}\n'), mask);
+      const { frames, rest } = decodeWsFrames(frame);
+      expect(rest.length).toBe(0);
+      expect(frames).toHaveLength(1);
+      expect(frames[0]).toMatchObject({ fin: true, opcode: WS_OPCODES.TEXT });
+      expect(frames[0].payload.toString()).toBe('{"id":1}\n');
+    }
+  });
+
+  it("handles 16-bit and 64-bit payload lengths", () => {
+    for (const size of [200, 70_000]) {
+      const payload = Buffer.alloc(size, "x");
+      const { frames } = decodeWsFrames(encodeWsFrame(WS_OPCODES.BINARY, payload, MASK));
+      expect(frames[0].payload.length).toBe(size);
+    }
+  });
+
+  it("keeps incomplete frames in the remainder", () => {
+    const a = encodeWsFrame(WS_OPCODES.TEXT, Buffer.from("one"), MASK);
+    const b = encodeWsFrame(WS_OPCODES.TEXT, Buffer.from("two"), MASK);
+    const joined = Buffer.concat([a, b.subarray(0, 3)]);
+    const { frames, rest } = decodeWsFrames(joined);
+    expect(frames.map((f) => f.payload.toString())).toEqual(["one"]);
+    expect(rest.length).toBe(3);
+  });
+});
+
+describe("tokensMatch", () => {
+  it("matches only the exact token", () => {
+    expect(tokensMatch("s3cret", "s3cret")).toBe(true);
+    expect(tokensMatch("s3cret", "s3cre")).toBe(false);
+    expect(tokensMatch("s3cret", undefined)).toBe(false);
+  });
+
+  it("never matches when no token is configured", () => {
+    expect(tokensMatch("", "")).toBe(false);
+  });
+});
+
+describe("parseDaemonUrl", () => {
+  it("parses tcp, tls and unix URLs", () => {
+    expect(parseDaemonUrl("tcp://10.0.0.5:9400")).toEqual({ kind: "tcp", host: "10.0.0.5", port: 9400 });
+    expect(parseDaemonUrl("tls://browser.internal:9443")).toEqual({ kind: "tls", host: "browser.internal", port: 9443 });
+    expect(parseDaemonUrl("unix:///tmp/custom.sock")).toEqual({ kind: "unix", path: "/tmp/custom.sock" });
+  });
+
+  it("rejects unsupported schemes and missing ports", () => {
+    expect(() => parseDaemonUrl("http://host:80")).toThrow(/Unsupported/);
+    expect(() => parseDaemonUrl("tcp://host")).toThrow(/Unsupported/);
+    expect(() => parseDaemonUrl("not a url")).toThrow(/Invalid/);
+  });
+});
+
+describe("sendRequest", () => {
+  it("rejects when the daemon closes the connection without replying", async () => {
+    const server = net.createServer((conn) => conn.once("data", () => conn.end()));
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as net.AddressInfo;
+    const socket = net.connect(port, "127.0.0.1");
+    try {
+      await new Promise<void>((resolve) => socket.once("connect", resolve));
+      await expect(sendRequest(socket, "daemon.status")).rejects.toThrow("closed the connection");
+      expect(socket.listenerCount("data")).toBe(0);
+    } finally {
+      socket.destroy();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+});